@@ -15,6 +15,8 @@
  * └─ BrowserRouter (Application Routing)
  *   ├─ Dashboard (/) - Main control center
  *   ├─ DataEntry (/data-entry) - Excel import functionality
+ *   ├─ BankReconciliation (/bank-reconciliation) - Statement vs bank book matching
+ *   ├─ GstReturns (/gst-returns) - GSTR-1/3B preparation and GSTR-2B reconciliation
  *   ├─ TallyGuide (/tally-guide) - Connection setup guide
  *   ├─ Download (/download) - Desktop app download
  *   ├─ Verification (/verification) - Data validation
@@ -67,6 +69,8 @@ import React, { Suspense } from "react";
 // Application Pages - Core Business Modules
 import Dashboard from "./pages/Dashboard";            // Main business dashboard with KPIs
 import DataEntry from "./pages/DataEntry";            // Data input and management forms
+import BankReconciliation from "./pages/BankReconciliation"; // Bank statement reconciliation
+import GstReturns from "./pages/GstReturns";      // GSTR-1 and GSTR-3B returns
 import Settings from "./pages/Settings";              // Application and user settings
 import Support from "./pages/Support";                // Help, documentation, and support
 import Verification from "./pages/Verification";      // Data verification and validation
@@ -191,6 +195,8 @@ const App = () => (
               </DashboardErrorBoundary>
             } />            {/* Data Management Routes */}
             <Route path="/data-entry" element={<DataEntry />} />
+            <Route path="/bank-reconciliation" element={<BankReconciliation />} />
+            <Route path="/gst-returns" element={<GstReturns />} />
             
             {/* Tally Configuration Guide */}
             <Route path="/tally-guide" element={<TallyGuide />} />
@@ -0,0 +1,187 @@
+/**
+ * BankRulesEditor Component
+ *
+ * Edits the rules that categorise bank statement lines. Rules are tried
+ * top to bottom and the first one whose conditions all match picks the
+ * counter-ledger and voucher type.
+ */
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  isValidRulePattern,
+  type BankChannel,
+  type BankDirection,
+  type BankRule,
+  type BankVoucherType
+} from '@/lib/bankStatement';
+
+const ANY = '__any__';
+
+const CHANNELS: BankChannel[] = ['UPI', 'NEFT', 'RTGS', 'IMPS', 'CHEQUE', 'ATM', 'CARD', 'CHARGES', 'INTEREST', 'OTHER'];
+const VOUCHER_TYPES: BankVoucherType[] = ['Payment', 'Receipt', 'Contra'];
+
+interface BankRulesEditorProps {
+  rules: BankRule[];
+  onChange: (rules: BankRule[]) => void;
+}
+
+const parseOptionalAmount = (value: string): number | undefined => (value.trim() === '' ? undefined : Number(value));
+
+export const BankRulesEditor: React.FC<BankRulesEditorProps> = ({ rules, onChange }) => {
+  const updateRule = (index: number, changes: Partial<BankRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: -1 | 1) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: `rule-${Date.now()}`, name: 'New rule', enabled: true, ledger: '' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">On</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Narration Pattern</TableHead>
+              <TableHead>Channel</TableHead>
+              <TableHead>Direction</TableHead>
+              <TableHead>Amount From</TableHead>
+              <TableHead>Amount To</TableHead>
+              <TableHead>Ledger</TableHead>
+              <TableHead>Voucher Type</TableHead>
+              <TableHead className="text-right">Order</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map((rule, index) => (
+              <TableRow key={rule.id}>
+                <TableCell>
+                  <Checkbox
+                    checked={rule.enabled}
+                    onCheckedChange={(checked) => updateRule(index, { enabled: checked === true })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input value={rule.name} onChange={(e) => updateRule(index, { name: e.target.value })} className="h-8 min-w-[8rem]" />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    value={rule.narrationPattern || ''}
+                    placeholder="e.g. SWIGGY|ZOMATO"
+                    onChange={(e) => updateRule(index, { narrationPattern: e.target.value || undefined })}
+                    className={`h-8 min-w-[9rem] font-mono text-xs ${isValidRulePattern(rule.narrationPattern) ? '' : 'border-red-500'}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={rule.channel || ANY}
+                    onValueChange={(value) => updateRule(index, { channel: value === ANY ? undefined : value as BankChannel })}
+                  >
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any</SelectItem>
+                      {CHANNELS.map(channel => (
+                        <SelectItem key={channel} value={channel}>{channel}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={rule.direction || ANY}
+                    onValueChange={(value) => updateRule(index, { direction: value === ANY ? undefined : value as BankDirection })}
+                  >
+                    <SelectTrigger className="h-8 w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any</SelectItem>
+                      <SelectItem value="withdrawal">Withdrawal</SelectItem>
+                      <SelectItem value="deposit">Deposit</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    value={rule.minAmount ?? ''}
+                    onChange={(e) => updateRule(index, { minAmount: parseOptionalAmount(e.target.value) })}
+                    className="h-8 w-24"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    value={rule.maxAmount ?? ''}
+                    onChange={(e) => updateRule(index, { maxAmount: parseOptionalAmount(e.target.value) })}
+                    className="h-8 w-24"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    value={rule.ledger}
+                    placeholder="Ledger or {counterparty}"
+                    onChange={(e) => updateRule(index, { ledger: e.target.value })}
+                    className="h-8 min-w-[9rem]"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={rule.voucherType || ANY}
+                    onValueChange={(value) => updateRule(index, { voucherType: value === ANY ? undefined : value as BankVoucherType })}
+                  >
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>By direction</SelectItem>
+                      {VOUCHER_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveRule(index, -1)}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" disabled={index === rules.length - 1} onClick={() => moveRule(index, 1)}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => onChange(rules.filter((_, i) => i !== index))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Button variant="outline" size="sm" onClick={addRule}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Rule
+      </Button>
+    </div>
+  );
+};
+
+export default BankRulesEditor;
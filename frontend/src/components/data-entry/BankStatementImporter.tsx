@@ -0,0 +1,412 @@
+/**
+ * BankStatementImporter Component
+ *
+ * Imports a bank statement downloaded from the bank, categorises each line
+ * with the saved rules and posts Receipt, Payment and Contra vouchers
+ * against the selected bank ledger. Lines no rule matches wait in the
+ * review grid until a ledger is chosen for them.
+ */
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Landmark, ListFilter, Loader2, Save, Send, Upload, Wand2 } from 'lucide-react';
+import tallySyncService from '@/services/TallySyncService';
+import ledgerResolverService from '@/services/LedgerResolverService';
+import BankRulesEditor from './BankRulesEditor';
+import LedgerNameHint from './LedgerNameHint';
+import {
+  categoriseTransactions,
+  escapeRulePattern,
+  isBankLineReady,
+  isValidRulePattern,
+  loadBankLedger,
+  loadBankRules,
+  saveBankLedger,
+  saveBankRules,
+  type BankLineStatus,
+  type BankRule,
+  type BankStatementLine,
+  type BankVoucherType,
+  type ParsedBankStatement
+} from '@/lib/bankStatement';
+import { DATE_CONVENTIONS, DEFAULT_DATE_CONVENTION, type DateConvention } from '@/lib/dateParsing';
+import { toast } from 'sonner';
+
+const STATUS_BADGES: Record<BankLineStatus, { label: string; className: string }> = {
+  matched: { label: 'Rule', className: 'bg-green-500' },
+  unmatched: { label: 'Review', className: 'bg-amber-500' },
+  reviewed: { label: 'Reviewed', className: 'bg-blue-500' }
+};
+
+const VOUCHER_TYPES: BankVoucherType[] = ['Payment', 'Receipt', 'Contra'];
+
+// YYYYMMDD as dd-mm-yyyy
+const displayDate = (date: string | null): string =>
+  date ? `${date.slice(6, 8)}-${date.slice(4, 6)}-${date.slice(0, 4)}` : '';
+
+const formatRupees = (amount: number): string =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const BankStatementImporter: React.FC = () => {
+  const [bankLedger, setBankLedger] = useState(loadBankLedger);
+  const [dateConvention, setDateConvention] = useState<DateConvention>(DEFAULT_DATE_CONVENTION);
+  const [file, setFile] = useState<File | null>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [sheetName, setSheetName] = useState('');
+  const [statement, setStatement] = useState<ParsedBankStatement | null>(null);
+  const [lines, setLines] = useState<BankStatementLine[]>([]);
+  const [rules, setRules] = useState<BankRule[]>(loadBankRules);
+  const [showRules, setShowRules] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [busy, setBusy] = useState<'read' | 'download' | 'sync' | null>(null);
+
+  // Re-run the rules on every line the user has not reviewed by hand
+  const recategorise = (current: BankStatementLine[], activeRules: BankRule[]): BankStatementLine[] => {
+    const categorised = categoriseTransactions(current, activeRules);
+    return current.map((line, index) => (line.status === 'reviewed' ? line : categorised[index]));
+  };
+
+  // Workbooks with a sheet per bank ledger are read one sheet at a time
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    const names = selected ? await tallySyncService.listSheetNames(selected) : [];
+    setSheetNames(names);
+    setSheetName(names[0] || '');
+  };
+
+  const handleReadStatement = async () => {
+    if (!file) return;
+
+    setBusy('read');
+    const result = await tallySyncService.parseBankStatementFile(file, dateConvention, sheetName || undefined);
+    setBusy(null);
+
+    if (!result.success || !result.statement) {
+      toast.error(result.message);
+      return;
+    }
+
+    const categorised = categoriseTransactions(result.statement.transactions, rules);
+    setStatement(result.statement);
+    setLines(categorised);
+    setShowAll(false);
+
+    const unmatched = categorised.filter(line => line.status === 'unmatched').length;
+    toast.success(unmatched > 0 ? `${result.message}; ${unmatched} need a ledger` : result.message);
+  };
+
+  const handleSaveRules = () => {
+    const invalid = rules.find(rule => !isValidRulePattern(rule.narrationPattern));
+    if (invalid) {
+      toast.error(`Rule "${invalid.name}" has an invalid narration pattern`);
+      return;
+    }
+
+    saveBankRules(rules);
+    setLines(current => recategorise(current, rules));
+    toast.success('Bank rules saved');
+  };
+
+  const updateLine = (id: string, changes: Partial<BankStatementLine>) => {
+    setLines(current => current.map(line => (line.id === id ? { ...line, ...changes, status: 'reviewed' } : line)));
+  };
+
+  // Remember the ledger chosen for a line as a rule for similar lines
+  const createRuleFromLine = (line: BankStatementLine) => {
+    const match = line.counterparty || line.narration.split(/[/\-]/)[0].trim();
+    const rule: BankRule = {
+      id: `rule-${Date.now()}`,
+      name: `${match} → ${line.ledger}`,
+      enabled: true,
+      narrationPattern: escapeRulePattern(match),
+      direction: line.direction,
+      ledger: line.ledger.trim(),
+      voucherType: line.voucherType
+    };
+
+    const nextRules = [...rules, rule];
+    setRules(nextRules);
+    saveBankRules(nextRules);
+    setLines(current => recategorise(current, nextRules));
+    toast.success(`Rule added for "${match}"`);
+  };
+
+  const handleExport = async (action: 'download' | 'sync') => {
+    if (!bankLedger.trim()) {
+      toast.error('Enter the bank ledger the statement belongs to');
+      return;
+    }
+
+    const ready = lines.filter(isBankLineReady);
+    if (ready.length === 0) {
+      toast.error('No lines are ready to post. Choose a ledger for each line first.');
+      return;
+    }
+
+    // Contra vouchers may only move money between cash and bank ledgers
+    if (ledgerResolverService.isCashOrBankLedger(bankLedger.trim()) === false) {
+      toast.error(`${bankLedger.trim()} is not under Bank Accounts or Cash-in-Hand in Tally`);
+      return;
+    }
+    const invalidContra = ready.find(line => line.voucherType === 'Contra' && ledgerResolverService.isCashOrBankLedger(line.ledger) === false);
+    if (invalidContra) {
+      toast.error(`Row ${invalidContra.rowNumber}: ${invalidContra.ledger} is not a cash or bank ledger; post the line as a Payment or Receipt`);
+      return;
+    }
+
+    saveBankLedger(bankLedger.trim());
+    const { xmlContent, fileName, vouchers } = tallySyncService.generateBankStatementXML(ready, bankLedger.trim());
+    const skipped = lines.length - ready.length;
+    if (skipped > 0) {
+      toast.warning(`${skipped} line(s) without a ledger or date were left out`);
+    }
+
+    setBusy(action);
+    try {
+      if (action === 'download') {
+        tallySyncService.downloadXMLFile(xmlContent, fileName);
+        return;
+      }
+
+      const syncResult = await tallySyncService.syncToTally(xmlContent, vouchers);
+      if (syncResult.success) {
+        toast.success(syncResult.message);
+      } else if (syncResult.importResult) {
+        toast.error(`${syncResult.importResult.failed} voucher(s) were rejected by Tally. See the Verification page for details.`);
+      } else {
+        toast.error(syncResult.message);
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const reviewCount = lines.filter(line => !isBankLineReady(line)).length;
+  const visibleLines = showAll ? lines : lines.filter(line => line.status !== 'matched' || !isBankLineReady(line));
+  const totals = lines.reduce(
+    (sum, line) => ({
+      withdrawals: sum.withdrawals + (line.direction === 'withdrawal' ? line.amount : 0),
+      deposits: sum.deposits + (line.direction === 'deposit' ? line.amount : 0)
+    }),
+    { withdrawals: 0, deposits: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Landmark className="h-5 w-5" />
+            <span>Bank Statement Import</span>
+          </CardTitle>
+          <CardDescription>
+            Upload a statement downloaded from your bank (CSV or Excel). Each line is categorised by your rules into a
+            Receipt, Payment or Contra voucher against the bank ledger.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="bankLedger">Bank Ledger</Label>
+              <Input
+                id="bankLedger"
+                value={bankLedger}
+                placeholder="e.g. HDFC Bank A/c"
+                onChange={(e) => setBankLedger(e.target.value)}
+                className="mt-1"
+              />
+              {bankLedger && <LedgerNameHint value={bankLedger} onSelect={setBankLedger} />}
+            </div>
+            <div>
+              <Label htmlFor="bankDateConvention">Date Format</Label>
+              <Select value={dateConvention} onValueChange={(value) => setDateConvention(value as DateConvention)}>
+                <SelectTrigger id="bankDateConvention" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_CONVENTIONS.map(convention => (
+                    <SelectItem key={convention.value} value={convention.value}>{convention.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="bankStatementFile">Statement File</Label>
+              <Input
+                id="bankStatementFile"
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                className="mt-1"
+              />
+            </div>
+            {sheetNames.length > 1 && (
+              <div>
+                <Label htmlFor="bankStatementSheet">Sheet</Label>
+                <Select value={sheetName} onValueChange={setSheetName}>
+                  <SelectTrigger id="bankStatementSheet" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sheetNames.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleReadStatement} disabled={!file || busy !== null}>
+              {busy === 'read' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Read Statement
+            </Button>
+            <Button variant="outline" onClick={() => setShowRules(!showRules)}>
+              <Wand2 className="h-4 w-4 mr-2" />
+              {showRules ? 'Hide Rules' : `Rules (${rules.length})`}
+            </Button>
+          </div>
+
+          {showRules && (
+            <div className="space-y-3 rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">
+                Rules are tried from the top; the first rule whose conditions all match sets the ledger. Use
+                {' {counterparty}'} in the ledger to post to the payer or payee named in UPI, NEFT, IMPS and RTGS narrations.
+              </p>
+              <BankRulesEditor rules={rules} onChange={setRules} />
+              <Button size="sm" onClick={handleSaveRules}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Rules
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {statement && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Review Lines</span>
+              <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)}>
+                <ListFilter className="h-4 w-4 mr-2" />
+                {showAll ? 'Show lines needing review' : `Show all ${lines.length} lines`}
+              </Button>
+            </CardTitle>
+            <CardDescription>
+              {lines.length} transactions from row {statement.headerRow + 1}: withdrawals ₹{formatRupees(totals.withdrawals)},
+              deposits ₹{formatRupees(totals.deposits)}. {reviewCount > 0 ? `${reviewCount} line(s) still need a ledger or date.` : 'All lines are ready.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Narration</TableHead>
+                    <TableHead className="text-right">Withdrawal</TableHead>
+                    <TableHead className="text-right">Deposit</TableHead>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Ledger</TableHead>
+                    <TableHead>Voucher Type</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleLines.map(line => (
+                    <TableRow key={line.id}>
+                      <TableCell>{line.rowNumber}</TableCell>
+                      <TableCell className={line.date ? '' : 'text-red-600'} title={line.dateError}>
+                        {line.date ? displayDate(line.date) : 'Invalid date'}
+                      </TableCell>
+                      <TableCell className="max-w-[18rem] text-xs" title={line.narration}>
+                        <div className="truncate">{line.narration}</div>
+                        {line.reference && <div className="text-muted-foreground">Ref {line.reference}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{line.direction === 'withdrawal' ? formatRupees(line.amount) : ''}</TableCell>
+                      <TableCell className="text-right">{line.direction === 'deposit' ? formatRupees(line.amount) : ''}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{line.channel}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={line.ledger}
+                          placeholder={line.counterparty || 'Counter ledger'}
+                          onChange={(e) => updateLine(line.id, { ledger: e.target.value })}
+                          className="h-8 min-w-[10rem]"
+                        />
+                        {line.ledger && (
+                          <LedgerNameHint value={line.ledger} onSelect={(ledger) => updateLine(line.id, { ledger })} />
+                        )}
+                        {!line.ledger && line.counterparty && (
+                          <button
+                            type="button"
+                            className="mt-1 text-xs text-blue-600 hover:underline"
+                            onClick={() => updateLine(line.id, { ledger: line.counterparty })}
+                          >
+                            Use {line.counterparty}
+                          </button>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={line.voucherType}
+                          onValueChange={(value) => updateLine(line.id, { voucherType: value as BankVoucherType })}
+                        >
+                          <SelectTrigger className="h-8 w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {VOUCHER_TYPES.map(type => (
+                              <SelectItem key={type} value={type}>{type}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_BADGES[line.status].className}>{STATUS_BADGES[line.status].label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {line.status === 'reviewed' && line.ledger.trim() && (
+                          <Button variant="ghost" size="sm" title="Create a rule from this line" onClick={() => createRuleFromLine(line)}>
+                            <Wand2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {visibleLines.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">Every line was categorised by a rule.</p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => handleExport('sync')} disabled={busy !== null}>
+                {busy === 'sync' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                Sync to Tally
+              </Button>
+              <Button variant="outline" onClick={() => handleExport('download')} disabled={busy !== null}>
+                <Download className="h-4 w-4 mr-2" />
+                Download XML
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default BankStatementImporter;
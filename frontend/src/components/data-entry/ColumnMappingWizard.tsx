@@ -0,0 +1,363 @@
+/**
+ * ColumnMappingWizard Component
+ *
+ * Interactive mapping step after an Excel upload. Each source column gets
+ * a suggested target field with a confidence score, a transformation and
+ * an optional default value. The mapping can be saved as a named profile
+ * so sheets with the same headers map automatically next time.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Columns } from 'lucide-react';
+import tallySyncService from '@/services/TallySyncService';
+import type { FieldMapping } from '@/services/TallyService';
+import {
+  AUTO_MAP_CONFIDENCE,
+  MAPPING_FIELDS,
+  TRANSFORMATIONS,
+  defaultTransformation,
+  mappingFieldsFor,
+  saveMappingProfile,
+  suggestMappings,
+  type FieldTransformation,
+  type MappingSuggestion,
+  type MappingTemplateType
+} from '@/lib/columnMapping';
+import { DATE_CONVENTIONS, DEFAULT_DATE_CONVENTION, type DateConvention } from '@/lib/dateParsing';
+import { toast } from 'sonner';
+
+interface ColumnMappingWizardProps {
+  open: boolean;
+  /** Parsed upload from TallySyncService.processExcelFileClientSide */
+  data: any | null;
+  onOpenChange: (open: boolean) => void;
+  onApply: (mappedData: any) => void;
+}
+
+interface ColumnMappingRow {
+  excelColumn: string;
+  tallyField: string;
+  confidence: number;
+  transformation: FieldTransformation | 'none';
+  defaultValue: string;
+}
+
+const IGNORE = '__keep__';
+
+const TEMPLATE_LABELS: Record<MappingTemplateType, string> = {
+  sales: 'Sales',
+  purchase: 'Purchase',
+  payment: 'Payment',
+  receipt: 'Receipt',
+  journal: 'Journal',
+  contra: 'Contra',
+  creditNote: 'Credit Notes',
+  debitNote: 'Debit Notes',
+  ledger: 'Ledger Masters',
+  stock: 'Stock Item Masters',
+  general: 'General'
+};
+
+const confidenceBadge = (confidence: number) => {
+  if (confidence >= AUTO_MAP_CONFIDENCE) return <Badge className="bg-green-500">{Math.round(confidence * 100)}%</Badge>;
+  if (confidence > 0) return <Badge className="bg-yellow-500">{Math.round(confidence * 100)}%</Badge>;
+  return <Badge variant="outline">Manual</Badge>;
+};
+
+// Editable rows from the current mapping, falling back to suggestions
+const buildRows = (data: any, templateType: string, useCurrent: boolean): ColumnMappingRow[] => {
+  const suggestions: MappingSuggestion[] = useCurrent && data.suggestions
+    ? data.suggestions
+    : suggestMappings(data.headers, templateType, data.rawRows);
+  const current: FieldMapping[] = useCurrent ? data.mappings || [] : [];
+
+  return (data.headers as string[]).map(header => {
+    const mapping = current.find(entry => entry.excelColumn === header);
+    const suggestion = suggestions.find(entry => entry.excelColumn === header);
+    const tallyField = useCurrent && data.mappings ? mapping?.tallyField : suggestion?.tallyField;
+
+    return {
+      excelColumn: header,
+      tallyField: tallyField || IGNORE,
+      confidence: suggestion?.tallyField === tallyField ? suggestion?.confidence || 0 : 0,
+      transformation: (mapping ? mapping.transformation : suggestion?.transformation) || 'none',
+      defaultValue: mapping?.defaultValue || ''
+    };
+  });
+};
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  open,
+  data,
+  onOpenChange,
+  onApply
+}) => {
+  const [templateType, setTemplateType] = useState<string>('general');
+  const [dateConvention, setDateConvention] = useState<DateConvention>(DEFAULT_DATE_CONVENTION);
+  const [rows, setRows] = useState<ColumnMappingRow[]>([]);
+  const [constants, setConstants] = useState<Record<string, string>>({});
+  const [profileName, setProfileName] = useState('');
+  const [saveProfile, setSaveProfile] = useState(true);
+
+  useEffect(() => {
+    if (!open || !data) return;
+    setTemplateType(data.templateType);
+    setDateConvention(data.dateConvention || DEFAULT_DATE_CONVENTION);
+    setRows(buildRows(data, data.templateType, true));
+    setConstants(
+      Object.fromEntries(
+        (data.mappings || [])
+          .filter((mapping: FieldMapping) => !mapping.excelColumn && mapping.defaultValue)
+          .map((mapping: FieldMapping) => [mapping.tallyField, mapping.defaultValue])
+      )
+    );
+    setProfileName(data.mappingProfile || '');
+  }, [open, data]);
+
+  const targets = useMemo(() => mappingFieldsFor(templateType), [templateType]);
+  const mappedFields = new Set(rows.map(row => row.tallyField).filter(field => field !== IGNORE));
+  const unmappedTargets = targets.filter(target => !mappedFields.has(target.key));
+  const missingRequired = unmappedTargets.filter(target => target.required && !constants[target.key]);
+
+  const updateRow = (index: number, updates: Partial<ColumnMappingRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const handleFieldChange = (index: number, tallyField: string) => {
+    const target = targets.find(entry => entry.key === tallyField);
+    setRows(prev => prev.map((row, i) => {
+      if (i === index) {
+        return {
+          ...row,
+          tallyField,
+          confidence: 0,
+          transformation: target ? defaultTransformation(target) : 'none'
+        };
+      }
+      // A field is read from one column only
+      return row.tallyField === tallyField && tallyField !== IGNORE ? { ...row, tallyField: IGNORE, confidence: 0 } : row;
+    }));
+  };
+
+  const handleTemplateChange = (value: string) => {
+    setTemplateType(value);
+    setRows(buildRows(data, value, false));
+    setConstants({});
+  };
+
+  const handleApply = () => {
+    if (!data) return;
+
+    const mappings: FieldMapping[] = [
+      ...rows
+        .filter(row => row.tallyField !== IGNORE)
+        .map(row => ({
+          excelColumn: row.excelColumn,
+          tallyField: row.tallyField,
+          transformation: row.transformation === 'none' ? undefined : row.transformation,
+          defaultValue: row.defaultValue || undefined
+        })),
+      ...unmappedTargets
+        .filter(target => constants[target.key])
+        .map(target => ({ excelColumn: '', tallyField: target.key, defaultValue: constants[target.key] }))
+    ];
+
+    const mappedData = tallySyncService.remapExcelData(data, mappings, templateType, dateConvention);
+
+    if (saveProfile) {
+      const name = profileName.trim() || `${TEMPLATE_LABELS[templateType as MappingTemplateType] || templateType} mapping`;
+      saveMappingProfile({ name, templateType: templateType as MappingTemplateType, dateConvention, mappings }, data.headers);
+      mappedData.mappingProfile = name;
+      toast.success(`Mapping profile "${name}" saved`);
+    }
+
+    onApply(mappedData);
+    onOpenChange(false);
+  };
+
+  if (!data) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns className="h-5 w-5" />
+            Map Columns
+          </DialogTitle>
+          <DialogDescription>
+            Check which field each column of your sheet fills. Columns left as "Keep as is" are passed through
+            unchanged, so GST slab and tax columns can stay unmapped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 max-w-xl">
+            <div>
+              <Label htmlFor="mappingTemplate">Import As</Label>
+              <Select value={templateType} onValueChange={handleTemplateChange}>
+                <SelectTrigger id="mappingTemplate" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(MAPPING_FIELDS).map(type => (
+                    <SelectItem key={type} value={type}>{TEMPLATE_LABELS[type as MappingTemplateType]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="mappingDateConvention">Date Format</Label>
+              <Select value={dateConvention} onValueChange={(value) => setDateConvention(value as DateConvention)}>
+                <SelectTrigger id="mappingDateConvention" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_CONVENTIONS.map(convention => (
+                    <SelectItem key={convention.value} value={convention.value}>{convention.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sheet Column</TableHead>
+                <TableHead>Sample</TableHead>
+                <TableHead>Field</TableHead>
+                <TableHead>Confidence</TableHead>
+                <TableHead>Transformation</TableHead>
+                <TableHead>Default</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => (
+                <TableRow key={row.excelColumn}>
+                  <TableCell className="font-medium">{row.excelColumn}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-[10rem] truncate">
+                    {String(data.rawRows[0]?.[row.excelColumn] ?? '')}
+                  </TableCell>
+                  <TableCell>
+                    <Select value={row.tallyField} onValueChange={(value) => handleFieldChange(index, value)}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>Keep as is</SelectItem>
+                        {targets.map(target => (
+                          <SelectItem key={target.key} value={target.key}>
+                            {target.name}{target.required ? ' *' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>{row.tallyField !== IGNORE && confidenceBadge(row.confidence)}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={row.transformation}
+                      onValueChange={(value) => updateRow(index, { transformation: value as ColumnMappingRow['transformation'] })}
+                      disabled={row.tallyField === IGNORE}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        {TRANSFORMATIONS.map(transformation => (
+                          <SelectItem key={transformation.value} value={transformation.value}>
+                            {transformation.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={row.defaultValue}
+                      onChange={(e) => updateRow(index, { defaultValue: e.target.value })}
+                      placeholder="If empty"
+                      disabled={row.tallyField === IGNORE}
+                      className="w-28"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {unmappedTargets.length > 0 && (
+            <div className="space-y-2">
+              <Label>Fields Not in the Sheet</Label>
+              <p className="text-xs text-muted-foreground">Set a value to use for every row, or leave empty.</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {unmappedTargets.map(target => (
+                  <div key={target.key} className="flex items-center gap-2">
+                    <Label htmlFor={`constant-${target.key}`} className="w-40 text-sm">
+                      {target.name}{target.required ? ' *' : ''}
+                    </Label>
+                    <Input
+                      id={`constant-${target.key}`}
+                      value={constants[target.key] || ''}
+                      onChange={(e) => setConstants(prev => ({ ...prev, [target.key]: e.target.value }))}
+                      placeholder={target.example}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {missingRequired.length > 0 && (
+            <div className="flex items-start gap-2 text-sm text-yellow-700">
+              <AlertCircle className="h-4 w-4 mt-0.5" />
+              <span>Required fields without a column or value: {missingRequired.map(target => target.name).join(', ')}</span>
+            </div>
+          )}
+
+          <div className="flex flex-col md:flex-row md:items-center gap-3 pt-2 border-t">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="saveMappingProfile"
+                checked={saveProfile}
+                onCheckedChange={(checked) => setSaveProfile(checked === true)}
+              />
+              <Label htmlFor="saveMappingProfile" className="text-sm">Save as profile for sheets with these columns</Label>
+            </div>
+            <Input
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Profile name, e.g. client name"
+              disabled={!saveProfile}
+              className="md:max-w-xs"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleApply}>Apply Mapping</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -1,24 +1,37 @@
 /**
  * GST Calculator Component
- * 
+ *
  * Provides automatic GST calculations for the new template structure
- * Handles 5%, 12%, and 18% GST rates with CGST and SGST calculations
+ * Uses the configured GST slab table and splits tax into CGST/SGST or IGST
+ * depending on the place of supply
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calculator, Info } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  calculateGst,
+  determineSupplyType,
+  getActiveSlabs,
+  roundToPaise,
+  slabFieldKey,
+  slabFieldLabel,
+  type SupplyType
+} from '@/lib/gst';
 
-interface GSTCalculation {
-  amount5: number;
-  amount12: number;
-  amount18: number;
+export interface GSTCalculation {
+  /** Taxable amounts keyed by slab field key (see slabFieldKey) */
+  amounts: Record<string, number>;
+  supplyType: SupplyType;
   cgst: number;
   sgst: number;
+  igst: number;
+  cess: number;
   total: number;
 }
 
@@ -26,61 +39,84 @@ interface GSTCalculatorProps {
   onCalculationChange?: (calculation: GSTCalculation) => void;
   initialValues?: Partial<GSTCalculation>;
   templateType?: 'sales' | 'purchase';
+  partyGstin?: string;
+  placeOfSupply?: string;
 }
 
-export function GSTCalculator({ onCalculationChange, initialValues, templateType = 'purchase' }: GSTCalculatorProps) {
+const emptyCalculation = (supplyType: SupplyType): GSTCalculation => ({
+  amounts: {},
+  supplyType,
+  cgst: 0,
+  sgst: 0,
+  igst: 0,
+  cess: 0,
+  total: 0
+});
+
+export function GSTCalculator({
+  onCalculationChange,
+  initialValues,
+  templateType = 'purchase',
+  partyGstin,
+  placeOfSupply
+}: GSTCalculatorProps) {
+  const slabs = useMemo(() => getActiveSlabs(), []);
+  const detectedSupplyType = determineSupplyType({ partyGstin, placeOfSupply });
+
   const [values, setValues] = useState<GSTCalculation>({
-    amount5: 0,
-    amount12: 0,
-    amount18: 0,
-    cgst: 0,
-    sgst: 0,
-    total: 0,
+    ...emptyCalculation(detectedSupplyType),
     ...initialValues
   });
 
   const [autoCalculate, setAutoCalculate] = useState(true);
 
-  // Calculate GST automatically when purchase amounts change
+  // Follow the party's place of supply until the user overrides it
+  useEffect(() => {
+    setValues(prev => ({ ...prev, supplyType: detectedSupplyType }));
+  }, [detectedSupplyType]);
+
+  // Calculate GST automatically when slab amounts or supply type change
   useEffect(() => {
     if (autoCalculate) {
       calculateGST();
     }
-  }, [values.amount5, values.amount12, values.amount18, autoCalculate]);
+  }, [JSON.stringify(values.amounts), values.supplyType, autoCalculate]);
 
   const calculateGST = () => {
-    const { amount5, amount12, amount18 } = values;
-    
-    // Calculate GST for each slab
-    const gst5 = amount5 * 0.05;
-    const gst12 = amount12 * 0.12;
-    const gst18 = amount18 * 0.18;
-    
-    // Total GST
-    const totalGST = gst5 + gst12 + gst18;
-    
-    // CGST and SGST are half of total GST each
-    const cgst = totalGST / 2;
-    const sgst = totalGST / 2;
-    
-    // Total amount including GST
-    const total = amount5 + amount12 + amount18 + totalGST;
+    const result = calculateGst(
+      slabs.map(slab => ({
+        rate: slab.rate,
+        cessRate: slab.cessRate,
+        taxableAmount: values.amounts[slabFieldKey(slab)] || 0
+      })),
+      values.supplyType
+    );
 
     const newCalculation = {
       ...values,
-      cgst,
-      sgst,
-      total
+      cgst: result.cgst,
+      sgst: result.sgst,
+      igst: result.igst,
+      cess: result.cess,
+      total: result.total
     };
 
     setValues(newCalculation);
-    
+
     if (onCalculationChange) {
       onCalculationChange(newCalculation);
     }
   };
 
-  const handleInputChange = (field: keyof GSTCalculation, value: string) => {
+  const handleAmountChange = (key: string, value: string) => {
+    const numValue = parseFloat(value) || 0;
+    setValues(prev => ({
+      ...prev,
+      amounts: { ...prev.amounts, [key]: numValue }
+    }));
+  };
+
+  const handleInputChange = (field: 'cgst' | 'sgst' | 'igst' | 'cess' | 'total', value: string) => {
     const numValue = parseFloat(value) || 0;
     setValues(prev => ({
       ...prev,
@@ -89,25 +125,32 @@ export function GSTCalculator({ onCalculationChange, initialValues, templateType
   };
 
   const clearAll = () => {
-    const cleared = {
-      amount5: 0,
-      amount12: 0,
-      amount18: 0,
-      cgst: 0,
-      sgst: 0,
-      total: 0
-    };
+    const cleared = emptyCalculation(values.supplyType);
     setValues(cleared);
     if (onCalculationChange) {
       onCalculationChange(cleared);
     }
   };
 
-  // Get field labels based on template type
-  const getFieldLabel = (rate: number) => {
-    const baseLabel = templateType === 'sales' ? 'Sales' : 'Purchase';
-    return `${baseLabel} ${rate}%`;
-  };
+  const prefix = templateType === 'sales' ? 'Sales' : 'Purchase';
+  const subtotal = roundToPaise(Object.values(values.amounts).reduce((sum, amount) => sum + amount, 0));
+  const totalTax = roundToPaise(values.cgst + values.sgst + values.igst + values.cess);
+  const hasCess = slabs.some(slab => slab.cessRate > 0);
+
+  const renderTaxField = (field: 'cgst' | 'sgst' | 'igst' | 'cess', label: string) => (
+    <div className="space-y-2" key={field}>
+      <Label htmlFor={field}>{label} (₹)</Label>
+      <Input
+        id={field}
+        type="number"
+        step="0.01"
+        value={values[field].toFixed(2)}
+        onChange={(e) => !autoCalculate && handleInputChange(field, e.target.value)}
+        readOnly={autoCalculate}
+        className={autoCalculate ? "bg-muted" : ""}
+      />
+    </div>
+  );
 
   return (
     <Card>
@@ -124,85 +167,59 @@ export function GSTCalculator({ onCalculationChange, initialValues, templateType
         <Alert>
           <Info className="h-4 w-4" />
           <AlertDescription>
-            Enter amounts for different GST rates. CGST and SGST will be calculated automatically.
+            Enter amounts for different GST rates. Intra-state supplies are split into CGST and SGST,
+            inter-state supplies attract IGST. Slabs can be changed under Settings.
           </AlertDescription>
         </Alert>
 
+        {/* Supply type */}
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="supplyType">Supply Type</Label>
+          <Select
+            value={values.supplyType}
+            onValueChange={(value) => setValues(prev => ({ ...prev, supplyType: value as SupplyType }))}
+          >
+            <SelectTrigger id="supplyType">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="intra">Intra-state (CGST + SGST)</SelectItem>
+              <SelectItem value="inter">Inter-state (IGST)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Purchase/Sales Amount Inputs */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div className="space-y-2">
-            <Label htmlFor="amount5">{getFieldLabel(5)} (₹)</Label>
-            <Input
-              id="amount5"
-              type="number"
-              step="0.01"
-              value={values.amount5}
-              onChange={(e) => handleInputChange('amount5', e.target.value)}
-              placeholder="0.00"
-            />
-            <div className="text-xs text-muted-foreground">
-              GST: ₹{(values.amount5 * 0.05).toFixed(2)}
-            </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="amount12">{getFieldLabel(12)} (₹)</Label>
-            <Input
-              id="amount12"
-              type="number"
-              step="0.01"
-              value={values.amount12}
-              onChange={(e) => handleInputChange('amount12', e.target.value)}
-              placeholder="0.00"
-            />
-            <div className="text-xs text-muted-foreground">
-              GST: ₹{(values.amount12 * 0.12).toFixed(2)}
-            </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="amount18">{getFieldLabel(18)} (₹)</Label>
-            <Input
-              id="amount18"
-              type="number"
-              step="0.01"
-              value={values.amount18}
-              onChange={(e) => handleInputChange('amount18', e.target.value)}
-              placeholder="0.00"
-            />
-            <div className="text-xs text-muted-foreground">
-              GST: ₹{(values.amount18 * 0.18).toFixed(2)}
-            </div>
-          </div>
+          {slabs.map(slab => {
+            const key = slabFieldKey(slab);
+            const amount = values.amounts[key] || 0;
+            return (
+              <div className="space-y-2" key={key}>
+                <Label htmlFor={key}>{slabFieldLabel(prefix, slab)} (₹)</Label>
+                <Input
+                  id={key}
+                  type="number"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => handleAmountChange(key, e.target.value)}
+                  placeholder="0.00"
+                />
+                <div className="text-xs text-muted-foreground">
+                  GST: ₹{((amount * slab.rate) / 100).toFixed(2)}
+                  {slab.cessRate > 0 && ` + Cess: ₹${((amount * slab.cessRate) / 100).toFixed(2)}`}
+                </div>
+              </div>
+            );
+          })}
         </div>
 
         {/* GST Breakdown */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t">
-          <div className="space-y-2">
-            <Label htmlFor="cgst">CGST (₹)</Label>
-            <Input
-              id="cgst"
-              type="number"
-              step="0.01"
-              value={values.cgst.toFixed(2)}
-              onChange={(e) => !autoCalculate && handleInputChange('cgst', e.target.value)}
-              readOnly={autoCalculate}
-              className={autoCalculate ? "bg-muted" : ""}
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="sgst">SGST (₹)</Label>
-            <Input
-              id="sgst"
-              type="number"
-              step="0.01"
-              value={values.sgst.toFixed(2)}
-              onChange={(e) => !autoCalculate && handleInputChange('sgst', e.target.value)}
-              readOnly={autoCalculate}
-              className={autoCalculate ? "bg-muted" : ""}
-            />
-          </div>
+          {values.supplyType === 'intra'
+            ? [renderTaxField('cgst', 'CGST'), renderTaxField('sgst', 'SGST')]
+            : renderTaxField('igst', 'IGST')}
+          {hasCess && renderTaxField('cess', 'Cess')}
         </div>
 
         {/* Total Amount */}
@@ -249,10 +266,17 @@ export function GSTCalculator({ onCalculationChange, initialValues, templateType
         <div className="bg-muted rounded-lg p-4 mt-4">
           <h4 className="font-medium mb-2">Calculation Summary</h4>
           <div className="grid grid-cols-2 gap-2 text-sm">
-            <div>Subtotal: ₹{(values.amount5 + values.amount12 + values.amount18).toFixed(2)}</div>
-            <div>Total GST: ₹{(values.cgst + values.sgst).toFixed(2)}</div>
-            <div>CGST (50%): ₹{values.cgst.toFixed(2)}</div>
-            <div>SGST (50%): ₹{values.sgst.toFixed(2)}</div>
+            <div>Subtotal: ₹{subtotal.toFixed(2)}</div>
+            <div>Total GST: ₹{totalTax.toFixed(2)}</div>
+            {values.supplyType === 'intra' ? (
+              <>
+                <div>CGST (50%): ₹{values.cgst.toFixed(2)}</div>
+                <div>SGST (50%): ₹{values.sgst.toFixed(2)}</div>
+              </>
+            ) : (
+              <div>IGST: ₹{values.igst.toFixed(2)}</div>
+            )}
+            {hasCess && <div>Cess: ₹{values.cess.toFixed(2)}</div>}
             <div className="col-span-2 font-semibold pt-2 border-t">
               Grand Total: ₹{values.total.toFixed(2)}
             </div>
@@ -0,0 +1,312 @@
+/**
+ * Gstr2bReconciliation Component
+ *
+ * Reconciles the GSTR-2B statement from the GST portal with purchases,
+ * either the purchase register in Tally for the period or a purchase
+ * import file not yet pushed. Results fall in four buckets; each line
+ * links to the voucher, or the import rows, it was paired with.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, FileSpreadsheet, GitCompare, Loader2, Upload } from 'lucide-react';
+import tallySyncService from '@/services/TallySyncService';
+import { getTallyService, type TallyGSTDetails } from '@/services/TallyService';
+import {
+  DEFAULT_GSTR2B_MATCH_OPTIONS,
+  DOCUMENT_TYPE_LABELS,
+  GSTR2B_STATUS_LABELS,
+  gstr2bSheets,
+  matchGstr2b,
+  toBookPurchases,
+  type Gstr2bStatement,
+  type Gstr2bStatus
+} from '@/lib/gstr2b';
+import { loadGstConfig } from '@/lib/gst';
+import { currentCompanyName } from '@/lib/voucherIdentity';
+import { toast } from 'sonner';
+
+const STATUS_BADGES: Record<Gstr2bStatus, string> = {
+  matched: 'bg-green-500',
+  mismatched: 'bg-amber-500',
+  missingInBooks: 'bg-red-500',
+  missingIn2b: 'bg-blue-500'
+};
+
+type BookSource = 'tally' | 'import';
+
+// YYYYMMDD as dd-mm-yyyy
+const displayDate = (date: string | null | undefined): string =>
+  date ? `${date.slice(6, 8)}-${date.slice(4, 6)}-${date.slice(0, 4)}` : '';
+
+const formatRupees = (amount: number): string =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const taxOf = (amounts: { igst: number; cgst: number; sgst: number; cess: number }): number =>
+  amounts.igst + amounts.cgst + amounts.sgst + amounts.cess;
+
+interface Gstr2bReconciliationProps {
+  month: string;
+  year: string;
+  /** The 2B file names its return period; the page follows it */
+  onPeriodChange: (month: string, year: string) => void;
+  onDrill: (drill: { title: string; rows: TallyGSTDetails[] }) => void;
+}
+
+export const Gstr2bReconciliation: React.FC<Gstr2bReconciliationProps> = ({ month, year, onPeriodChange, onDrill }) => {
+  const [statement, setStatement] = useState<Gstr2bStatement | null>(null);
+  const [bookSource, setBookSource] = useState<BookSource>('tally');
+  const [bookRows, setBookRows] = useState<TallyGSTDetails[]>([]);
+  const [amountTolerance, setAmountTolerance] = useState(DEFAULT_GSTR2B_MATCH_OPTIONS.amountTolerance);
+  const [dateWindowDays, setDateWindowDays] = useState(DEFAULT_GSTR2B_MATCH_OPTIONS.dateWindowDays);
+  const [status, setStatus] = useState<Gstr2bStatus>('mismatched');
+  const [busy, setBusy] = useState<'statement' | 'book' | null>(null);
+
+  const purchases = useMemo(() => toBookPurchases(bookRows), [bookRows]);
+  const matches = useMemo(
+    () => (statement ? matchGstr2b(statement.documents, purchases, { amountTolerance, dateWindowDays }) : []),
+    [statement, purchases, amountTolerance, dateWindowDays]
+  );
+  const shown = matches.filter(match => match.status === status);
+
+  const handleStatementFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setBusy('statement');
+    const result = await tallySyncService.parseGstr2bFile(file);
+    setBusy(null);
+    event.target.value = '';
+
+    if (!result.success || !result.statement) {
+      toast.error(result.message);
+      return;
+    }
+
+    const { gstin, period } = result.statement;
+    const companyGstin = loadGstConfig().companyGstin;
+    if (gstin && companyGstin && gstin.toUpperCase() !== companyGstin.toUpperCase()) {
+      toast.warning(`This GSTR-2B is for ${gstin}, not the company GSTIN ${companyGstin}`);
+    }
+    if (/^\d{6}$/.test(period)) onPeriodChange(period.slice(0, 2), period.slice(2));
+
+    setStatement(result.statement);
+    toast.success(result.message);
+  };
+
+  const handleFetchPurchases = async () => {
+    setBusy('book');
+    try {
+      const rows = await getTallyService().getGSTReport('GSTR2', month, year, currentCompanyName() || undefined);
+      setBookRows(rows);
+      toast.success(`Fetched ${toBookPurchases(rows).length} purchases from Tally`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Purchases of an import file, read with the saved column mapping
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setBusy('book');
+    try {
+      const result = await tallySyncService.processExcelFileClientSide(file);
+      if (!result.success) {
+        toast.error(result.message);
+        return;
+      }
+      if (!['purchase', 'debitNote'].includes(result.data.templateType)) {
+        toast.error(`${file.name} looks like a ${result.data.templateType} sheet; choose a purchase or debit note import file`);
+        return;
+      }
+
+      const { rows, issues } = tallySyncService.gstRowsFromImport(result.data);
+      if (issues.length > 0) {
+        toast.warning(`${issues.length} voucher(s) in the file were left out`, { description: issues[0] });
+      }
+      setBookRows(rows);
+      toast.success(`Read ${toBookPurchases(rows).length} purchases from ${file.name}`);
+    } finally {
+      setBusy(null);
+      event.target.value = '';
+    }
+  };
+
+  const handleExport = () => {
+    tallySyncService.downloadExcelFile(gstr2bSheets(matches), `GSTR-2B-Reconciliation-${month}${year}.xlsx`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <GitCompare className="h-5 w-5" />
+          <span>GSTR-2B Reconciliation</span>
+        </CardTitle>
+        <CardDescription>
+          Invoices are paired on supplier GSTIN and invoice number, ignoring punctuation and leading zeros. Pairs whose date or
+          amounts differ beyond the tolerance are mismatched.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="gstr2bFile">GSTR-2B (JSON or Excel)</Label>
+            <Input
+              id="gstr2bFile"
+              type="file"
+              accept=".json,.xlsx,.xls"
+              disabled={busy !== null}
+              onChange={handleStatementFile}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="gstr2bBookSource">Purchases From</Label>
+            <Select value={bookSource} onValueChange={(value) => setBookSource(value as BookSource)}>
+              <SelectTrigger id="gstr2bBookSource" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="tally">Purchase register in Tally</SelectItem>
+                <SelectItem value="import">Purchase import file</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end">
+            {bookSource === 'tally' ? (
+              <Button onClick={handleFetchPurchases} disabled={busy !== null} className="w-full">
+                {busy === 'book' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                Fetch Purchases from Tally
+              </Button>
+            ) : (
+              <Input type="file" accept=".csv,.xlsx,.xls" disabled={busy !== null} onChange={handleImportFile} />
+            )}
+          </div>
+          <div>
+            <Label htmlFor="gstr2bTolerance">Amount Tolerance (₹)</Label>
+            <Input
+              id="gstr2bTolerance"
+              type="number"
+              min={0}
+              step="0.01"
+              value={amountTolerance}
+              onChange={(e) => setAmountTolerance(Math.max(0, Number(e.target.value) || 0))}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="gstr2bWindow">Date Window (days)</Label>
+            <Input
+              id="gstr2bWindow"
+              type="number"
+              min={0}
+              value={dateWindowDays}
+              onChange={(e) => setDateWindowDays(Math.max(0, Number(e.target.value) || 0))}
+              className="mt-1"
+            />
+          </div>
+        </div>
+
+        {statement && statement.issues.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4 text-sm">
+                {statement.issues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          {(Object.keys(GSTR2B_STATUS_LABELS) as Gstr2bStatus[]).map(bucket => (
+            <button
+              key={bucket}
+              type="button"
+              onClick={() => setStatus(bucket)}
+              className={`rounded-lg border p-3 text-left ${status === bucket ? 'border-primary ring-1 ring-primary' : ''}`}
+            >
+              <p className="text-muted-foreground">{GSTR2B_STATUS_LABELS[bucket]}</p>
+              <p className="text-xl font-semibold">{matches.filter(match => match.status === bucket).length}</p>
+            </button>
+          ))}
+        </div>
+
+        {matches.length > 0 && (
+          <>
+            <div className="overflow-x-auto max-h-[28rem] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>In GSTR-2B</TableHead>
+                    <TableHead>In Books</TableHead>
+                    <TableHead>Differences</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shown.map(({ id, status: matchStatus, portal, book, differences }) => (
+                    <TableRow
+                      key={id}
+                      className={book ? 'cursor-pointer' : ''}
+                      title={book ? 'Show voucher' : undefined}
+                      onClick={() => book && onDrill({ title: `${book.voucherType} ${book.voucherNumber}`, rows: book.rows })}
+                    >
+                      <TableCell>
+                        <Badge className={STATUS_BADGES[matchStatus]}>{GSTR2B_STATUS_LABELS[matchStatus]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {portal?.supplierName || book?.supplierName}
+                        <div className="text-muted-foreground">{portal?.gstin || book?.gstin}</div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {portal && (
+                          <>
+                            {DOCUMENT_TYPE_LABELS[portal.documentType]} {portal.number} · {displayDate(portal.date)}
+                            <div>₹{formatRupees(portal.taxable)} + tax ₹{formatRupees(taxOf(portal))}</div>
+                            {!portal.itcAvailable && <div className="text-red-600">ITC not available</div>}
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {book && (
+                          <>
+                            {book.voucherType} {book.voucherNumber} · {displayDate(book.date)}
+                            {book.number !== book.voucherNumber && <div>Supplier invoice {book.number}</div>}
+                            <div>₹{formatRupees(book.taxable)} + tax ₹{formatRupees(taxOf(book))}</div>
+                            {book.sourceRows && <div className="text-muted-foreground">Import rows {book.sourceRows.join(', ')}</div>}
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {differences.map(difference => <div key={difference}>{difference}</div>)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <Button variant="outline" onClick={handleExport}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export to Excel
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Gstr2bReconciliation;
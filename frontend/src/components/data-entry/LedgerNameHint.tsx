@@ -0,0 +1,85 @@
+/**
+ * LedgerNameHint Component
+ *
+ * Shows under a party or ledger field whether the typed name is a ledger
+ * in Tally, and offers the closest ledgers when it is not. Picking a
+ * suggestion replaces the typed name and remembers it as an alias.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import ledgerResolverService from '@/services/LedgerResolverService';
+
+interface LedgerNameHintProps {
+  value: string;
+  gstin?: string;
+  onSelect: (ledgerName: string) => void;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  alias: 'saved alias',
+  gstin: 'same GSTIN',
+  normalized: 'same name'
+};
+
+export const LedgerNameHint: React.FC<LedgerNameHintProps> = ({ value, gstin, onSelect }) => {
+  const [, setLedgerCount] = useState(0);
+
+  // Re-resolve when the ledger cache is refreshed
+  useEffect(() => ledgerResolverService.subscribe(state => setLedgerCount(state.ledgerCount)), []);
+
+  const resolution = ledgerResolverService.resolve(value, gstin);
+  if (!resolution) return null;
+
+  const choose = (ledgerName: string) => {
+    ledgerResolverService.confirmAlias(value, ledgerName);
+    onSelect(ledgerName);
+  };
+
+  if (resolution.status === 'exact') {
+    return (
+      <p className="flex items-center gap-1 text-xs text-green-600">
+        <CheckCircle className="h-3 w-3" />
+        Ledger found in Tally
+      </p>
+    );
+  }
+
+  if (resolution.status === 'resolved' && resolution.ledger) {
+    return (
+      <p className="text-xs text-blue-600">
+        Posts as{' '}
+        <button type="button" className="font-medium underline" onClick={() => choose(resolution.ledger!.name)}>
+          {resolution.ledger.name}
+        </button>{' '}
+        ({REASON_LABELS[resolution.ledger.reason] || resolution.ledger.reason})
+      </p>
+    );
+  }
+
+  return (
+    <div className="text-xs text-amber-600 space-y-1">
+      <p className="flex items-center gap-1">
+        <AlertTriangle className="h-3 w-3" />
+        Not a ledger in Tally{resolution.suggestions.length > 0 ? '. Did you mean:' : ''}
+      </p>
+      {resolution.suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {resolution.suggestions.map(match => (
+            <button
+              key={match.name}
+              type="button"
+              className="rounded border border-amber-300 px-1.5 py-0.5 hover:bg-amber-50"
+              title={`${match.parent} · ${Math.round(match.score * 100)}% similar`}
+              onClick={() => choose(match.name)}
+            >
+              {match.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LedgerNameHint;
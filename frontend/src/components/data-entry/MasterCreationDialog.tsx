@@ -0,0 +1,161 @@
+/**
+ * MasterCreationDialog Component
+ *
+ * Review step before a sync when the vouchers post to ledgers or stock
+ * items that Tally does not have. The user picks which masters to create,
+ * adjusts their parent group, and the approved masters are imported ahead
+ * of the vouchers in the same sync.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, PackagePlus } from 'lucide-react';
+import { LEDGER_PARENT_GROUPS, type MasterDraft } from '@/lib/masterCreation';
+
+interface MasterCreationDialogProps {
+  open: boolean;
+  drafts: MasterDraft[];
+  /** Called with the approved masters; an empty list syncs the vouchers only */
+  onConfirm: (approved: MasterDraft[]) => void;
+  onCancel: () => void;
+}
+
+const formatRows = (rows: number[]): string =>
+  rows.length > 3 ? `${rows.slice(0, 3).join(', ')} +${rows.length - 3}` : rows.join(', ');
+
+export const MasterCreationDialog: React.FC<MasterCreationDialogProps> = ({ open, drafts, onConfirm, onCancel }) => {
+  const [rows, setRows] = useState<MasterDraft[]>(drafts);
+
+  useEffect(() => {
+    setRows(drafts);
+  }, [drafts]);
+
+  const updateRow = (index: number, changes: Partial<MasterDraft>) => {
+    setRows(current => current.map((row, position) => (position === index ? { ...row, ...changes } as MasterDraft : row)));
+  };
+
+  const approved = rows.filter(row => row.approved && row.name.trim() && row.parent.trim());
+  const allApproved = rows.length > 0 && rows.every(row => row.approved);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackagePlus className="h-5 w-5" />
+            Create Missing Masters
+          </DialogTitle>
+          <DialogDescription>
+            These ledgers and stock items are used by the vouchers but do not exist in Tally. Approved masters are
+            created before the vouchers are imported. Names similar to an existing ledger are left unticked, as
+            they are often typing mistakes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allApproved}
+                  onCheckedChange={(checked) => setRows(current => current.map(row => ({ ...row, approved: checked === true })))}
+                />
+              </TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Under</TableHead>
+              <TableHead>Details</TableHead>
+              <TableHead>Rows</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow key={`${row.kind}-${row.name}`}>
+                <TableCell>
+                  <Checkbox
+                    checked={row.approved}
+                    onCheckedChange={(checked) => updateRow(index, { approved: checked === true })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">{row.name}</div>
+                  {row.kind === 'ledger' && row.similar.length > 0 && (
+                    <p className="flex items-center gap-1 text-xs text-amber-600">
+                      <AlertTriangle className="h-3 w-3" />
+                      Similar: {row.similar.join(', ')}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{row.kind === 'ledger' ? 'Ledger' : 'Stock Item'}</Badge>
+                </TableCell>
+                <TableCell>
+                  {row.kind === 'ledger' ? (
+                    <Select value={row.parent} onValueChange={(value) => updateRow(index, { parent: value })}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LEDGER_PARENT_GROUPS.map(group => (
+                          <SelectItem key={group} value={group}>{group}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      value={row.parent}
+                      onChange={(e) => updateRow(index, { parent: e.target.value })}
+                      placeholder="Stock group"
+                      className="w-48"
+                    />
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {row.kind === 'ledger' ? (
+                    <div className="space-y-0.5">
+                      {row.contact.gstin && <div>GSTIN {row.contact.gstin}</div>}
+                      {row.contact.state && <div>{row.contact.state}</div>}
+                      {row.contact.pan && <div>PAN {row.contact.pan}</div>}
+                      {row.contact.address && <div className="max-w-[14rem] truncate">{row.contact.address}</div>}
+                    </div>
+                  ) : (
+                    <Input
+                      value={row.baseUnits}
+                      onChange={(e) => updateRow(index, { baseUnits: e.target.value })}
+                      placeholder="Unit"
+                      className="w-24"
+                    />
+                  )}
+                </TableCell>
+                <TableCell className="text-xs">{formatRows(row.sourceRows)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel Sync</Button>
+          <Button variant="outline" onClick={() => onConfirm([])}>Sync Without Creating</Button>
+          <Button onClick={() => onConfirm(approved)} disabled={approved.length === 0}>
+            Create {approved.length} and Sync
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MasterCreationDialog;
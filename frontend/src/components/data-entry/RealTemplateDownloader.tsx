@@ -9,6 +9,7 @@ import {
   CheckCircle,
   AlertCircle
 } from 'lucide-react';
+import tallySyncService from '@/services/TallySyncService';
 
 interface RealTemplate {
   id: string;
@@ -18,6 +19,8 @@ interface RealTemplate {
   category: 'masters' | 'vouchers';
   apiEndpoint: string;
   size?: string;
+  /** Built in the browser instead of downloaded */
+  generate?: () => Promise<void>;
 }
 
 const REAL_TEMPLATES: RealTemplate[] = [
@@ -48,6 +51,24 @@ const REAL_TEMPLATES: RealTemplate[] = [
     apiEndpoint: '/api/templates/real?template=journal',
     size: '12 KB'
   },
+  {
+    id: 'credit-notes',
+    name: 'Credit Note Template',
+    file: 'CreditNotes.xlsx',
+    description: 'Sales returns and price reductions quoting the original sales invoice, with GST slab-wise values and optional stock item lines',
+    category: 'vouchers',
+    apiEndpoint: '',
+    generate: () => tallySyncService.downloadNoteTemplate('creditNote')
+  },
+  {
+    id: 'debit-notes',
+    name: 'Debit Note Template',
+    file: 'DebitNotes.xlsx',
+    description: 'Purchase returns and price reductions quoting the original purchase invoice, with GST slab-wise values and optional stock item lines',
+    category: 'vouchers',
+    apiEndpoint: '',
+    generate: () => tallySyncService.downloadNoteTemplate('debitNote')
+  },
   {
     id: 'bank',
     name: 'Bank Transaction Template',
@@ -57,6 +78,24 @@ const REAL_TEMPLATES: RealTemplate[] = [
     apiEndpoint: '/api/templates/real?template=bank',
     size: '12 KB'
   },
+  {
+    id: 'ledger-masters',
+    name: 'Ledger Master Template',
+    file: 'LedgerMasters.xlsx',
+    description: 'Ledger masters with group, GST registration type, GSTIN, state, pincode, PAN, email, credit period, opening balance (Dr/Cr) and bill-wise details. Lists the groups of the connected company.',
+    category: 'masters',
+    apiEndpoint: '',
+    generate: () => tallySyncService.downloadLedgerMasterTemplate()
+  },
+  {
+    id: 'stock-items',
+    name: 'Stock Item Master Template',
+    file: 'StockItems.xlsx',
+    description: 'Stock items with stock group and category, base and alternate units with conversion, HSN/SAC, GST taxability and rates, and opening quantity, rate and value by godown and batch.',
+    category: 'masters',
+    apiEndpoint: '',
+    generate: () => tallySyncService.downloadStockItemTemplate()
+  },
   {
     id: 'masters-complete',
     name: 'Master Data Templates (Complete)',
@@ -131,6 +170,12 @@ Sample Ledger,Sundry Debtors,0.00,Customer,Sample Address,1234567890
     setStatus(null);
 
     try {
+      if (template.generate) {
+        await template.generate();
+        setStatus({ type: 'success', message: `Downloaded ${template.name}` });
+        return;
+      }
+
       let downloadSuccessful = false;
       
       // Try to download from the public downloads folder first
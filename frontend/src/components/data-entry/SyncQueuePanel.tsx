@@ -0,0 +1,148 @@
+/**
+ * SyncQueuePanel Component
+ *
+ * Shows imports waiting in the persistent background sync queue and lets
+ * the user reorder, retry or drop them. Queued items survive an app
+ * restart and are retried with exponential backoff.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, Clock, ListOrdered, RefreshCw, Trash2 } from 'lucide-react';
+import automatedTallyService from '@/services/AutomatedTallyService';
+import type { SyncQueueItem, SyncQueueStatus } from '@/lib/syncQueueStore';
+import { toast } from 'sonner';
+
+const STATUS_BADGES: Record<SyncQueueStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-blue-500' },
+  syncing: { label: 'Syncing', className: 'bg-purple-500' },
+  failed: { label: 'Failed', className: 'bg-red-500' }
+};
+
+export const SyncQueuePanel: React.FC = () => {
+  const [items, setItems] = useState<SyncQueueItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const retryAttempts = automatedTallyService.getSyncConfig().retryAttempts;
+
+  useEffect(() => automatedTallyService.subscribeToSyncQueue(setItems), []);
+
+  const handleRetry = async (item: SyncQueueItem) => {
+    await automatedTallyService.retryQueueItem(item.id);
+    toast.info(`Retrying ${item.fileName}`);
+  };
+
+  const handleDrop = async (item: SyncQueueItem) => {
+    await automatedTallyService.dropQueueItem(item.id);
+    if (selectedId === item.id) setSelectedId(null);
+    toast.success(`${item.fileName} removed from the sync queue`);
+  };
+
+  if (items.length === 0) return null;
+
+  const selected = items.find(item => item.id === selectedId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ListOrdered className="h-5 w-5" />
+          <span>Sync Queue</span>
+        </CardTitle>
+        <CardDescription>
+          Imports waiting for Tally. Pending items are retried automatically up to {retryAttempts} times.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>File</TableHead>
+              <TableHead>Records</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Next Attempt</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item, index) => (
+              <TableRow
+                key={item.id}
+                className={`cursor-pointer ${selectedId === item.id ? 'bg-muted' : ''}`}
+                onClick={() => setSelectedId(selectedId === item.id ? null : item.id)}
+              >
+                <TableCell className="font-medium">{item.fileName}</TableCell>
+                <TableCell>{item.recordCount}</TableCell>
+                <TableCell>
+                  <Badge className={STATUS_BADGES[item.status].className}>{STATUS_BADGES[item.status].label}</Badge>
+                </TableCell>
+                <TableCell>{item.attempts}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {item.status === 'pending' && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {item.nextAttemptAt <= Date.now() ? 'When Tally is available' : new Date(item.nextAttemptAt).toLocaleTimeString()}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === 0}
+                      onClick={() => automatedTallyService.moveQueueItem(item.id, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === items.length - 1}
+                      onClick={() => automatedTallyService.moveQueueItem(item.id, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={item.status === 'syncing'}
+                      onClick={() => handleRetry(item)}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={item.status === 'syncing'}
+                      onClick={() => handleDrop(item)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {selected && (
+          <div className="space-y-2 text-sm">
+            <p className="text-muted-foreground">
+              Queued {new Date(selected.createdAt).toLocaleString()} with {selected.vouchers.length} voucher(s)
+            </p>
+            {selected.lastError && (
+              <p className="text-red-600">Last error: {selected.lastError}</p>
+            )}
+            <pre className="max-h-64 overflow-auto rounded-lg bg-muted p-3 text-xs">{selected.xml}</pre>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SyncQueuePanel;
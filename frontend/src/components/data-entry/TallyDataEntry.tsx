@@ -42,7 +42,7 @@
  * @since 2024
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -65,11 +65,21 @@ import {
   FileText,
   ArrowRight,
   Zap,
-  Settings
+  Settings,
+  Columns
 } from 'lucide-react';
 import tallySyncService from '@/services/TallySyncService';
 import RealTemplateDownloader from './RealTemplateDownloader';
+import SyncQueuePanel from './SyncQueuePanel';
+import BankStatementImporter from './BankStatementImporter';
+import TallyVoucherEditor from './TallyVoucherEditor';
+import LedgerNameHint from './LedgerNameHint';
+import ledgerResolverService, { type LedgerCacheState } from '@/services/LedgerResolverService';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import MasterCreationDialog from './MasterCreationDialog';
+import type { LedgerMasterDraft, MasterDraft, StockItemMasterDraft } from '@/lib/masterCreation';
 import { GSTCalculator } from './GSTCalculator';
+import { getActiveSlabs, slabFieldKey, slabFieldLabel } from '@/lib/gst';
 import { toast } from 'sonner';
 import realTimeDataService from '../../services/RealTimeDataService';
 import automatedTallyService, { AutoSyncConfig } from '../../services/AutomatedTallyService';
@@ -95,6 +105,33 @@ interface Template {
   description: string;
 }
 
+// Fields holding a party or ledger name, checked against Tally's ledgers
+const LEDGER_FIELD_KEYS = ['partyName', 'ledger'];
+
+// Party GSTIN, place of supply, one column per configured GST slab and the tax heads
+const gstFields = (prefix: string): TemplateField[] => [
+  { name: 'Party GSTIN', key: 'partyGstin', type: 'string', required: false, example: '27AAPFU0939F1ZV' },
+  { name: 'Place of Supply', key: 'placeOfSupply', type: 'string', required: false, example: '27-Maharashtra' },
+  ...getActiveSlabs().map((slab): TemplateField => ({
+    name: slabFieldLabel(prefix, slab),
+    key: slabFieldKey(slab),
+    type: 'number',
+    required: false,
+    example: [5, 12, 18].includes(slab.rate) && slab.cessRate === 0 ? '100' : '0'
+  })),
+  { name: 'CGST', key: 'cgst', type: 'number', required: false, example: '17.5' },
+  { name: 'SGST', key: 'sgst', type: 'number', required: false, example: '17.5' },
+  { name: 'IGST', key: 'igst', type: 'number', required: false, example: '0' },
+  { name: 'Cess', key: 'cess', type: 'number', required: false, example: '0' }
+];
+
+// Bill-wise details of the party: the bill the invoice creates and its credit period
+const billFields = (example: string): TemplateField[] => [
+  { name: 'Bill Ref', key: 'billRef', type: 'string', required: false, example },
+  { name: 'Bill Type', key: 'billType', type: 'select', required: false, options: ['New Ref', 'Agst Ref', 'Advance', 'On Account'], example: 'New Ref' },
+  { name: 'Credit Period (Days)', key: 'creditPeriod', type: 'number', required: false, example: '30' }
+];
+
 const TALLY_TEMPLATES: Template[] = [
   {
     name: 'Sales Invoice',
@@ -104,12 +141,9 @@ const TALLY_TEMPLATES: Template[] = [
       { name: 'Supplier Invoice No', key: 'supplierInvoiceNo', type: 'string', required: true, example: 'Sale/11' },
       { name: 'Date', key: 'date', type: 'date', required: true, example: '2024-01-15' },
       { name: 'To (Party Name)', key: 'partyName', type: 'string', required: true, example: 'A B MEDICAL STORES' },
-      { name: 'Purchase 5%', key: 'purchase5', type: 'number', required: false, example: '100' },
-      { name: 'Purchase 12%', key: 'purchase12', type: 'number', required: false, example: '100' },
-      { name: 'Purchase 18%', key: 'purchase18', type: 'number', required: false, example: '100' },
-      { name: 'CGST', key: 'cgst', type: 'number', required: false, example: '17.5' },
-      { name: 'SGST', key: 'sgst', type: 'number', required: false, example: '17.5' },
+      ...gstFields('Sales'),
       { name: 'TOTAL', key: 'total', type: 'number', required: true, example: '335' },
+      ...billFields('Sale/11'),
       { name: 'Narration', key: 'narration', type: 'string', required: false, example: 'being Medicine sale' }
     ]
   },
@@ -121,15 +155,42 @@ const TALLY_TEMPLATES: Template[] = [
       { name: 'Supplier Invoice No', key: 'supplierInvoiceNo', type: 'string', required: true, example: 'AV/10' },
       { name: 'Date', key: 'date', type: 'date', required: true, example: '2024-01-15' },
       { name: 'To (Party Name)', key: 'partyName', type: 'string', required: true, example: 'AAKANSHA SUPER MARKET' },
-      { name: 'Purchase 5%', key: 'purchase5', type: 'number', required: false, example: '100' },
-      { name: 'Purchase 12%', key: 'purchase12', type: 'number', required: false, example: '100' },
-      { name: 'Purchase 18%', key: 'purchase18', type: 'number', required: false, example: '100' },
-      { name: 'CGST', key: 'cgst', type: 'number', required: false, example: '17.5' },
-      { name: 'SGST', key: 'sgst', type: 'number', required: false, example: '17.5' },
+      ...gstFields('Purchase'),
       { name: 'TOTAL', key: 'total', type: 'number', required: true, example: '335' },
+      ...billFields('AV/10'),
       { name: 'Narration', key: 'narration', type: 'string', required: false, example: 'Being the Medicine Purchase in credit' }
     ]
   },
+  {
+    name: 'Credit Note',
+    type: 'creditNote',
+    description: 'Record sales returns and price reductions against the original sales invoice',
+    fields: [
+      { name: 'Credit Note No', key: 'creditNoteNo', type: 'string', required: true, example: 'CN/1' },
+      { name: 'Date', key: 'date', type: 'date', required: true, example: '2024-01-20' },
+      { name: 'Original Invoice No', key: 'originalInvoiceNo', type: 'string', required: true, example: 'Sale/11' },
+      { name: 'Original Invoice Date', key: 'originalInvoiceDate', type: 'date', required: false, example: '2024-01-15' },
+      { name: 'To (Party Name)', key: 'partyName', type: 'string', required: true, example: 'A B MEDICAL STORES' },
+      ...gstFields('Sales'),
+      { name: 'TOTAL', key: 'total', type: 'number', required: true, example: '335' },
+      { name: 'Narration', key: 'narration', type: 'string', required: false, example: 'Being goods returned by customer' }
+    ]
+  },
+  {
+    name: 'Debit Note',
+    type: 'debitNote',
+    description: 'Record purchase returns and price reductions against the original purchase invoice',
+    fields: [
+      { name: 'Debit Note No', key: 'debitNoteNo', type: 'string', required: true, example: 'DN/1' },
+      { name: 'Date', key: 'date', type: 'date', required: true, example: '2024-01-20' },
+      { name: 'Original Invoice No', key: 'originalInvoiceNo', type: 'string', required: true, example: 'AV/10' },
+      { name: 'Original Invoice Date', key: 'originalInvoiceDate', type: 'date', required: false, example: '2024-01-15' },
+      { name: 'To (Party Name)', key: 'partyName', type: 'string', required: true, example: 'AAKANSHA SUPER MARKET' },
+      ...gstFields('Purchase'),
+      { name: 'TOTAL', key: 'total', type: 'number', required: true, example: '335' },
+      { name: 'Narration', key: 'narration', type: 'string', required: false, example: 'Being goods returned to supplier' }
+    ]
+  },
   {
     name: 'Journal Voucher',
     type: 'journal',
@@ -138,11 +199,7 @@ const TALLY_TEMPLATES: Template[] = [
       { name: 'Supplier Invoice No', key: 'supplierInvoiceNo', type: 'string', required: true, example: 'AV/10' },
       { name: 'Date', key: 'date', type: 'date', required: true, example: '2024-01-15' },
       { name: 'To (Party Name)', key: 'partyName', type: 'string', required: true, example: 'AAKANSHA SUPER MARKET' },
-      { name: 'Purchase 5%', key: 'purchase5', type: 'number', required: false, example: '100' },
-      { name: 'Purchase 12%', key: 'purchase12', type: 'number', required: false, example: '100' },
-      { name: 'Purchase 18%', key: 'purchase18', type: 'number', required: false, example: '100' },
-      { name: 'CGST', key: 'cgst', type: 'number', required: false, example: '17.5' },
-      { name: 'SGST', key: 'sgst', type: 'number', required: false, example: '17.5' },
+      ...gstFields('Purchase'),
       { name: 'TOTAL', key: 'total', type: 'number', required: true, example: '335' },
       { name: 'Narration', key: 'narration', type: 'string', required: false, example: 'Being the Medicine Purchase in credit' }
     ]
@@ -174,12 +231,26 @@ export function TallyDataEntry() {
   const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info'; message: string } | null>(null);
   const [cloudConnected, setCloudConnected] = useState(false);
   const [tallyConnected, setTallyConnected] = useState(false);
+  const [ledgerCache, setLedgerCache] = useState<LedgerCacheState | null>(null);
   
   // File upload states
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadSheets, setUploadSheets] = useState<string[]>([]);
+  const [uploadSheet, setUploadSheet] = useState('');
   const [processing, setProcessing] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
 
+  // Column mapping step for uploads without a saved mapping profile
+  const [mappingData, setMappingData] = useState<any | null>(null);
+  const [mappingOpen, setMappingOpen] = useState(false);
+  const [mappedUpload, setMappedUpload] = useState<any | null>(null);
+  const [pendingUploadAction, setPendingUploadAction] = useState<'download' | 'sync' | null>(null);
+
+  // Missing masters waiting for approval before a sync continues
+  const [masterDrafts, setMasterDrafts] = useState<MasterDraft[]>([]);
+  const [masterReviewOpen, setMasterReviewOpen] = useState(false);
+  const masterApprovalRef = useRef<((approved: MasterDraft[] | null) => void) | null>(null);
+
   // Automated sync states
   const [automatedSyncEnabled, setAutomatedSyncEnabled] = useState(false);
   const [tallyAutoDetected, setTallyAutoDetected] = useState(false);
@@ -205,6 +276,14 @@ export function TallyDataEntry() {
     
     return cleanup; // Cleanup listeners on unmount
   }, []);
+
+  // Keep the ledger list used for name suggestions fresh while Tally is reachable
+  useEffect(() => ledgerResolverService.subscribe(setLedgerCache), []);
+  useEffect(() => {
+    if (tallyConnected) {
+      ledgerResolverService.refreshLedgers();
+    }
+  }, [tallyConnected]);
   const initializeServices = async () => {
     try {
       // Initialize standard connections
@@ -334,7 +413,7 @@ export function TallyDataEntry() {
   };
 
   const updateRowField = (id: string, field: string, value: any) => {
-    setDataRows(dataRows.map(row => 
+    setDataRows(prev => prev.map(row => 
       row.id === id ? { ...row, [field]: value } : row
     ));
   };
@@ -478,9 +557,62 @@ export function TallyDataEntry() {
       }
 
       setUploadedFile(file);
+      setMappedUpload(null);
+      tallySyncService.listSheetNames(file).then(names => {
+        setUploadSheets(names);
+        setUploadSheet(names[0] || '');
+      });
       toast.success('Excel file selected successfully');
     }
-  };  const processUploadedFile = async (action: 'download' | 'sync' | 'auto' = 'download') => {
+  };
+
+  // Workbooks exported from Tally hold a sheet per voucher type; each is imported on its own
+  const handleSheetChange = (sheet: string) => {
+    setUploadSheet(sheet);
+    setMappedUpload(null);
+  };
+
+  // Parse the upload and open the mapping wizard on it for review
+  const openColumnMapping = async () => {
+    if (!uploadedFile) return;
+
+    const parsed = mappedUpload ? { success: true, data: mappedUpload, message: '' }
+      : await tallySyncService.processExcelFileClientSide(uploadedFile, uploadSheet || undefined);
+    if (!parsed.success) {
+      toast.error(parsed.message);
+      return;
+    }
+
+    setPendingUploadAction(null);
+    setMappingData(parsed.data);
+    setMappingOpen(true);
+  };
+
+  // Continue the upload that was waiting for the mapping, if any
+  const handleMappingApplied = (data: any) => {
+    setMappedUpload(data);
+    if (pendingUploadAction) {
+      processUploadedFile(pendingUploadAction, data);
+    } else {
+      toast.success('Column mapping applied');
+    }
+  };
+
+  // Show the missing masters and wait for the user's choice; null cancels the sync
+  const requestMasterApproval = (drafts: MasterDraft[]): Promise<MasterDraft[] | null> =>
+    new Promise(resolve => {
+      masterApprovalRef.current = resolve;
+      setMasterDrafts(drafts);
+      setMasterReviewOpen(true);
+    });
+
+  const settleMasterApproval = (approved: MasterDraft[] | null) => {
+    setMasterReviewOpen(false);
+    masterApprovalRef.current?.(approved);
+    masterApprovalRef.current = null;
+  };
+
+  const processUploadedFile = async (action: 'download' | 'sync' | 'auto' = 'download', mappedData?: any) => {
     if (!uploadedFile) return;
 
     // If automated sync is enabled, automatically use auto-sync for any upload
@@ -495,6 +627,26 @@ export function TallyDataEntry() {
       return;
     }
 
+    // Sheets without a saved mapping profile go through the mapping wizard first
+    let data = mappedData || mappedUpload;
+    if (!data) {
+      toast.info('Processing Excel file...');
+      const parsed = await tallySyncService.processExcelFileClientSide(uploadedFile, uploadSheet || undefined);
+      if (!parsed.success) {
+        toast.error(`Failed to process Excel file: ${parsed.message}`);
+        setStatus({ type: 'error', message: parsed.message });
+        return;
+      }
+      if (!parsed.data.mappingProfile) {
+        setPendingUploadAction(action);
+        setMappingData(parsed.data);
+        setMappingOpen(true);
+        return;
+      }
+      toast.info(`Columns mapped with profile "${parsed.data.mappingProfile}"`);
+      data = parsed.data;
+    }
+
     // Start tracking the operation
     const operationId = realTimeDataService.startSyncOperation(
       action === 'sync' ? 'sync' : 'upload', 
@@ -505,19 +657,14 @@ export function TallyDataEntry() {
     setUploadProgress(0);
     
     try {
-      // Step 1: Process Excel file client-side
+      // Step 1: Excel file already parsed and mapped client-side
       setUploadProgress(20);
-      toast.info('Processing Excel file...');
-      
-      const processedData = await tallySyncService.processExcelFileClientSide(uploadedFile);
-      
-      if (!processedData.success) {
-        throw new Error(processedData.message);
-      }      // Step 2: Automatic Data Verification and Cleaning
+
+      // Step 2: Automatic Data Verification and Cleaning
       setUploadProgress(40);
       toast.info('Verifying and cleaning data...');
       
-      const verificationResult = await performDataVerification(processedData.data);
+      const verificationResult = await performDataVerification(data.rows);
       
       if (verificationResult.hasErrors) {
         toast.warning(`Data verification found ${verificationResult.errorCount} issues. Please review before proceeding.`);
@@ -528,13 +675,13 @@ export function TallyDataEntry() {
       }
 
       // Use cleaned data for XML generation
-      const cleanedData = verificationResult.cleanedData || processedData.data;
+      const cleanedData = { ...data, rows: verificationResult.cleanedData || data.rows };
         // Step 3: Generate Tally XML client-side with cleaned data
       setUploadProgress(60);
       toast.info('Generating Tally XML...');
         const xmlResult = await tallySyncService.generateTallyXMLClientSide(
         cleanedData, // Use cleaned data instead of raw data
-        'auto-detect'
+        data.templateType
       );
       
       if (!xmlResult.success) {
@@ -551,7 +698,7 @@ export function TallyDataEntry() {
         realTimeDataService.completeSyncOperation(
           operationId, 
           true, 
-          processedData.data?.length || 0, 
+          data.totalRows || 0, 
           'File converted to Tally XML and downloaded'
         );
         
@@ -561,15 +708,30 @@ export function TallyDataEntry() {
           message: 'File converted to Tally XML and downloaded. You can now import it manually into Tally ERP.' 
         });
       } else {
-        // Step 3b: Sync to Tally via desktop app
-        const syncResult = await tallySyncService.syncToTally(xmlResult.xmlContent);
+        // Step 3b: Create approved missing masters, then sync the vouchers via desktop app
+        const mastersXml: string[] = [];
+        if (xmlResult.missingMasters && xmlResult.missingMasters.length > 0) {
+          const approved = await requestMasterApproval(xmlResult.missingMasters);
+          if (!approved) {
+            realTimeDataService.completeSyncOperation(operationId, false, 0, 'Sync cancelled while reviewing missing masters');
+            setStatus({ type: 'info', message: 'Sync cancelled. No masters or vouchers were sent to Tally.' });
+            return;
+          }
+
+          const ledgers = approved.filter((draft): draft is LedgerMasterDraft => draft.kind === 'ledger');
+          const stockItems = approved.filter((draft): draft is StockItemMasterDraft => draft.kind === 'stockItem');
+          if (ledgers.length > 0) mastersXml.push(tallySyncService.generateLedgerMastersXML(ledgers));
+          if (stockItems.length > 0) mastersXml.push(tallySyncService.generateStockItemsXML(stockItems));
+        }
+
+        const syncResult = await tallySyncService.syncToTally(xmlResult.xmlContent, xmlResult.vouchers, mastersXml);
         
         if (syncResult.success) {
           // Track successful sync
           realTimeDataService.completeSyncOperation(
             operationId, 
             true, 
-            processedData.data?.length || 0, 
+            syncResult.importResult?.imported ?? (data.totalRows || 0), 
             'Data synced directly to Tally ERP'
           );
           
@@ -578,6 +740,20 @@ export function TallyDataEntry() {
             type: 'success', 
             message: 'Data has been synced directly to your Tally ERP system.' 
           });
+        } else if (syncResult.importResult) {
+          // Tally answered but rejected some vouchers: report them instead of re-downloading
+          realTimeDataService.completeSyncOperation(
+            operationId, 
+            false, 
+            syncResult.importResult.imported, 
+            syncResult.message
+          );
+          
+          toast.error(`${syncResult.importResult.failed} voucher(s) were rejected by Tally. See the Verification page for details.`);
+          setStatus({ 
+            type: 'error', 
+            message: `${syncResult.message}. Open the Verification page to see which rows failed.` 
+          });
         } else {
           // Fallback to download if sync fails
           const fileName = uploadedFile.name.replace(/\.(xlsx|xls)$/i, '.xml');
@@ -587,7 +763,7 @@ export function TallyDataEntry() {
           realTimeDataService.completeSyncOperation(
             operationId, 
             true, 
-            processedData.data?.length || 0, 
+            data.totalRows || 0, 
             'Direct sync failed, XML downloaded for manual import'
           );
           
@@ -667,13 +843,22 @@ export function TallyDataEntry() {
       
       default:
         return (
-          <Input
-            type="text"
-            value={value}
-            onChange={(e) => updateRowField(row.id, field.key, e.target.value)}
-            placeholder={field.example}
-            required={field.required}
-          />
+          <>
+            <Input
+              type="text"
+              value={value}
+              onChange={(e) => updateRowField(row.id, field.key, e.target.value)}
+              placeholder={field.example}
+              required={field.required}
+            />
+            {LEDGER_FIELD_KEYS.includes(field.key) && value && (
+              <LedgerNameHint
+                value={value}
+                gstin={row.partyGstin}
+                onSelect={(ledgerName) => updateRowField(row.id, field.key, ledgerName)}
+              />
+            )}
+          </>
         );
     }
   };
@@ -736,6 +921,12 @@ export function TallyDataEntry() {
           type: 'success',
           message: `Automated sync successful! ${result.message}`
         });
+      } else if (result.queuedItemId) {
+        toast.info('Tally is not reachable; the import was added to the sync queue');
+        setStatus({
+          type: 'info',
+          message: result.message
+        });
       } else {
         toast.error(`Automated sync failed: ${result.message}`);
         setStatus({
@@ -864,7 +1055,7 @@ export function TallyDataEntry() {
     try {
       toast.info('Generating XML for download...');
       
-      const processedData = await tallySyncService.processExcelFileClientSide(uploadedFile);
+      const processedData = await tallySyncService.processExcelFileClientSide(uploadedFile, uploadSheet || undefined);
       if (!processedData.success) {
         throw new Error(processedData.message);
       }
@@ -947,8 +1138,10 @@ export function TallyDataEntry() {
         </CardContent>
       </Card>      {/* Main Data Entry Tabs */}
       <Tabs defaultValue="upload" className="w-full">
-        <TabsList className="grid w-full grid-cols-3 gap-1">
+        <TabsList className="grid w-full grid-cols-5 gap-1">
           <TabsTrigger value="upload" className="text-desktop-sm">Upload</TabsTrigger>
+          <TabsTrigger value="bank" className="text-desktop-sm">Bank Statement</TabsTrigger>
+          <TabsTrigger value="tally" className="text-desktop-sm">From Tally</TabsTrigger>
           <TabsTrigger value="manual" className="text-desktop-sm">Manual Entry</TabsTrigger>
           <TabsTrigger value="templates" className="text-desktop-sm">Templates</TabsTrigger>
         </TabsList>
@@ -1014,8 +1207,23 @@ export function TallyDataEntry() {
         <Card>
           <CardHeader>
             <CardTitle>Enter {selectedTemplate.name} Data</CardTitle>
-            <CardDescription>
-              Fill in the data below. Required fields are marked with *
+            <CardDescription className="flex flex-wrap items-center gap-2">
+              <span>Fill in the data below. Required fields are marked with *</span>
+              {ledgerCache && ledgerCache.ledgerCount > 0 && (
+                <span className="text-xs">
+                  · Party names checked against {ledgerCache.ledgerCount} Tally ledgers
+                </span>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                disabled={ledgerCache?.loading}
+                onClick={() => ledgerResolverService.refreshLedgers(true)}
+              >
+                <RefreshCw className={`h-3 w-3 mr-1 ${ledgerCache?.loading ? 'animate-spin' : ''}`} />
+                Refresh Ledgers
+              </Button>
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -1067,25 +1275,23 @@ export function TallyDataEntry() {
       )}
 
       {/* GST Calculator for Purchase and Sales templates */}
-      {selectedTemplate && (selectedTemplate.type === 'purchase' || selectedTemplate.type === 'sales') && (
+      {selectedTemplate && ['sales', 'purchase', 'creditNote', 'debitNote'].includes(selectedTemplate.type) && (
         <GSTCalculator 
-          templateType={selectedTemplate?.type === 'sales' ? 'sales' : 'purchase'}
+          templateType={['sales', 'creditNote'].includes(selectedTemplate.type) ? 'sales' : 'purchase'}
+          partyGstin={dataRows[dataRows.length - 1]?.partyGstin}
+          placeOfSupply={dataRows[dataRows.length - 1]?.placeOfSupply}
           onCalculationChange={(calculation) => {
             // Auto-populate GST fields in the current row if available
             const currentRow = dataRows[dataRows.length - 1];
             if (currentRow && selectedTemplate) {
-              // Update fields based on template type
-              if (selectedTemplate.type === 'sales') {
-                updateRowField(currentRow.id, 'sales5', calculation.amount5);
-                updateRowField(currentRow.id, 'sales12', calculation.amount12);
-                updateRowField(currentRow.id, 'sales18', calculation.amount18);
-              } else if (selectedTemplate.type === 'purchase') {
-                updateRowField(currentRow.id, 'purchase5', calculation.amount5);
-                updateRowField(currentRow.id, 'purchase12', calculation.amount12);
-                updateRowField(currentRow.id, 'purchase18', calculation.amount18);
-              }
+              // Slab columns share their keys with the calculator
+              Object.entries(calculation.amounts).forEach(([key, amount]) => {
+                updateRowField(currentRow.id, key, amount);
+              });
               updateRowField(currentRow.id, 'cgst', calculation.cgst);
               updateRowField(currentRow.id, 'sgst', calculation.sgst);
+              updateRowField(currentRow.id, 'igst', calculation.igst);
+              updateRowField(currentRow.id, 'cess', calculation.cess);
               updateRowField(currentRow.id, 'total', calculation.total);
             }
           }}
@@ -1149,6 +1355,22 @@ export function TallyDataEntry() {
                       {(uploadedFile.size / 1024 / 1024).toFixed(2)} MB
                     </Badge>
                   </div>
+
+                  {uploadSheets.length > 1 && (
+                    <div className="mb-3">
+                      <Label htmlFor="uploadSheet">Sheet</Label>
+                      <Select value={uploadSheet} onValueChange={handleSheetChange}>
+                        <SelectTrigger id="uploadSheet" className="mt-1 bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {uploadSheets.map(name => (
+                            <SelectItem key={name} value={name}>{name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                   
                   {processing && (
                     <div className="mb-3">
@@ -1164,6 +1386,14 @@ export function TallyDataEntry() {
                       </div>
                     </div>
                   )}                  <div className="flex gap-2">
+                    <Button
+                      onClick={openColumnMapping}
+                      disabled={processing}
+                      variant="outline"
+                    >
+                      <Columns className="h-4 w-4 mr-2" />
+                      Map Columns
+                    </Button>
                     {!automatedSyncEnabled && (
                       <Button
                         onClick={() => processUploadedFile('download')}
@@ -1241,6 +1471,31 @@ export function TallyDataEntry() {
               )}
             </CardContent>
           </Card>
+
+          <SyncQueuePanel />
+
+          <ColumnMappingWizard
+            open={mappingOpen}
+            data={mappingData}
+            onOpenChange={setMappingOpen}
+            onApply={handleMappingApplied}
+          />
+
+          <MasterCreationDialog
+            open={masterReviewOpen}
+            drafts={masterDrafts}
+            onConfirm={settleMasterApproval}
+            onCancel={() => settleMasterApproval(null)}
+          />
+        </TabsContent>
+
+        {/* Bank Statement Tab */}
+        <TabsContent value="bank" className="space-y-6">
+          <BankStatementImporter />
+        </TabsContent>
+
+        <TabsContent value="tally" className="space-y-6">
+          <TallyVoucherEditor />
         </TabsContent>        {/* Templates Tab */}
         <TabsContent value="templates" className="space-y-6">
           <Card>
@@ -0,0 +1,363 @@
+/**
+ * TallyVoucherEditor Component
+ *
+ * Fetches the vouchers of a period from Tally's day book into an editable
+ * grid. Edited rows are highlighted, and only the changed vouchers are sent
+ * back to Tally as alterations of the originals, after the user has
+ * reviewed every change. The fetched vouchers and the company's masters can
+ * also be exported in the import templates, to be corrected in Excel.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle, CloudDownload, FileSpreadsheet, GitCompare, Loader2, RotateCcw, Send } from 'lucide-react';
+import DataGrid from '@/components/data/DataGrid';
+import tallyExportService from '@/services/TallyExportService';
+import tallySyncService from '@/services/TallySyncService';
+import { buildVoucherEnvelope, type TallyVoucherXml } from '@/lib/tallyXml';
+import { describeSubmittedVouchers } from '@/lib/tallyResponse';
+import { currentCompanyName } from '@/lib/voucherIdentity';
+import {
+  buildAmendments,
+  changedFields,
+  voucherKey,
+  voucherToGridRow,
+  type VoucherAmendment,
+  type VoucherGridRow
+} from '@/lib/voucherAmendment';
+import { cashBankCheck, ledgerTemplateRows, stockItemTemplateRows, vouchersToTemplates } from '@/lib/templateExport';
+import { toast } from 'sonner';
+
+const ALL_TYPES = 'all';
+
+const GRID_COLUMNS = [
+  { field: 'date', headerName: 'Date', width: 140, editable: true, type: 'date' as const },
+  { field: 'voucherType', headerName: 'Type', width: 120 },
+  { field: 'voucherNumber', headerName: 'Voucher No', width: 120, editable: true },
+  { field: 'reference', headerName: 'Reference', width: 120, editable: true },
+  { field: 'drLedger', headerName: 'Dr Ledger', width: 200, editable: true },
+  { field: 'crLedger', headerName: 'Cr Ledger', width: 200, editable: true },
+  { field: 'amount', headerName: 'Amount', width: 120, editable: true, type: 'number' as const },
+  { field: 'narration', headerName: 'Narration', width: 260, editable: true }
+];
+
+// YYYY-MM-DD of a date
+const isoDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const TallyVoucherEditor: React.FC = () => {
+  const today = new Date();
+  const [fromDate, setFromDate] = useState(isoDate(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [toDate, setToDate] = useState(isoDate(today));
+  const [voucherType, setVoucherType] = useState(ALL_TYPES);
+  const [voucherTypes, setVoucherTypes] = useState<string[]>([]);
+  const [vouchers, setVouchers] = useState<TallyVoucherXml[]>([]);
+  const [originals, setOriginals] = useState<VoucherGridRow[]>([]);
+  const [rows, setRows] = useState<VoucherGridRow[]>([]);
+  const [amendments, setAmendments] = useState<VoucherAmendment[] | null>(null);
+  const [busy, setBusy] = useState<'fetch' | 'push' | 'export' | null>(null);
+
+  useEffect(() => {
+    tallyExportService.getVoucherTypes(currentCompanyName() || undefined)
+      .then(setVoucherTypes)
+      .catch(() => setVoucherTypes([]));
+  }, []);
+
+  const originalByKey = new Map(originals.map(row => [row.key, row]));
+  const isRowChanged = (row: Record<string, unknown>): boolean => {
+    const original = originalByKey.get(String(row.key));
+    return !!original && changedFields(original, row as VoucherGridRow).length > 0;
+  };
+  const changedCount = rows.filter(isRowChanged).length;
+
+  const handleFetch = async () => {
+    if (!fromDate || !toDate || fromDate > toDate) {
+      toast.error('Choose a period whose start is not after its end');
+      return;
+    }
+    if (changedCount > 0 && !window.confirm(`Discard the changes to ${changedCount} voucher(s) and fetch again?`)) {
+      return;
+    }
+
+    setBusy('fetch');
+    try {
+      const fetched = await tallyExportService.getDayBook(
+        fromDate.replace(/-/g, ''),
+        toDate.replace(/-/g, ''),
+        currentCompanyName() || undefined
+      );
+      const selected = voucherType === ALL_TYPES ? fetched : fetched.filter(voucher => voucher.voucherType === voucherType);
+      const gridRows = selected.map(voucherToGridRow);
+      setVouchers(selected);
+      setOriginals(gridRows);
+      setRows(gridRows);
+      toast.success(`Fetched ${selected.length} voucher(s) from Tally`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not fetch vouchers from Tally');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleReview = () => {
+    const pending = buildAmendments(vouchers, originals, rows);
+    if (pending.length === 0) {
+      toast.info('No vouchers have been changed');
+      return;
+    }
+    setAmendments(pending);
+  };
+
+  const handlePush = async () => {
+    const ready = (amendments || []).filter(amendment => amendment.voucher);
+    const altered = ready.map(amendment => amendment.voucher as TallyVoucherXml);
+    if (altered.length === 0) return;
+
+    setBusy('push');
+    try {
+      const company = currentCompanyName() || undefined;
+      const syncResult = await tallySyncService.syncToTally(
+        buildVoucherEnvelope(altered, company),
+        describeSubmittedVouchers(altered)
+      );
+      const statuses = syncResult.importResult?.voucherResults;
+      const accepted = ready.filter((_, index) =>
+        statuses ? statuses[index]?.status === 'imported' : syncResult.success
+      );
+
+      // Accepted changes become the state the grid compares against
+      const acceptedByKey = new Map(accepted.map(amendment => [amendment.key, amendment.voucher as TallyVoucherXml]));
+      setVouchers(current => current.map(voucher => acceptedByKey.get(voucherKey(voucher)) || voucher));
+      setOriginals(current => current.map(row => {
+        const voucher = acceptedByKey.get(row.key);
+        return voucher ? { ...voucherToGridRow(voucher), key: row.key } : row;
+      }));
+
+      setAmendments(null);
+      if (syncResult.success) {
+        toast.success(`Updated ${accepted.length} voucher(s) in Tally`);
+      } else if (syncResult.importResult) {
+        toast.error(`${syncResult.importResult.failed} voucher(s) were rejected by Tally. See the Verification page for details.`);
+      } else {
+        toast.error(syncResult.message);
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExportVouchers = async () => {
+    if (changedCount > 0) {
+      toast.info('The export holds the vouchers as they are in Tally; changes not yet sent are left out');
+    }
+
+    setBusy('export');
+    try {
+      // Without the masters, cash and bank ledgers are recognised by name
+      const company = currentCompanyName() || undefined;
+      const masters = await Promise.all([tallyExportService.getLedgers(company), tallyExportService.getGroups(company)])
+        .catch(() => null);
+      const { sheets, skipped } = vouchersToTemplates(vouchers, masters ? cashBankCheck(...masters) : undefined);
+      if (sheets.length === 0) {
+        toast.error('None of the vouchers fit an import template');
+        return;
+      }
+
+      const notExported = skipped.map(voucher => ({
+        'Voucher Type': voucher.voucherType,
+        'Voucher No': voucher.voucherNumber,
+        'Date': voucher.date,
+        'Reason': voucher.reason
+      }));
+      await tallySyncService.downloadExcelFile(
+        notExported.length > 0 ? [...sheets, { name: 'Not exported', rows: notExported }] : sheets,
+        `Vouchers_${fromDate}_to_${toDate}.xlsx`
+      );
+      if (skipped.length > 0) {
+        toast.warning(`${skipped.length} voucher(s) do not fit a template; see the "Not exported" sheet`);
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExportMasters = async () => {
+    setBusy('export');
+    try {
+      const company = currentCompanyName() || undefined;
+      const [ledgers, stockItems] = await Promise.all([
+        tallyExportService.getLedgers(company),
+        tallyExportService.getStockItems(company)
+      ]);
+      await tallySyncService.downloadExcelFile([
+        { name: 'Ledgers', rows: ledgerTemplateRows(ledgers) },
+        { name: 'Stock Items', rows: stockItemTemplateRows(stockItems) }
+      ], 'Masters.xlsx');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not fetch masters from Tally');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const readyCount = (amendments || []).filter(amendment => amendment.voucher).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <CloudDownload className="h-5 w-5" />
+            <span>Fetch from Tally</span>
+          </CardTitle>
+          <CardDescription>
+            Load the vouchers of a period from Tally's day book, correct them in the grid and send only the changed
+            vouchers back. Tally alters the original vouchers; nothing new is created. Export to Excel writes the
+            vouchers in the import templates, a sheet per voucher type, to correct and import again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="fetchFromDate">From</Label>
+              <Input id="fetchFromDate" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="fetchToDate">To</Label>
+              <Input id="fetchToDate" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="fetchVoucherType">Voucher Type</Label>
+              <Select value={voucherType} onValueChange={setVoucherType}>
+                <SelectTrigger id="fetchVoucherType" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TYPES}>All voucher types</SelectItem>
+                  {voucherTypes.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleFetch} disabled={busy !== null}>
+              {busy === 'fetch' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CloudDownload className="h-4 w-4 mr-2" />}
+              Fetch Vouchers
+            </Button>
+            <Button variant="outline" onClick={handleReview} disabled={busy !== null || changedCount === 0}>
+              <GitCompare className="h-4 w-4 mr-2" />
+              Review Changes{changedCount > 0 ? ` (${changedCount})` : ''}
+            </Button>
+            <Button variant="outline" onClick={() => setRows(originals)} disabled={busy !== null || changedCount === 0}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Discard Changes
+            </Button>
+            <Button variant="outline" onClick={handleExportVouchers} disabled={busy !== null || vouchers.length === 0}>
+              {busy === 'export' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSpreadsheet className="h-4 w-4 mr-2" />}
+              Export to Excel
+            </Button>
+            <Button variant="outline" onClick={handleExportMasters} disabled={busy !== null}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export Masters
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {originals.length > 0 && (
+        <DataGrid
+          title="Vouchers in Tally"
+          columns={GRID_COLUMNS}
+          data={rows}
+          onDataChange={(data) => setRows(data as VoucherGridRow[])}
+          isRowChanged={isRowChanged}
+          allowRowChanges={false}
+          status={changedCount > 0 ? `${changedCount} voucher(s) changed` : 'No changes'}
+          height="480px"
+        />
+      )}
+
+      <Dialog open={amendments !== null} onOpenChange={(isOpen) => !isOpen && busy === null && setAmendments(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Review Changes
+            </DialogTitle>
+            <DialogDescription>
+              {readyCount} voucher(s) will be altered in Tally. Changes that cannot be applied here are listed with the
+              reason and are not sent.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Voucher</TableHead>
+                <TableHead>Field</TableHead>
+                <TableHead>Before</TableHead>
+                <TableHead>After</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(amendments || []).map(amendment => (
+                <React.Fragment key={amendment.key}>
+                  {amendment.changes.map((change, index) => (
+                    <TableRow key={change.field} className={amendment.error ? 'opacity-60' : ''}>
+                      {index === 0 && (
+                        <TableCell rowSpan={amendment.changes.length + (amendment.error ? 1 : 0)} className="align-top">
+                          <div className="font-medium">{amendment.voucherType} {amendment.voucherNumber}</div>
+                        </TableCell>
+                      )}
+                      <TableCell>{change.label}</TableCell>
+                      <TableCell className="text-red-600 line-through">{change.before}</TableCell>
+                      <TableCell className="text-green-700">{change.after}</TableCell>
+                    </TableRow>
+                  ))}
+                  {amendment.error && (
+                    <TableRow>
+                      <TableCell colSpan={3} className="text-sm text-amber-700">
+                        <AlertTriangle className="h-4 w-4 inline mr-1" />
+                        {amendment.error}
+                        <Badge variant="outline" className="ml-2">Not sent</Badge>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </React.Fragment>
+              ))}
+            </TableBody>
+          </Table>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAmendments(null)} disabled={busy !== null}>
+              Keep Editing
+            </Button>
+            <Button onClick={handlePush} disabled={busy !== null || readyCount === 0}>
+              {busy === 'push' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Update {readyCount} Voucher(s) in Tally
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TallyVoucherEditor;
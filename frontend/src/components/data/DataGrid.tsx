@@ -25,6 +25,12 @@ interface DataGridProps {
   title?: string;
   height?: string | number;
   className?: string;
+  /** Marks rows edited since they were loaded */
+  isRowChanged?: (row: Record<string, unknown>) => boolean;
+  /** Whether rows can be added and deleted; cells stay editable either way */
+  allowRowChanges?: boolean;
+  /** Footer status text */
+  status?: string;
 }
 
 const DataGrid: React.FC<DataGridProps> = ({
@@ -34,6 +40,9 @@ const DataGrid: React.FC<DataGridProps> = ({
   title = 'Data Grid',
   height = '600px',
   className,
+  isRowChanged,
+  allowRowChanges = true,
+  status = 'Ready to export to Tally',
 }) => {
   const [data, setData] = useState<Record<string, unknown>[]>(initialData || []);
   const [selectedCell, setSelectedCell] = useState<{ rowIndex: number; colIndex: number } | null>(null);
@@ -362,7 +371,7 @@ const DataGrid: React.FC<DataGridProps> = ({
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="bg-white dark:bg-slate-800 shadow-xl border border-slate-200 dark:border-slate-700">
-              <DropdownMenuItem onClick={deleteSelectedRows} disabled={selectedRows.length === 0} className="cursor-pointer">
+              <DropdownMenuItem onClick={deleteSelectedRows} disabled={!allowRowChanges || selectedRows.length === 0} className="cursor-pointer">
                 <Trash2 className="mr-2 h-4 w-4" />
                 <span>Delete Selected</span>
               </DropdownMenuItem>
@@ -373,7 +382,7 @@ const DataGrid: React.FC<DataGridProps> = ({
             </DropdownMenuContent>
           </DropdownMenu>
 
-          <TooltipProvider>
+          {allowRowChanges && <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button 
@@ -390,7 +399,7 @@ const DataGrid: React.FC<DataGridProps> = ({
                 <p>Add a new row</p>
               </TooltipContent>
             </Tooltip>
-          </TooltipProvider>
+          </TooltipProvider>}
         </div>
       </div>
       
@@ -463,7 +472,8 @@ const DataGrid: React.FC<DataGridProps> = ({
                   key={rowIndex} 
                   className={cn(
                     "table-row hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors",
-                    selectedRows.includes(rowIndex) ? "bg-purple-light/10" : ""
+                    selectedRows.includes(rowIndex) ? "bg-purple-light/10" : "",
+                    isRowChanged?.(row) ? "bg-amber-50 dark:bg-amber-900/20" : ""
                   )}
                   variants={tableRowVariants}
                   initial="hidden"
@@ -519,7 +529,7 @@ const DataGrid: React.FC<DataGridProps> = ({
           {sortedData.length} rows
         </div>
         <div className="flex items-center">
-          <span>Ready to export to Tally</span>
+          <span>{status}</span>
           <div className="ml-2 h-1.5 w-1.5 rounded-full bg-green-500 animate-pulse-subtle"></div>
         </div>
       </div>
@@ -0,0 +1,190 @@
+/**
+ * GstSlabSettingsForm Component
+ *
+ * Editor for the GST slab table and the company's GST registration.
+ * The slabs configured here drive the GST calculator, the data-entry
+ * templates and the generated Tally vouchers.
+ */
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Percent, Plus, Trash2, Save, RotateCcw } from 'lucide-react';
+import {
+  DEFAULT_GST_SLABS,
+  GST_STATE_CODES,
+  loadGstConfig,
+  saveGstConfig,
+  stateCodeFromGstin,
+  type GstConfig,
+  type GstSlab
+} from '@/lib/gst';
+import { toast } from 'sonner';
+
+export const GstSlabSettingsForm: React.FC = () => {
+  const [config, setConfig] = useState<GstConfig>(loadGstConfig());
+
+  const updateSlab = (index: number, updates: Partial<GstSlab>) => {
+    setConfig(prev => ({
+      ...prev,
+      slabs: prev.slabs.map((slab, i) => (i === index ? { ...slab, ...updates } : slab))
+    }));
+  };
+
+  const addSlab = () => {
+    setConfig(prev => ({
+      ...prev,
+      slabs: [...prev.slabs, { rate: 0, cessRate: 0, enabled: true }]
+    }));
+  };
+
+  const removeSlab = (index: number) => {
+    setConfig(prev => ({
+      ...prev,
+      slabs: prev.slabs.filter((_, i) => i !== index)
+    }));
+  };
+
+  const resetSlabs = () => {
+    setConfig(prev => ({ ...prev, slabs: DEFAULT_GST_SLABS }));
+  };
+
+  const handleSave = () => {
+    const keys = config.slabs.map(slab => `${slab.rate}/${slab.cessRate}`);
+    if (new Set(keys).size !== keys.length) {
+      toast.error('Each GST slab must have a unique rate and cess combination');
+      return;
+    }
+    if (config.slabs.some(slab => slab.rate < 0 || slab.rate > 100 || slab.cessRate < 0)) {
+      toast.error('GST and cess rates must be between 0 and 100');
+      return;
+    }
+    if (config.companyGstin && !stateCodeFromGstin(config.companyGstin)) {
+      toast.error('Company GSTIN does not start with a valid state code');
+      return;
+    }
+
+    saveGstConfig(config);
+    toast.success('GST settings saved successfully');
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="h-5 w-5" />
+          GST Configuration
+        </CardTitle>
+        <CardDescription>
+          Tax slabs and the company's GST registration. Supplies to a different state than the company's are taxed as IGST.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="companyGstin">Company GSTIN</Label>
+            <Input
+              id="companyGstin"
+              value={config.companyGstin || ''}
+              onChange={(e) => setConfig(prev => ({ ...prev, companyGstin: e.target.value.toUpperCase() }))}
+              placeholder="27AAPFU0939F1ZV"
+              className="mt-1"
+            />
+            <p className="text-xs text-gray-500 mt-1">The state is taken from the first two digits</p>
+          </div>
+
+          <div>
+            <Label htmlFor="companyState">Company State</Label>
+            <Select
+              value={stateCodeFromGstin(config.companyGstin) || config.companyStateCode || ''}
+              onValueChange={(value) => setConfig(prev => ({ ...prev, companyStateCode: value }))}
+              disabled={!!stateCodeFromGstin(config.companyGstin)}
+            >
+              <SelectTrigger id="companyState" className="mt-1">
+                <SelectValue placeholder="Select state" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(GST_STATE_CODES).map(([code, name]) => (
+                  <SelectItem key={code} value={code}>{code} - {name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">Used when no company GSTIN is set</p>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>GST Rate (%)</TableHead>
+              <TableHead>Cess Rate (%)</TableHead>
+              <TableHead>Enabled</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {config.slabs.map((slab, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={slab.rate}
+                    onChange={(e) => updateSlab(index, { rate: parseFloat(e.target.value) || 0 })}
+                    className="w-28"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={slab.cessRate}
+                    onChange={(e) => updateSlab(index, { cessRate: parseFloat(e.target.value) || 0 })}
+                    className="w-28"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={slab.enabled}
+                    onCheckedChange={(checked) => updateSlab(index, { enabled: checked })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="sm" onClick={() => removeSlab(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={addSlab}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Slab
+            </Button>
+            <Button variant="outline" size="sm" onClick={resetSlabs}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reset to Defaults
+            </Button>
+          </div>
+          <Button onClick={handleSave}>
+            <Save className="h-4 w-4 mr-2" />
+            Save GST Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GstSlabSettingsForm;
@@ -15,7 +15,7 @@ import {
   SidebarFooter,
 } from '@/components/ui/sidebar';
 import { cn } from '@/lib/utils';
-import { FileText, Database, Settings, ChevronRight, FileSpreadsheet, FileCheck, HelpCircle, Sparkles, Download, BookOpen } from 'lucide-react';
+import { FileText, Database, Settings, ChevronRight, FileSpreadsheet, FileCheck, HelpCircle, Sparkles, Download, BookOpen, GitMerge, Receipt } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 import Logo from '../ui/Logo';
@@ -32,6 +32,8 @@ const Icon = ({ name, className, ...props }: { name: string, className?: string,
     'help': HelpCircle,
     'download': Download,
     'book-open': BookOpen,
+    'git-merge': GitMerge,
+    'receipt': Receipt,
   };
 
   const LucideIcon = icons[name] || Database;
@@ -51,6 +53,18 @@ const menuItems = [
     icon: 'file-spreadsheet',
     description: 'Import Excel data with automatic verification and convert to Tally format'
   },
+  {
+    title: 'Bank Reconciliation',
+    path: '/bank-reconciliation',
+    icon: 'git-merge',
+    description: 'Match bank statements with the bank book in Tally'
+  },
+  {
+    title: 'GST Returns',
+    path: '/gst-returns',
+    icon: 'receipt',
+    description: 'Prepare GSTR-1 and GSTR-3B from Tally and reconcile purchases with GSTR-2B'
+  },
   {
     title: 'Tally Setup Guide',
     path: '/tally-guide',
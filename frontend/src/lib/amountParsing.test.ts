@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { isBlankCell, parseAmount } from './amountParsing';
+
+describe('parseAmount', () => {
+  it('reads Indian and western digit grouping', () => {
+    expect(parseAmount('1,00,000')).toBe(100000);
+    expect(parseAmount('12,34,567.89')).toBe(1234567.89);
+    expect(parseAmount('100,000.50')).toBe(100000.5);
+    expect(parseAmount('2500')).toBe(2500);
+    expect(parseAmount('.75')).toBe(0.75);
+    expect(parseAmount(1180)).toBe(1180);
+  });
+
+  it('strips the rupee sign and prefixes', () => {
+    expect(parseAmount('₹ 1,180.00')).toBe(1180);
+    expect(parseAmount('Rs. 500')).toBe(500);
+    expect(parseAmount('INR 2,000')).toBe(2000);
+    expect(parseAmount('-₹500')).toBe(-500);
+  });
+
+  it('reads a leading minus, brackets or a trailing Dr/Cr as the sign', () => {
+    expect(parseAmount('-1,500')).toBe(-1500);
+    expect(parseAmount('(1,500.00)')).toBe(-1500);
+    expect(parseAmount('1,500.00 Dr')).toBe(-1500);
+    expect(parseAmount('1,500.00 Cr')).toBe(1500);
+    expect(parseAmount('750Dr.')).toBe(-750);
+  });
+
+  it('rejects text that is not an amount', () => {
+    expect(parseAmount('12-15')).toBeNull();
+    expect(parseAmount('2024-25')).toBeNull();
+    expect(parseAmount('approx 500')).toBeNull();
+    expect(parseAmount('1,0,0')).toBeNull();
+    expect(parseAmount('500 -')).toBeNull();
+    expect(parseAmount('-500 Dr')).toBeNull();
+    expect(parseAmount('')).toBeNull();
+    expect(parseAmount(null)).toBeNull();
+    expect(parseAmount(Number.NaN)).toBeNull();
+  });
+});
+
+describe('isBlankCell', () => {
+  it('treats empty and whitespace cells as blank', () => {
+    expect(isBlankCell(undefined)).toBe(true);
+    expect(isBlankCell('  ')).toBe(true);
+    expect(isBlankCell(0)).toBe(false);
+    expect(isBlankCell('0')).toBe(false);
+  });
+});
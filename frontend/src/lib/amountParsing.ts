@@ -0,0 +1,63 @@
+/**
+ * Amount Parsing
+ *
+ * Reads amounts the way they are typed in spreadsheets: Indian or western
+ * digit grouping ("1,00,000.00", "100,000"), a rupee sign, "Rs." or "INR",
+ * and a sign written as a leading minus, brackets or a trailing Dr/Cr.
+ * Anything else, such as "12-15" or "approx 500", is not an amount, so a
+ * typo is reported instead of being read as a different figure.
+ *
+ * @module amountParsing
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+// ===== PARSING =====
+
+const CURRENCY_PREFIX = /^(?:₹|rs\.?|inr)\s*/i;
+const SIDE_SUFFIX = /\s*(dr|cr)\.?$/i;
+const DIGITS_PATTERN = /^(?:\d{1,3}(?:,\d{2,3})+|\d+)(?:\.\d+)?$|^\.\d+$/;
+
+/**
+ * Whether a cell is empty
+ */
+export const isBlankCell = (value: unknown): boolean =>
+  value === undefined || value === null || String(value).trim() === '';
+
+/**
+ * Amount in a cell, or null when the cell is empty or does not hold an
+ * amount. Debits ("500 Dr") and bracketed amounts are negative, as Tally
+ * writes debits; only one sign marker is accepted.
+ */
+export const parseAmount = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+
+  let text = String(value ?? '').trim();
+  let signs = 0;
+  let negative = false;
+
+  const bracketed = text.match(/^\((.*)\)$/);
+  if (bracketed) {
+    text = bracketed[1].trim();
+    negative = true;
+    signs++;
+  }
+
+  const side = text.match(SIDE_SUFFIX);
+  if (side) {
+    text = text.slice(0, side.index).trim();
+    negative = side[1].toLowerCase() === 'dr';
+    signs++;
+  }
+
+  text = text.replace(CURRENCY_PREFIX, '');
+  if (/^[-+]/.test(text)) {
+    negative = text.startsWith('-');
+    text = text.slice(1).trim().replace(CURRENCY_PREFIX, '');
+    signs++;
+  }
+
+  if (signs > 1 || !DIGITS_PATTERN.test(text)) return null;
+  const amount = parseFloat(text.replace(/,/g, ''));
+  return negative ? -amount : amount;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildBankDateAlteration, toBookEntries, type ReconciliationMatch } from './bankReconciliation';
+import { parseDayBook, parseXml } from './tallyExport';
+import type { XmlElement } from './tallyXml';
+import dayBookXml from './__fixtures__/tally/dayBook.xml?raw';
+
+const dayBook = parseDayBook(dayBookXml);
+
+const [receiptEntry, unknownEntry] = toBookEntries([
+  {
+    date: '2024-04-20', particular: 'Shah & Sons (Pune)', voucherType: 'Receipt', voucherNumber: '7',
+    amount: 5000, reconciled: false, instrumentNumber: 'HDFC0001234'
+  },
+  { date: '2024-04-22', particular: 'Cash', voucherType: 'Contra', voucherNumber: '3', amount: -2000, reconciled: false }
+]);
+
+const match = (bookIds: string[]): ReconciliationMatch => ({
+  id: 'instrument-1', kind: 'instrument', statementIds: ['line-1'], bookIds, bankDate: '20240422', accepted: true
+});
+
+const findAll = (node: XmlElement, name: string): XmlElement[] =>
+  node.children
+    .filter((child): child is XmlElement => typeof child === 'object' && child !== null)
+    .flatMap(child => (child.name === name ? [child] : findAll(child, name)));
+
+describe('buildBankDateAlteration', () => {
+  it('re-posts the whole voucher by GUID with only the bank date changed', () => {
+    const alteration = buildBankDateAlteration([match([receiptEntry.id])], [receiptEntry], dayBook, 'HDFC Bank', 'Demo');
+    expect(alteration.issues).toEqual([]);
+    expect(alteration.bookIds).toEqual([receiptEntry.id]);
+
+    const [voucher] = findAll(parseXml(alteration.xml!), 'VOUCHER');
+    expect(voucher.attributes).toMatchObject({
+      REMOTEID: '7d2c5a1e-94b3-4c0e-8f51-2a6d3e9b7c10-00000102',
+      VCHTYPE: 'Receipt',
+      ACTION: 'Alter'
+    });
+    expect(voucher.attributes).not.toHaveProperty('TAGNAME');
+
+    const [reposted] = parseDayBook(alteration.xml!);
+    const [original] = dayBook.filter(item => item.voucherNumber === '7');
+    expect(reposted.ledgerEntries.map(({ ledgerName, side, amount }) => ({ ledgerName, side, amount })))
+      .toEqual(original.ledgerEntries.map(({ ledgerName, side, amount }) => ({ ledgerName, side, amount })));
+    expect(findAll(voucher, 'BILLALLOCATIONS.LIST')).toHaveLength(1);
+
+    const [bank] = findAll(voucher, 'BANKALLOCATIONS.LIST');
+    expect(findAll(bank, 'BANKERSDATE').map(node => node.children)).toEqual([['20240422']]);
+    expect(findAll(bank, 'INSTRUMENTNUMBER').map(node => node.children)).toEqual([['HDFC0001234']]);
+    expect(findAll(bank, 'TRANSACTIONTYPE').map(node => node.children)).toEqual([['e-Fund Transfer']]);
+  });
+
+  it('does not change the vouchers read from the day book', () => {
+    buildBankDateAlteration([match([receiptEntry.id])], [receiptEntry], dayBook, 'HDFC Bank');
+
+    expect(parseDayBook(dayBookXml)).toEqual(dayBook);
+  });
+
+  it('reports book entries whose voucher is not in the day book', () => {
+    const alteration = buildBankDateAlteration([match([unknownEntry.id])], [unknownEntry], dayBook, 'HDFC Bank');
+
+    expect(alteration.xml).toBeNull();
+    expect(alteration.issues.map(issue => issue.message)).toEqual(['Contra 3: not found in the day book']);
+  });
+
+  it('reports a voucher without a bank allocation on the bank ledger', () => {
+    const alteration = buildBankDateAlteration([match([receiptEntry.id])], [receiptEntry], dayBook, 'ICICI Bank');
+
+    expect(alteration.xml).toBeNull();
+    expect(alteration.issues).toHaveLength(1);
+  });
+});
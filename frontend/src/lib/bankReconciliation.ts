@@ -0,0 +1,362 @@
+/**
+ * Bank Reconciliation
+ *
+ * Matches bank statement lines against the bank book from Tally and
+ * builds the alter request that writes the bank date back to the matched
+ * vouchers, as read from the day book. Lines are matched on instrument
+ * number first, then on amount within a date window; remaining lines are
+ * checked for one-to-many matches such as several cheques deposited in
+ * one slip.
+ *
+ * @module bankReconciliation
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import type { TallyBankReconciliation } from '@/services/TallyService';
+import type { BankDirection, BankTransaction } from './bankStatement';
+import { parseDateValue, toTallyDate } from './dateParsing';
+import { tallyNumber } from './tallyExport';
+import { buildVoucherEnvelope, el, type TallyVoucherXml, type XmlChild, type XmlElement } from './tallyXml';
+
+// ===== TYPES =====
+
+/**
+ * A bank book entry from Tally, with the fields matching needs
+ */
+export interface BookEntry extends TallyBankReconciliation {
+  id: string;
+  /** Voucher date as YYYYMMDD, or null if Tally sent an unreadable date */
+  tallyDate: string | null;
+  direction: BankDirection;
+  absoluteAmount: number;
+}
+
+export type MatchKind = 'instrument' | 'amount' | 'split';
+
+/**
+ * Statement lines and book entries that settle each other
+ */
+export interface ReconciliationMatch {
+  id: string;
+  kind: MatchKind;
+  statementIds: string[];
+  bookIds: string[];
+  /** Bank date written to the matched vouchers, YYYYMMDD */
+  bankDate: string;
+  /** Instrument and amount matches are accepted; split matches are suggestions */
+  accepted: boolean;
+}
+
+export interface MatchOptions {
+  /** Days a statement line may be away from the book date */
+  dateWindowDays: number;
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = { dateWindowDays: 5 };
+
+/**
+ * Book entries per split suggestion; keeps the subset search small
+ */
+const MAX_SPLIT_PARTS = 4;
+const MAX_SPLIT_CANDIDATES = 15;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===== BOOK ENTRIES =====
+
+/**
+ * Prepare Tally's bank book rows for matching. Amounts are positive for
+ * deposits (debits to the bank ledger) and negative for withdrawals, as
+ * in Tally's bank reconciliation report.
+ */
+export const toBookEntries = (rows: TallyBankReconciliation[]): BookEntry[] =>
+  rows.map((row, index) => {
+    const date = parseDateValue(row.date);
+    return {
+      ...row,
+      id: `${row.voucherType}|${row.voucherNumber}|${row.date}|${index}`,
+      tallyDate: date ? toTallyDate(date) : null,
+      direction: row.amount < 0 ? 'withdrawal' : 'deposit',
+      absoluteAmount: Math.abs(row.amount)
+    };
+  });
+
+// ===== MATCHING =====
+
+const normalizeInstrument = (value: string | undefined): string =>
+  String(value || '').replace(/[^a-z0-9]/gi, '').replace(/^0+/, '').toUpperCase();
+
+const sameAmount = (a: number, b: number): boolean => Math.abs(a - b) < 0.005;
+
+const daysBetween = (a: string, b: string): number => {
+  const toTime = (date: string) => Date.UTC(+date.slice(0, 4), +date.slice(4, 6) - 1, +date.slice(6, 8));
+  return Math.round((toTime(a) - toTime(b)) / DAY_MS);
+};
+
+const withinWindow = (line: BankTransaction, entry: BookEntry, options: MatchOptions): boolean =>
+  Boolean(line.date && entry.tallyDate) &&
+  Math.abs(daysBetween(line.date as string, entry.tallyDate as string)) <= options.dateWindowDays;
+
+const latestDate = (lines: BankTransaction[]): string =>
+  lines.map(line => line.date as string).sort().slice(-1)[0];
+
+// Subsets of up to MAX_SPLIT_PARTS items whose amounts add up to the target
+const findSubset = <T>(items: T[], amountOf: (item: T) => number, target: number): T[] | null => {
+  const candidates = items.slice(0, MAX_SPLIT_CANDIDATES);
+
+  const search = (start: number, remaining: number, picked: T[]): T[] | null => {
+    if (picked.length >= 2 && sameAmount(remaining, 0)) return picked;
+    if (picked.length === MAX_SPLIT_PARTS || remaining < 0) return null;
+
+    for (let i = start; i < candidates.length; i++) {
+      const found = search(i + 1, Math.round((remaining - amountOf(candidates[i])) * 100) / 100, [...picked, candidates[i]]);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  return search(0, target, []);
+};
+
+/**
+ * Match statement lines with unreconciled book entries. Each line and
+ * entry is used in at most one match.
+ */
+export const matchStatementToBook = (
+  lines: BankTransaction[],
+  entries: BookEntry[],
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): ReconciliationMatch[] => {
+  const matches: ReconciliationMatch[] = [];
+  const usedLines = new Set<string>();
+  const usedEntries = new Set<string>();
+
+  const datedLines = lines.filter(line => line.date);
+  const openEntries = entries.filter(entry => !entry.reconciled && entry.tallyDate);
+
+  const addMatch = (kind: MatchKind, matchedLines: BankTransaction[], matchedEntries: BookEntry[]) => {
+    matchedLines.forEach(line => usedLines.add(line.id));
+    matchedEntries.forEach(entry => usedEntries.add(entry.id));
+    matches.push({
+      id: `${kind}-${matches.length + 1}`,
+      kind,
+      statementIds: matchedLines.map(line => line.id),
+      bookIds: matchedEntries.map(entry => entry.id),
+      bankDate: latestDate(matchedLines),
+      accepted: kind !== 'split'
+    });
+  };
+
+  // 1. Same instrument number and amount. Cheques may clear well after the
+  //    book date, so only lines dated before the voucher are ruled out.
+  openEntries.forEach(entry => {
+    const instrument = normalizeInstrument(entry.instrumentNumber);
+    if (!instrument) return;
+
+    const line = datedLines.find(candidate =>
+      !usedLines.has(candidate.id) &&
+      candidate.direction === entry.direction &&
+      sameAmount(candidate.amount, entry.absoluteAmount) &&
+      normalizeInstrument(candidate.reference) === instrument &&
+      daysBetween(candidate.date as string, entry.tallyDate as string) >= -options.dateWindowDays
+    );
+    if (line) addMatch('instrument', [line], [entry]);
+  });
+
+  // 2. Same amount within the date window, closest date first
+  openEntries.forEach(entry => {
+    if (usedEntries.has(entry.id)) return;
+
+    const line = datedLines
+      .filter(candidate =>
+        !usedLines.has(candidate.id) &&
+        candidate.direction === entry.direction &&
+        sameAmount(candidate.amount, entry.absoluteAmount) &&
+        withinWindow(candidate, entry, options)
+      )
+      .sort((a, b) =>
+        Math.abs(daysBetween(a.date as string, entry.tallyDate as string)) -
+        Math.abs(daysBetween(b.date as string, entry.tallyDate as string))
+      )[0];
+    if (line) addMatch('amount', [line], [entry]);
+  });
+
+  // 3. One statement line settling several book entries
+  datedLines.forEach(line => {
+    if (usedLines.has(line.id)) return;
+
+    const candidates = openEntries.filter(entry =>
+      !usedEntries.has(entry.id) && entry.direction === line.direction && withinWindow(line, entry, options)
+    );
+    const subset = findSubset(candidates, entry => entry.absoluteAmount, line.amount);
+    if (subset) addMatch('split', [line], subset);
+  });
+
+  // 4. One book entry settled by several statement lines
+  openEntries.forEach(entry => {
+    if (usedEntries.has(entry.id)) return;
+
+    const candidates = datedLines.filter(line =>
+      !usedLines.has(line.id) && line.direction === entry.direction && withinWindow(line, entry, options)
+    );
+    const subset = findSubset(candidates, line => line.amount, entry.absoluteAmount);
+    if (subset) addMatch('split', subset, [entry]);
+  });
+
+  return matches;
+};
+
+/**
+ * Match a manually chosen set of lines and entries, if their totals agree
+ */
+export const manualMatch = (
+  lines: BankTransaction[],
+  entries: BookEntry[],
+  id: string
+): ReconciliationMatch | null => {
+  if (lines.length === 0 || entries.length === 0 || lines.some(line => !line.date)) return null;
+
+  const signed = (direction: BankDirection, amount: number) => (direction === 'deposit' ? amount : -amount);
+  const statementTotal = lines.reduce((sum, line) => sum + signed(line.direction, line.amount), 0);
+  const bookTotal = entries.reduce((sum, entry) => sum + signed(entry.direction, entry.absoluteAmount), 0);
+  if (!sameAmount(statementTotal, bookTotal)) return null;
+
+  return {
+    id,
+    kind: lines.length > 1 || entries.length > 1 ? 'split' : 'amount',
+    statementIds: lines.map(line => line.id),
+    bookIds: entries.map(entry => entry.id),
+    bankDate: latestDate(lines),
+    accepted: true
+  };
+};
+
+// ===== WRITE BACK =====
+
+/**
+ * Matched vouchers re-posted with their bank dates, and the book entries
+ * whose voucher could not be altered
+ */
+export interface BankDateAlteration {
+  /** Import envelope altering the vouchers, or null if none could be altered */
+  xml: string | null;
+  /** Book entries whose voucher carries the new bank date */
+  bookIds: string[];
+  issues: { entry: BookEntry; message: string }[];
+}
+
+const isElement = (child: XmlChild): child is XmlElement => typeof child === 'object' && child !== null;
+
+const childText = (node: XmlElement, name: string): string => {
+  const child = node.children.filter(isElement).find(item => item.name === name);
+  return child ? child.children.filter(item => !isElement(item)).join('').trim() : '';
+};
+
+const sameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The bank allocation of a voucher that a book entry stands for: the only
+// one on the bank ledger, else the one with the entry's instrument number
+// or amount
+const findBankAllocation = (
+  voucher: TallyVoucherXml,
+  entry: BookEntry,
+  bankLedger: string
+): { ledgerIndex: number; allocation: XmlElement } | null => {
+  const candidates = voucher.ledgerEntries.flatMap((ledgerEntry, ledgerIndex) =>
+    sameName(ledgerEntry.ledgerName, bankLedger)
+      ? (ledgerEntry.extra || [])
+        .filter(isElement)
+        .filter(child => child.name === 'BANKALLOCATIONS.LIST')
+        .map(allocation => ({ ledgerIndex, allocation }))
+      : []
+  );
+  if (candidates.length <= 1) return candidates[0] || null;
+
+  const instrument = normalizeInstrument(entry.instrumentNumber);
+  const byInstrument = candidates.filter(({ allocation }) =>
+    instrument && normalizeInstrument(childText(allocation, 'INSTRUMENTNUMBER')) === instrument
+  );
+  if (byInstrument.length === 1) return byInstrument[0];
+
+  const byAmount = candidates.filter(({ allocation }) =>
+    sameAmount(Math.abs(tallyNumber(childText(allocation, 'AMOUNT'))), entry.absoluteAmount)
+  );
+  return byAmount.length === 1 ? byAmount[0] : null;
+};
+
+const withBankersDate = (allocation: XmlElement, bankDate: string): XmlElement => {
+  const bankersDate = el('BANKERSDATE', null, bankDate);
+  const hasDate = allocation.children.some(child => isElement(child) && child.name === 'BANKERSDATE');
+  return {
+    ...allocation,
+    children: hasDate
+      ? allocation.children.map(child => (isElement(child) && child.name === 'BANKERSDATE' ? bankersDate : child))
+      : [...allocation.children, bankersDate]
+  };
+};
+
+/**
+ * Alter request setting the bank date of matched book entries. Tally
+ * replaces a voucher's entries on Alter, so each voucher is re-posted
+ * whole as read from the day book, identified by its GUID and REMOTEID,
+ * with only BANKERSDATE changed in the bank allocation of the entry.
+ */
+export const buildBankDateAlteration = (
+  matches: ReconciliationMatch[],
+  entries: BookEntry[],
+  dayBook: TallyVoucherXml[],
+  bankLedger: string,
+  company?: string
+): BankDateAlteration => {
+  const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+  const altered = new Map<TallyVoucherXml, TallyVoucherXml>();
+  const bookIds: string[] = [];
+  const issues: BankDateAlteration['issues'] = [];
+
+  matches.forEach(match =>
+    match.bookIds.forEach(id => {
+      const entry = entriesById.get(id);
+      if (!entry) return;
+      const refuse = (message: string) => issues.push({ entry, message: `${entry.voucherType} ${entry.voucherNumber}: ${message}` });
+
+      const vouchers = dayBook.filter(voucher =>
+        sameName(voucher.voucherType, entry.voucherType) &&
+        voucher.voucherNumber.trim() === entry.voucherNumber.trim() &&
+        voucher.date === entry.tallyDate
+      );
+      if (vouchers.length !== 1) {
+        refuse(vouchers.length === 0 ? 'not found in the day book' : 'more than one voucher has this number and date');
+        return;
+      }
+      if (!vouchers[0].guid && !vouchers[0].remoteId) {
+        refuse('Tally did not send the GUID of the voucher');
+        return;
+      }
+
+      const voucher = altered.get(vouchers[0]) || {
+        ...vouchers[0],
+        action: 'Alter' as const,
+        remoteId: vouchers[0].remoteId || vouchers[0].guid,
+        ledgerEntries: vouchers[0].ledgerEntries.map(ledgerEntry => ({ ...ledgerEntry }))
+      };
+      const found = findBankAllocation(voucher, entry, bankLedger);
+      if (!found) {
+        refuse(`no single bank allocation of ${bankLedger} matches the entry`);
+        return;
+      }
+
+      const ledgerEntry = voucher.ledgerEntries[found.ledgerIndex];
+      ledgerEntry.extra = (ledgerEntry.extra || []).map(child =>
+        child === found.allocation ? withBankersDate(found.allocation, match.bankDate) : child
+      );
+      altered.set(vouchers[0], voucher);
+      bookIds.push(id);
+    })
+  );
+
+  return {
+    xml: altered.size > 0 ? buildVoucherEnvelope([...altered.values()], company) : null,
+    bookIds,
+    issues
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildBankVouchers, parseBankStatementRows, type BankStatementLine } from './bankStatement';
+import { findDuplicateVouchers } from './voucherIdentity';
+
+const HEADER = ['Date', 'Narration', 'Chq./Ref.No.', 'Withdrawal Amt.', 'Deposit Amt.', 'Closing Balance'];
+
+const readStatement = (...rows: unknown[][]) => parseBankStatementRows([HEADER, ...rows], 'dmy')!;
+
+describe('parseBankStatementRows amounts', () => {
+  it('reads grouped and rupee-prefixed amounts', () => {
+    const { transactions, invalidAmountRows } = readStatement(
+      ['01/04/2024', 'NEFT-SHAH AND SONS', 'N0912', '', '1,25,000.00', '₹ 1,30,000.00'],
+      ['02/04/2024', 'ATM WDL', '', '5,000', '', '1,25,000.00 Cr']
+    );
+
+    expect(invalidAmountRows).toEqual([]);
+    expect(transactions.map(({ amount, direction, balance }) => ({ amount, direction, balance }))).toEqual([
+      { amount: 125000, direction: 'deposit', balance: 130000 },
+      { amount: 5000, direction: 'withdrawal', balance: 125000 }
+    ]);
+  });
+
+  it('skips and lists rows whose amount is not an amount', () => {
+    const { transactions, invalidAmountRows } = readStatement(
+      ['01/04/2024', 'CHQ DEP', '000451', '', '12-15', ''],
+      ['02/04/2024', 'SMS CHARGES', '', '15.00', '', '']
+    );
+
+    expect(invalidAmountRows).toEqual([2]);
+    expect(transactions.map(transaction => transaction.amount)).toEqual([15]);
+  });
+});
+
+describe('buildBankVouchers', () => {
+  const toLines = (...rows: unknown[][]): BankStatementLine[] =>
+    readStatement(...rows).transactions.map(transaction => ({
+      ...transaction,
+      ledger: transaction.narration.includes('ATM') ? 'Cash' : 'Bank Charges',
+      voucherType: transaction.narration.includes('ATM') ? 'Contra' : 'Payment',
+      status: 'matched'
+    }));
+
+  it('numbers lines sharing a reference apart', () => {
+    const vouchers = buildBankVouchers(toLines(
+      ['05/04/2024', 'NEFT CHARGES', 'CHG2404', '25.00', '', ''],
+      ['05/04/2024', 'GST ON NEFT CHARGES', 'CHG2404', '4.50', '', ''],
+      ['06/04/2024', 'SMS CHARGES', 'CHG2405', '15.00', '', '']
+    ), 'HDFC Bank');
+
+    expect(vouchers.map(voucher => voucher.voucherNumber)).toEqual(['CHG2404/2', 'CHG2404/3', 'CHG2405']);
+    expect(findDuplicateVouchers(vouchers, 'Demo')).toEqual([]);
+  });
+
+  it('numbers identical lines without a reference apart', () => {
+    const vouchers = buildBankVouchers(toLines(
+      ['07/04/2024', 'ATM WDL', '', '2,000', '', ''],
+      ['07/04/2024', 'ATM WDL', '000000', '2,000', '', '']
+    ), 'HDFC Bank');
+
+    const [first, second] = vouchers.map(voucher => voucher.voucherNumber);
+    expect(first).toMatch(/^BNK-[0-9A-F]{8}\/2$/);
+    expect(second).toBe(first.replace(/\/2$/, '/3'));
+  });
+});
@@ -0,0 +1,529 @@
+/**
+ * Bank Statement Import
+ *
+ * Reads bank statements downloaded from Indian banks (HDFC, SBI, ICICI,
+ * Axis, Kotak and the TallySync Bank template), classifies each line with
+ * user-defined rules and builds Receipt, Payment and Contra vouchers
+ * against the chosen bank ledger. Lines no rule matches are left for
+ * review instead of being posted to a guessed ledger.
+ *
+ * @module bankStatement
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import { isBlankCell, parseAmount } from './amountParsing';
+import { normalizeDate, toTallyDate, type DateConvention } from './dateParsing';
+import { el, signedAmount, type TallyVoucherXml } from './tallyXml';
+import { stableGuid } from './voucherIdentity';
+
+// ===== TYPES =====
+
+export type BankDirection = 'withdrawal' | 'deposit';
+
+export type BankVoucherType = 'Receipt' | 'Payment' | 'Contra';
+
+/**
+ * How the money moved, read from the narration
+ */
+export type BankChannel = 'UPI' | 'NEFT' | 'RTGS' | 'IMPS' | 'CHEQUE' | 'ATM' | 'CARD' | 'CHARGES' | 'INTEREST' | 'OTHER';
+
+/**
+ * One line of a bank statement
+ */
+export interface BankTransaction {
+  id: string;
+  rowNumber: number;
+  /** Tally date (YYYYMMDD), or null when the date could not be read */
+  date: string | null;
+  dateError?: string;
+  narration: string;
+  reference: string;
+  amount: number;
+  direction: BankDirection;
+  balance: number | null;
+  channel: BankChannel;
+  /** Payer or payee name found in a UPI/NEFT/IMPS/RTGS narration */
+  counterparty: string;
+  /** Counter-ledger and voucher type filled in on the Bank template */
+  ledger?: string;
+  voucherType?: BankVoucherType;
+}
+
+/**
+ * A categorisation rule. Every condition that is set must match.
+ */
+export interface BankRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Regular expression tested against the narration, ignoring case */
+  narrationPattern?: string;
+  channel?: BankChannel;
+  direction?: BankDirection;
+  minAmount?: number;
+  maxAmount?: number;
+  /** Counter-ledger; {counterparty} is replaced with the extracted name */
+  ledger: string;
+  /** Defaults to Receipt for deposits and Payment for withdrawals */
+  voucherType?: BankVoucherType;
+}
+
+export type BankLineStatus = 'matched' | 'unmatched' | 'reviewed';
+
+/**
+ * A statement line with its counter-ledger and voucher type
+ */
+export interface BankStatementLine extends BankTransaction {
+  ledger: string;
+  voucherType: BankVoucherType;
+  ruleId?: string;
+  status: BankLineStatus;
+}
+
+/**
+ * Result of reading a statement sheet
+ */
+export interface ParsedBankStatement {
+  transactions: BankTransaction[];
+  headerRow: number;
+  columns: Partial<Record<BankColumn, string>>;
+  /** Rows skipped because an amount cell is not an amount */
+  invalidAmountRows: number[];
+}
+
+// ===== STATEMENT LAYOUTS =====
+
+type BankColumn = 'date' | 'narration' | 'reference' | 'withdrawal' | 'deposit' | 'amount' | 'drCr' | 'balance' | 'ledger' | 'voucherType';
+
+const BANK_VOUCHER_TYPES: BankVoucherType[] = ['Receipt', 'Payment', 'Contra'];
+
+/**
+ * Header names used by common Indian bank statements, most specific first.
+ * Headers are compared without case, spaces or punctuation.
+ */
+const BANK_COLUMN_ALIASES: Record<BankColumn, string[]> = {
+  date: ['date', 'txndate', 'transactiondate', 'trandate', 'postingdate', 'valuedate', 'valuedt'],
+  narration: [
+    'narration', 'description', 'particulars', 'transactionremarks', 'remarks',
+    'transactiondetails', 'transactiondescription', 'details'
+  ],
+  reference: [
+    'chqrefno', 'refnochequeno', 'chequerefno', 'chqrefnumber', 'chequenumber', 'chequeno',
+    'chqno', 'refno', 'referenceno', 'reference', 'utrno'
+  ],
+  withdrawal: [
+    'withdrawalamt', 'withdrawalamountinr', 'withdrawalamount', 'withdrawal', 'withdrawals',
+    'withdrawaldr', 'debitamount', 'debit', 'dr'
+  ],
+  deposit: [
+    'depositamt', 'depositamountinr', 'depositamount', 'deposit', 'deposits',
+    'depositcr', 'creditamount', 'credit', 'cr'
+  ],
+  amount: ['singleamount', 'amount', 'transactionamount', 'amountinr'],
+  drCr: ['drcr', 'crdr', 'debitcredit', 'type'],
+  balance: ['closingbalance', 'balance', 'balanceinr', 'runningbalance', 'bal'],
+  ledger: ['ledger', 'ledgername', 'counterledger'],
+  voucherType: ['vchtype', 'vouchertype']
+};
+
+/**
+ * Rows scanned for the header; statements often start with account details
+ */
+const HEADER_SCAN_ROWS = 30;
+
+const normalizeBankHeader = (header: unknown): string => String(header ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const findColumns = (headers: unknown[]): Partial<Record<BankColumn, number>> => {
+  const normalized = headers.map(normalizeBankHeader);
+  const columns: Partial<Record<BankColumn, number>> = {};
+
+  (Object.keys(BANK_COLUMN_ALIASES) as BankColumn[]).forEach(column => {
+    for (const alias of BANK_COLUMN_ALIASES[column]) {
+      const index = normalized.indexOf(alias);
+      if (index >= 0 && !Object.values(columns).includes(index)) {
+        columns[column] = index;
+        return;
+      }
+    }
+  });
+
+  return columns;
+};
+
+const hasAmountColumns = (columns: Partial<Record<BankColumn, number>>): boolean =>
+  (columns.withdrawal !== undefined && columns.deposit !== undefined) ||
+  (columns.amount !== undefined && columns.drCr !== undefined);
+
+// ===== LINE PARSING =====
+
+/**
+ * Read an amount such as "1,25,000.00", "₹ 500" or "500.00 Cr" without
+ * its sign. Empty cells are 0; null when the cell is not an amount.
+ */
+export const parseBankAmount = (value: unknown): number | null => {
+  if (isBlankCell(value)) return 0;
+  const amount = parseAmount(value);
+  return amount === null ? null : Math.abs(amount);
+};
+
+const CHANNEL_PATTERNS: [BankChannel, RegExp][] = [
+  ['UPI', /\bUPI\b/i],
+  ['IMPS', /\bIMPS\b|\bMMT\b/i],
+  ['NEFT', /\bNEFT\b/i],
+  ['RTGS', /\bRTGS\b/i],
+  ['ATM', /\bATM\b|\bATW\b|\bNWD\b|\bEAW\b|CASH\s*WDL/i],
+  ['CARD', /\bPOS\b|DEBIT\s*CARD|\bECOM\b/i],
+  ['CHARGES', /CHARGES?\b|\bCHGS?\b|\bFEES?\b|SMS\s*ALERT|\bAMC\b/i],
+  ['INTEREST', /\bINT(EREST)?\b.*\b(PAID|CREDIT|CR)\b|\bINTEREST\b/i],
+  ['CHEQUE', /\bCHQ\b|CHEQUE|\bCLG\b|CLEARING/i]
+];
+
+/**
+ * Channel of a line, from its narration
+ */
+export const detectBankChannel = (narration: string): BankChannel =>
+  CHANNEL_PATTERNS.find(([, pattern]) => pattern.test(narration))?.[0] || 'OTHER';
+
+const COUNTERPARTY_STOP_WORDS = new Set([
+  'UPI', 'NEFT', 'IMPS', 'RTGS', 'MMT', 'DR', 'CR', 'INB', 'P2A', 'P2M', 'PAYMENT', 'PAY', 'TRANSFER',
+  'SENT', 'RECEIVED', 'COLLECT', 'REQUEST', 'NA', 'TO', 'FROM', 'BY', 'NETBANK', 'MOBILE', 'IB'
+]);
+
+const isCounterpartyToken = (token: string): boolean => {
+  if (!/[a-z]{3}/i.test(token)) return false;
+  if (token.includes('@')) return false;
+  if (/^[A-Z]{4}0[A-Z0-9]{6}$/i.test(token)) return false; // IFSC
+  if (/X{2,}\d+/i.test(token)) return false; // Masked account number
+  return token.split(/\s+/).some(word => !COUNTERPARTY_STOP_WORDS.has(word.toUpperCase()));
+};
+
+/**
+ * Payer or payee name in an electronic transfer narration, e.g. the name in
+ * "UPI/DR/412345678901/RAMESH KUMAR/SBIN/ramesh@oksbi"
+ */
+export const extractCounterparty = (narration: string, channel: BankChannel): string => {
+  if (!['UPI', 'NEFT', 'RTGS', 'IMPS'].includes(channel)) return '';
+  const token = narration.split(/[/\-:]/).map(part => part.trim()).find(isCounterpartyToken);
+  return token ? token.replace(/\s+/g, ' ') : '';
+};
+
+/**
+ * Read the transactions of a statement sheet given as rows of cells.
+ * Rows without an amount (opening balance, totals, separators) are skipped.
+ */
+export const parseBankStatementRows = (
+  sheetRows: unknown[][],
+  convention: DateConvention
+): ParsedBankStatement | null => {
+  let headerRow = -1;
+  let columns: Partial<Record<BankColumn, number>> = {};
+
+  for (let i = 0; i < Math.min(sheetRows.length, HEADER_SCAN_ROWS); i++) {
+    const found = findColumns(sheetRows[i] || []);
+    if (found.date !== undefined && found.narration !== undefined && hasAmountColumns(found)) {
+      headerRow = i;
+      columns = found;
+      break;
+    }
+  }
+
+  if (headerRow < 0) return null;
+
+  const cell = (row: unknown[], column: BankColumn): unknown =>
+    columns[column] === undefined ? '' : row[columns[column] as number];
+
+  const transactions: BankTransaction[] = [];
+  const invalidAmountRows: number[] = [];
+  sheetRows.slice(headerRow + 1).forEach((row, index) => {
+    if (!row) return;
+    const rowNumber = headerRow + index + 2;
+
+    let withdrawal = parseBankAmount(cell(row, 'withdrawal'));
+    let deposit = parseBankAmount(cell(row, 'deposit'));
+    if (withdrawal === null || deposit === null) {
+      invalidAmountRows.push(rowNumber);
+      return;
+    }
+    if (!withdrawal && !deposit && columns.amount !== undefined) {
+      const amount = parseBankAmount(cell(row, 'amount'));
+      if (amount === null) {
+        invalidAmountRows.push(rowNumber);
+        return;
+      }
+      const side = String(cell(row, 'drCr')).trim().toLowerCase();
+      if (side.startsWith('d') || side === 'withdrawal') withdrawal = amount;
+      else if (side.startsWith('c') || side === 'deposit') deposit = amount;
+    }
+    if (!withdrawal && !deposit) return;
+
+    const narration = String(cell(row, 'narration') ?? '').replace(/\s+/g, ' ').trim();
+    const channel = detectBankChannel(narration);
+    const parsedDate = normalizeDate(cell(row, 'date'), convention);
+    const balanceCell = cell(row, 'balance');
+    const ledger = String(cell(row, 'ledger') ?? '').trim();
+    const typedVoucherType = String(cell(row, 'voucherType') ?? '').trim().toLowerCase();
+    const voucherType = BANK_VOUCHER_TYPES.find(type => type.toLowerCase() === typedVoucherType);
+
+    transactions.push({
+      id: String(rowNumber),
+      rowNumber,
+      date: parsedDate.date ? toTallyDate(parsedDate.date) : null,
+      dateError: parsedDate.error,
+      narration,
+      reference: String(cell(row, 'reference') ?? '').trim(),
+      amount: withdrawal || deposit,
+      direction: withdrawal ? 'withdrawal' : 'deposit',
+      balance: isBlankCell(balanceCell) ? null : parseBankAmount(balanceCell),
+      channel,
+      counterparty: extractCounterparty(narration, channel),
+      ...(ledger ? { ledger } : {}),
+      ...(voucherType ? { voucherType } : {})
+    });
+  });
+
+  const headers = sheetRows[headerRow];
+  return {
+    transactions,
+    headerRow: headerRow + 1,
+    columns: Object.fromEntries(
+      Object.entries(columns).map(([column, index]) => [column, String(headers[index as number])])
+    ),
+    invalidAmountRows
+  };
+};
+
+// ===== RULES =====
+
+const BANK_RULES_STORAGE_KEY = 'tallysync_bank_rules';
+const BANK_LEDGER_STORAGE_KEY = 'tallysync_bank_ledger';
+
+/**
+ * Rules offered before the user has saved any of their own
+ */
+export const DEFAULT_BANK_RULES: BankRule[] = [
+  { id: 'atm-cash', name: 'ATM cash withdrawal', enabled: true, channel: 'ATM', direction: 'withdrawal', ledger: 'Cash', voucherType: 'Contra' },
+  {
+    id: 'cash-deposit',
+    name: 'Cash deposit',
+    enabled: true,
+    narrationPattern: 'CASH\\s*DEP|BY\\s*CASH',
+    direction: 'deposit',
+    ledger: 'Cash',
+    voucherType: 'Contra'
+  },
+  { id: 'bank-charges', name: 'Bank charges', enabled: true, channel: 'CHARGES', direction: 'withdrawal', ledger: 'Bank Charges', voucherType: 'Payment' },
+  { id: 'bank-interest', name: 'Interest credited', enabled: true, channel: 'INTEREST', direction: 'deposit', ledger: 'Bank Interest', voucherType: 'Receipt' }
+];
+
+/**
+ * Saved categorisation rules, in the order they are tried
+ */
+export const loadBankRules = (): BankRule[] => {
+  try {
+    const stored = localStorage.getItem(BANK_RULES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_BANK_RULES;
+  } catch {
+    return DEFAULT_BANK_RULES;
+  }
+};
+
+/**
+ * Save categorisation rules
+ */
+export const saveBankRules = (rules: BankRule[]): void => {
+  localStorage.setItem(BANK_RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+/**
+ * Bank ledger used for the last statement import
+ */
+export const loadBankLedger = (): string => localStorage.getItem(BANK_LEDGER_STORAGE_KEY) || '';
+
+/**
+ * Remember the bank ledger for the next statement import
+ */
+export const saveBankLedger = (ledger: string): void => {
+  localStorage.setItem(BANK_LEDGER_STORAGE_KEY, ledger);
+};
+
+/**
+ * Escape text for use as a literal in a narration pattern
+ */
+export const escapeRulePattern = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether a rule's narration pattern is a valid regular expression
+ */
+export const isValidRulePattern = (pattern: string | undefined): boolean => {
+  if (!pattern) return true;
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Whether every condition of a rule matches a transaction
+ */
+export const ruleMatches = (rule: BankRule, transaction: BankTransaction): boolean => {
+  if (!rule.enabled || !rule.ledger.trim()) return false;
+  if (rule.direction && rule.direction !== transaction.direction) return false;
+  if (rule.channel && rule.channel !== transaction.channel) return false;
+  if (rule.minAmount !== undefined && transaction.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && transaction.amount > rule.maxAmount) return false;
+  if (rule.narrationPattern) {
+    if (!isValidRulePattern(rule.narrationPattern)) return false;
+    if (!new RegExp(rule.narrationPattern, 'i').test(transaction.narration)) return false;
+  }
+  return !rule.ledger.includes('{counterparty}') || Boolean(transaction.counterparty);
+};
+
+/**
+ * Voucher type for a direction when no rule says otherwise
+ */
+export const defaultBankVoucherType = (direction: BankDirection): BankVoucherType =>
+  direction === 'deposit' ? 'Receipt' : 'Payment';
+
+/**
+ * Ledger cash withdrawals and deposits are posted against
+ */
+export const DEFAULT_CASH_LEDGER = 'Cash';
+
+const CASH_WITHDRAWAL_PATTERN = /CASH\s*(WDL|WITHDRAWAL|WD)\b|\bCSH\s*WDL\b/i;
+const CASH_DEPOSIT_PATTERN = /CASH\s*(DEP|DEPOSIT)|\bBY\s*CASH\b|\bCDM\b|\bCSH\s*DEP\b/i;
+// Cheques drawn to "Self" are cashed at the counter; electronic transfers
+// to self go to another bank account instead
+const SELF_CHEQUE_PATTERN = /\bSELF\b/i;
+
+/**
+ * Whether a line moves money between the bank and cash: ATM and self
+ * cheque withdrawals, or cash deposited at the branch or a deposit machine
+ */
+export const isCashTransfer = (transaction: BankTransaction): boolean =>
+  transaction.direction === 'withdrawal'
+    ? transaction.channel === 'ATM'
+      || CASH_WITHDRAWAL_PATTERN.test(transaction.narration)
+      || (['CHEQUE', 'OTHER'].includes(transaction.channel) && SELF_CHEQUE_PATTERN.test(transaction.narration))
+    : CASH_DEPOSIT_PATTERN.test(transaction.narration);
+
+/**
+ * Classify transactions with the first matching rule. Cash withdrawals and
+ * deposits no rule covers become contra vouchers against the cash ledger;
+ * other unmatched lines keep an empty ledger for review.
+ */
+export const categoriseTransactions = (
+  transactions: BankTransaction[],
+  rules: BankRule[],
+  cashLedger: string = DEFAULT_CASH_LEDGER
+): BankStatementLine[] =>
+  transactions.map(transaction => {
+    // A ledger filled in on the Bank template is kept as if reviewed
+    if (transaction.ledger) {
+      return {
+        ...transaction,
+        ledger: transaction.ledger,
+        voucherType: transaction.voucherType || defaultBankVoucherType(transaction.direction),
+        ruleId: undefined,
+        status: 'reviewed'
+      };
+    }
+
+    const rule = rules.find(candidate => ruleMatches(candidate, transaction));
+    if (!rule && isCashTransfer(transaction)) {
+      return { ...transaction, ledger: cashLedger, voucherType: 'Contra', ruleId: undefined, status: 'matched' };
+    }
+    if (!rule) {
+      return {
+        ...transaction,
+        ledger: '',
+        voucherType: defaultBankVoucherType(transaction.direction),
+        ruleId: undefined,
+        status: 'unmatched'
+      };
+    }
+
+    return {
+      ...transaction,
+      ledger: rule.ledger.replace(/\{counterparty\}/g, transaction.counterparty).trim(),
+      voucherType: rule.voucherType || defaultBankVoucherType(transaction.direction),
+      ruleId: rule.id,
+      status: 'matched'
+    };
+  });
+
+// ===== VOUCHERS =====
+
+// Banks fill the reference column with zeros when there is none
+const lineReference = (line: BankTransaction): string => line.reference.replace(/^0+$/, '');
+
+/**
+ * Voucher number for a line: its bank reference, or a stable hash of the
+ * line when the bank gives none
+ */
+export const bankVoucherNumber = (line: BankTransaction): string => {
+  const reference = lineReference(line);
+  if (reference) return reference;
+  return `BNK-${stableGuid([line.date, line.narration, line.amount, line.direction].join('|')).slice(0, 8)}`;
+};
+
+/**
+ * Voucher numbers for lines posted together. Lines sharing a number, such
+ * as bank charges and the GST on them under one reference or two equal
+ * ATM withdrawals on a day, take their statement row as a suffix so each
+ * voucher keeps its own identity.
+ */
+export const bankVoucherNumbers = (lines: BankTransaction[]): string[] => {
+  const numbers = lines.map(bankVoucherNumber);
+  return numbers.map((number, index) =>
+    numbers.indexOf(number) !== numbers.lastIndexOf(number) ? `${number}/${lines[index].rowNumber}` : number
+  );
+};
+
+/**
+ * Lines that can be posted: a readable date and a counter-ledger
+ */
+export const isBankLineReady = (line: BankStatementLine): boolean => Boolean(line.date && line.ledger.trim());
+
+/**
+ * Build vouchers for ready lines. Withdrawals debit the counter-ledger and
+ * credit the bank; deposits debit the bank and credit the counter-ledger.
+ */
+export const buildBankVouchers = (lines: BankStatementLine[], bankLedger: string): TallyVoucherXml[] => {
+  const ready = lines.filter(isBankLineReady);
+  const voucherNumbers = bankVoucherNumbers(ready);
+
+  return ready.map((line, index) => {
+    const bankSide = line.direction === 'deposit' ? 'Dr' : 'Cr';
+    const counterSide = bankSide === 'Dr' ? 'Cr' : 'Dr';
+    const isParty = line.voucherType !== 'Contra';
+
+    return {
+      voucherType: line.voucherType,
+      date: line.date as string,
+      voucherNumber: voucherNumbers[index],
+      narration: line.narration,
+      sourceRows: [line.rowNumber],
+      ledgerEntries: [
+        { ledgerName: line.ledger.trim(), side: counterSide, amount: line.amount, isPartyLedger: isParty },
+        {
+          ledgerName: bankLedger,
+          side: bankSide,
+          amount: line.amount,
+          extra: [
+            el('BANKALLOCATIONS.LIST', null,
+              el('DATE', null, line.date),
+              el('INSTRUMENTDATE', null, line.date),
+              el('TRANSACTIONTYPE', null, line.channel === 'CHEQUE' ? 'Cheque' : 'Others'),
+              lineReference(line) && el('INSTRUMENTNUMBER', null, lineReference(line)),
+              el('PAYMENTFAVOURING', null, line.ledger.trim()),
+              el('AMOUNT', null, signedAmount(bankSide, line.amount))
+            )
+          ]
+        }
+      ]
+    };
+  });
+};
@@ -0,0 +1,194 @@
+/**
+ * Bill-wise Allocation
+ *
+ * Reads the bill reference, bill type, credit period and due date columns
+ * of invoice, receipt and payment rows into BILLALLOCATIONS.LIST lines for
+ * the party ledger entry. A receipt or payment can settle several bills by
+ * listing them with their amounts, e.g. "Sale/11: 5000; Sale/12: 3000";
+ * whatever the listed bills do not cover is left On Account.
+ *
+ * @module billAllocation
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import { formatDateParts, normalizeDate, toTallyDate, type DateConvention } from './dateParsing';
+import { roundToPaise } from './gst';
+import type { EntrySide, TallyBillAllocationXml, TallyBillType } from './tallyXml';
+import type { VoucherIssue } from './voucherValidation';
+
+// ===== TYPES =====
+
+/**
+ * Bill columns of one row, as typed
+ */
+export interface BillColumns {
+  reference?: string | null;
+  billType?: string | null;
+  creditPeriod?: string | null;
+  dueDate?: string | null;
+}
+
+/**
+ * The party ledger entry the bills are allocated on
+ */
+export interface BillContext {
+  rowNumber: number;
+  /** Voucher date, YYYYMMDD */
+  date: string;
+  /** Bill name used for a New Ref without a reference, usually the invoice number */
+  voucherNumber: string;
+  side: EntrySide;
+  amount: number;
+  /** Bill type when the row names a bill but no type */
+  defaultBillType: TallyBillType;
+}
+
+// ===== BILL TYPES =====
+
+export const BILL_TYPES: TallyBillType[] = ['New Ref', 'Agst Ref', 'Advance', 'On Account'];
+
+const BILL_TYPE_SPELLINGS: Record<string, TallyBillType> = {
+  new: 'New Ref',
+  newref: 'New Ref',
+  newreference: 'New Ref',
+  agst: 'Agst Ref',
+  agstref: 'Agst Ref',
+  against: 'Agst Ref',
+  againstref: 'Agst Ref',
+  againstreference: 'Agst Ref',
+  advance: 'Advance',
+  onaccount: 'On Account',
+  onacc: 'On Account'
+};
+
+/**
+ * Bill type for a typed value such as "Agst Ref", "against" or "on account"
+ */
+export const parseBillType = (value: string): TallyBillType | null =>
+  BILL_TYPE_SPELLINGS[value.toLowerCase().replace(/[^a-z]/g, '')] || null;
+
+// ===== REFERENCES =====
+
+/**
+ * Bills listed in one cell: "Sale/11" or "Sale/11: 5000; Sale/12: 3000".
+ * Amounts are null when the bill is listed without one.
+ */
+export const parseBillReferences = (value: string): { name: string; amount: number | null }[] =>
+  value
+    .split(/[;\n]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const match = part.match(/^(.*?)\s*[:=]\s*(?:₹|rs\.?)?\s*([\d,]+(?:\.\d+)?)$/i);
+      return match
+        ? { name: match[1].trim(), amount: parseFloat(match[2].replace(/,/g, '')) }
+        : { name: part, amount: null };
+    });
+
+// Credit period as "30 Days" from "30" or "30 days"
+const creditPeriodText = (value: string): string | null => {
+  const match = value.trim().match(/^(\d+)\s*(days?)?$/i);
+  return match ? `${parseInt(match[1], 10)} Days` : null;
+};
+
+// ===== ALLOCATION =====
+
+/**
+ * Bill allocations for a party ledger entry. Returns no allocations when
+ * the row has no bill columns, so parties without bill-wise details are
+ * posted as before.
+ */
+export const buildBillAllocations = (
+  columns: BillColumns,
+  context: BillContext,
+  convention?: DateConvention
+): { allocations: TallyBillAllocationXml[]; issues: VoucherIssue[] } => {
+  const issues: VoucherIssue[] = [];
+  const issue = (field: string, value: string, message: string, severity: VoucherIssue['severity'] = 'error') =>
+    issues.push({ row: context.rowNumber, field, value, message, severity });
+
+  const reference = (columns.reference || '').trim();
+  const typeInput = (columns.billType || '').trim();
+  const periodInput = (columns.creditPeriod || '').trim();
+  const dueInput = (columns.dueDate || '').trim();
+  if (!reference && !typeInput && !periodInput && !dueInput) return { allocations: [], issues };
+
+  const billType = typeInput ? parseBillType(typeInput) : context.defaultBillType;
+  if (!billType) {
+    issue('bill_type', typeInput, `Bill type must be one of ${BILL_TYPES.join(', ')}`);
+    return { allocations: [], issues };
+  }
+
+  if (billType === 'On Account') {
+    if (reference) issue('bill_ref', reference, 'Bill reference is ignored for On Account', 'warning');
+    return { allocations: [{ billType, side: context.side, amount: context.amount }], issues };
+  }
+
+  // Credit period, from the days column or the due date
+  let creditPeriod: string | undefined;
+  if (periodInput) {
+    creditPeriod = creditPeriodText(periodInput) || undefined;
+    if (!creditPeriod) issue('credit_period', periodInput, `Credit period "${periodInput}" should be a number of days`);
+  } else if (dueInput) {
+    const result = normalizeDate(dueInput, convention);
+    if (!result.date) {
+      issue('due_date', dueInput, `Due date: ${result.error}`);
+    } else if (toTallyDate(result.date) < context.date) {
+      issue('due_date', dueInput, `Due date ${formatDateParts(result.date)} is before the voucher date`);
+    } else {
+      creditPeriod = formatDateParts(result.date);
+    }
+  }
+  if (creditPeriod && billType !== 'New Ref') {
+    issue('credit_period', periodInput || dueInput, 'Credit period applies to new bills only', 'warning');
+    creditPeriod = undefined;
+  }
+
+  const bills = reference
+    ? parseBillReferences(reference)
+    : billType === 'New Ref' ? [{ name: context.voucherNumber, amount: null }] : [];
+  if (bills.length === 0) {
+    issue('bill_ref', '', `${billType} needs a bill reference`);
+    return { allocations: [], issues };
+  }
+  if (bills.length > 1 && bills.some(bill => bill.amount === null)) {
+    issue('bill_ref', reference, 'Give an amount for each bill when settling several, e.g. "Sale/11: 5000; Sale/12: 3000"');
+    return { allocations: [], issues };
+  }
+
+  const seen = new Set<string>();
+  const duplicate = bills.find(bill => {
+    const key = bill.name.toLowerCase();
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+  if (duplicate) {
+    issue('bill_ref', reference, `Bill ${duplicate.name} is listed twice`);
+    return { allocations: [], issues };
+  }
+
+  const allocated = roundToPaise(bills.reduce((sum, bill) => sum + (bill.amount ?? context.amount), 0));
+  if (allocated > context.amount + 0.01) {
+    issue('bill_ref', reference, `Bills add up to ${allocated.toFixed(2)}, more than the amount ${context.amount.toFixed(2)}`);
+    return { allocations: [], issues };
+  }
+
+  const allocations: TallyBillAllocationXml[] = bills.map(bill => ({
+    name: bill.name,
+    billType,
+    side: context.side,
+    amount: bill.amount ?? context.amount,
+    creditPeriod
+  }));
+
+  // The part no listed bill covers stays with the party On Account
+  const remainder = roundToPaise(context.amount - allocated);
+  if (remainder > 0.01) {
+    allocations.push({ billType: 'On Account', side: context.side, amount: remainder });
+    issue('bill_ref', reference, `${remainder.toFixed(2)} not allocated to a bill is left On Account`, 'warning');
+  }
+
+  return { allocations, issues };
+};
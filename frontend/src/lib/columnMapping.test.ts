@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { applyTransformation, confidentMappings, suggestMappings } from './columnMapping';
+
+describe('applyTransformation', () => {
+  it('reads currency cells with grouping and a sign', () => {
+    expect(applyTransformation('₹ 1,00,000.00', 'currency')).toBe(100000);
+    expect(applyTransformation('-1,500', 'currency')).toBe(-1500);
+    expect(applyTransformation('(1,500)', 'currency')).toBe(-1500);
+    expect(applyTransformation('1,500 Dr', 'currency')).toBe(-1500);
+    expect(applyTransformation('1,500 Cr', 'currency')).toBe(1500);
+  });
+
+  it('leaves text that is not an amount for validation to report', () => {
+    expect(applyTransformation('12-15', 'currency')).toBe('12-15');
+    expect(applyTransformation('INV-2024-15', 'currency')).toBe('INV-2024-15');
+    expect(applyTransformation('500 -', 'currency')).toBe('500 -');
+  });
+});
+
+describe('suggestMappings', () => {
+  it('maps debit and credit amount columns to neither ledger', () => {
+    const suggestions = suggestMappings(['Date', 'Debit Ledger', 'Credit Ledger', 'Debit', 'Credit', 'Reference'], 'contra');
+
+    expect(confidentMappings(suggestions).map(mapping => [mapping.excelColumn, mapping.tallyField])).toEqual([
+      ['Date', 'date'],
+      ['Debit Ledger', 'dr_ledger'],
+      ['Credit Ledger', 'cr_ledger']
+    ]);
+  });
+
+  it('only suggests a bare Debit column for review', () => {
+    const suggestions = suggestMappings(['Date', 'Debit', 'Credit', 'Amount'], 'contra');
+
+    expect(confidentMappings(suggestions).map(mapping => mapping.excelColumn)).toEqual(['Date', 'Amount']);
+  });
+});
@@ -0,0 +1,548 @@
+/**
+ * Column Mapping
+ *
+ * Maps spreadsheet columns onto the fields the voucher and master builders
+ * read. Suggests a mapping for each source column with a confidence score,
+ * applies transformations and defaults, and stores mappings as named
+ * profiles keyed by the sheet's header signature so a client's sheets map
+ * automatically the next time.
+ *
+ * @module columnMapping
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import type { ExcelColumn, FieldMapping } from '@/services/TallyService';
+import { parseAmount } from './amountParsing';
+import { DEFAULT_DATE_CONVENTION, parseDateValue, toIsoDate, type DateConvention } from './dateParsing';
+
+// ===== TYPES =====
+
+export type MappingTemplateType =
+  | 'sales'
+  | 'purchase'
+  | 'payment'
+  | 'receipt'
+  | 'journal'
+  | 'contra'
+  | 'creditNote'
+  | 'debitNote'
+  | 'ledger'
+  | 'stock'
+  | 'general';
+
+export type FieldTransformation = NonNullable<FieldMapping['transformation']>;
+
+/**
+ * Suggested target field for one source column
+ */
+export interface MappingSuggestion {
+  excelColumn: string;
+  /** Target field key, or null to keep the column unchanged */
+  tallyField: string | null;
+  /** 0 (no match) to 1 (exact header match) */
+  confidence: number;
+  transformation?: FieldTransformation;
+}
+
+/**
+ * A saved mapping for sheets with a given set of headers
+ */
+export interface MappingProfile {
+  name: string;
+  signature: string;
+  templateType: MappingTemplateType;
+  /** Day/month order of numeric dates in this client's sheets */
+  dateConvention?: DateConvention;
+  /** FieldMapping.tallyField holds the target field key (ExcelColumn.key) */
+  mappings: FieldMapping[];
+  updatedAt: string;
+}
+
+// ===== FIELD CATALOG =====
+
+const PROFILES_STORAGE_KEY = 'tallysync_mapping_profiles';
+
+/**
+ * Suggestions at or above this confidence are applied without review
+ */
+export const AUTO_MAP_CONFIDENCE = 0.75;
+
+const MIN_CONFIDENCE = 0.3;
+
+export const TRANSFORMATIONS: { value: FieldTransformation; label: string }[] = [
+  { value: 'trim', label: 'Trim spaces' },
+  { value: 'uppercase', label: 'Uppercase' },
+  { value: 'currency', label: 'Currency to number' },
+  { value: 'date', label: 'Date' }
+];
+
+/**
+ * Header spellings accepted for each target field, besides the key itself
+ */
+export const FIELD_ALIASES: Record<string, string[]> = {
+  date: ['invoice date', 'bill date', 'voucher date', 'vch date', 'transaction date', 'txn date', 'payment date', 'receipt date', 'journal date', 'contra date', 'note date', 'credit note date', 'debit note date'],
+  invoice_no: ['invoice number', 'inv no', 'bill no', 'bill number', 'supplier invoice no', 'supplier invoice number', 'customer invoice no', 'voucher no', 'vch no'],
+  voucher_no: ['voucher number', 'vch no', 'payment no', 'receipt no', 'journal no', 'contra no', 'note no', 'note number', 'credit note no', 'debit note no'],
+  party: ['party name', 'party ledger', 'to party name', 'customer', 'customer name', 'buyer', 'supplier', 'supplier name', 'vendor', 'vendor name'],
+  amount: ['total', 'total amount', 'net amount', 'invoice amount', 'bill amount', 'invoice value', 'payment amount', 'receipt amount', 'journal amount'],
+  item: ['item name', 'stock item', 'product', 'product name'],
+  quantity: ['qty', 'billed qty'],
+  rate: ['unit price', 'price', 'item rate'],
+  unit: ['units', 'uom', 'unit of measure'],
+  godown: ['godown name', 'location', 'warehouse'],
+  batch: ['batch no', 'batch name', 'lot no'],
+  gstin: ['party gstin', 'gstin uin', 'gst no', 'gst number', 'partygstin'],
+  place_of_supply: ['pos', 'place of supply', 'placeofsupply', 'supply state'],
+  narration: ['remarks', 'particulars', 'description', 'notes'],
+  payment_mode: ['mode', 'mode of payment', 'paid through', 'cash bank'],
+  receipt_mode: ['mode', 'mode of receipt', 'received through', 'cash bank'],
+  dr_ledger: ['debit ledger', 'debit account', 'dr account', 'deposited into', 'transfer to'],
+  cr_ledger: ['credit ledger', 'credit account', 'cr account', 'withdrawn from', 'transfer from'],
+  name: ['ledger name', 'account name', 'item name', 'stock item name', 'stock name'],
+  group: ['under', 'parent', 'parent group', 'ledger group', 'stock group'],
+  opening_balance: ['opening', 'opening bal', 'op balance'],
+  dr_cr: ['dr cr', 'drcr', 'balance type', 'opening type', 'opening side'],
+  alias: ['ledger alias', 'alias name'],
+  registration_type: ['gst registration type', 'registration', 'gst type', 'reg type'],
+  state: ['state name', 'gst state'],
+  pincode: ['pin', 'pin code', 'postal code', 'zip'],
+  pan: ['pan no', 'pan number', 'it pan'],
+  email: ['email id', 'e mail', 'mail'],
+  credit_period: ['credit days', 'credit period days', 'bill credit period', 'due days'],
+  bill_wise: ['billwise', 'bill wise', 'maintain bill wise', 'bill by bill', 'is bill wise on'],
+  country: ['country name'],
+  alternate_unit: ['alt unit', 'alternate uom', 'additional unit', 'second unit'],
+  conversion: ['conversion factor', 'unit conversion', 'alt conversion', 'denominator'],
+  category: ['stock category', 'item category'],
+  hsn: ['hsn code', 'hsn sac', 'sac', 'sac code', 'hsn sac code'],
+  gst_applicable: ['gst applicable', 'is gst applicable', 'gst'],
+  taxability: ['gst taxability', 'tax type', 'taxability type'],
+  gst_rate: ['gst rate', 'tax rate', 'gst %', 'igst rate', 'rate of tax'],
+  cess_rate: ['cess', 'cess %'],
+  mfg_date: ['manufacturing date', 'mfd', 'mfd on', 'mfg'],
+  expiry_date: ['expiry', 'exp date', 'expires on', 'best before'],
+  opening_quantity: ['opening qty', 'op qty', 'opening stock', 'opening stock qty'],
+  opening_rate: ['op rate', 'opening stock rate'],
+  opening_value: ['op value', 'opening stock value', 'opening amount'],
+  address: ['ledger address', 'billing address'],
+  phone: ['mobile', 'contact', 'phone no', 'mobile no'],
+  cheque_no: ['cheque number', 'chq no', 'instrument no'],
+  bill_ref: ['bill reference', 'bill ref no', 'bill name', 'against bill', 'against bills', 'bills', 'invoices settled'],
+  bill_type: ['bill wise type', 'billwise type', 'ref type', 'reference type', 'allocation type'],
+  due_date: ['bill due date', 'payment due date', 'due on'],
+  cost_centre: ['cost center', 'cost centres', 'cost centers', 'cost centre name', 'cost center name', 'cost centre split', 'cc'],
+  cost_category: ['cost category name', 'cost categories'],
+  against_invoice: ['original invoice no', 'original invoice number', 'against invoice', 'against invoice no', 'agst ref', 'original bill no', 'invoice ref'],
+  against_date: ['original invoice date', 'against invoice date', 'original bill date']
+};
+
+const field = (
+  key: string,
+  name: string,
+  type: ExcelColumn['type'],
+  required: boolean,
+  tallyField: string,
+  example: string
+): ExcelColumn => ({ key, name, type, required, tallyField, example, description: `${name} (${tallyField})` });
+
+const INVOICE_FIELDS: ExcelColumn[] = [
+  field('date', 'Date', 'date', true, 'DATE', '2024-04-01'),
+  field('invoice_no', 'Invoice No', 'string', false, 'VOUCHERNUMBER', 'Sale/11'),
+  field('party', 'Party Name', 'string', true, 'PARTYLEDGERNAME', 'A B MEDICAL STORES'),
+  field('amount', 'Total Amount', 'number', false, 'AMOUNT', '335'),
+  field('item', 'Stock Item', 'string', false, 'STOCKITEMNAME', 'Paracetamol 500mg'),
+  field('quantity', 'Quantity', 'number', false, 'BILLEDQTY', '10'),
+  field('rate', 'Rate', 'number', false, 'RATE', '12.50'),
+  field('unit', 'Unit', 'string', false, 'BASEUNITS', 'Nos'),
+  field('godown', 'Godown', 'string', false, 'GODOWNNAME', 'Main Location'),
+  field('batch', 'Batch', 'string', false, 'BATCHNAME', 'B-2024-01'),
+  field('gstin', 'Party GSTIN', 'string', false, 'PARTYGSTIN', '27AAPFU0939F1ZV'),
+  field('place_of_supply', 'Place of Supply', 'string', false, 'PLACEOFSUPPLY', '27-Maharashtra'),
+  field('bill_ref', 'Bill Ref', 'string', false, 'BILLALLOCATIONS.LIST', 'Sale/11'),
+  field('bill_type', 'Bill Type', 'string', false, 'BILLTYPE', 'New Ref'),
+  field('credit_period', 'Credit Period (Days)', 'number', false, 'BILLCREDITPERIOD', '30'),
+  field('due_date', 'Due Date', 'date', false, 'BILLCREDITPERIOD', '2024-05-01'),
+  field('narration', 'Narration', 'string', false, 'NARRATION', 'Being goods sold')
+];
+
+// Bill reference and type of a receipt or payment, knocking off invoices
+const settlementFields = (example: string): ExcelColumn[] => [
+  field('bill_ref', 'Bill Ref', 'string', false, 'BILLALLOCATIONS.LIST', example),
+  field('bill_type', 'Bill Type', 'string', false, 'BILLTYPE', 'Agst Ref')
+];
+
+const BILL_FIELD_KEYS = ['bill_ref', 'bill_type', 'credit_period', 'due_date'];
+
+// Cost centre split of the expense or purchase side, placed before the narration
+const withCostCentres = (fields: ExcelColumn[], example: string): ExcelColumn[] => [
+  ...fields.filter(column => column.key !== 'narration'),
+  field('cost_centre', 'Cost Centre', 'string', false, 'COSTCENTREALLOCATIONS.LIST', example),
+  field('cost_category', 'Cost Category', 'string', false, 'CATEGORYENTRY.LIST', 'Primary Cost Category'),
+  ...fields.filter(column => column.key === 'narration')
+];
+
+// Credit notes reverse sales and debit notes reverse purchases, quoting the
+// original invoice
+const noteFields = (kind: 'Credit' | 'Debit'): ExcelColumn[] => [
+  field('date', 'Date', 'date', true, 'DATE', '2024-04-20'),
+  field('voucher_no', `${kind} Note No`, 'string', false, 'VOUCHERNUMBER', `${kind === 'Credit' ? 'CN' : 'DN'}/1`),
+  field('against_invoice', 'Original Invoice No', 'string', false, 'REFERENCE', kind === 'Credit' ? 'Sale/11' : 'AV/10'),
+  field('against_date', 'Original Invoice Date', 'date', false, 'REFERENCEDATE', '2024-04-01'),
+  ...INVOICE_FIELDS.filter(column => !['date', 'invoice_no', ...BILL_FIELD_KEYS].includes(column.key)).map(column =>
+    column.key === 'narration'
+      ? { ...column, example: kind === 'Credit' ? 'Being goods returned by customer' : 'Being goods returned to supplier' }
+      : column
+  )
+];
+
+/**
+ * Target fields per template, in the order they are shown
+ */
+export const MAPPING_FIELDS: Record<MappingTemplateType, ExcelColumn[]> = {
+  sales: INVOICE_FIELDS,
+  purchase: withCostCentres(INVOICE_FIELDS, 'Head Office'),
+  contra: [
+    field('date', 'Date', 'date', true, 'DATE', '2024-04-01'),
+    field('voucher_no', 'Voucher No', 'string', false, 'VOUCHERNUMBER', 'CV/1'),
+    field('dr_ledger', 'Debit Ledger', 'string', true, 'LEDGERNAME', 'HDFC Bank'),
+    field('cr_ledger', 'Credit Ledger', 'string', true, 'LEDGERNAME', 'Cash'),
+    field('amount', 'Amount', 'number', true, 'AMOUNT', '25000'),
+    field('narration', 'Narration', 'string', false, 'NARRATION', 'Being cash deposited into bank')
+  ],
+  creditNote: noteFields('Credit'),
+  debitNote: noteFields('Debit'),
+  payment: withCostCentres([
+    field('date', 'Date', 'date', true, 'DATE', '2024-04-01'),
+    field('voucher_no', 'Voucher No', 'string', false, 'VOUCHERNUMBER', 'PV/1'),
+    field('party', 'Party Name', 'string', true, 'LEDGERNAME', 'AAKANSHA SUPER MARKET'),
+    field('amount', 'Amount', 'number', true, 'AMOUNT', '1000'),
+    field('payment_mode', 'Payment Mode', 'string', false, 'LEDGERNAME', 'Bank'),
+    ...settlementFields('AV/10'),
+    field('narration', 'Narration', 'string', false, 'NARRATION', 'Being payment made')
+  ], 'Head Office'),
+  receipt: [
+    field('date', 'Date', 'date', true, 'DATE', '2024-04-01'),
+    field('voucher_no', 'Voucher No', 'string', false, 'VOUCHERNUMBER', 'RV/1'),
+    field('party', 'Party Name', 'string', true, 'LEDGERNAME', 'A B MEDICAL STORES'),
+    field('amount', 'Amount', 'number', true, 'AMOUNT', '1000'),
+    field('receipt_mode', 'Receipt Mode', 'string', false, 'LEDGERNAME', 'Cash'),
+    ...settlementFields('Sale/11: 600; Sale/12: 400'),
+    field('narration', 'Narration', 'string', false, 'NARRATION', 'Being payment received')
+  ],
+  journal: withCostCentres([
+    field('date', 'Date', 'date', true, 'DATE', '2024-04-01'),
+    field('voucher_no', 'Voucher No', 'string', false, 'VOUCHERNUMBER', 'JV/1'),
+    field('dr_ledger', 'Debit Ledger', 'string', true, 'LEDGERNAME', 'Rent'),
+    field('cr_ledger', 'Credit Ledger', 'string', true, 'LEDGERNAME', 'Cash'),
+    field('amount', 'Amount', 'number', true, 'AMOUNT', '5000'),
+    field('narration', 'Narration', 'string', false, 'NARRATION', 'Being rent paid')
+  ], 'Head Office: 60%; Branch: 40%'),
+  ledger: [
+    field('name', 'Ledger Name', 'string', true, 'NAME', 'A B MEDICAL STORES'),
+    field('alias', 'Alias', 'string', false, 'LANGUAGENAME.LIST', 'AB Medical'),
+    field('group', 'Group', 'string', true, 'PARENT', 'Sundry Debtors'),
+    field('registration_type', 'Registration Type', 'string', false, 'GSTREGISTRATIONTYPE', 'Regular'),
+    field('gstin', 'GSTIN', 'string', false, 'PARTYGSTIN', '27AAPFU0939F1ZV'),
+    field('state', 'State', 'string', false, 'LEDSTATENAME', 'Maharashtra'),
+    field('pincode', 'Pincode', 'string', false, 'PINCODE', '411001'),
+    field('pan', 'PAN', 'string', false, 'INCOMETAXNUMBER', 'AAPFU0939F'),
+    field('email', 'Email', 'string', false, 'EMAIL', 'accounts@abmedical.in'),
+    field('address', 'Address', 'string', false, 'ADDRESS', 'Main Road, Pune'),
+    field('phone', 'Phone', 'string', false, 'LEDGERPHONE', '9876543210'),
+    field('credit_period', 'Credit Period (Days)', 'number', false, 'BILLCREDITPERIOD', '30'),
+    field('opening_balance', 'Opening Balance', 'number', false, 'OPENINGBALANCE', '15000'),
+    field('dr_cr', 'Dr/Cr', 'string', false, 'OPENINGBALANCE', 'Dr'),
+    field('bill_wise', 'Bill-wise', 'boolean', false, 'ISBILLWISEON', 'Yes')
+  ],
+  stock: [
+    field('name', 'Item Name', 'string', true, 'NAME', 'Paracetamol 500mg'),
+    field('alias', 'Alias', 'string', false, 'LANGUAGENAME.LIST', 'PCM500'),
+    field('group', 'Stock Group', 'string', false, 'PARENT', 'Medicines'),
+    field('category', 'Stock Category', 'string', false, 'CATEGORY', 'Tablets'),
+    field('unit', 'Base Unit', 'string', true, 'BASEUNITS', 'Strip'),
+    field('alternate_unit', 'Alternate Unit', 'string', false, 'ADDITIONALUNITS', 'Box'),
+    field('conversion', 'Conversion', 'string', false, 'DENOMINATOR', '1 Box = 10 Strip'),
+    field('rate', 'Rate', 'number', false, 'RATEOFSALE', '15.00'),
+    field('hsn', 'HSN/SAC', 'string', false, 'HSNCODE', '30049099'),
+    field('gst_applicable', 'GST Applicable', 'boolean', false, 'GSTAPPLICABLE', 'Yes'),
+    field('taxability', 'Taxability', 'string', false, 'TAXABILITY', 'Taxable'),
+    field('gst_rate', 'GST Rate', 'number', false, 'GSTRATE', '12'),
+    field('cess_rate', 'Cess Rate', 'number', false, 'GSTRATE', ''),
+    field('godown', 'Godown', 'string', false, 'GODOWNNAME', 'Main Location'),
+    field('batch', 'Batch', 'string', false, 'BATCHNAME', 'B-2024-01'),
+    field('mfg_date', 'Mfg Date', 'date', false, 'MFDON', '01-01-2024'),
+    field('expiry_date', 'Expiry Date', 'date', false, 'EXPIRYPERIOD', '31-12-2025'),
+    field('opening_quantity', 'Opening Qty', 'number', false, 'OPENINGBALANCE', '100'),
+    field('opening_rate', 'Opening Rate', 'number', false, 'OPENINGRATE', '12.00'),
+    field('opening_value', 'Opening Value', 'number', false, 'OPENINGVALUE', '1200')
+  ],
+  general: [
+    field('date', 'Date', 'date', false, 'DATE', '2024-04-01'),
+    field('amount', 'Amount', 'number', false, 'AMOUNT', '1000'),
+    field('narration', 'Narration', 'string', false, 'NARRATION', 'Imported entry')
+  ]
+};
+
+/**
+ * Target fields for a template type, falling back to the general fields
+ */
+export const mappingFieldsFor = (templateType: string): ExcelColumn[] =>
+  MAPPING_FIELDS[templateType as MappingTemplateType] || MAPPING_FIELDS.general;
+
+// ===== SUGGESTIONS =====
+
+/**
+ * Header compared whole: lowercase letters and digits only
+ */
+export const normalizeHeader = (header: string): string =>
+  String(header).toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const headerTokens = (header: string): string[] =>
+  String(header).toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+// Headers containing these words describe a value rather than hold it
+const DESCRIPTIVE_WORDS = new Set(['words', 'word', 'remark', 'remarks', 'note', 'notes']);
+
+/**
+ * Header spellings accepted for a field key
+ */
+export const fieldAliases = (key: string): string[] => FIELD_ALIASES[key] || [];
+
+const looksLikeDate = (value: unknown): boolean => {
+  if (value instanceof Date) return true;
+  // Numbers are only taken as dates in the Excel serial range of recent years
+  if (typeof value === 'number') return value > 20000 && value < 80000;
+  return parseDateValue(value) !== null;
+};
+
+const looksLikeNumber = (value: unknown): boolean =>
+  typeof value === 'number' || /^\(?-?[₹$]?\s*[\d,]+(\.\d+)?\)?$/.test(String(value).trim());
+
+/**
+ * Confidence that a header holds a target field, adjusted by whether
+ * the sample values fit the field's type
+ */
+export const scoreHeader = (header: string, target: ExcelColumn, samples: unknown[] = []): number => {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return 0;
+
+  const tokens = headerTokens(header);
+  if (tokens.some(token => DESCRIPTIVE_WORDS.has(token)) && target.key !== 'narration') return 0;
+
+  const candidates = [target.key, target.name, ...fieldAliases(target.key)];
+  let score = 0;
+  for (const candidate of candidates) {
+    if (normalizeHeader(candidate) === normalized) {
+      score = 1;
+      break;
+    }
+    const candidateTokens = headerTokens(candidate.replace(/_/g, ' '));
+    const shared = candidateTokens.filter(token => tokens.includes(token)).length;
+    const union = new Set([...candidateTokens, ...tokens]).size;
+    score = Math.max(score, union === 0 ? 0 : (shared / union) * 0.8);
+  }
+
+  const filled = samples.filter(value => value !== '' && value !== null && value !== undefined);
+  if (score > 0 && filled.length > 0) {
+    const fits = target.type === 'date' ? looksLikeDate : target.type === 'number' ? looksLikeNumber : null;
+    if (fits) {
+      const ratio = filled.filter(fits).length / filled.length;
+      score = ratio >= 0.8 ? Math.min(1, score + 0.1) : score * 0.5;
+    }
+  }
+
+  return Math.round(score * 100) / 100;
+};
+
+/**
+ * Default transformation for a target field
+ */
+export const defaultTransformation = (target: ExcelColumn): FieldTransformation => {
+  if (target.type === 'date') return 'date';
+  if (target.type === 'number') return 'currency';
+  return 'trim';
+};
+
+/**
+ * Suggest a target field for every source column. Each field is assigned
+ * to at most one column, best matches first.
+ */
+export const suggestMappings = (
+  headers: string[],
+  templateType: string,
+  sampleRows: Record<string, unknown>[] = []
+): MappingSuggestion[] => {
+  const targets = mappingFieldsFor(templateType);
+  const candidates: { header: string; target: ExcelColumn; confidence: number }[] = [];
+
+  headers.forEach(header => {
+    const samples = sampleRows.slice(0, 20).map(row => row[header]);
+    targets.forEach(target => {
+      const confidence = scoreHeader(header, target, samples);
+      if (confidence >= MIN_CONFIDENCE) candidates.push({ header, target, confidence });
+    });
+  });
+
+  const assigned = new Map<string, { target: ExcelColumn; confidence: number }>();
+  const usedFields = new Set<string>();
+  candidates
+    .sort((a, b) => b.confidence - a.confidence)
+    .forEach(candidate => {
+      if (assigned.has(candidate.header) || usedFields.has(candidate.target.key)) return;
+      assigned.set(candidate.header, candidate);
+      usedFields.add(candidate.target.key);
+    });
+
+  return headers.map(header => {
+    const match = assigned.get(header);
+    return match
+      ? {
+          excelColumn: header,
+          tallyField: match.target.key,
+          confidence: match.confidence,
+          transformation: defaultTransformation(match.target)
+        }
+      : { excelColumn: header, tallyField: null, confidence: 0 };
+  });
+};
+
+/**
+ * Field mappings from the suggestions confident enough to apply unreviewed
+ */
+export const confidentMappings = (suggestions: MappingSuggestion[]): FieldMapping[] =>
+  suggestions
+    .filter(suggestion => suggestion.tallyField && suggestion.confidence >= AUTO_MAP_CONFIDENCE)
+    .map(suggestion => ({
+      excelColumn: suggestion.excelColumn,
+      tallyField: suggestion.tallyField!,
+      transformation: suggestion.transformation
+    }));
+
+// ===== TRANSFORMATIONS =====
+
+/**
+ * Apply a transformation to a cell value. Dates and amounts that cannot
+ * be read are left unchanged so validation can report them.
+ */
+export const applyTransformation = (
+  value: unknown,
+  transformation?: FieldTransformation,
+  dateConvention: DateConvention = DEFAULT_DATE_CONVENTION
+): unknown => {
+  if (value === null || value === undefined || value === '') return value;
+
+  switch (transformation) {
+    case 'trim':
+      return String(value).trim();
+    case 'uppercase':
+      return String(value).trim().toUpperCase();
+    case 'currency': {
+      const amount = parseAmount(value);
+      return amount === null ? value : amount;
+    }
+    case 'date': {
+      const date = parseDateValue(value, dateConvention);
+      return date ? toIsoDate(date) : value;
+    }
+    default:
+      return value;
+  }
+};
+
+/**
+ * Re-key rows onto target field keys. Mapped source columns are replaced
+ * by their target field; unmapped columns are kept unchanged. Defaults
+ * fill empty cells, and mappings without a source column set a constant.
+ */
+export const applyMappings = <T extends Record<string, unknown>>(
+  rows: T[],
+  mappings: FieldMapping[],
+  dateConvention: DateConvention = DEFAULT_DATE_CONVENTION
+): T[] => {
+  const mappedColumns = new Set(mappings.map(mapping => mapping.excelColumn).filter(Boolean));
+
+  return rows.map(row => {
+    const mapped: Record<string, unknown> = {};
+    Object.keys(row).forEach(key => {
+      if (!mappedColumns.has(key)) mapped[key] = row[key];
+    });
+
+    mappings.forEach(mapping => {
+      const source = mapping.excelColumn ? row[mapping.excelColumn] : undefined;
+      const value = source === undefined || source === null || source === '' ? mapping.defaultValue : source;
+      if (value !== undefined && value !== '') {
+        mapped[mapping.tallyField] = applyTransformation(value, mapping.transformation, dateConvention);
+      }
+    });
+
+    return mapped as T;
+  });
+};
+
+// ===== PROFILES =====
+
+/**
+ * Order-independent signature of a sheet's headers
+ */
+export const headerSignature = (headers: string[]): string =>
+  headers
+    .map(normalizeHeader)
+    .filter(Boolean)
+    .sort()
+    .join('|');
+
+/**
+ * All saved mapping profiles
+ */
+export const loadMappingProfiles = (): MappingProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load mapping profiles:', error);
+    return [];
+  }
+};
+
+const saveMappingProfiles = (profiles: MappingProfile[]): void => {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to save mapping profiles:', error);
+  }
+};
+
+/**
+ * The saved profile for sheets with these headers, if any
+ */
+export const findMappingProfile = (headers: string[]): MappingProfile | null => {
+  const signature = headerSignature(headers);
+  return loadMappingProfiles().find(profile => profile.signature === signature) || null;
+};
+
+/**
+ * Save a profile for a header signature, replacing any earlier one
+ */
+export const saveMappingProfile = (
+  profile: Omit<MappingProfile, 'signature' | 'updatedAt'>,
+  headers: string[]
+): MappingProfile => {
+  const saved: MappingProfile = {
+    ...profile,
+    signature: headerSignature(headers),
+    updatedAt: new Date().toISOString()
+  };
+  saveMappingProfiles([
+    ...loadMappingProfiles().filter(existing => existing.signature !== saved.signature),
+    saved
+  ]);
+  return saved;
+};
+
+/**
+ * Delete the profile for a header signature
+ */
+export const deleteMappingProfile = (signature: string): void => {
+  saveMappingProfiles(loadMappingProfiles().filter(profile => profile.signature !== signature));
+};
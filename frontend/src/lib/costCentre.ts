@@ -0,0 +1,158 @@
+/**
+ * Cost Centre Allocation
+ *
+ * Splits a ledger entry across cost centres from the cost centre column of
+ * journal, payment and purchase rows. A cell holds one centre
+ * ("Marketing") or a split by percentage or amount
+ * ("Marketing: 60%; Sales: 40%", "Marketing: 600; Sales: 400"). Each
+ * entry is written as CATEGORYENTRY.LIST with its COSTCENTREALLOCATIONS.LIST.
+ *
+ * @module costCentre
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import { el, signedAmount, type EntrySide, type XmlChild } from './tallyXml';
+import { roundToPaise } from './gst';
+import type { VoucherIssue } from './voucherValidation';
+import type { TallyCostCentre } from '@/services/TallyService';
+
+// ===== TYPES =====
+
+/**
+ * One centre of a typed split; exactly one of percent and amount is set
+ * when the cell splits the entry
+ */
+export interface CostCentreSplit {
+  name: string;
+  percent: number | null;
+  amount: number | null;
+}
+
+/**
+ * Amount of a ledger entry allocated to one cost centre
+ */
+export interface CostCentreAllocation {
+  category: string;
+  name: string;
+  amount: number;
+}
+
+/**
+ * Looks up a cost centre: null when the company has no such centre,
+ * undefined while its cost centres are not known
+ */
+export type CostCentreLookup = (name: string) => TallyCostCentre | null | undefined;
+
+// ===== CONSTANTS =====
+
+/**
+ * Cost category Tally creates with every company
+ */
+export const DEFAULT_COST_CATEGORY = 'Primary Cost Category';
+
+// ===== PARSING =====
+
+/**
+ * Centres listed in one cell, with their percentage or amount
+ */
+export const parseCostCentreSplits = (value: string): CostCentreSplit[] =>
+  value
+    .split(/[;\n]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const match = part.match(/^(.*?)\s*[:=]\s*(?:₹|rs\.?)?\s*([\d,]+(?:\.\d+)?)\s*(%?)$/i);
+      if (!match) return { name: part, percent: null, amount: null };
+      const figure = parseFloat(match[2].replace(/,/g, ''));
+      return match[3] ? { name: match[1].trim(), percent: figure, amount: null } : { name: match[1].trim(), percent: null, amount: figure };
+    });
+
+// ===== ALLOCATION =====
+
+/**
+ * Allocate an entry amount across the typed centres. Percentages must add
+ * up to 100 and amounts to the entry amount; the last centre takes the
+ * rounding difference so the allocations always total the entry.
+ */
+export const allocateCostCentres = (
+  input: { centres: string; category?: string | null },
+  context: { rowNumber: number; amount: number; field?: string },
+  lookup: CostCentreLookup
+): { allocations: CostCentreAllocation[]; issues: VoucherIssue[] } => {
+  const field = context.field || 'cost_centre';
+  const issues: VoucherIssue[] = [];
+  const issue = (message: string, severity: VoucherIssue['severity'] = 'error') =>
+    issues.push({ row: context.rowNumber, field, value: input.centres, message, severity });
+
+  const splits = parseCostCentreSplits(input.centres);
+  if (splits.length === 0) return { allocations: [], issues };
+
+  const usesPercent = splits.some(split => split.percent !== null);
+  const usesAmount = splits.some(split => split.amount !== null);
+  if (usesPercent && usesAmount) {
+    issue('Split cost centres either by percentage or by amount, not both');
+    return { allocations: [], issues };
+  }
+  if (splits.length > 1 && splits.some(split => split.percent === null && split.amount === null)) {
+    issue('Give a percentage or amount for each cost centre, e.g. "Marketing: 60%; Sales: 40%"');
+    return { allocations: [], issues };
+  }
+
+  const total = roundToPaise(splits.reduce((sum, split) => sum + (split.percent ?? split.amount ?? 0), 0));
+  if (usesPercent && Math.abs(total - 100) > 0.01) {
+    issue(`Cost centre percentages add up to ${total}%, not 100%`);
+    return { allocations: [], issues };
+  }
+  if (usesAmount && Math.abs(total - context.amount) > 0.01) {
+    issue(`Cost centre amounts add up to ${total.toFixed(2)}, not the ledger amount ${context.amount.toFixed(2)}`);
+    return { allocations: [], issues };
+  }
+
+  const allocations: CostCentreAllocation[] = [];
+  let remaining = context.amount;
+  splits.forEach((split, index) => {
+    const centre = lookup(split.name);
+    if (centre === null) issue(`Cost centre "${split.name}" is not in Tally`);
+
+    const typedCategory = (input.category || '').trim();
+    if (typedCategory && centre?.category && centre.category.toLowerCase() !== typedCategory.toLowerCase()) {
+      issue(`Cost centre "${split.name}" belongs to category ${centre.category}, not ${typedCategory}`, 'warning');
+    }
+
+    const amount = index === splits.length - 1
+      ? roundToPaise(remaining)
+      : roundToPaise(split.percent !== null ? context.amount * split.percent / 100 : split.amount ?? context.amount);
+    remaining -= amount;
+    allocations.push({
+      category: typedCategory || centre?.category || DEFAULT_COST_CATEGORY,
+      name: centre?.name || split.name,
+      amount
+    });
+  });
+
+  return { allocations: issues.some(found => found.severity === 'error') ? [] : allocations, issues };
+};
+
+// ===== XML =====
+
+/**
+ * CATEGORYENTRY.LIST elements for the allocations of one ledger entry,
+ * one per cost category
+ */
+export const costCategoryElements = (allocations: CostCentreAllocation[], side: EntrySide): XmlChild[] => {
+  const categories = new Map<string, CostCentreAllocation[]>();
+  allocations.forEach(allocation => {
+    categories.set(allocation.category, [...(categories.get(allocation.category) || []), allocation]);
+  });
+
+  return [...categories.entries()].map(([category, entries]) =>
+    el('CATEGORYENTRY.LIST', null,
+      el('CATEGORY', null, category),
+      ...entries.map(entry => el('COSTCENTREALLOCATIONS.LIST', null,
+        el('NAME', null, entry.name),
+        el('AMOUNT', null, signedAmount(side, entry.amount))
+      ))
+    )
+  );
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeDate, parseDateValue } from './dateParsing';
+
+describe('parseDateValue', () => {
+  it('reads numeric cells as Excel serials within a plausible range', () => {
+    expect(parseDateValue(45387)).toEqual({ year: 2024, month: 4, day: 5 });
+    expect(parseDateValue(45387.75)).toEqual({ year: 2024, month: 4, day: 5 });
+    expect(parseDateValue(20240405)).toEqual({ year: 2024, month: 4, day: 5 });
+  });
+
+  it('does not read small numbers or numeric text as serials', () => {
+    expect(parseDateValue(123)).toBeNull();
+    expect(parseDateValue(500000)).toBeNull();
+    expect(parseDateValue('123')).toBeNull();
+    expect(parseDateValue('45387')).toBeNull();
+    expect(parseDateValue('20240405')).toEqual({ year: 2024, month: 4, day: 5 });
+  });
+
+  it('reads text dates in the chosen order', () => {
+    expect(parseDateValue('04/05/2024', 'dmy')).toEqual({ year: 2024, month: 5, day: 4 });
+    expect(parseDateValue('04/05/2024', 'mdy')).toEqual({ year: 2024, month: 4, day: 5 });
+    expect(parseDateValue('05-Apr-24')).toEqual({ year: 2024, month: 4, day: 5 });
+  });
+});
+
+describe('normalizeDate', () => {
+  it('reports a voucher number in a date column as unreadable', () => {
+    expect(normalizeDate('123')).toEqual({ date: null, error: '"123" is not a recognised date' });
+    expect(normalizeDate(123)).toEqual({ date: null, error: '"123" is not a recognised date' });
+  });
+});
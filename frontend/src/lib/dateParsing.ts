@@ -0,0 +1,248 @@
+/**
+ * Date Parsing
+ *
+ * Normalises spreadsheet dates for Tally: Excel serial numbers, ISO dates,
+ * YYYYMMDD, numeric dates in a chosen day/month order (Indian dd/mm/yyyy
+ * by default) and dates with month names such as 05-Apr-24. Dates that
+ * cannot be read are reported instead of being replaced with today's date.
+ *
+ * @module dateParsing
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import type { TallyCompany } from '@/services/TallyService';
+
+// ===== TYPES =====
+
+/**
+ * Order of day, month and year in numeric dates such as 04/05/2024
+ */
+export type DateConvention = 'dmy' | 'mdy' | 'ymd';
+
+/**
+ * A calendar date without time zone
+ */
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * First and last day of a financial year
+ */
+export interface FinancialYearBounds {
+  from: DateParts;
+  to: DateParts;
+}
+
+export type DateParseResult = { date: DateParts; error?: undefined } | { date: null; error: string };
+
+// ===== PARSING =====
+
+export const DEFAULT_DATE_CONVENTION: DateConvention = 'dmy';
+
+export const DATE_CONVENTIONS: { value: DateConvention; label: string }[] = [
+  { value: 'dmy', label: 'dd/mm/yyyy' },
+  { value: 'mdy', label: 'mm/dd/yyyy' },
+  { value: 'ymd', label: 'yyyy/mm/dd' }
+];
+
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2100;
+// Excel serials outside these years are more likely a number in the wrong column
+const MIN_SERIAL_YEAR = 1990;
+const MAX_SERIAL_YEAR = 2100;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+// "Apr", "April" and "Sept" are accepted; other words are not
+const monthFromName = (name: string): number | null => {
+  const lower = name.toLowerCase();
+  if (lower === 'sept') return 9;
+  const index = MONTH_NAMES.findIndex(month => month.startsWith(lower));
+  return lower.length >= 3 && index >= 0 ? index + 1 : null;
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Two-digit years: 00-49 are 2000s, 50-99 are 1900s
+const expandYear = (year: string): number => {
+  const value = parseInt(year, 10);
+  if (year.length > 2) return value;
+  return value < 50 ? 2000 + value : 1900 + value;
+};
+
+const makeDate = (year: number, month: number, day: number): DateParts | null => {
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) return null;
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return { year, month, day };
+};
+
+const fromExcelSerial = (serial: number): DateParts | null => {
+  const date = new Date(EXCEL_EPOCH + Math.floor(serial) * DAY_MS);
+  const year = date.getUTCFullYear();
+  if (year < MIN_SERIAL_YEAR || year > MAX_SERIAL_YEAR) return null;
+  return { year, month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const fromCompactNumber = (value: string): DateParts | null =>
+  makeDate(parseInt(value.slice(0, 4), 10), parseInt(value.slice(4, 6), 10), parseInt(value.slice(6, 8), 10));
+
+const parseString = (text: string, convention: DateConvention): DateParts | null => {
+  // YYYYMMDD typed as text; other bare numbers are not dates, Excel
+  // serials only come from numeric cells
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return /^\d{8}$/.test(text) ? fromCompactNumber(text) : null;
+  }
+
+  // ISO and other year-first dates, optionally with a time
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  if (match) return makeDate(+match[1], +match[2], +match[3]);
+
+  // Numeric dates in the chosen order
+  match = text.match(/^(\d{1,2})[-/.\s](\d{1,2})[-/.\s](\d{2}|\d{4})$/);
+  if (match) {
+    const [, first, second, third] = match;
+    if (convention === 'mdy') return makeDate(expandYear(third), +first, +second);
+    if (convention === 'ymd') return makeDate(expandYear(first), +second, +third);
+    return makeDate(expandYear(third), +second, +first);
+  }
+
+  // 05-Apr-2024, 5 April 24
+  match = text.match(/^(\d{1,2})[-/.\s]+([a-z]{3,9})\.?[-/.,\s]+(\d{2}|\d{4})$/i);
+  if (match) {
+    const month = monthFromName(match[2]);
+    return month ? makeDate(expandYear(match[3]), month, +match[1]) : null;
+  }
+
+  // Apr 5, 2024
+  match = text.match(/^([a-z]{3,9})\.?[-/.\s]+(\d{1,2}),?[-/.\s]+(\d{2}|\d{4})$/i);
+  if (match) {
+    const month = monthFromName(match[1]);
+    return month ? makeDate(expandYear(match[3]), month, +match[2]) : null;
+  }
+
+  return null;
+};
+
+/**
+ * Read a date from a spreadsheet cell, or null if it is not a date
+ */
+export const parseDateValue = (value: unknown, convention: DateConvention = DEFAULT_DATE_CONVENTION): DateParts | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime())
+      ? null
+      : { year: value.getFullYear(), month: value.getMonth() + 1, day: value.getDate() };
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value <= 0) return null;
+    return /^\d{8}$/.test(String(value)) ? fromCompactNumber(String(value)) : fromExcelSerial(value);
+  }
+
+  return parseString(String(value).trim(), convention);
+};
+
+/**
+ * Read a date and explain why it was rejected
+ */
+export const normalizeDate = (value: unknown, convention: DateConvention = DEFAULT_DATE_CONVENTION): DateParseResult => {
+  if (value === null || value === undefined || String(value).trim() === '') {
+    return { date: null, error: 'Date is missing' };
+  }
+
+  const date = parseDateValue(value, convention);
+  if (!date) {
+    return { date: null, error: `"${value}" is not a recognised date` };
+  }
+  if (date.year < MIN_YEAR || date.year > MAX_YEAR) {
+    return { date: null, error: `Date ${formatDateParts(date)} is out of range` };
+  }
+  return { date };
+};
+
+// ===== FORMATTING =====
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Date parts as YYYYMMDD for Tally XML
+ */
+export const toTallyDate = (date: DateParts | Date): string => {
+  const parts = date instanceof Date
+    ? { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() }
+    : date;
+  return `${pad(parts.year, 4)}${pad(parts.month)}${pad(parts.day)}`;
+};
+
+/**
+ * Date parts as YYYY-MM-DD
+ */
+export const toIsoDate = (date: DateParts): string => `${pad(date.year, 4)}-${pad(date.month)}-${pad(date.day)}`;
+
+/**
+ * Date parts as dd-MMM-yyyy for messages
+ */
+export const formatDateParts = (date: DateParts): string =>
+  `${pad(date.day)}-${MONTHS[date.month - 1]?.replace(/^./, c => c.toUpperCase()) ?? pad(date.month)}-${date.year}`;
+
+// ===== FINANCIAL YEAR =====
+
+const compareDates = (a: DateParts, b: DateParts): number =>
+  a.year - b.year || a.month - b.month || a.day - b.day;
+
+/**
+ * Financial year of a Tally company, from its financialYearFrom/To fields
+ */
+export const companyFinancialYear = (
+  company: Pick<TallyCompany, 'financialYearFrom' | 'financialYearTo'>
+): FinancialYearBounds | null => {
+  const from = parseDateValue(company.financialYearFrom);
+  const to = parseDateValue(company.financialYearTo);
+  return from && to ? { from, to } : null;
+};
+
+/**
+ * April-to-March financial year from a label such as "2024-2025" or "2024-25"
+ */
+export const financialYearFromLabel = (label: string | undefined): FinancialYearBounds | null => {
+  const match = label?.match(/^\s*(\d{4})\s*[-/]\s*(\d{2}|\d{4})\s*$/);
+  if (!match) return null;
+
+  const startYear = parseInt(match[1], 10);
+  return { from: { year: startYear, month: 4, day: 1 }, to: { year: startYear + 1, month: 3, day: 31 } };
+};
+
+/**
+ * Financial year chosen in the Tally configuration, if any
+ */
+export const configuredFinancialYear = (): FinancialYearBounds | null => {
+  try {
+    const stored = localStorage.getItem('tallyConfig');
+    return stored ? financialYearFromLabel(JSON.parse(stored).financialYear) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether a date falls within a financial year
+ */
+export const isWithinFinancialYear = (date: DateParts, year: FinancialYearBounds): boolean =>
+  compareDates(date, year.from) >= 0 && compareDates(date, year.to) <= 0;
+
+/**
+ * Financial year as "01-Apr-2024 to 31-Mar-2025"
+ */
+export const describeFinancialYear = (year: FinancialYearBounds): string =>
+  `${formatDateParts(year.from)} to ${formatDateParts(year.to)}`;
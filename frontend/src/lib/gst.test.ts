@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { slabForHeader, type GstSlab } from './gst';
+
+const slabs: GstSlab[] = [
+  { rate: 5, cessRate: 0, enabled: true },
+  { rate: 18, cessRate: 0, enabled: true },
+  { rate: 28, cessRate: 12, enabled: true }
+];
+
+describe('slabForHeader', () => {
+  it('matches sales, purchase and taxable value headings to a slab', () => {
+    expect(slabForHeader('Sales 18%', slabs)).toBe(slabs[1]);
+    expect(slabForHeader('Purchase @ 5%', slabs)).toBe(slabs[0]);
+    expect(slabForHeader('Taxable Value 18%', slabs)).toBe(slabs[1]);
+    expect(slabForHeader('Sales 28% + Cess 12%', slabs)).toBe(slabs[2]);
+  });
+
+  it('ignores other percentages', () => {
+    expect(slabForHeader('Discount 5%', slabs)).toBeNull();
+    expect(slabForHeader('Margin 18%', slabs)).toBeNull();
+    expect(slabForHeader('Discount on Sales 5%', slabs)).toBeNull();
+    expect(slabForHeader('5% Sales', slabs)).toBeNull();
+    expect(slabForHeader('CGST 9%', slabs)).toBeNull();
+    expect(slabForHeader('Sales 12%', slabs)).toBeNull();
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * GST Rate Engine
+ *
+ * Single source of truth for GST slabs and tax computation. The GST
+ * calculator, the data-entry templates and the XML generators all read
+ * the slab table and split tax through this module.
+ *
+ * FEATURES:
+ * - Configurable slab table (any rate, optional compensation cess)
+ * - Intra-state (CGST + SGST) versus inter-state (IGST) decision from
+ *   GSTIN state codes and place of supply
+ * - Slab-wise breakdown with paise-level rounding
+ *
+ * @module gst
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import { parseAmount } from './amountParsing';
+
+// ===== TYPES =====
+
+/**
+ * A GST slab: a tax rate and an optional compensation cess
+ */
+export interface GstSlab {
+  rate: number;
+  cessRate: number;
+  enabled: boolean;
+}
+
+/**
+ * Persisted GST engine configuration
+ */
+export interface GstConfig {
+  slabs: GstSlab[];
+  /** GSTIN of the company the vouchers are posted to */
+  companyGstin?: string;
+  /** Two-digit state code of the company, used when no GSTIN is set */
+  companyStateCode?: string;
+}
+
+/**
+ * Intra-state supplies attract CGST + SGST, inter-state supplies IGST
+ */
+export type SupplyType = 'intra' | 'inter';
+
+/**
+ * Taxable value for one slab
+ */
+export interface GstLineInput {
+  taxableAmount: number;
+  rate: number;
+  cessRate?: number;
+}
+
+/**
+ * Tax computed for one slab
+ */
+export interface GstSlabBreakdown {
+  rate: number;
+  cessRate: number;
+  taxableAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+}
+
+/**
+ * Complete GST computation for an invoice
+ */
+export interface GstCalculation {
+  supplyType: SupplyType;
+  slabs: GstSlabBreakdown[];
+  taxableAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+  totalTax: number;
+  total: number;
+}
+
+// ===== SLAB TABLE =====
+
+const GST_CONFIG_STORAGE_KEY = 'tallysync_gst_config';
+
+/**
+ * Slabs notified under GST, including the special 0.25% and 3% rates
+ */
+export const DEFAULT_GST_SLABS: GstSlab[] = [
+  { rate: 0, cessRate: 0, enabled: true },
+  { rate: 0.25, cessRate: 0, enabled: true },
+  { rate: 3, cessRate: 0, enabled: true },
+  { rate: 5, cessRate: 0, enabled: true },
+  { rate: 12, cessRate: 0, enabled: true },
+  { rate: 18, cessRate: 0, enabled: true },
+  { rate: 28, cessRate: 0, enabled: true },
+];
+
+/**
+ * Load the GST configuration from local storage
+ */
+export const loadGstConfig = (): GstConfig => {
+  try {
+    const stored = localStorage.getItem(GST_CONFIG_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<GstConfig>;
+      return {
+        ...parsed,
+        slabs: parsed.slabs && parsed.slabs.length > 0 ? parsed.slabs : DEFAULT_GST_SLABS,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load GST configuration:', error);
+  }
+  return { slabs: DEFAULT_GST_SLABS };
+};
+
+/**
+ * Persist the GST configuration to local storage
+ */
+export const saveGstConfig = (config: GstConfig): void => {
+  try {
+    localStorage.setItem(GST_CONFIG_STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Failed to save GST configuration:', error);
+  }
+};
+
+/**
+ * Enabled slabs, ordered by rate then cess
+ */
+export const getActiveSlabs = (config: GstConfig = loadGstConfig()): GstSlab[] =>
+  config.slabs
+    .filter(slab => slab.enabled)
+    .sort((a, b) => a.rate - b.rate || a.cessRate - b.cessRate);
+
+const rateToken = (rate: number): string => String(rate).replace('.', '_');
+
+/**
+ * Stable field key for a slab column, e.g. "slab18" or "slab28_cess12"
+ */
+export const slabFieldKey = (slab: Pick<GstSlab, 'rate' | 'cessRate'>): string =>
+  `slab${rateToken(slab.rate)}${slab.cessRate > 0 ? `_cess${rateToken(slab.cessRate)}` : ''}`;
+
+/**
+ * Column heading for a slab, e.g. "Sales 18%" or "Purchase 28% + Cess 12%"
+ */
+export const slabFieldLabel = (prefix: string, slab: Pick<GstSlab, 'rate' | 'cessRate'>): string =>
+  `${prefix} ${slab.rate}%${slab.cessRate > 0 ? ` + Cess ${slab.cessRate}%` : ''}`;
+
+// ===== LEDGER NAMING =====
+
+/**
+ * Whether an invoice is outward (sales) or inward (purchase)
+ */
+export type GstDirection = 'sales' | 'purchase';
+
+/**
+ * Tax heads posted to separate duty ledgers
+ */
+export type GstTaxHead = 'cgst' | 'sgst' | 'igst' | 'cess';
+
+export const GST_TAX_HEADS: GstTaxHead[] = ['cgst', 'sgst', 'igst', 'cess'];
+
+/**
+ * Ledger that absorbs paise differences between the invoice total and its lines
+ */
+export const ROUND_OFF_LEDGER = 'Round Off';
+
+/**
+ * Rate-wise sales or purchase ledger, e.g. "Sales @18%"
+ */
+export const rateLedgerName = (direction: GstDirection, rate: number): string =>
+  `${direction === 'sales' ? 'Sales' : 'Purchase'} @${rate}%`;
+
+/**
+ * Duty ledger for a tax head, e.g. "Output CGST" or "Input IGST"
+ */
+export const dutyLedgerName = (direction: GstDirection, head: GstTaxHead): string =>
+  `${direction === 'sales' ? 'Output' : 'Input'} ${head === 'cess' ? 'Cess' : head.toUpperCase()}`;
+
+// ===== STATES & SUPPLY TYPE =====
+
+/**
+ * GST state codes as printed in the first two digits of a GSTIN
+ */
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '25': 'Daman and Diu',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '28': 'Andhra Pradesh (Old)',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '96': 'Foreign Country',
+  '97': 'Other Territory',
+};
+
+/**
+ * State code from a GSTIN, or null when the GSTIN is malformed
+ */
+export const stateCodeFromGstin = (gstin?: string | null): string | null => {
+  const code = (gstin || '').trim().slice(0, 2);
+  return GST_STATE_CODES[code] ? code : null;
+};
+
+/**
+ * Resolve a place of supply to a state code. Accepts "27",
+ * "27-Maharashtra" or a state name.
+ */
+export const resolveStateCode = (placeOfSupply?: string | null): string | null => {
+  const value = (placeOfSupply || '').trim();
+  if (!value) return null;
+
+  const numeric = value.match(/^(\d{1,2})\b/);
+  if (numeric) {
+    const code = numeric[1].padStart(2, '0');
+    return GST_STATE_CODES[code] ? code : null;
+  }
+
+  const name = value.toLowerCase();
+  const match = Object.entries(GST_STATE_CODES).find(([, stateName]) => stateName.toLowerCase() === name);
+  return match ? match[0] : null;
+};
+
+/**
+ * State name for a state code
+ */
+export const stateNameForCode = (code?: string | null): string | undefined =>
+  code ? GST_STATE_CODES[code] : undefined;
+
+/**
+ * The company's own state code from the configuration
+ */
+export const companyStateCode = (config: GstConfig = loadGstConfig()): string | null =>
+  stateCodeFromGstin(config.companyGstin) || resolveStateCode(config.companyStateCode);
+
+/**
+ * Decide whether a supply is intra- or inter-state. The place of supply
+ * wins over the party GSTIN; when either side is unknown the supply is
+ * treated as intra-state.
+ */
+export const determineSupplyType = (
+  params: { placeOfSupply?: string | null; partyGstin?: string | null },
+  config: GstConfig = loadGstConfig()
+): SupplyType => {
+  const ownState = companyStateCode(config);
+  const supplyState = resolveStateCode(params.placeOfSupply) || stateCodeFromGstin(params.partyGstin);
+
+  if (!ownState || !supplyState) return 'intra';
+  return ownState === supplyState ? 'intra' : 'inter';
+};
+
+// ===== COMPUTATION =====
+
+/**
+ * Round to paise
+ */
+export const roundToPaise = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * Compute GST for a set of slab-wise taxable values
+ */
+export const calculateGst = (lines: GstLineInput[], supplyType: SupplyType): GstCalculation => {
+  const slabs: GstSlabBreakdown[] = lines
+    .filter(line => line.taxableAmount)
+    .map(line => {
+      const cessRate = line.cessRate || 0;
+      const tax = roundToPaise((line.taxableAmount * line.rate) / 100);
+      // SGST takes the remainder so the two halves always add back to the tax
+      const cgst = roundToPaise(tax / 2);
+
+      return {
+        rate: line.rate,
+        cessRate,
+        taxableAmount: roundToPaise(line.taxableAmount),
+        cgst: supplyType === 'intra' ? cgst : 0,
+        sgst: supplyType === 'intra' ? roundToPaise(tax - cgst) : 0,
+        igst: supplyType === 'inter' ? tax : 0,
+        cess: roundToPaise((line.taxableAmount * cessRate) / 100),
+      };
+    });
+
+  const sum = (pick: (slab: GstSlabBreakdown) => number) =>
+    roundToPaise(slabs.reduce((total, slab) => total + pick(slab), 0));
+
+  const taxableAmount = sum(slab => slab.taxableAmount);
+  const cgst = sum(slab => slab.cgst);
+  const sgst = sum(slab => slab.sgst);
+  const igst = sum(slab => slab.igst);
+  const cess = sum(slab => slab.cess);
+  const totalTax = roundToPaise(cgst + sgst + igst + cess);
+
+  return {
+    supplyType,
+    slabs,
+    taxableAmount,
+    cgst,
+    sgst,
+    igst,
+    cess,
+    totalTax,
+    total: roundToPaise(taxableAmount + totalTax),
+  };
+};
+
+/**
+ * Read slab-wise taxable values from a row keyed by slab field keys
+ */
+export const readSlabAmounts = (
+  row: Record<string, unknown>,
+  slabs: GstSlab[] = getActiveSlabs()
+): GstLineInput[] =>
+  slabs
+    .map(slab => ({
+      rate: slab.rate,
+      cessRate: slab.cessRate,
+      taxableAmount: parseAmount(row[slabFieldKey(slab)]) || 0,
+    }))
+    .filter(line => line.taxableAmount !== 0);
+
+// A slab heading names what the value is before its rate
+const SLAB_LABEL = /\b(sales?|purchases?|taxable)\b/i;
+// Percentages that describe something other than tax, e.g. "Discount on Sales 5%"
+const NON_SLAB_WORDS = /\b(discount|margin|commission|rebate|markup|tds|tcs)\b/i;
+
+/**
+ * Match a spreadsheet heading such as "Sales 18%", "Purchase @ 0.25%" or
+ * "Sales 28% + Cess 12%" to a configured slab. The heading must say it is
+ * a sales, purchase or taxable value, so "Discount 5%" is not a slab.
+ */
+export const slabForHeader = (header: string, slabs: GstSlab[] = getActiveSlabs()): GstSlab | null => {
+  const match = header.match(/(\d+(?:\.\d+)?)\s*%(?:.*?cess\s*@?\s*(\d+(?:\.\d+)?)\s*%)?/i);
+  if (!match || /cgst|sgst|igst|utgst/i.test(header) || /^\s*cess/i.test(header)) return null;
+  const label = header.slice(0, match.index);
+  if (!SLAB_LABEL.test(label) || NON_SLAB_WORDS.test(header)) return null;
+
+  const rate = parseFloat(match[1]);
+  const cessRate = match[2] ? parseFloat(match[2]) : 0;
+  return slabs.find(slab => slab.rate === rate && slab.cessRate === cessRate) || null;
+};
@@ -0,0 +1,926 @@
+/**
+ * GST Returns
+ *
+ * Builds GSTR-1 sections (B2B, B2CL, B2CS, CDNR and the HSN summary) and
+ * the GSTR-3B tax liability summary from the rows of Tally's GST report,
+ * and writes both in the JSON format of the GST portal's offline tool.
+ * Rows are per voucher and rate, so every figure can be traced back to
+ * the vouchers behind it; the Excel sheets use the offline tool's
+ * headings. Without the backend the rows are read from the
+ * day book: the rate of each line comes from its ledger name, e.g.
+ * "Sales @18%", or from the tax of a single-line voucher.
+ *
+ * @module gstReturns
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import type { EntrySide, TallyLedgerEntryXml, TallyVoucherXml, XmlChild, XmlElement } from './tallyXml';
+import {
+  companyStateCode,
+  getActiveSlabs,
+  rateLedgerName,
+  resolveStateCode,
+  roundToPaise,
+  slabForHeader,
+  stateCodeFromGstin,
+  stateNameForCode,
+  type GstDirection,
+  type GstSlab,
+  type GstTaxHead,
+  type SupplyType
+} from './gst';
+import { formatDateParts } from './dateParsing';
+import type { TallyGSTDetails, TallyLedger } from '@/services/TallyService';
+
+// ===== TYPES =====
+
+export type GstDocumentType = 'invoice' | 'creditNote' | 'debitNote';
+
+/**
+ * Outward supplies are reported in GSTR-1; inward supplies give ITC
+ */
+export type GstFlow = 'outward' | 'inward';
+
+export interface GstAmounts {
+  taxable: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+/**
+ * A taxable line of a voucher with the slab it is taxed at
+ */
+export interface GstVoucherLine {
+  ledgerName: string;
+  amount: number;
+  slab: GstSlab;
+  stockItemName?: string;
+  quantity?: number;
+  unit?: string;
+  hsn?: string;
+}
+
+/**
+ * A sales or purchase voucher split into its party, taxable lines and taxes
+ */
+export interface GstVoucherReading {
+  party: TallyLedgerEntryXml;
+  lines: GstVoucherLine[];
+  taxes: Record<GstTaxHead, number>;
+}
+
+/**
+ * One rate of an invoice or note in B2B, B2CL or CDNR
+ */
+export interface Gstr1Document extends GstAmounts {
+  gstin: string;
+  partyName: string;
+  number: string;
+  /** YYYYMMDD */
+  date: string;
+  value: number;
+  pos: string;
+  reverseCharge: boolean;
+  invoiceType: 'R' | 'SEWP' | 'SEWOP';
+  noteType?: 'C' | 'D';
+  rate: number;
+  rows: TallyGSTDetails[];
+}
+
+/**
+ * Supplies to unregistered persons by place of supply and rate
+ */
+export interface Gstr1B2csLine extends GstAmounts {
+  supplyType: SupplyType;
+  pos: string;
+  rate: number;
+  rows: TallyGSTDetails[];
+}
+
+export interface Gstr1HsnLine extends GstAmounts {
+  hsn: string;
+  uqc: string;
+  quantity: number;
+  rate: number;
+  rows: TallyGSTDetails[];
+}
+
+export interface Gstr1Summary {
+  b2b: Gstr1Document[];
+  b2cl: Gstr1Document[];
+  b2cs: Gstr1B2csLine[];
+  cdnr: Gstr1Document[];
+  hsn: Gstr1HsnLine[];
+  /** Rows left out of the sections, and details to fill in before filing */
+  issues: string[];
+}
+
+export type Gstr3bSection = '3.1(a)' | '3.1(b)' | '3.1(c)' | '3.1(d)' | '4(A)(3)' | '4(A)(5)';
+
+export interface Gstr3bLine extends GstAmounts {
+  section: Gstr3bSection;
+  label: string;
+  rows: TallyGSTDetails[];
+}
+
+export interface Gstr3bInterStateLine {
+  pos: string;
+  taxable: number;
+  igst: number;
+  rows: TallyGSTDetails[];
+}
+
+export interface Gstr3bSummary {
+  lines: Gstr3bLine[];
+  /** Table 3.2: inter-state supplies to unregistered persons */
+  interStateUnregistered: Gstr3bInterStateLine[];
+  liability: GstAmounts;
+  itc: GstAmounts;
+  /** Liability less ITC per tax head, before cross-utilisation */
+  net: GstAmounts;
+}
+
+// ===== CONSTANTS =====
+
+/**
+ * Version the offline tool expects in a GSTR-1 JSON file
+ */
+export const GSTR1_JSON_VERSION = 'GST3.1.8';
+
+/**
+ * Place of supply code for exports
+ */
+const EXPORT_STATE_CODE = '96';
+
+/**
+ * B2CL takes inter-state invoices to unregistered persons above this value:
+ * 2.5 lakh until July 2024, 1 lakh from August 2024
+ */
+export const b2clLimit = (date: string): number => (date >= '20240801' ? 100000 : 250000);
+
+// Units of quantity code (UQC) for common Tally units
+const UQC_BY_UNIT: Record<string, string> = {
+  nos: 'NOS', no: 'NOS', pcs: 'PCS', pc: 'PCS', piece: 'PCS', pieces: 'PCS',
+  kg: 'KGS', kgs: 'KGS', g: 'GMS', gm: 'GMS', gms: 'GMS', grams: 'GMS',
+  ltr: 'LTR', ltrs: 'LTR', l: 'LTR', ml: 'MLT', mtr: 'MTR', mtrs: 'MTR', m: 'MTR',
+  box: 'BOX', boxes: 'BOX', btl: 'BTL', bottle: 'BTL', bag: 'BAG', bags: 'BAG',
+  doz: 'DOZ', dozen: 'DOZ', pkt: 'PAC', pack: 'PAC', set: 'SET', sets: 'SET',
+  strip: 'OTH', tab: 'OTH', qtl: 'QTL', ton: 'TON', tonnes: 'TON', unit: 'UNT', units: 'UNT'
+};
+
+/**
+ * UQC for a Tally unit; services (SAC codes start with 99) have none
+ */
+export const uqcForUnit = (unit: string | undefined, hsn: string = ''): string => {
+  if (hsn.startsWith('99')) return 'NA';
+  return UQC_BY_UNIT[(unit || '').trim().toLowerCase().replace(/\.$/, '')] || 'OTH';
+};
+
+// ===== READING VOUCHERS =====
+
+const TAX_HEAD_PATTERNS: [GstTaxHead, RegExp][] = [
+  ['cgst', /\bcgst\b/i],
+  ['sgst', /\b(sgst|utgst)\b/i],
+  ['igst', /\bigst\b/i],
+  ['cess', /\bcess\b/i]
+];
+
+const ROUND_OFF_PATTERN = /\bround(ing)?\s*off\b/i;
+
+/**
+ * Tax head a duty ledger is posted to, from its name
+ */
+export const taxHeadOf = (ledgerName: string): GstTaxHead | null =>
+  TAX_HEAD_PATTERNS.find(([, pattern]) => pattern.test(ledgerName))?.[0] ?? null;
+
+const isElement = (child: XmlChild): child is XmlElement => typeof child === 'object' && child !== null;
+
+// Text of a child element kept in a voucher's or entry's extra elements
+const extraText = (extra: XmlChild[] | undefined, name: string): string => {
+  const child = (extra || []).find(found => isElement(found) && found.name === name);
+  return isElement(child) ? child.children.filter(text => !isElement(text)).join('').trim() : '';
+};
+
+/**
+ * Split a sales or purchase voucher into its party, taxable lines and
+ * taxes; returns the reason when it cannot be read. Returns (sales credit
+ * notes and purchase debit notes) post their lines on the other side.
+ */
+export const readGstVoucher = (
+  voucher: TallyVoucherXml,
+  direction: GstDirection,
+  isReturn: boolean = false,
+  slabs: GstSlab[] = getActiveSlabs()
+): GstVoucherReading | string => {
+  const lineSide: EntrySide = (direction === 'sales') !== isReturn ? 'Cr' : 'Dr';
+  const partySide: EntrySide = lineSide === 'Dr' ? 'Cr' : 'Dr';
+  const partyEntries = voucher.ledgerEntries.filter(entry => entry.side === partySide);
+  const party = partyEntries.find(entry => entry.ledgerName === voucher.partyLedgerName)
+    || (partyEntries.length === 1 ? partyEntries[0] : undefined);
+  if (!party) return 'The voucher has no single party ledger';
+
+  const taxes: Record<GstTaxHead, number> = { cgst: 0, sgst: 0, igst: 0, cess: 0 };
+  const lines: Omit<GstVoucherLine, 'slab'>[] = [];
+  for (const entry of voucher.ledgerEntries) {
+    if (entry === party || ROUND_OFF_PATTERN.test(entry.ledgerName)) continue;
+    const head = taxHeadOf(entry.ledgerName);
+    if (head) {
+      taxes[head] += entry.side === lineSide ? entry.amount : -entry.amount;
+    } else if (entry.side === lineSide) {
+      lines.push({ ledgerName: entry.ledgerName, amount: entry.amount });
+    } else {
+      return `Ledger ${entry.ledgerName} is on the party's side`;
+    }
+  }
+  for (const entry of voucher.inventoryEntries || []) {
+    if (entry.side !== lineSide) return `Stock item ${entry.stockItemName} is on the party's side`;
+    lines.push({
+      ledgerName: entry.accountingAllocations?.[0]?.ledgerName || '',
+      amount: entry.amount,
+      stockItemName: entry.stockItemName,
+      quantity: entry.quantity,
+      unit: entry.unit,
+      hsn: extraText(entry.extra, 'GSTHSNNAME') || extraText(entry.extra, 'HSNCODE') || undefined
+    });
+  }
+  if (lines.length === 0) return 'The voucher has no taxable lines';
+
+  // A single line without a rate in its ledger name is taxed at the voucher's effective rate
+  const taxable = lines.reduce((sum, line) => sum + line.amount, 0);
+  const effectiveSlab = (): GstSlab | null => {
+    if (lines.length !== 1 || taxable === 0) return null;
+    const rate = roundToPaise((taxes.cgst + taxes.sgst + taxes.igst) / taxable * 100);
+    const cessRate = roundToPaise(taxes.cess / taxable * 100);
+    return slabs.find(slab => slab.rate === rate && slab.cessRate === cessRate) || null;
+  };
+
+  const slabbed: GstVoucherLine[] = [];
+  for (const line of lines) {
+    const slab = slabForHeader(line.ledgerName, slabs) || effectiveSlab();
+    if (!slab) {
+      return `Cannot tell the GST rate of ${line.ledgerName || line.stockItemName || 'an item line'}; name its ledger with the rate, e.g. ${rateLedgerName(direction, 18)}`;
+    }
+    slabbed.push({ ...line, slab });
+  }
+
+  return { party, lines: slabbed, taxes };
+};
+
+// Split a total over weights, the last share taking the rounding difference
+const allocate = (total: number, weights: number[]): number[] => {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  let remaining = roundToPaise(total);
+  return weights.map((weight, index) => {
+    if (index === weights.length - 1) return roundToPaise(remaining);
+    const share = roundToPaise(sum === 0 ? total / weights.length : total * weight / sum);
+    remaining -= share;
+    return share;
+  });
+};
+
+// Voucher types whose vouchers carry GST, with their flow and document type
+const gstVoucherKind = (voucher: TallyVoucherXml): { direction: GstDirection; documentType: GstDocumentType } | null => {
+  const type = voucher.voucherType.toLowerCase();
+  if (type.includes('credit note')) return { direction: 'sales', documentType: 'creditNote' };
+  if (type.includes('debit note')) return { direction: 'purchase', documentType: 'debitNote' };
+  if (type.includes('sale')) return { direction: 'sales', documentType: 'invoice' };
+  if (type.includes('purchase')) return { direction: 'purchase', documentType: 'invoice' };
+  // Journals booking a purchase with GST
+  if (type.includes('journal') && voucher.ledgerEntries.some(entry => taxHeadOf(entry.ledgerName))) {
+    return { direction: 'purchase', documentType: 'invoice' };
+  }
+  return null;
+};
+
+/**
+ * GST report rows from day book vouchers, one per voucher, rate and HSN.
+ * Party GSTIN and place of supply come from the voucher, else from the
+ * party ledger.
+ */
+export const gstRowsFromVouchers = (
+  vouchers: TallyVoucherXml[],
+  ledgers: TallyLedger[],
+  slabs: GstSlab[] = getActiveSlabs()
+): { rows: TallyGSTDetails[]; issues: string[] } => {
+  const contacts = new Map(ledgers.map(ledger => [ledger.name.toLowerCase(), ledger.ledgerContact]));
+  const rows: TallyGSTDetails[] = [];
+  const issues: string[] = [];
+
+  for (const voucher of vouchers) {
+    const kind = gstVoucherKind(voucher);
+    if (!kind) continue;
+
+    const reading = readGstVoucher(voucher, kind.direction, kind.documentType !== 'invoice', slabs);
+    if (typeof reading === 'string') {
+      issues.push(`${voucher.voucherType} ${voucher.voucherNumber}: ${reading}`);
+      continue;
+    }
+
+    const contact = contacts.get(reading.party.ledgerName.toLowerCase());
+    const gstin = extraText(voucher.extra, 'PARTYGSTIN') || contact?.gstin || '';
+    const registrationType = extraText(voucher.extra, 'GSTREGISTRATIONTYPE') || (gstin ? 'Regular' : 'Unregistered');
+    const placeOfSupply = extraText(voucher.extra, 'PLACEOFSUPPLY') || contact?.state || '';
+    const reverseCharge = /^yes$/i.test(extraText(voucher.extra, 'ISREVERSECHARGEAPPLICABLE'));
+
+    // Lines of the same rate and HSN are one row
+    const groups = new Map<string, GstVoucherLine[]>();
+    reading.lines.forEach(line => {
+      const key = `${line.slab.rate}|${line.slab.cessRate}|${line.hsn || ''}`;
+      groups.set(key, [...(groups.get(key) || []), line]);
+    });
+    const grouped = [...groups.values()];
+    const taxable = grouped.map(lines => lines.reduce((sum, line) => sum + line.amount, 0));
+    const dutyWeights = grouped.map((lines, index) => taxable[index] * lines[0].slab.rate);
+    const cessWeights = grouped.map((lines, index) => taxable[index] * (lines[0].slab.cessRate || 1));
+    const shares = {
+      igst: allocate(reading.taxes.igst, dutyWeights),
+      cgst: allocate(reading.taxes.cgst, dutyWeights),
+      sgst: allocate(reading.taxes.sgst, dutyWeights),
+      cess: allocate(reading.taxes.cess, cessWeights)
+    };
+
+    grouped.forEach((lines, index) => {
+      const quantity = lines.reduce((sum, line) => sum + (line.quantity || 0), 0);
+      const row: TallyGSTDetails = {
+        gstin,
+        gstRegistrationType: registrationType,
+        taxType: kind.direction === 'sales' ? 'Output' : 'Input',
+        taxableAmount: roundToPaise(taxable[index]),
+        cgstAmount: shares.cgst[index],
+        sgstAmount: shares.sgst[index],
+        igstAmount: shares.igst[index],
+        cessAmount: shares.cess[index],
+        totalTaxAmount: roundToPaise(shares.cgst[index] + shares.sgst[index] + shares.igst[index] + shares.cess[index]),
+        reverseCharge,
+        placeOfSupply,
+        hsnCode: lines[0].hsn,
+        voucherType: voucher.voucherType,
+        voucherNumber: voucher.voucherNumber,
+        reference: voucher.reference,
+        date: voucher.date,
+        partyName: reading.party.ledgerName,
+        invoiceValue: roundToPaise(reading.party.amount),
+        rate: lines[0].slab.rate,
+        cessRate: lines[0].slab.cessRate,
+        quantity: quantity || undefined,
+        unit: lines.find(line => line.unit)?.unit,
+        documentType: kind.documentType,
+        flow: kind.direction === 'sales' ? 'outward' : 'inward',
+        sourceRows: voucher.sourceRows
+      };
+      rows.push(row);
+    });
+  }
+
+  return { rows, issues };
+};
+
+// ===== ROWS =====
+
+/**
+ * Document type of a row, from the row or else its voucher type
+ */
+export const rowDocumentType = (row: TallyGSTDetails): GstDocumentType => {
+  if (row.documentType) return row.documentType;
+  const type = (row.voucherType || '').toLowerCase();
+  if (type.includes('credit note')) return 'creditNote';
+  if (type.includes('debit note')) return 'debitNote';
+  return 'invoice';
+};
+
+/**
+ * Flow of a row. Credit notes reverse sales and debit notes reverse
+ * purchases unless the row says otherwise.
+ */
+export const rowFlow = (row: TallyGSTDetails): GstFlow => {
+  if (row.flow) return row.flow;
+  const documentType = rowDocumentType(row);
+  if (documentType === 'creditNote') return 'outward';
+  if (documentType === 'debitNote') return 'inward';
+  return /purchase|input|inward/i.test(`${row.voucherType || ''} ${row.taxType}`) ? 'inward' : 'outward';
+};
+
+// Notes that reverse a supply count against it
+const rowSign = (row: TallyGSTDetails): number => {
+  const documentType = rowDocumentType(row);
+  const flow = rowFlow(row);
+  return (flow === 'outward' && documentType === 'creditNote') || (flow === 'inward' && documentType === 'debitNote') ? -1 : 1;
+};
+
+/**
+ * Tax rate of a row, from the row or else its tax
+ */
+export const rowRate = (row: TallyGSTDetails): number =>
+  row.rate ?? (row.taxableAmount ? roundToPaise((row.igstAmount + row.cgstAmount + row.sgstAmount) / row.taxableAmount * 100) : 0);
+
+/**
+ * Place of supply state code of a row; the company's own state when unknown
+ */
+export const rowPlaceOfSupply = (row: TallyGSTDetails): string =>
+  resolveStateCode(row.placeOfSupply) || stateCodeFromGstin(row.gstin) || companyStateCode() || '';
+
+const isRegistered = (row: TallyGSTDetails): boolean =>
+  (row.gstin || '').trim().length === 15 && !/unregistered|consumer/i.test(row.gstRegistrationType || '');
+
+const isZeroRated = (row: TallyGSTDetails): boolean =>
+  /sez|export/i.test(row.gstRegistrationType || '') || rowPlaceOfSupply(row) === EXPORT_STATE_CODE;
+
+const isInterState = (row: TallyGSTDetails): boolean => {
+  if (row.igstAmount) return true;
+  if (row.cgstAmount || row.sgstAmount) return false;
+  const ownState = companyStateCode();
+  return !!ownState && rowPlaceOfSupply(row) !== ownState;
+};
+
+const emptyAmounts = (): GstAmounts => ({ taxable: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 });
+
+/**
+ * Amounts of a row, negative for notes that reverse a supply
+ */
+export const rowAmounts = (row: TallyGSTDetails, sign: number = rowSign(row)): GstAmounts => ({
+  taxable: sign * row.taxableAmount,
+  igst: sign * row.igstAmount,
+  cgst: sign * row.cgstAmount,
+  sgst: sign * row.sgstAmount,
+  cess: sign * row.cessAmount
+});
+
+const addAmounts = <T extends GstAmounts>(target: T, amounts: GstAmounts): T => {
+  target.taxable = roundToPaise(target.taxable + amounts.taxable);
+  target.igst = roundToPaise(target.igst + amounts.igst);
+  target.cgst = roundToPaise(target.cgst + amounts.cgst);
+  target.sgst = roundToPaise(target.sgst + amounts.sgst);
+  target.cess = roundToPaise(target.cess + amounts.cess);
+  return target;
+};
+
+/**
+ * Sum of several amounts
+ */
+export const totalAmounts = (items: GstAmounts[]): GstAmounts =>
+  items.reduce((total, item) => addAmounts(total, item), emptyAmounts());
+
+const groupBy = <T>(items: T[], key: (item: T) => string): T[][] => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => groups.set(key(item), [...(groups.get(key(item)) || []), item]));
+  return [...groups.values()];
+};
+
+// ===== GSTR-1 =====
+
+const documentsOf = (rows: TallyGSTDetails[]): Gstr1Document[] =>
+  groupBy(rows, row => `${row.gstin}|${row.voucherType}|${row.voucherNumber}|${row.date}|${rowRate(row)}`).map(group => {
+    const first = group[0];
+    const documentType = rowDocumentType(first);
+    const sez = /sez/i.test(first.gstRegistrationType || '');
+    return addAmounts({
+      ...emptyAmounts(),
+      gstin: (first.gstin || '').trim().toUpperCase(),
+      partyName: first.partyName || '',
+      number: first.voucherNumber || '',
+      date: first.date || '',
+      value: first.invoiceValue ?? roundToPaise(first.taxableAmount + first.totalTaxAmount),
+      pos: rowPlaceOfSupply(first),
+      reverseCharge: first.reverseCharge,
+      invoiceType: sez ? (first.igstAmount ? 'SEWP' : 'SEWOP') : 'R',
+      noteType: documentType === 'creditNote' ? 'C' : documentType === 'debitNote' ? 'D' : undefined,
+      rate: rowRate(first),
+      rows: group
+    } as Gstr1Document, totalAmounts(group.map(row => rowAmounts(row, 1))));
+  });
+
+/**
+ * GSTR-1 sections from the rows of a period. Nil-rated supplies and
+ * exports only appear in the HSN summary; issues say where to report them.
+ */
+export const buildGstr1 = (rows: TallyGSTDetails[]): Gstr1Summary => {
+  const outward = rows.filter(row => rowFlow(row) === 'outward');
+  const issues: string[] = [];
+
+  const nilRated = outward.filter(row => rowRate(row) === 0);
+  const exports = outward.filter(row => rowRate(row) > 0 && !isRegistered(row) && isZeroRated(row));
+  const taxed = outward.filter(row => rowRate(row) > 0 && !exports.includes(row));
+  if (nilRated.length > 0) issues.push(`${nilRated.length} nil-rated or exempt row(s) belong in table 8 (nil rated supplies)`);
+  if (exports.length > 0) issues.push(`${exports.length} export row(s) belong in the EXP section`);
+
+  const invoices = taxed.filter(row => rowDocumentType(row) === 'invoice');
+  const notes = taxed.filter(row => rowDocumentType(row) !== 'invoice');
+
+  const b2b = documentsOf(invoices.filter(isRegistered));
+  const unregistered = invoices.filter(row => !isRegistered(row));
+  const b2cl = documentsOf(unregistered.filter(row =>
+    isInterState(row) && (row.invoiceValue ?? row.taxableAmount + row.totalTaxAmount) > b2clLimit(row.date || '')
+  ));
+  const inB2cl = new Set(b2cl.flatMap(document => document.rows));
+
+  // Notes to unregistered persons are netted off the B2CS line they reverse
+  const b2csRows = [...unregistered.filter(row => !inB2cl.has(row)), ...notes.filter(row => !isRegistered(row))];
+  const b2cs = groupBy(b2csRows, row => `${isInterState(row)}|${rowPlaceOfSupply(row)}|${rowRate(row)}`).map(group =>
+    addAmounts({
+      ...emptyAmounts(),
+      supplyType: isInterState(group[0]) ? 'inter' : 'intra',
+      pos: rowPlaceOfSupply(group[0]),
+      rate: rowRate(group[0]),
+      rows: group
+    } as Gstr1B2csLine, totalAmounts(group.map(row => rowAmounts(row))))
+  );
+
+  const cdnr = documentsOf(notes.filter(isRegistered));
+
+  const hsn = groupBy(outward, row => `${row.hsnCode || row.sacCode || ''}|${rowRate(row)}|${uqcForUnit(row.unit, row.hsnCode || row.sacCode)}`)
+    .map(group => {
+      const code = group[0].hsnCode || group[0].sacCode || '';
+      return addAmounts({
+        ...emptyAmounts(),
+        hsn: code,
+        uqc: uqcForUnit(group[0].unit, code),
+        quantity: roundToPaise(group.reduce((sum, row) => sum + rowSign(row) * (row.quantity || 0), 0)),
+        rate: rowRate(group[0]),
+        rows: group
+      } as Gstr1HsnLine, totalAmounts(group.map(row => rowAmounts(row))));
+    });
+
+  const missingHsn = hsn.filter(line => !line.hsn).reduce((sum, line) => sum + line.rows.length, 0);
+  if (missingHsn > 0) issues.push(`${missingHsn} row(s) have no HSN/SAC code; fill it in before filing the HSN summary`);
+  const missingNumbers = [...b2b, ...b2cl, ...cdnr].filter(document => !document.number).length;
+  if (missingNumbers > 0) issues.push(`${missingNumbers} invoice(s) or note(s) have no number`);
+
+  return { b2b, b2cl, b2cs, cdnr, hsn, issues };
+};
+
+// ===== GSTR-3B =====
+
+const SECTION_LABELS: Record<Gstr3bSection, string> = {
+  '3.1(a)': 'Outward taxable supplies (other than zero rated, nil rated and exempted)',
+  '3.1(b)': 'Outward taxable supplies (zero rated)',
+  '3.1(c)': 'Other outward supplies (nil rated, exempted)',
+  '3.1(d)': 'Inward supplies (liable to reverse charge)',
+  '4(A)(3)': 'ITC: inward supplies liable to reverse charge',
+  '4(A)(5)': 'ITC: all other ITC'
+};
+
+const threeBSection = (row: TallyGSTDetails): Gstr3bSection => {
+  if (rowFlow(row) === 'inward') return row.reverseCharge ? '3.1(d)' : '4(A)(5)';
+  if (rowRate(row) === 0) return '3.1(c)';
+  return isZeroRated(row) ? '3.1(b)' : '3.1(a)';
+};
+
+/**
+ * GSTR-3B tax liability and ITC summary from the rows of a period
+ */
+export const buildGstr3b = (rows: TallyGSTDetails[]): Gstr3bSummary => {
+  const bySection = new Map<Gstr3bSection, TallyGSTDetails[]>();
+  rows.forEach(row => {
+    const section = threeBSection(row);
+    bySection.set(section, [...(bySection.get(section) || []), row]);
+  });
+  // Tax paid under reverse charge is also claimed as ITC
+  bySection.set('4(A)(3)', bySection.get('3.1(d)') || []);
+
+  const lines = (Object.keys(SECTION_LABELS) as Gstr3bSection[]).map(section => {
+    const sectionRows = bySection.get(section) || [];
+    return addAmounts({ ...emptyAmounts(), section, label: SECTION_LABELS[section], rows: sectionRows },
+      totalAmounts(sectionRows.map(row => rowAmounts(row))));
+  });
+  const line = (section: Gstr3bSection) => lines.find(found => found.section === section) as Gstr3bLine;
+
+  const interState = rows.filter(row =>
+    rowFlow(row) === 'outward' && rowRate(row) > 0 && !isRegistered(row) && !isZeroRated(row) && isInterState(row)
+  );
+  const interStateUnregistered = groupBy(interState, rowPlaceOfSupply).map(group => ({
+    pos: rowPlaceOfSupply(group[0]),
+    taxable: roundToPaise(group.reduce((sum, row) => sum + rowAmounts(row).taxable, 0)),
+    igst: roundToPaise(group.reduce((sum, row) => sum + rowAmounts(row).igst, 0)),
+    rows: group
+  }));
+
+  const liability = totalAmounts([line('3.1(a)'), line('3.1(b)'), line('3.1(d)')]);
+  const itc = totalAmounts([line('4(A)(3)'), line('4(A)(5)')]);
+  const net: GstAmounts = {
+    taxable: 0,
+    igst: roundToPaise(liability.igst - itc.igst),
+    cgst: roundToPaise(liability.cgst - itc.cgst),
+    sgst: roundToPaise(liability.sgst - itc.sgst),
+    cess: roundToPaise(liability.cess - itc.cess)
+  };
+
+  return { lines, interStateUnregistered, liability, itc, net };
+};
+
+// ===== OFFLINE TOOL JSON =====
+
+/**
+ * Return period as the portal writes it, MMYYYY
+ */
+export const returnPeriod = (month: string, year: string): string => `${month.padStart(2, '0')}${year}`;
+
+// YYYYMMDD as dd-mm-yyyy
+const portalDate = (date: string): string => `${date.slice(6, 8)}-${date.slice(4, 6)}-${date.slice(0, 4)}`;
+
+const itemDetails = (document: Gstr1Document, interState: boolean) => ({
+  num: Math.round(document.rate * 100) + 1,
+  itm_det: {
+    rt: document.rate,
+    txval: document.taxable,
+    ...(interState ? { iamt: document.igst } : { camt: document.cgst, samt: document.sgst }),
+    csamt: document.cess
+  }
+});
+
+// Rates of one invoice or note, grouped under it
+const invoicesOf = (documents: Gstr1Document[]) =>
+  groupBy(documents, document => `${document.number}|${document.date}`).map(group => ({
+    first: group[0],
+    items: group.map(document => itemDetails(document, document.igst !== 0 || document.pos !== companyStateCode()))
+  }));
+
+/**
+ * GSTR-1 in the JSON format the offline tool imports
+ */
+export const gstr1OfflineJson = (summary: Gstr1Summary, gstin: string, period: string): Record<string, unknown> => {
+  const json: Record<string, unknown> = { gstin, fp: period, version: GSTR1_JSON_VERSION, hash: 'hash' };
+
+  if (summary.b2b.length > 0) {
+    json.b2b = groupBy(summary.b2b, document => document.gstin).map(group => ({
+      ctin: group[0].gstin,
+      inv: invoicesOf(group).map(({ first, items }) => ({
+        inum: first.number,
+        idt: portalDate(first.date),
+        val: first.value,
+        pos: first.pos,
+        rchrg: first.reverseCharge ? 'Y' : 'N',
+        inv_typ: first.invoiceType,
+        itms: items
+      }))
+    }));
+  }
+
+  if (summary.b2cl.length > 0) {
+    json.b2cl = groupBy(summary.b2cl, document => document.pos).map(group => ({
+      pos: group[0].pos,
+      inv: invoicesOf(group).map(({ first, items }) => ({
+        inum: first.number,
+        idt: portalDate(first.date),
+        val: first.value,
+        itms: items
+      }))
+    }));
+  }
+
+  if (summary.b2cs.length > 0) {
+    json.b2cs = summary.b2cs.map(line => ({
+      sply_ty: line.supplyType === 'inter' ? 'INTER' : 'INTRA',
+      pos: line.pos,
+      typ: 'OE',
+      rt: line.rate,
+      txval: line.taxable,
+      ...(line.supplyType === 'inter' ? { iamt: line.igst } : { camt: line.cgst, samt: line.sgst }),
+      csamt: line.cess
+    }));
+  }
+
+  if (summary.cdnr.length > 0) {
+    json.cdnr = groupBy(summary.cdnr, document => document.gstin).map(group => ({
+      ctin: group[0].gstin,
+      nt: invoicesOf(group).map(({ first, items }) => ({
+        ntty: first.noteType,
+        nt_num: first.number,
+        nt_dt: portalDate(first.date),
+        val: first.value,
+        pos: first.pos,
+        rchrg: first.reverseCharge ? 'Y' : 'N',
+        inv_typ: first.invoiceType,
+        itms: items
+      }))
+    }));
+  }
+
+  if (summary.hsn.length > 0) {
+    json.hsn = {
+      data: summary.hsn.map((line, index) => ({
+        num: index + 1,
+        hsn_sc: line.hsn,
+        desc: '',
+        uqc: line.uqc,
+        qty: line.quantity,
+        rt: line.rate,
+        txval: line.taxable,
+        iamt: line.igst,
+        camt: line.cgst,
+        samt: line.sgst,
+        csamt: line.cess
+      }))
+    };
+  }
+
+  return json;
+};
+
+const taxDetails = (amounts: GstAmounts) => ({
+  txval: amounts.taxable,
+  iamt: amounts.igst,
+  camt: amounts.cgst,
+  samt: amounts.sgst,
+  csamt: amounts.cess
+});
+
+const itcDetails = (type: string, amounts: GstAmounts = emptyAmounts()) => ({
+  ty: type,
+  iamt: amounts.igst,
+  camt: amounts.cgst,
+  samt: amounts.sgst,
+  csamt: amounts.cess
+});
+
+/**
+ * GSTR-3B in the JSON format the offline tool imports
+ */
+export const gstr3bOfflineJson = (summary: Gstr3bSummary, gstin: string, period: string): Record<string, unknown> => {
+  const line = (section: Gstr3bSection) => summary.lines.find(found => found.section === section) as Gstr3bLine;
+  const { txval: zeroTaxable, iamt: zeroIgst, csamt: zeroCess } = taxDetails(line('3.1(b)'));
+
+  return {
+    gstin,
+    ret_period: period,
+    sup_details: {
+      osup_det: taxDetails(line('3.1(a)')),
+      osup_zero: { txval: zeroTaxable, iamt: zeroIgst, csamt: zeroCess },
+      osup_nil_exmp: { txval: line('3.1(c)').taxable },
+      isup_rev: taxDetails(line('3.1(d)')),
+      osup_nongst: { txval: 0 }
+    },
+    inter_sup: {
+      unreg_details: summary.interStateUnregistered.map(entry => ({ pos: entry.pos, txval: entry.taxable, iamt: entry.igst })),
+      comp_details: [],
+      uin_details: []
+    },
+    itc_elg: {
+      itc_avl: [
+        itcDetails('IMPG'),
+        itcDetails('IMPS'),
+        itcDetails('ISRC', line('4(A)(3)')),
+        itcDetails('ISD'),
+        itcDetails('OTH', line('4(A)(5)'))
+      ],
+      itc_rev: [itcDetails('RUL'), itcDetails('OTH')],
+      itc_net: itcDetails('NET', summary.itc),
+      itc_inelg: [itcDetails('RUL'), itcDetails('OTH')]
+    }
+  };
+};
+
+// ===== EXCEL =====
+
+type SheetRow = Record<string, string | number>;
+
+const excelDate = (date: string): string =>
+  date ? formatDateParts({ year: Number(date.slice(0, 4)), month: Number(date.slice(4, 6)), day: Number(date.slice(6, 8)) }) : '';
+
+// Place of supply as the offline tool lists it, e.g. "27-Maharashtra"
+const excelPlaceOfSupply = (code: string): string => (stateNameForCode(code) ? `${code}-${stateNameForCode(code)}` : code);
+
+const INVOICE_TYPE_LABELS: Record<Gstr1Document['invoiceType'], string> = {
+  R: 'Regular B2B',
+  SEWP: 'SEZ supplies with payment',
+  SEWOP: 'SEZ supplies without payment'
+};
+
+/**
+ * Source rows of a figure, one line per voucher and rate
+ */
+export const voucherSheetRows = (rows: TallyGSTDetails[]): SheetRow[] =>
+  rows.map(row => ({
+    Date: excelDate(row.date || ''),
+    'Voucher Type': row.voucherType || '',
+    'Voucher No': row.voucherNumber || '',
+    Party: row.partyName || '',
+    GSTIN: row.gstin || '',
+    'Place Of Supply': excelPlaceOfSupply(rowPlaceOfSupply(row)),
+    'HSN/SAC': row.hsnCode || row.sacCode || '',
+    Rate: rowRate(row),
+    'Taxable Value': row.taxableAmount,
+    IGST: row.igstAmount,
+    CGST: row.cgstAmount,
+    SGST: row.sgstAmount,
+    Cess: row.cessAmount,
+    'Reverse Charge': row.reverseCharge ? 'Y' : 'N'
+  }));
+
+/**
+ * Workbook of both returns: a sheet per GSTR-1 section, the GSTR-3B
+ * summary and the vouchers behind them
+ */
+export const gstReturnSheets = (
+  gstr1: Gstr1Summary,
+  gstr3b: Gstr3bSummary,
+  rows: TallyGSTDetails[]
+): { name: string; rows: SheetRow[] }[] => {
+  const amountLine = (section: string, label: string, amounts: GstAmounts): SheetRow => ({
+    Section: section,
+    Description: label,
+    'Taxable Value': amounts.taxable,
+    IGST: amounts.igst,
+    CGST: amounts.cgst,
+    SGST: amounts.sgst,
+    Cess: amounts.cess
+  });
+
+  return [
+    {
+      name: 'b2b',
+      rows: gstr1.b2b.map(document => ({
+        'GSTIN/UIN of Recipient': document.gstin,
+        'Receiver Name': document.partyName,
+        'Invoice Number': document.number,
+        'Invoice date': excelDate(document.date),
+        'Invoice Value': document.value,
+        'Place Of Supply': excelPlaceOfSupply(document.pos),
+        'Reverse Charge': document.reverseCharge ? 'Y' : 'N',
+        'Applicable % of Tax Rate': '',
+        'Invoice Type': INVOICE_TYPE_LABELS[document.invoiceType],
+        'E-Commerce GSTIN': '',
+        Rate: document.rate,
+        'Taxable Value': document.taxable,
+        'Cess Amount': document.cess
+      }))
+    },
+    {
+      name: 'b2cl',
+      rows: gstr1.b2cl.map(document => ({
+        'Invoice Number': document.number,
+        'Invoice date': excelDate(document.date),
+        'Invoice Value': document.value,
+        'Place Of Supply': excelPlaceOfSupply(document.pos),
+        'Applicable % of Tax Rate': '',
+        Rate: document.rate,
+        'Taxable Value': document.taxable,
+        'Cess Amount': document.cess,
+        'E-Commerce GSTIN': ''
+      }))
+    },
+    {
+      name: 'b2cs',
+      rows: gstr1.b2cs.map(line => ({
+        Type: 'OE',
+        'Place Of Supply': excelPlaceOfSupply(line.pos),
+        'Applicable % of Tax Rate': '',
+        Rate: line.rate,
+        'Taxable Value': line.taxable,
+        'Cess Amount': line.cess,
+        'E-Commerce GSTIN': ''
+      }))
+    },
+    {
+      name: 'cdnr',
+      rows: gstr1.cdnr.map(document => ({
+        'GSTIN/UIN of Recipient': document.gstin,
+        'Receiver Name': document.partyName,
+        'Note Number': document.number,
+        'Note Date': excelDate(document.date),
+        'Note Type': document.noteType || '',
+        'Place Of Supply': excelPlaceOfSupply(document.pos),
+        'Reverse Charge': document.reverseCharge ? 'Y' : 'N',
+        'Note Supply Type': INVOICE_TYPE_LABELS[document.invoiceType],
+        'Note Value': document.value,
+        'Applicable % of Tax Rate': '',
+        Rate: document.rate,
+        'Taxable Value': document.taxable,
+        'Cess Amount': document.cess
+      }))
+    },
+    {
+      name: 'hsn',
+      rows: gstr1.hsn.map(line => ({
+        HSN: line.hsn,
+        Description: '',
+        UQC: line.uqc,
+        'Total Quantity': line.quantity,
+        'Total Value': roundToPaise(line.taxable + line.igst + line.cgst + line.sgst + line.cess),
+        Rate: line.rate,
+        'Taxable Value': line.taxable,
+        'Integrated Tax Amount': line.igst,
+        'Central Tax Amount': line.cgst,
+        'State/UT Tax Amount': line.sgst,
+        'Cess Amount': line.cess
+      }))
+    },
+    {
+      name: 'GSTR-3B',
+      rows: [
+        ...gstr3b.lines.map(line => amountLine(line.section, line.label, line)),
+        ...gstr3b.interStateUnregistered.map(line => amountLine(
+          '3.2',
+          `Supplies to unregistered persons, ${excelPlaceOfSupply(line.pos)}`,
+          { ...emptyAmounts(), taxable: line.taxable, igst: line.igst }
+        )),
+        amountLine('', 'Tax liability', { ...gstr3b.liability, taxable: 0 }),
+        amountLine('', 'Eligible ITC', { ...gstr3b.itc, taxable: 0 }),
+        amountLine('', 'Tax payable before cross-utilisation of ITC', gstr3b.net)
+      ]
+    },
+    { name: 'Vouchers', rows: voucherSheetRows(rows) }
+  ];
+};
@@ -0,0 +1,458 @@
+/**
+ * GSTR-2B Reconciliation
+ *
+ * Reads the GSTR-2B statement downloaded from the GST portal, as JSON or
+ * Excel, and reconciles it with the purchase register. Documents are
+ * paired on supplier GSTIN and invoice number, with numbers compared
+ * without punctuation or leading zeros; pairs that differ in date or
+ * amounts beyond the tolerance are mismatched. Invoices with a changed
+ * number or a mistyped GSTIN are paired on amount and reported as
+ * mismatched too, so the rest are genuinely missing on one side.
+ *
+ * @module gstr2b
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import type { TallyGSTDetails } from '@/services/TallyService';
+import { roundToPaise } from './gst';
+import { parseAmount } from './amountParsing';
+import { formatDateParts, parseDateValue, toTallyDate } from './dateParsing';
+import { rowDocumentType, rowFlow, rowAmounts, type GstAmounts, type GstDocumentType } from './gstReturns';
+
+// ===== TYPES =====
+
+/**
+ * An invoice or note in GSTR-2B. Note types are the supplier's: a credit
+ * note in 2B is a debit note (purchase return) in the books.
+ */
+export interface Gstr2bDocument extends GstAmounts {
+  id: string;
+  gstin: string;
+  supplierName: string;
+  number: string;
+  /** YYYYMMDD */
+  date: string;
+  documentType: GstDocumentType;
+  value: number;
+  reverseCharge: boolean;
+  /** Whether the portal shows ITC as available */
+  itcAvailable: boolean;
+}
+
+export interface Gstr2bStatement {
+  gstin: string;
+  /** Return period, MMYYYY */
+  period: string;
+  documents: Gstr2bDocument[];
+  /** Parts of the statement left out, e.g. amendments and imports */
+  issues: string[];
+}
+
+/**
+ * A purchase voucher in the books, with the rows it was read from
+ */
+export interface BookPurchase extends GstAmounts {
+  id: string;
+  gstin: string;
+  supplierName: string;
+  /** Supplier's invoice number */
+  number: string;
+  /** YYYYMMDD */
+  date: string;
+  documentType: GstDocumentType;
+  voucherType: string;
+  voucherNumber: string;
+  /** Rows of the import file the voucher came from, when it was not read from Tally */
+  sourceRows?: number[];
+  rows: TallyGSTDetails[];
+}
+
+export type Gstr2bStatus = 'matched' | 'mismatched' | 'missingInBooks' | 'missingIn2b';
+
+export interface Gstr2bMatch {
+  id: string;
+  status: Gstr2bStatus;
+  portal: Gstr2bDocument | null;
+  book: BookPurchase | null;
+  differences: string[];
+}
+
+export interface Gstr2bMatchOptions {
+  /** Rupees taxable value and each tax may differ by */
+  amountTolerance: number;
+  /** Days the book date may be away from the supplier's invoice date */
+  dateWindowDays: number;
+}
+
+export const DEFAULT_GSTR2B_MATCH_OPTIONS: Gstr2bMatchOptions = { amountTolerance: 1, dateWindowDays: 3 };
+
+export const GSTR2B_STATUS_LABELS: Record<Gstr2bStatus, string> = {
+  matched: 'Matched',
+  mismatched: 'Mismatched',
+  missingInBooks: 'Missing in books',
+  missingIn2b: 'Missing in 2B'
+};
+
+export const DOCUMENT_TYPE_LABELS: Record<GstDocumentType, string> = {
+  invoice: 'Invoice',
+  creditNote: 'Credit Note',
+  debitNote: 'Debit Note'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===== READING 2B =====
+
+const toNumber = (value: unknown): number => parseAmount(value) ?? 0;
+
+const tallyDateOf = (value: unknown): string => {
+  const date = parseDateValue(value, 'dmy');
+  return date ? toTallyDate(date) : '';
+};
+
+const emptyAmounts = (): GstAmounts => ({ taxable: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 });
+
+const addItem = (amounts: GstAmounts, item: Record<string, unknown>): GstAmounts => ({
+  taxable: roundToPaise(amounts.taxable + toNumber(item.txval)),
+  igst: roundToPaise(amounts.igst + toNumber(item.igst)),
+  cgst: roundToPaise(amounts.cgst + toNumber(item.cgst)),
+  sgst: roundToPaise(amounts.sgst + toNumber(item.sgst)),
+  cess: roundToPaise(amounts.cess + toNumber(item.cess))
+});
+
+const listOf = (value: unknown): Record<string, unknown>[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Statement from the GSTR-2B JSON file, with or without its "data" wrapper.
+ * Returns null when the file is not a GSTR-2B statement.
+ */
+export const parseGstr2bJson = (json: unknown): Gstr2bStatement | null => {
+  const root = (json ?? {}) as Record<string, unknown>;
+  const data = (root.data ?? root) as Record<string, unknown>;
+  const docdata = data.docdata as Record<string, unknown> | undefined;
+  if (!docdata) return null;
+
+  const documents: Gstr2bDocument[] = [];
+  const push = (
+    supplier: Record<string, unknown>,
+    document: Record<string, unknown>,
+    number: unknown,
+    documentType: GstDocumentType
+  ) => {
+    const amounts = listOf(document.items).reduce(addItem, emptyAmounts());
+    documents.push({
+      ...amounts,
+      id: `2b-${documents.length + 1}`,
+      gstin: String(supplier.ctin || '').trim().toUpperCase(),
+      supplierName: String(supplier.trdnm || ''),
+      number: String(number ?? ''),
+      date: tallyDateOf(document.dt),
+      documentType,
+      value: toNumber(document.val),
+      reverseCharge: document.rev === 'Y',
+      itcAvailable: document.itcavl !== 'N'
+    });
+  };
+
+  listOf(docdata.b2b).forEach(supplier => {
+    listOf(supplier.inv).forEach(invoice => push(supplier, invoice, invoice.inum, 'invoice'));
+  });
+  listOf(docdata.cdnr).forEach(supplier => {
+    listOf(supplier.nt).forEach(note => push(supplier, note, note.ntnum, note.typ === 'D' ? 'debitNote' : 'creditNote'));
+  });
+
+  const issues = ['b2ba', 'cdnra', 'isd', 'isda', 'impg', 'impgsez']
+    .filter(section => listOf(docdata[section]).length > 0)
+    .map(section => `The ${section.toUpperCase()} section is not reconciled; check it on the portal`);
+
+  return { gstin: String(data.gstin || ''), period: String(data.rtnprd || ''), documents, issues };
+};
+
+type SheetColumn = 'gstin' | 'supplierName' | 'number' | 'date' | 'value' | 'noteType' | 'reverseCharge'
+  | 'taxable' | 'igst' | 'cgst' | 'sgst' | 'cess' | 'itcAvailable';
+
+// Headings of the B2B and B2B-CDNR sheets of the portal's GSTR-2B workbook
+const SHEET_COLUMNS: [SheetColumn, RegExp][] = [
+  ['gstin', /gstin of supplier/i],
+  ['supplierName', /trade|legal name/i],
+  ['number', /(invoice|note) number/i],
+  ['noteType', /note type/i],
+  ['date', /(invoice|note) date/i],
+  ['value', /(invoice|note) value/i],
+  ['reverseCharge', /reverse charge/i],
+  ['taxable', /taxable value/i],
+  ['igst', /integrated tax/i],
+  ['cgst', /central tax/i],
+  ['sgst', /state\/?ut tax/i],
+  ['cess', /^cess/i],
+  ['itcAvailable', /itc availability/i]
+];
+
+/**
+ * Documents from a B2B or B2B-CDNR sheet of the GSTR-2B Excel workbook.
+ * Headings span two rows under a title block; an invoice with several
+ * rates has a row per rate.
+ */
+export const parseGstr2bSheet = (rows: unknown[][], kind: 'invoice' | 'note'): Gstr2bDocument[] => {
+  const headerIndex = rows.findIndex(row => row.some(cell => /gstin of supplier/i.test(String(cell))));
+  if (headerIndex < 0) return [];
+
+  const headings = rows[headerIndex].map((cell, index) => String(rows[headerIndex + 1]?.[index] || cell).trim());
+  const columns = new Map<SheetColumn, number>();
+  SHEET_COLUMNS.forEach(([column, pattern]) => {
+    const index = headings.findIndex(heading => pattern.test(heading));
+    if (index >= 0) columns.set(column, index);
+  });
+  const cell = (row: unknown[], column: SheetColumn): unknown => {
+    const index = columns.get(column);
+    return index === undefined ? '' : row[index];
+  };
+
+  const documents = new Map<string, Gstr2bDocument>();
+  rows.slice(headerIndex + 2).forEach(row => {
+    const gstin = String(cell(row, 'gstin') || '').trim().toUpperCase();
+    const number = String(cell(row, 'number') || '').trim();
+    if (gstin.length !== 15 || !number) return;
+
+    const date = tallyDateOf(cell(row, 'date'));
+    const key = `${gstin}|${number}|${date}`;
+    const document = documents.get(key) || {
+      ...emptyAmounts(),
+      id: `2b-${kind}-${documents.size + 1}`,
+      gstin,
+      supplierName: String(cell(row, 'supplierName') || ''),
+      number,
+      date,
+      documentType: kind === 'invoice' ? 'invoice' : /debit/i.test(String(cell(row, 'noteType'))) ? 'debitNote' : 'creditNote',
+      value: toNumber(cell(row, 'value')),
+      reverseCharge: /^y/i.test(String(cell(row, 'reverseCharge'))),
+      itcAvailable: !/^n/i.test(String(cell(row, 'itcAvailable')))
+    } as Gstr2bDocument;
+
+    documents.set(key, {
+      ...document,
+      ...addItem(document, {
+        txval: cell(row, 'taxable'),
+        igst: cell(row, 'igst'),
+        cgst: cell(row, 'cgst'),
+        sgst: cell(row, 'sgst'),
+        cess: cell(row, 'cess')
+      })
+    });
+  });
+
+  return [...documents.values()];
+};
+
+// ===== BOOKS =====
+
+// Our debit note for a purchase return is the supplier's credit note
+const supplierDocumentType = (row: TallyGSTDetails): GstDocumentType => {
+  const documentType = rowDocumentType(row);
+  if (documentType === 'debitNote') return 'creditNote';
+  if (documentType === 'creditNote') return 'debitNote';
+  return 'invoice';
+};
+
+/**
+ * Purchase register from GST report rows, one entry per voucher. Purchases
+ * from unregistered suppliers are left out, as they never appear in 2B.
+ */
+export const toBookPurchases = (rows: TallyGSTDetails[]): BookPurchase[] => {
+  const vouchers = new Map<string, TallyGSTDetails[]>();
+  rows
+    .filter(row => rowFlow(row) === 'inward' && (row.gstin || '').trim().length === 15)
+    .forEach((row, index) => {
+      const key = row.voucherNumber ? `${row.voucherType}|${row.voucherNumber}|${row.date}` : `row:${index}`;
+      vouchers.set(key, [...(vouchers.get(key) || []), row]);
+    });
+
+  return [...vouchers.entries()].map(([key, group]) => {
+    const first = group[0];
+    // Amounts are compared as the supplier reports them, without the sign of a return
+    const amounts = group.reduce((total, row) => {
+      const amounts = rowAmounts(row, 1);
+      return {
+        taxable: roundToPaise(total.taxable + amounts.taxable),
+        igst: roundToPaise(total.igst + amounts.igst),
+        cgst: roundToPaise(total.cgst + amounts.cgst),
+        sgst: roundToPaise(total.sgst + amounts.sgst),
+        cess: roundToPaise(total.cess + amounts.cess)
+      };
+    }, emptyAmounts());
+
+    return {
+      ...amounts,
+      id: `book-${key}`,
+      gstin: (first.gstin || '').trim().toUpperCase(),
+      supplierName: first.partyName || '',
+      number: first.reference || first.voucherNumber || '',
+      date: first.date || '',
+      documentType: supplierDocumentType(first),
+      voucherType: first.voucherType || '',
+      voucherNumber: first.voucherNumber || '',
+      sourceRows: first.sourceRows,
+      rows: group
+    };
+  });
+};
+
+// ===== MATCHING =====
+
+/**
+ * Invoice number as compared: letters and digits only, without leading
+ * zeros in each number, so "INV/0012/24-25" equals "inv-12-24-25"
+ */
+export const normaliseInvoiceNumber = (value: string): string =>
+  (value.toUpperCase().match(/[A-Z]+|\d+/g) || [])
+    .map(part => (/^\d+$/.test(part) ? part.replace(/^0+(?=\d)/, '') : part))
+    .join('');
+
+const daysBetween = (a: string, b: string): number => {
+  const toTime = (date: string) => Date.UTC(+date.slice(0, 4), +date.slice(4, 6) - 1, +date.slice(6, 8));
+  return Math.round((toTime(a) - toTime(b)) / DAY_MS);
+};
+
+const displayDate = (date: string): string =>
+  date ? formatDateParts({ year: Number(date.slice(0, 4)), month: Number(date.slice(4, 6)), day: Number(date.slice(6, 8)) }) : 'no date';
+
+const AMOUNT_LABELS: [keyof GstAmounts, string][] = [
+  ['taxable', 'Taxable value'],
+  ['igst', 'IGST'],
+  ['cgst', 'CGST'],
+  ['sgst', 'SGST'],
+  ['cess', 'Cess']
+];
+
+// Differences between a 2B document and the purchase paired with it
+const differencesOf = (portal: Gstr2bDocument, book: BookPurchase, options: Gstr2bMatchOptions): string[] => {
+  const differences: string[] = [];
+  if (portal.gstin !== book.gstin) differences.push(`GSTIN ${book.gstin} in books, ${portal.gstin} in 2B`);
+  if (normaliseInvoiceNumber(portal.number) !== normaliseInvoiceNumber(book.number)) {
+    differences.push(`Invoice number ${book.number} in books, ${portal.number} in 2B`);
+  }
+  if (!portal.date || !book.date || Math.abs(daysBetween(portal.date, book.date)) > options.dateWindowDays) {
+    differences.push(`Date ${displayDate(book.date)} in books, ${displayDate(portal.date)} in 2B`);
+  }
+  AMOUNT_LABELS.forEach(([field, label]) => {
+    const difference = roundToPaise(book[field] - portal[field]);
+    if (Math.abs(difference) > options.amountTolerance) {
+      differences.push(`${label} ${book[field].toFixed(2)} in books, ${portal[field].toFixed(2)} in 2B`);
+    }
+  });
+  return differences;
+};
+
+/**
+ * Reconcile 2B documents with the purchase register. Each document and
+ * purchase is used in at most one match.
+ */
+export const matchGstr2b = (
+  documents: Gstr2bDocument[],
+  purchases: BookPurchase[],
+  options: Gstr2bMatchOptions = DEFAULT_GSTR2B_MATCH_OPTIONS
+): Gstr2bMatch[] => {
+  const matches: Gstr2bMatch[] = [];
+  const usedDocuments = new Set<string>();
+  const usedPurchases = new Set<string>();
+
+  const pair = (portal: Gstr2bDocument, book: BookPurchase) => {
+    usedDocuments.add(portal.id);
+    usedPurchases.add(book.id);
+    const differences = differencesOf(portal, book, options);
+    matches.push({
+      id: `${portal.id}|${book.id}`,
+      status: differences.length === 0 ? 'matched' : 'mismatched',
+      portal,
+      book,
+      differences
+    });
+  };
+
+  const sameTaxable = (portal: Gstr2bDocument, book: BookPurchase) =>
+    Math.abs(portal.taxable - book.taxable) <= options.amountTolerance;
+  const closestFirst = (portal: Gstr2bDocument) => (a: BookPurchase, b: BookPurchase) =>
+    Math.abs(daysBetween(a.date, portal.date)) - Math.abs(daysBetween(b.date, portal.date));
+
+  // 1. Same supplier and invoice number
+  documents.forEach(portal => {
+    const number = normaliseInvoiceNumber(portal.number);
+    const book = purchases
+      .filter(candidate =>
+        !usedPurchases.has(candidate.id) &&
+        candidate.gstin === portal.gstin &&
+        candidate.documentType === portal.documentType &&
+        normaliseInvoiceNumber(candidate.number) === number
+      )
+      .sort(closestFirst(portal))[0];
+    if (book) pair(portal, book);
+  });
+
+  // 2. Same supplier and taxable value within the date window: a number typed differently
+  documents.forEach(portal => {
+    if (usedDocuments.has(portal.id)) return;
+    const book = purchases
+      .filter(candidate =>
+        !usedPurchases.has(candidate.id) &&
+        candidate.gstin === portal.gstin &&
+        candidate.documentType === portal.documentType &&
+        sameTaxable(portal, candidate) &&
+        Math.abs(daysBetween(candidate.date, portal.date)) <= options.dateWindowDays
+      )
+      .sort(closestFirst(portal))[0];
+    if (book) pair(portal, book);
+  });
+
+  // 3. Same invoice number and taxable value: a GSTIN mistyped in the books or by the supplier
+  documents.forEach(portal => {
+    if (usedDocuments.has(portal.id)) return;
+    const number = normaliseInvoiceNumber(portal.number);
+    const book = purchases.find(candidate =>
+      !usedPurchases.has(candidate.id) &&
+      candidate.documentType === portal.documentType &&
+      normaliseInvoiceNumber(candidate.number) === number &&
+      sameTaxable(portal, candidate)
+    );
+    if (book) pair(portal, book);
+  });
+
+  documents
+    .filter(portal => !usedDocuments.has(portal.id))
+    .forEach(portal => matches.push({ id: portal.id, status: 'missingInBooks', portal, book: null, differences: [] }));
+  purchases
+    .filter(book => !usedPurchases.has(book.id))
+    .forEach(book => matches.push({ id: book.id, status: 'missingIn2b', portal: null, book, differences: [] }));
+
+  return matches;
+};
+
+// ===== EXCEL =====
+
+/**
+ * A sheet per result bucket, each line with the 2B document and the
+ * voucher it was paired with
+ */
+export const gstr2bSheets = (matches: Gstr2bMatch[]): { name: string; rows: Record<string, string | number>[] }[] =>
+  (Object.keys(GSTR2B_STATUS_LABELS) as Gstr2bStatus[]).map(status => ({
+    name: GSTR2B_STATUS_LABELS[status],
+    rows: matches
+      .filter(match => match.status === status)
+      .map(({ portal, book, differences }) => ({
+        'Supplier GSTIN': portal?.gstin || book?.gstin || '',
+        Supplier: portal?.supplierName || book?.supplierName || '',
+        'Document Type': DOCUMENT_TYPE_LABELS[(portal || book)?.documentType || 'invoice'],
+        '2B Invoice No': portal?.number || '',
+        '2B Date': portal ? displayDate(portal.date) : '',
+        '2B Taxable Value': portal?.taxable ?? '',
+        '2B Tax': portal ? roundToPaise(portal.igst + portal.cgst + portal.sgst + portal.cess) : '',
+        'ITC Available': portal ? (portal.itcAvailable ? 'Y' : 'N') : '',
+        'Books Invoice No': book?.number || '',
+        Voucher: book ? `${book.voucherType} ${book.voucherNumber}`.trim() : '',
+        'Import Rows': book?.sourceRows?.join(', ') || '',
+        'Books Date': book ? displayDate(book.date) : '',
+        'Books Taxable Value': book?.taxable ?? '',
+        'Books Tax': book ? roundToPaise(book.igst + book.cgst + book.sgst + book.cess) : '',
+        Differences: differences.join('; ')
+      }))
+  }));
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { readLedgerMasterRow } from './ledgerMaster';
+
+const readOpening = (openingBalance: string, drCr = '') => {
+  const cells: Record<string, string> = {
+    name: 'Shah & Sons (Pune)',
+    group: 'Sundry Creditors',
+    opening_balance: openingBalance,
+    dr_cr: drCr
+  };
+  return readLedgerMasterRow(key => cells[key] ?? null, 2);
+};
+
+describe('readLedgerMasterRow opening balance', () => {
+  it('reads a Dr or Cr suffix with or without a space', () => {
+    expect(readOpening('1500Cr').record).toMatchObject({ openingBalance: 1500, openingSide: 'Cr' });
+    expect(readOpening('1,500 Dr').record).toMatchObject({ openingBalance: 1500, openingSide: 'Dr' });
+    expect(readOpening('₹ 1,00,000.00 Cr.').record).toMatchObject({ openingBalance: 100000, openingSide: 'Cr' });
+  });
+
+  it('reads a negative or bracketed amount as a credit', () => {
+    expect(readOpening('(500)').record).toMatchObject({ openingBalance: 500, openingSide: 'Cr' });
+    expect(readOpening('-500').record).toMatchObject({ openingBalance: 500, openingSide: 'Cr' });
+    expect(readOpening('500').record).toMatchObject({ openingBalance: 500, openingSide: 'Dr' });
+  });
+
+  it('lets the Dr/Cr column override the side', () => {
+    expect(readOpening('1500Cr', 'Dr').record).toMatchObject({ openingBalance: 1500, openingSide: 'Dr' });
+  });
+
+  it('rejects text that is not an amount', () => {
+    ['12-15', '5e3', '-500 Cr', '10kg'].forEach(value => {
+      const { record, issues } = readOpening(value);
+      expect(record).toBeNull();
+      expect(issues.map(issue => issue.field)).toEqual(['opening_balance']);
+    });
+  });
+});
@@ -0,0 +1,451 @@
+/**
+ * Ledger Master Import
+ *
+ * Reads and validates ledger master rows from the ledger template: parent
+ * group, GST registration (GSTIN with checksum, registration type, state),
+ * PAN, contact details, credit period, opening balance with its Dr/Cr side
+ * and bill-wise details. Valid rows become LEDGER masters for Tally.
+ *
+ * @module ledgerMaster
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import { parseAmount } from './amountParsing';
+import { el, optionalEl, type EntrySide, type TallyLedgerMasterXml, type XmlChild } from './tallyXml';
+import { GST_STATE_CODES, resolveStateCode, stateCodeFromGstin, stateNameForCode } from './gst';
+import { ledgerSimilarity } from './ledgerResolver';
+import type { VoucherIssue } from './voucherValidation';
+import type { TallyGroup, TallyLedgerContact } from '@/services/TallyService';
+
+// ===== TYPES =====
+
+export type GstRegistrationType = 'Regular' | 'Composition' | 'Consumer' | 'Unregistered';
+
+export const GST_REGISTRATION_TYPES: GstRegistrationType[] = ['Regular', 'Composition', 'Consumer', 'Unregistered'];
+
+/**
+ * A validated row of the ledger template
+ */
+export interface LedgerMasterRecord {
+  rowNumber: number;
+  name: string;
+  alias?: string;
+  parent: string;
+  openingBalance: number;
+  openingSide: EntrySide;
+  isBillWiseOn: boolean;
+  creditPeriodDays?: number;
+  registrationType?: GstRegistrationType;
+  contact: TallyLedgerContact;
+}
+
+/**
+ * Reads a template field of the current row by its field key
+ */
+export type LedgerFieldReader = (key: string) => string | null;
+
+// ===== GROUPS =====
+
+/**
+ * Groups every Tally company starts with, used to validate parents while
+ * the company's own groups have not been fetched
+ */
+export const PREDEFINED_LEDGER_GROUPS = [
+  'Bank Accounts',
+  'Bank OD A/c',
+  'Branch / Divisions',
+  'Capital Account',
+  'Cash-in-Hand',
+  'Current Assets',
+  'Current Liabilities',
+  'Deposits (Asset)',
+  'Direct Expenses',
+  'Direct Incomes',
+  'Duties & Taxes',
+  'Fixed Assets',
+  'Indirect Expenses',
+  'Indirect Incomes',
+  'Investments',
+  'Loans & Advances (Asset)',
+  'Loans (Liability)',
+  'Misc. Expenses (ASSET)',
+  'Provisions',
+  'Purchase Accounts',
+  'Reserves & Surplus',
+  'Sales Accounts',
+  'Secured Loans',
+  'Stock-in-Hand',
+  'Sundry Creditors',
+  'Sundry Debtors',
+  'Suspense A/c',
+  'Unsecured Loans'
+];
+
+// Groups whose ledgers keep bill-wise details unless the sheet says otherwise
+const PARTY_GROUPS = ['sundry debtors', 'sundry creditors'];
+
+/**
+ * Whether a group holds party ledgers
+ */
+export const isPartyGroup = (group: string): boolean => PARTY_GROUPS.includes(group.trim().toLowerCase());
+
+/**
+ * Groups whose ledgers hold cash or bank balances; only these can be used
+ * in a contra voucher
+ */
+export const CASH_BANK_GROUPS = ['Cash-in-Hand', 'Bank Accounts', 'Bank OD A/c', 'Bank OCC A/c'];
+
+/**
+ * A group followed by its parents up to the primary group. Without the
+ * company's groups only the group itself is known.
+ */
+export const groupLineage = (group: string, groups: Pick<TallyGroup, 'name' | 'parent'>[]): string[] => {
+  const byName = new Map(groups.map(entry => [entry.name.trim().toLowerCase(), entry]));
+  const lineage: string[] = [];
+  let current: string | undefined = group.trim();
+
+  while (current && !lineage.some(name => name.toLowerCase() === current!.toLowerCase())) {
+    lineage.push(current);
+    current = byName.get(current.toLowerCase())?.parent?.trim();
+  }
+  return lineage;
+};
+
+/**
+ * Whether a group is a cash or bank group or sits under one
+ */
+export const isCashOrBankGroup = (group: string, groups: Pick<TallyGroup, 'name' | 'parent'>[]): boolean =>
+  groupLineage(group, groups).some(name => CASH_BANK_GROUPS.some(cashBank => cashBank.toLowerCase() === name.toLowerCase()));
+
+// ===== IDENTIFIERS =====
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const PAN_PATTERN = /^[A-Z]{5}\d{4}[A-Z]$/;
+const PINCODE_PATTERN = /^[1-9]\d{5}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Check character of the first 14 characters of a GSTIN. The main process
+ * repeats this in TallyService.isValidGstin (src/services/tally.service.js),
+ * which cannot import this module; keep the two in sync.
+ */
+export const gstinCheckCharacter = (gstin: string): string => {
+  const sum = gstin
+    .slice(0, 14)
+    .split('')
+    .reduce((total, char, index) => {
+      const product = GSTIN_CHARSET.indexOf(char) * (index % 2 === 0 ? 1 : 2);
+      return total + Math.floor(product / 36) + (product % 36);
+    }, 0);
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+};
+
+/**
+ * Problem with a GSTIN, or null when it is well formed with a valid
+ * state code and check character
+ */
+export const gstinError = (gstin: string): string | null => {
+  const value = gstin.trim().toUpperCase();
+  if (!GSTIN_PATTERN.test(value)) return `GSTIN "${gstin}" is not in the 15-character GSTIN format`;
+  if (!GST_STATE_CODES[value.slice(0, 2)]) return `GSTIN "${gstin}" has an unknown state code ${value.slice(0, 2)}`;
+  if (gstinCheckCharacter(value) !== value[14]) return `GSTIN "${gstin}" has an invalid check character`;
+  return null;
+};
+
+/**
+ * Whether a GSTIN is valid, including its check character
+ */
+export const isValidGstin = (gstin: string): boolean => gstinError(gstin) === null;
+
+// ===== VALUE PARSING =====
+
+/**
+ * Yes/No cell as a boolean, or null when it is neither
+ */
+export const parseYesNo = (value: string): boolean | null => {
+  const normalized = value.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1', 'on', 'applicable'].includes(normalized)) return true;
+  if (['no', 'n', 'false', '0', 'off', 'not applicable'].includes(normalized)) return false;
+  return null;
+};
+
+const parseSide = (value: string): EntrySide | null => {
+  const normalized = value.trim().toLowerCase();
+  if (['dr', 'debit', 'd'].includes(normalized)) return 'Dr';
+  if (['cr', 'credit', 'c'].includes(normalized)) return 'Cr';
+  return null;
+};
+
+const OPENING_SIDE_SUFFIX = /\s*(dr|cr)\.?$/i;
+
+/**
+ * Opening balance and the side written with it ("1,500.00 Cr", "1500Dr").
+ * A negative or bracketed amount without a suffix is a credit; a suffix
+ * on a negative amount is ambiguous and rejected.
+ */
+const parseOpeningBalance = (value: string): { amount: number; side: EntrySide | null } | null => {
+  const text = value.trim();
+  const suffix = text.match(OPENING_SIDE_SUFFIX);
+  const amount = parseAmount(suffix ? text.slice(0, suffix.index) : text);
+  if (amount === null || (suffix && amount < 0)) return null;
+  if (suffix) return { amount, side: suffix[1].toLowerCase() === 'dr' ? 'Dr' : 'Cr' };
+  return { amount: Math.abs(amount), side: amount < 0 ? 'Cr' : null };
+};
+
+const matchRegistrationType = (value: string): GstRegistrationType | null =>
+  GST_REGISTRATION_TYPES.find(type => type.toLowerCase() === value.trim().toLowerCase()) || null;
+
+// ===== ROW VALIDATION =====
+
+/**
+ * Validate one ledger template row. Rows with errors return no record;
+ * warnings are reported but the row is still imported.
+ */
+export const readLedgerMasterRow = (
+  read: LedgerFieldReader,
+  rowNumber: number,
+  groups: string[] = PREDEFINED_LEDGER_GROUPS
+): { record: LedgerMasterRecord | null; issues: VoucherIssue[] } => {
+  const issues: VoucherIssue[] = [];
+  const issue = (field: string, value: string, message: string, severity: VoucherIssue['severity'] = 'error') =>
+    issues.push({ row: rowNumber, field, value, message, severity });
+  const text = (key: string) => (read(key) || '').trim();
+
+  const name = text('name');
+  if (!name) {
+    issue('name', '', 'Ledger name is required; row skipped');
+    return { record: null, issues };
+  }
+
+  // Parent group, in the spelling Tally uses
+  const groupInput = text('group');
+  const parent = groups.find(group => group.toLowerCase() === groupInput.toLowerCase());
+  if (!groupInput) {
+    issue('group', '', `Group is required for ledger "${name}"`);
+  } else if (!parent) {
+    const closest = groups
+      .map(group => ({ group, score: ledgerSimilarity(groupInput, group) }))
+      .sort((a, b) => b.score - a.score)[0];
+    issue('group', groupInput, closest && closest.score >= 0.5
+      ? `Group "${groupInput}" is not in Tally; did you mean "${closest.group}"?`
+      : `Group "${groupInput}" is not in Tally`);
+  }
+
+  // GST registration
+  const gstin = text('gstin').toUpperCase();
+  const gstinProblem = gstin ? gstinError(gstin) : null;
+  if (gstinProblem) issue('gstin', gstin, gstinProblem);
+
+  const registrationInput = text('registration_type');
+  let registrationType = registrationInput ? matchRegistrationType(registrationInput) : null;
+  if (registrationInput && !registrationType) {
+    issue('registration_type', registrationInput, `Registration type must be one of ${GST_REGISTRATION_TYPES.join(', ')}`);
+  }
+  if (!registrationInput) {
+    registrationType = gstin ? 'Regular' : parent && isPartyGroup(parent) ? 'Unregistered' : null;
+  }
+  if ((registrationType === 'Regular' || registrationType === 'Composition') && !gstin) {
+    issue('gstin', '', `${registrationType} registration needs a GSTIN`);
+  }
+
+  const stateInput = text('state');
+  const stateCode = resolveStateCode(stateInput);
+  if (stateInput && !stateCode) issue('state', stateInput, `State "${stateInput}" is not a GST state`, 'warning');
+  const gstinState = gstin && !gstinProblem ? stateCodeFromGstin(gstin) : null;
+  if (stateCode && gstinState && stateCode !== gstinState) {
+    issue('state', stateInput, `State does not match the GSTIN state ${stateNameForCode(gstinState)}`, 'warning');
+  }
+
+  const panInput = text('pan').toUpperCase();
+  if (panInput && !PAN_PATTERN.test(panInput)) issue('pan', panInput, `PAN "${panInput}" is not in the AAAAA9999A format`);
+  if (panInput && gstin && !gstinProblem && gstin.slice(2, 12) !== panInput) {
+    issue('pan', panInput, 'PAN does not match the PAN in the GSTIN');
+  }
+  const pan = panInput || (gstin && !gstinProblem ? gstin.slice(2, 12) : '');
+
+  const pincode = text('pincode');
+  if (pincode && !PINCODE_PATTERN.test(pincode)) issue('pincode', pincode, `Pincode "${pincode}" is not a 6-digit PIN`, 'warning');
+
+  const email = text('email');
+  if (email && !EMAIL_PATTERN.test(email)) issue('email', email, `Email "${email}" is not a valid address`, 'warning');
+
+  // Balances and credit terms
+  const openingInput = text('opening_balance');
+  const opening = openingInput ? parseOpeningBalance(openingInput) : { amount: 0, side: null };
+  if (!opening) issue('opening_balance', openingInput, `Opening balance "${openingInput}" is not a number`);
+
+  const sideInput = text('dr_cr');
+  const side = sideInput ? parseSide(sideInput) : null;
+  if (sideInput && !side) issue('dr_cr', sideInput, 'Dr/Cr must be Dr or Cr');
+
+  const billWiseInput = text('bill_wise');
+  const billWise = billWiseInput ? parseYesNo(billWiseInput) : null;
+  if (billWiseInput && billWise === null) issue('bill_wise', billWiseInput, 'Bill-wise must be Yes or No');
+  const isBillWiseOn = billWise ?? (parent ? isPartyGroup(parent) : false);
+
+  const creditInput = text('credit_period');
+  const creditDays = creditInput ? parseInt(creditInput.replace(/days?/i, '').trim(), 10) : undefined;
+  if (creditInput && (!Number.isInteger(creditDays) || (creditDays as number) < 0 || !/^\d+\s*(days?)?$/i.test(creditInput))) {
+    issue('credit_period', creditInput, 'Credit period must be a number of days');
+  } else if (creditInput && !isBillWiseOn) {
+    issue('credit_period', creditInput, 'Credit period only applies to bill-wise ledgers', 'warning');
+  }
+
+  if (issues.some(found => found.severity === 'error') || !parent || !opening) {
+    return { record: null, issues };
+  }
+
+  return {
+    record: {
+      rowNumber,
+      name,
+      alias: text('alias') || undefined,
+      parent,
+      openingBalance: opening.amount,
+      openingSide: side || opening.side || 'Dr',
+      isBillWiseOn,
+      creditPeriodDays: creditInput ? creditDays : undefined,
+      registrationType: registrationType || undefined,
+      contact: {
+        address: text('address') || undefined,
+        state: stateNameForCode(stateCode || gstinState),
+        pincode: pincode || undefined,
+        country: text('country') || undefined,
+        phone: text('phone') || undefined,
+        email: email || undefined,
+        gstin: gstin || undefined,
+        pan: pan || undefined
+      }
+    },
+    issues
+  };
+};
+
+/**
+ * Error for a ledger name used on more than one row
+ */
+export const duplicateLedgerIssues = (records: LedgerMasterRecord[]): VoucherIssue[] => {
+  const seen = new Map<string, number>();
+  const issues: VoucherIssue[] = [];
+
+  records.forEach(record => {
+    const key = record.name.toUpperCase();
+    const first = seen.get(key);
+    if (first !== undefined) {
+      issues.push({
+        row: record.rowNumber,
+        field: 'name',
+        value: record.name,
+        message: `Ledger "${record.name}" is already on row ${first}; row skipped`,
+        severity: 'error'
+      });
+    } else {
+      seen.set(key, record.rowNumber);
+    }
+  });
+
+  return issues;
+};
+
+// ===== MASTER ELEMENTS =====
+
+/**
+ * LANGUAGENAME.LIST with the ledger name and its aliases; Tally needs it
+ * to create a master
+ */
+export const languageNameList = (names: string[]): XmlChild =>
+  el('LANGUAGENAME.LIST', null,
+    el('NAME.LIST', { TYPE: 'String' }, ...names.map(name => el('NAME', null, name))),
+    el('LANGUAGEID', null, 1033)
+  );
+
+/**
+ * Mailing, tax and GST registration elements of a ledger
+ */
+export const ledgerContactElements = (contact: TallyLedgerContact, registrationType?: string): XmlChild[] => [
+  optionalEl('EMAIL', contact.email),
+  optionalEl('LEDSTATENAME', contact.state),
+  optionalEl('PINCODE', contact.pincode),
+  (registrationType || contact.state) && el('COUNTRYNAME', null, contact.country || 'India'),
+  optionalEl('INCOMETAXNUMBER', contact.pan),
+  optionalEl('GSTREGISTRATIONTYPE', registrationType),
+  optionalEl('PARTYGSTIN', contact.gstin)
+];
+
+/**
+ * LEDGER master for a validated template row
+ */
+export const ledgerMasterFromRecord = (record: LedgerMasterRecord): TallyLedgerMasterXml => ({
+  name: record.name,
+  parent: record.parent,
+  address: record.contact.address
+    ? record.contact.address.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+    : undefined,
+  phone: record.contact.phone,
+  openingBalance: record.openingBalance,
+  openingSide: record.openingSide,
+  isBillWiseOn: record.isBillWiseOn,
+  extra: [
+    record.isBillWiseOn && record.creditPeriodDays !== undefined && el('BILLCREDITPERIOD', null, `${record.creditPeriodDays} Days`),
+    ...ledgerContactElements(record.contact, record.registrationType),
+    languageNameList(record.alias ? [record.name, record.alias] : [record.name])
+  ]
+});
+
+// ===== TEMPLATE =====
+
+const TEMPLATE_NOTES: Record<string, string> = {
+  name: 'Unique ledger name as it should appear in Tally',
+  alias: 'Optional second name the ledger can be found by',
+  group: 'A group that exists in the company; see the Groups sheet',
+  registration_type: GST_REGISTRATION_TYPES.join(', ') + '. Defaults to Regular when a GSTIN is given',
+  gstin: '15-character GSTIN; the check character is verified',
+  state: 'State name or GST state code. Defaults to the GSTIN state',
+  pincode: '6-digit PIN code',
+  pan: '10-character PAN. Defaults to the PAN inside the GSTIN',
+  email: 'Email address for statements and reminders',
+  address: 'Mailing address; use line breaks for separate lines',
+  phone: 'Phone or mobile number',
+  credit_period: 'Number of days, for bill-wise ledgers',
+  opening_balance: 'Amount; "Cr" after the amount or a negative value means credit',
+  dr_cr: 'Dr or Cr. Overrides the side written with the opening balance',
+  bill_wise: 'Yes or No. Defaults to Yes for Sundry Debtors and Sundry Creditors'
+};
+
+const SECOND_EXAMPLE: Record<string, string> = {
+  name: 'Office Rent',
+  group: 'Indirect Expenses',
+  bill_wise: 'No'
+};
+
+/**
+ * Sheets of the downloadable ledger template: the import sheet with
+ * examples, column instructions and the groups ledgers can be created under
+ */
+export const buildLedgerTemplateSheets = (
+  columns: { key: string; name: string; required: boolean; example: string }[],
+  groups: string[] = PREDEFINED_LEDGER_GROUPS
+): { name: string; rows: Record<string, unknown>[] }[] => [
+  {
+    name: 'Ledgers',
+    rows: [
+      Object.fromEntries(columns.map(column => [column.name, column.example])),
+      Object.fromEntries(columns.map(column => [column.name, SECOND_EXAMPLE[column.key] || '']))
+    ]
+  },
+  {
+    name: 'Instructions',
+    rows: columns.map(column => ({
+      Column: column.name,
+      Required: column.required ? 'Yes' : 'No',
+      Notes: TEMPLATE_NOTES[column.key] || '',
+      Example: column.example
+    }))
+  },
+  {
+    name: 'Groups',
+    rows: [...groups].sort().map(group => ({ Group: group }))
+  }
+];
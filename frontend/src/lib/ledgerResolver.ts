@@ -0,0 +1,257 @@
+/**
+ * Ledger Resolver
+ *
+ * Resolves party and ledger names typed in a sheet to ledgers that exist
+ * in Tally. Names are compared without case, punctuation, spacing or
+ * "M/s" prefixes ("A B MEDICAL STORES" and "M/s. AB Medical Stores" are
+ * the same ledger), by party GSTIN, and by aliases the user confirmed for
+ * the company. Anything less certain is offered as a suggestion only.
+ *
+ * @module ledgerResolver
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import type { TallyLedger } from '@/services/TallyService';
+
+// ===== TYPES =====
+
+export type LedgerMatchReason = 'exact' | 'normalized' | 'alias' | 'gstin' | 'fuzzy';
+
+/**
+ * A Tally ledger that may be meant by a typed name
+ */
+export interface LedgerMatch {
+  name: string;
+  parent: string;
+  score: number;
+  reason: LedgerMatchReason;
+}
+
+/**
+ * - exact: the name is a Tally ledger as typed
+ * - resolved: the name maps to one ledger with certainty and is posted as that ledger
+ * - suggested: similar ledgers exist and the user should pick one
+ * - missing: no similar ledger exists
+ */
+export type LedgerResolutionStatus = 'exact' | 'resolved' | 'suggested' | 'missing';
+
+export interface LedgerResolution {
+  input: string;
+  status: LedgerResolutionStatus;
+  /** Ledger to post to when the status is exact or resolved */
+  ledger?: LedgerMatch;
+  suggestions: LedgerMatch[];
+}
+
+/**
+ * Ledgers prepared for lookups
+ */
+export interface LedgerIndex {
+  ledgers: TallyLedger[];
+  byName: Map<string, TallyLedger>;
+  byKey: Map<string, TallyLedger[]>;
+  byGstin: Map<string, TallyLedger[]>;
+}
+
+// ===== NORMALISATION =====
+
+/**
+ * Similarity at or above which a ledger is suggested
+ */
+export const SUGGESTION_THRESHOLD = 0.6;
+
+const MAX_SUGGESTIONS = 3;
+
+// Word forms that mean the same thing in business names
+const WORD_EQUIVALENTS: Record<string, string> = {
+  AND: '&',
+  PRIVATE: 'PVT',
+  LIMITED: 'LTD',
+  COMPANY: 'CO',
+  BROTHERS: 'BROS',
+  CORPORATION: 'CORP',
+  ENTERPRISE: 'ENTERPRISES',
+  STORE: 'STORES',
+  TRADER: 'TRADERS'
+};
+
+/**
+ * Name without case, punctuation, M/s prefix and word-form differences,
+ * as space-separated words
+ */
+export const normalizeLedgerName = (name: string): string =>
+  String(name || '')
+    .toUpperCase()
+    .replace(/^\s*(M\s*\/\s*S|MESSRS)\b\.?/, ' ')
+    .replace(/&/g, ' & ')
+    .replace(/[^A-Z0-9&]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => WORD_EQUIVALENTS[word] || word)
+    .join(' ');
+
+/**
+ * Lookup key of a name: normalised and without spaces, so "A B" equals "AB"
+ */
+export const ledgerKey = (name: string): string => normalizeLedgerName(name).replace(/\s+/g, '');
+
+const bigrams = (text: string): string[] => {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+  return result;
+};
+
+/**
+ * Similarity of two names from 0 to 1 (Dice coefficient of letter pairs)
+ */
+export const ledgerSimilarity = (a: string, b: string): number => {
+  const keyA = ledgerKey(a);
+  const keyB = ledgerKey(b);
+  if (!keyA || !keyB) return 0;
+  if (keyA === keyB) return 1;
+  if (keyA.length < 2 || keyB.length < 2) return 0;
+
+  const pairsB = bigrams(keyB);
+  let shared = 0;
+  bigrams(keyA).forEach(pair => {
+    const index = pairsB.indexOf(pair);
+    if (index >= 0) {
+      shared++;
+      pairsB.splice(index, 1);
+    }
+  });
+
+  return (2 * shared) / (keyA.length - 1 + keyB.length - 1);
+};
+
+const normalizeGstin = (gstin: string | undefined): string => String(gstin || '').replace(/\s+/g, '').toUpperCase();
+
+// ===== INDEX =====
+
+const addTo = <T>(map: Map<string, T[]>, key: string, value: T) => {
+  if (!key) return;
+  map.set(key, [...(map.get(key) || []), value]);
+};
+
+/**
+ * Index Tally ledgers by name, normalised name and alias, and GSTIN
+ */
+export const buildLedgerIndex = (ledgers: TallyLedger[]): LedgerIndex => {
+  const index: LedgerIndex = { ledgers, byName: new Map(), byKey: new Map(), byGstin: new Map() };
+
+  ledgers.forEach(ledger => {
+    index.byName.set(ledger.name.trim().toUpperCase(), ledger);
+    addTo(index.byKey, ledgerKey(ledger.name), ledger);
+    if (ledger.alias) addTo(index.byKey, ledgerKey(ledger.alias), ledger);
+    addTo(index.byGstin, normalizeGstin(ledger.ledgerContact?.gstin), ledger);
+  });
+
+  return index;
+};
+
+const toMatch = (ledger: TallyLedger, score: number, reason: LedgerMatchReason): LedgerMatch => ({
+  name: ledger.name,
+  parent: ledger.parent,
+  score,
+  reason
+});
+
+// ===== RESOLUTION =====
+
+/**
+ * Resolve a typed name against the ledger index. Confirmed aliases map
+ * normalised names to ledger names for the current company.
+ */
+export const resolveLedgerName = (
+  input: string,
+  index: LedgerIndex,
+  options: { gstin?: string; aliases?: Record<string, string> } = {}
+): LedgerResolution => {
+  const name = String(input || '').trim();
+  const resolved = (ledger: TallyLedger, reason: LedgerMatchReason, status: LedgerResolutionStatus = 'resolved'): LedgerResolution => ({
+    input: name,
+    status,
+    ledger: toMatch(ledger, 1, reason),
+    suggestions: []
+  });
+
+  if (!name) return { input: name, status: 'missing', suggestions: [] };
+
+  const exact = index.byName.get(name.toUpperCase());
+  if (exact) return resolved(exact, 'exact', 'exact');
+
+  const key = ledgerKey(name);
+  const aliased = options.aliases?.[key];
+  const aliasLedger = aliased ? index.byName.get(aliased.trim().toUpperCase()) : undefined;
+  if (aliasLedger) return resolved(aliasLedger, 'alias');
+
+  const gstin = normalizeGstin(options.gstin);
+  const byGstin = gstin ? index.byGstin.get(gstin) || [] : [];
+  if (byGstin.length === 1) return resolved(byGstin[0], 'gstin');
+
+  const sameKey = index.byKey.get(key) || [];
+  if (sameKey.length === 1) return resolved(sameKey[0], 'normalized');
+
+  const suggestions = [
+    ...byGstin.map(ledger => toMatch(ledger, 1, 'gstin' as const)),
+    ...sameKey.map(ledger => toMatch(ledger, 1, 'normalized' as const)),
+    ...index.ledgers
+      .map(ledger => toMatch(ledger, Math.max(
+        ledgerSimilarity(name, ledger.name),
+        ledger.alias ? ledgerSimilarity(name, ledger.alias) : 0
+      ), 'fuzzy'))
+      .filter(match => match.score >= SUGGESTION_THRESHOLD)
+  ]
+    .filter((match, position, all) => all.findIndex(other => other.name === match.name) === position)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS);
+
+  return { input: name, status: suggestions.length > 0 ? 'suggested' : 'missing', suggestions };
+};
+
+// ===== CONFIRMED ALIASES =====
+
+const LEDGER_ALIASES_STORAGE_KEY = 'tallysync_ledger_aliases';
+
+type AliasStore = Record<string, Record<string, string>>;
+
+const loadAliasStore = (): AliasStore => {
+  try {
+    const stored = localStorage.getItem(LEDGER_ALIASES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+const companyKey = (company: string): string => company.trim().toLowerCase();
+
+/**
+ * Confirmed aliases of a company, keyed by the typed name's lookup key
+ */
+export const loadLedgerAliases = (company: string): Record<string, string> =>
+  loadAliasStore()[companyKey(company)] || {};
+
+/**
+ * Remember that a typed name means a Tally ledger in this company
+ */
+export const saveLedgerAlias = (company: string, typedName: string, ledgerName: string): void => {
+  const store = loadAliasStore();
+  const aliases = store[companyKey(company)] || {};
+  aliases[ledgerKey(typedName)] = ledgerName;
+  store[companyKey(company)] = aliases;
+  localStorage.setItem(LEDGER_ALIASES_STORAGE_KEY, JSON.stringify(store));
+};
+
+/**
+ * Forget a confirmed alias
+ */
+export const removeLedgerAlias = (company: string, typedName: string): void => {
+  const store = loadAliasStore();
+  const aliases = store[companyKey(company)];
+  if (!aliases) return;
+  delete aliases[ledgerKey(typedName)];
+  localStorage.setItem(LEDGER_ALIASES_STORAGE_KEY, JSON.stringify(store));
+};
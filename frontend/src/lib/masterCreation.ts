@@ -0,0 +1,240 @@
+/**
+ * Master Creation
+ *
+ * Finds the ledgers and stock items a batch of vouchers posts to that do
+ * not exist in Tally yet, and turns the ones the user approves into
+ * masters that are imported ahead of the vouchers. Parent groups are
+ * guessed from how each ledger is used; the user can change them before
+ * approving.
+ *
+ * @module masterCreation
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import { el, type TallyLedgerMasterXml, type TallyStockItemMasterXml, type TallyVoucherXml } from './tallyXml';
+import { ROUND_OFF_LEDGER } from './gst';
+import { isPartyGroup, languageNameList, ledgerContactElements } from './ledgerMaster';
+import { DEFAULT_STOCK_GROUP } from './stockItemMaster';
+import type { LedgerResolution } from './ledgerResolver';
+import type { TallyLedgerContact } from '@/services/TallyService';
+
+// ===== TYPES =====
+
+/**
+ * A ledger the vouchers need that is not in Tally
+ */
+export interface LedgerMasterDraft {
+  kind: 'ledger';
+  name: string;
+  parent: string;
+  contact: TallyLedgerContact;
+  isBillWiseOn: boolean;
+  /** Existing ledgers with a similar name, when the name may be a typo */
+  similar: string[];
+  sourceRows: number[];
+  approved: boolean;
+}
+
+/**
+ * A stock item the vouchers need that is not in Tally
+ */
+export interface StockItemMasterDraft {
+  kind: 'stockItem';
+  name: string;
+  parent: string;
+  baseUnits: string;
+  sourceRows: number[];
+  approved: boolean;
+}
+
+export type MasterDraft = LedgerMasterDraft | StockItemMasterDraft;
+
+/**
+ * What is known about the company's masters in Tally. Lookups return null
+ * while the masters have not been fetched, so nothing is reported missing.
+ */
+export interface MasterCatalogue {
+  resolveLedger: (name: string) => LedgerResolution | null;
+  hasStockItem: (name: string) => boolean | null;
+  /** Contact details typed on the rows a voucher came from */
+  contactFor?: (ledgerName: string, voucher: TallyVoucherXml) => TallyLedgerContact | undefined;
+}
+
+// ===== PARENT GROUPS =====
+
+/**
+ * Tally's predefined groups a new ledger is usually created under
+ */
+export const LEDGER_PARENT_GROUPS = [
+  'Sundry Debtors',
+  'Sundry Creditors',
+  'Sales Accounts',
+  'Purchase Accounts',
+  'Direct Expenses',
+  'Direct Incomes',
+  'Indirect Expenses',
+  'Indirect Incomes',
+  'Duties & Taxes',
+  'Bank Accounts',
+  'Cash-in-Hand',
+  'Loans & Advances (Asset)',
+  'Current Liabilities',
+  'Suspense A/c'
+];
+
+const DUTY_PATTERN = /\b(CGST|SGST|UTGST|IGST|CESS|TDS|TCS)\b/i;
+
+// Voucher types whose party owes the company
+const DEBTOR_VOUCHER_TYPES = ['sales', 'receipt', 'credit note'];
+
+/**
+ * Group a new ledger most likely belongs to, from how the voucher uses it
+ */
+export const inferLedgerParent = (ledgerName: string, voucher: TallyVoucherXml, isParty: boolean): string => {
+  const name = ledgerName.trim();
+  const voucherType = voucher.voucherType.toLowerCase();
+
+  if (isParty) {
+    return DEBTOR_VOUCHER_TYPES.includes(voucherType) ? 'Sundry Debtors' : 'Sundry Creditors';
+  }
+  if (DUTY_PATTERN.test(name)) return 'Duties & Taxes';
+  if (name.toLowerCase() === ROUND_OFF_LEDGER.toLowerCase()) return 'Indirect Expenses';
+  if (/^cash$/i.test(name)) return 'Cash-in-Hand';
+  const postsItemValue = (voucher.inventoryEntries || [])
+    .some(entry => (entry.accountingAllocations || []).some(allocation => allocation.ledgerName === ledgerName));
+  if (postsItemValue || /^(sales|purchase)\b/i.test(name)) {
+    return /^purchase\b/i.test(name) || voucherType === 'purchase' ? 'Purchase Accounts' : 'Sales Accounts';
+  }
+  if (voucherType === 'contra' || /\bbank$/i.test(name)) return 'Bank Accounts';
+  if (voucherType === 'payment') return 'Indirect Expenses';
+  if (voucherType === 'receipt') return 'Indirect Incomes';
+  return 'Suspense A/c';
+};
+
+/**
+ * PAN embedded in a GSTIN (characters 3 to 12)
+ */
+export const panFromGstin = (gstin?: string | null): string | undefined => {
+  const value = String(gstin || '').trim().toUpperCase();
+  return /^\d{2}[A-Z]{5}\d{4}[A-Z]/.test(value) ? value.slice(2, 12) : undefined;
+};
+
+// ===== DETECTION =====
+
+const addRows = (target: number[], rows: number[] | undefined) => {
+  (rows || []).forEach(row => {
+    if (!target.includes(row)) target.push(row);
+  });
+};
+
+/**
+ * Ledgers and stock items referenced by the vouchers that Tally does not
+ * have. Names with a similar existing ledger are listed unapproved, as
+ * they may be typos the user should correct instead.
+ */
+export const findMissingMasters = (vouchers: TallyVoucherXml[], catalogue: MasterCatalogue): MasterDraft[] => {
+  const ledgers = new Map<string, LedgerMasterDraft>();
+  const stockItems = new Map<string, StockItemMasterDraft>();
+
+  const noteLedger = (ledgerName: string, voucher: TallyVoucherXml, isParty: boolean) => {
+    const name = ledgerName.trim();
+    const key = name.toUpperCase();
+    if (!name) return;
+
+    const existing = ledgers.get(key);
+    if (existing) {
+      addRows(existing.sourceRows, voucher.sourceRows);
+      return;
+    }
+
+    const resolution = catalogue.resolveLedger(name);
+    if (!resolution || resolution.ledger) return;
+
+    const contact = isParty ? catalogue.contactFor?.(name, voucher) || {} : {};
+    ledgers.set(key, {
+      kind: 'ledger',
+      name,
+      parent: inferLedgerParent(name, voucher, isParty),
+      contact: { ...contact, pan: contact.pan || panFromGstin(contact.gstin) },
+      isBillWiseOn: isParty,
+      similar: resolution.suggestions.map(match => match.name),
+      sourceRows: [...(voucher.sourceRows || [])],
+      approved: resolution.suggestions.length === 0
+    });
+  };
+
+  vouchers.forEach(voucher => {
+    voucher.ledgerEntries.forEach(entry =>
+      noteLedger(entry.ledgerName, voucher, !!entry.isPartyLedger || entry.ledgerName === voucher.partyLedgerName)
+    );
+
+    (voucher.inventoryEntries || []).forEach(entry => {
+      (entry.accountingAllocations || []).forEach(allocation => noteLedger(allocation.ledgerName, voucher, false));
+
+      const name = entry.stockItemName.trim();
+      const key = name.toUpperCase();
+      const existing = stockItems.get(key);
+      if (existing) {
+        addRows(existing.sourceRows, voucher.sourceRows);
+        return;
+      }
+      if (!name || catalogue.hasStockItem(name) !== false) return;
+
+      stockItems.set(key, {
+        kind: 'stockItem',
+        name,
+        parent: DEFAULT_STOCK_GROUP,
+        baseUnits: entry.unit || 'Nos',
+        sourceRows: [...(voucher.sourceRows || [])],
+        approved: true
+      });
+    });
+  });
+
+  return [...ledgers.values(), ...stockItems.values()];
+};
+
+// ===== MASTER MODELS =====
+
+const DUTY_HEADS: Record<string, string> = {
+  CGST: 'Central Tax',
+  SGST: 'State Tax',
+  UTGST: 'State Tax',
+  IGST: 'Integrated Tax',
+  CESS: 'Cess'
+};
+
+/**
+ * Ledger master for an approved draft, with the party's GST registration,
+ * state, PAN and address
+ */
+export const ledgerMasterFromDraft = (draft: LedgerMasterDraft): TallyLedgerMasterXml => {
+  const { contact } = draft;
+  const isParty = isPartyGroup(draft.parent);
+  const dutyHead = draft.parent === 'Duties & Taxes' ? draft.name.toUpperCase().match(DUTY_PATTERN)?.[1] : undefined;
+
+  return {
+    name: draft.name,
+    parent: draft.parent,
+    address: contact.address ? contact.address.split(/\r?\n/).map(line => line.trim()).filter(Boolean) : undefined,
+    phone: contact.phone,
+    isBillWiseOn: draft.isBillWiseOn,
+    extra: [
+      ...ledgerContactElements(contact, isParty ? (contact.gstin ? 'Regular' : 'Unregistered') : undefined),
+      dutyHead && DUTY_HEADS[dutyHead] && el('TAXTYPE', null, 'GST'),
+      dutyHead && DUTY_HEADS[dutyHead] && el('GSTDUTYHEAD', null, DUTY_HEADS[dutyHead]),
+      languageNameList([draft.name])
+    ]
+  };
+};
+
+/**
+ * Stock item master for an approved draft
+ */
+export const stockItemMasterFromDraft = (draft: StockItemMasterDraft): TallyStockItemMasterXml => ({
+  name: draft.name,
+  parent: draft.parent,
+  baseUnits: draft.baseUnits,
+  extra: [languageNameList([draft.name])]
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { readStockItemRows } from './stockItemMaster';
+
+const readItem = (cells: Record<string, string>) =>
+  readStockItemRows([{ read: key => ({ name: 'Steel Rod 12"', unit: 'Nos', ...cells })[key] ?? null, rowNumber: 2 }]);
+
+describe('readStockItemRows numbers', () => {
+  it('reads grouped quantities, rupee rates and percentages', () => {
+    const { records, issues } = readItem({ opening_quantity: '1,200', opening_rate: '₹ 45.50', gst_rate: '18%' });
+
+    expect(issues).toEqual([]);
+    expect(records[0]).toMatchObject({ gstRate: 18 });
+    expect(records[0].openings[0]).toMatchObject({ quantity: 1200, rate: 45.5, value: 54600 });
+  });
+
+  it('reports cells that are not numbers instead of importing them', () => {
+    const { records, issues } = readItem({ opening_quantity: '12-15', opening_rate: '10kg', gst_rate: '5e3' });
+
+    expect(records).toEqual([]);
+    expect(issues.map(issue => issue.field)).toEqual(['gst_rate', 'opening_quantity', 'opening_rate']);
+  });
+});
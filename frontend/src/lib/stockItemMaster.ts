@@ -0,0 +1,410 @@
+/**
+ * Stock Item Master Import
+ *
+ * Reads and validates stock item rows from the stock item template: stock
+ * group and category, base and alternate units with their conversion, HSN
+ * code, GST applicability and rates, and opening stock split by godown and
+ * batch. An item's first row defines it; further rows with the same item
+ * name only add opening stock in another godown or batch.
+ *
+ * @module stockItemMaster
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import {
+  el,
+  formatAmount,
+  optionalEl,
+  signedAmount,
+  tallySystemName,
+  type TallyStockItemMasterXml,
+  type XmlChild
+} from './tallyXml';
+import { isBlankCell, parseAmount } from './amountParsing';
+import { formatDateParts, normalizeDate, toTallyDate, type DateConvention, type DateParts } from './dateParsing';
+import { languageNameList, parseYesNo } from './ledgerMaster';
+import type { VoucherIssue } from './voucherValidation';
+import type { TallyBatchDetails } from '@/services/TallyService';
+
+// ===== TYPES =====
+
+export type GstTaxability = 'Taxable' | 'Exempt' | 'Nil Rated';
+
+export const GST_TAXABILITY_TYPES: GstTaxability[] = ['Taxable', 'Exempt', 'Nil Rated'];
+
+/**
+ * Opening stock held in one godown and batch
+ */
+export interface StockOpeningAllocation extends TallyBatchDetails {
+  rowNumber: number;
+  godownName: string;
+}
+
+/**
+ * A validated stock item with its opening allocations
+ */
+export interface StockItemMasterRecord {
+  rowNumber: number;
+  name: string;
+  alias?: string;
+  parent: string;
+  category?: string;
+  baseUnits: string;
+  alternateUnits?: string;
+  /** "alternate alternate-units = base base-units", e.g. 1 Box = 10 Nos */
+  conversion?: { alternate: number; base: number };
+  standardRate?: number;
+  hsnCode?: string;
+  gstApplicable: boolean;
+  taxability?: GstTaxability;
+  gstRate?: number;
+  cessRate?: number;
+  openings: StockOpeningAllocation[];
+}
+
+/**
+ * Reads a template field of one row by its field key
+ */
+export type StockFieldReader = (key: string) => string | null;
+
+// ===== CONSTANTS =====
+
+export const DEFAULT_STOCK_GROUP = 'Primary';
+
+/**
+ * Godown Tally creates with every company, used for opening stock without one
+ */
+export const DEFAULT_GODOWN = 'Main Location';
+
+/**
+ * GST rates notified for goods and services
+ */
+export const STANDARD_GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40];
+
+const HSN_PATTERN = /^(\d{4}|\d{6}|\d{8})$/;
+
+// Opening value may differ from quantity × rate by rounding only
+const VALUE_TOLERANCE = 1;
+
+// ===== VALUE PARSING =====
+
+/**
+ * Quantity, rate or percentage in a cell ("1,200", "₹ 45.50", "18%")
+ */
+const parseNumber = (value: string): number | null => parseAmount(value.trim().replace(/\s*%$/, ''));
+
+/**
+ * Conversion written as "10" (base units in one alternate unit) or as
+ * "1 Box = 10 Nos"
+ */
+const parseConversion = (value: string): { alternate: number; base: number } | null => {
+  const equation = value.match(/^\s*(\d+(?:\.\d+)?)\s*[A-Za-z.]*\s*=\s*(\d+(?:\.\d+)?)\s*[A-Za-z.]*\s*$/);
+  if (equation) {
+    const alternate = parseFloat(equation[1]);
+    const base = parseFloat(equation[2]);
+    return alternate > 0 && base > 0 ? { alternate, base } : null;
+  }
+  const base = parseNumber(value);
+  return base !== null && base > 0 ? { alternate: 1, base } : null;
+};
+
+const round = (value: number, places: number): number => Math.round(value * 10 ** places) / 10 ** places;
+
+// ===== ROW VALIDATION =====
+
+/**
+ * Validate the stock item template rows and group them into items. Rows
+ * with errors are left out; warnings are reported but the row is kept.
+ */
+export const readStockItemRows = (
+  rows: { read: StockFieldReader; rowNumber: number }[],
+  convention?: DateConvention
+): { records: StockItemMasterRecord[]; issues: VoucherIssue[] } => {
+  const issues: VoucherIssue[] = [];
+  const records = new Map<string, StockItemMasterRecord>();
+
+  rows.forEach(({ read, rowNumber }) => {
+    const rowIssues: VoucherIssue[] = [];
+    const issue = (field: string, value: string, message: string, severity: VoucherIssue['severity'] = 'error') =>
+      rowIssues.push({ row: rowNumber, field, value, message, severity });
+    const text = (key: string) => (read(key) || '').trim();
+    const numberField = (key: string, label: string): number | undefined => {
+      const input = text(key);
+      if (isBlankCell(input)) return undefined;
+      const value = parseNumber(input);
+      if (value === null || value < 0) {
+        issue(key, input, `${label} "${input}" is not a positive number`);
+        return undefined;
+      }
+      return value;
+    };
+    const dateField = (key: string, label: string): DateParts | undefined => {
+      const input = text(key);
+      if (!input) return undefined;
+      const result = normalizeDate(input, convention);
+      if (!result.date) issue(key, input, `${label}: ${result.error}`);
+      return result.date || undefined;
+    };
+
+    const name = text('name');
+    if (!name) {
+      issue('name', '', 'Item name is required; row skipped');
+      issues.push(...rowIssues);
+      return;
+    }
+
+    const existing = records.get(name.toUpperCase());
+    const baseUnits = text('unit');
+
+    // Item definition, from the item's first row
+    let definition: StockItemMasterRecord | null = existing || null;
+    if (!existing) {
+      if (!baseUnits) issue('unit', '', `Base unit is required for item "${name}"`);
+
+      const alternateUnits = text('alternate_unit');
+      const conversionInput = text('conversion');
+      const conversion = conversionInput ? parseConversion(conversionInput) : null;
+      if (alternateUnits && alternateUnits.toLowerCase() === baseUnits.toLowerCase()) {
+        issue('alternate_unit', alternateUnits, 'Alternate unit must differ from the base unit');
+      } else if (alternateUnits && !conversion) {
+        issue('conversion', conversionInput, conversionInput
+          ? `Conversion "${conversionInput}" should look like 10 or "1 Box = 10 Nos"`
+          : `Conversion is required with alternate unit ${alternateUnits}`);
+      } else if (!alternateUnits && conversionInput) {
+        issue('conversion', conversionInput, 'Conversion is ignored without an alternate unit', 'warning');
+      }
+
+      const hsnCode = text('hsn').replace(/\s+/g, '');
+      if (hsnCode && !HSN_PATTERN.test(hsnCode)) issue('hsn', hsnCode, `HSN/SAC "${hsnCode}" must have 4, 6 or 8 digits`);
+
+      const gstRate = numberField('gst_rate', 'GST rate');
+      if (gstRate !== undefined && gstRate > 100) issue('gst_rate', text('gst_rate'), 'GST rate cannot exceed 100%');
+      else if (gstRate !== undefined && !STANDARD_GST_RATES.includes(gstRate)) {
+        issue('gst_rate', text('gst_rate'), `GST rate ${gstRate}% is not a notified rate`, 'warning');
+      }
+      const cessRate = numberField('cess_rate', 'Cess rate');
+
+      const applicableInput = text('gst_applicable');
+      const applicable = applicableInput ? parseYesNo(applicableInput) : null;
+      if (applicableInput && applicable === null) issue('gst_applicable', applicableInput, 'GST applicable must be Yes or No');
+      const gstApplicable = applicable ?? (gstRate !== undefined || !!hsnCode);
+      if (!gstApplicable && gstRate !== undefined) {
+        issue('gst_rate', text('gst_rate'), 'GST rate is ignored for an item without GST', 'warning');
+      }
+
+      const taxabilityInput = text('taxability');
+      let taxability = GST_TAXABILITY_TYPES.find(type => type.toLowerCase() === taxabilityInput.toLowerCase());
+      if (taxabilityInput && !taxability) {
+        issue('taxability', taxabilityInput, `Taxability must be one of ${GST_TAXABILITY_TYPES.join(', ')}`);
+      }
+      if (!taxabilityInput && gstApplicable) taxability = gstRate ? 'Taxable' : 'Nil Rated';
+      if (taxability && taxability !== 'Taxable' && gstRate) {
+        issue('gst_rate', text('gst_rate'), `${taxability} items cannot have a GST rate`);
+      }
+      if (taxability === 'Taxable' && gstApplicable && !gstRate) {
+        issue('gst_rate', '', 'Taxable items need a GST rate');
+      }
+
+      definition = {
+        rowNumber,
+        name,
+        alias: text('alias') || undefined,
+        parent: text('group') || DEFAULT_STOCK_GROUP,
+        category: text('category') || undefined,
+        baseUnits,
+        alternateUnits: alternateUnits && conversion ? alternateUnits : undefined,
+        conversion: alternateUnits && conversion ? conversion : undefined,
+        standardRate: numberField('rate', 'Rate'),
+        hsnCode: hsnCode || undefined,
+        gstApplicable,
+        taxability: gstApplicable ? taxability : undefined,
+        gstRate: gstApplicable ? gstRate : undefined,
+        cessRate: gstApplicable ? cessRate : undefined,
+        openings: []
+      };
+    } else if (baseUnits && baseUnits.toLowerCase() !== existing.baseUnits.toLowerCase()) {
+      issue('unit', baseUnits, `Item "${name}" uses unit ${existing.baseUnits} on row ${existing.rowNumber}`);
+    }
+
+    // Opening stock in this row's godown and batch
+    const quantity = numberField('opening_quantity', 'Opening quantity');
+    let rate = numberField('opening_rate', 'Opening rate');
+    let value = numberField('opening_value', 'Opening value');
+    const godownName = text('godown') || DEFAULT_GODOWN;
+    const batchName = text('batch');
+    const mfgDate = dateField('mfg_date', 'Manufacturing date');
+    const expiryDate = dateField('expiry_date', 'Expiry date');
+
+    if ((mfgDate || expiryDate) && !batchName) {
+      issue('batch', '', 'Manufacturing and expiry dates need a batch');
+    }
+    if (quantity === undefined && (rate !== undefined || value !== undefined || batchName)) {
+      issue('opening_quantity', '', 'Opening quantity is required with an opening rate, value or batch');
+    }
+
+    if (quantity !== undefined && quantity > 0) {
+      if (rate === undefined && value !== undefined) rate = round(value / quantity, 4);
+      if (value === undefined && rate !== undefined) value = round(quantity * rate, 2);
+      if (rate !== undefined && value !== undefined && Math.abs(quantity * rate - value) > VALUE_TOLERANCE) {
+        issue('opening_value', text('opening_value'), `Opening value differs from ${quantity} × ${formatAmount(rate)}`, 'warning');
+      }
+    }
+
+    const current = definition as StockItemMasterRecord;
+    const duplicate = current.openings.find(opening =>
+      opening.godownName.toLowerCase() === godownName.toLowerCase()
+      && (opening.batchName || '').toLowerCase() === batchName.toLowerCase()
+    );
+    if (quantity !== undefined && duplicate) {
+      issue('batch', batchName, `Opening stock for ${godownName}${batchName ? ` batch ${batchName}` : ''} is already on row ${duplicate.rowNumber}`);
+    }
+
+    issues.push(...rowIssues);
+    if (rowIssues.some(found => found.severity === 'error')) return;
+
+    if (!existing) records.set(name.toUpperCase(), current);
+    if (quantity !== undefined) {
+      current.openings.push({
+        rowNumber,
+        godownName,
+        batchName,
+        quantity,
+        rate: rate || 0,
+        value: value || 0,
+        mfgDate: mfgDate ? toTallyDate(mfgDate) : undefined,
+        expiryDate: expiryDate ? formatDateParts(expiryDate) : undefined
+      });
+    }
+  });
+
+  return { records: [...records.values()], issues };
+};
+
+// ===== MASTER ELEMENTS =====
+
+// Central and state tax take half the rate each; integrated tax the full rate
+const rateDetail = (dutyHead: string, rate: number): XmlChild =>
+  el('RATEDETAILS.LIST', null,
+    el('GSTRATEDUTYHEAD', null, dutyHead),
+    el('GSTRATEVALUATIONTYPE', null, 'Based on Value'),
+    el('GSTRATE', null, rate)
+  );
+
+const gstDetails = (record: StockItemMasterRecord): XmlChild => {
+  const rate = record.gstRate || 0;
+  return el('GSTDETAILS.LIST', null,
+    el('APPLICABLEFROM', null, '20170701'),
+    el('CALCULATIONTYPE', null, 'On Value'),
+    optionalEl('HSNCODE', record.hsnCode),
+    optionalEl('TAXABILITY', record.taxability),
+    el('STATEWISEDETAILS.LIST', null,
+      el('STATENAME', null, tallySystemName('Any')),
+      rateDetail('Central Tax', rate / 2),
+      rateDetail('State Tax', rate / 2),
+      rateDetail('Integrated Tax', rate),
+      rateDetail('Cess', record.cessRate || 0)
+    )
+  );
+};
+
+const openingAllocation = (opening: StockOpeningAllocation, unit: string): XmlChild =>
+  el('BATCHALLOCATIONS.LIST', null,
+    el('GODOWNNAME', null, opening.godownName),
+    el('BATCHNAME', null, opening.batchName || tallySystemName('Primary Batch')),
+    optionalEl('MFDON', opening.mfgDate),
+    opening.expiryDate && el('EXPIRYPERIOD', { P: opening.expiryDate }, opening.expiryDate),
+    el('OPENINGBALANCE', null, `${opening.quantity} ${unit}`),
+    el('OPENINGVALUE', null, signedAmount('Dr', opening.value)),
+    el('OPENINGRATE', null, `${formatAmount(opening.rate)}/${unit}`)
+  );
+
+/**
+ * STOCKITEM master for a validated item, with its opening stock
+ * allocated to godowns and batches
+ */
+export const stockItemMasterFromRecord = (record: StockItemMasterRecord): TallyStockItemMasterXml => {
+  const quantity = record.openings.reduce((sum, opening) => sum + opening.quantity, 0);
+  const value = round(record.openings.reduce((sum, opening) => sum + opening.value, 0), 2);
+  const hasBatches = record.openings.some(opening => opening.batchName);
+
+  return {
+    name: record.name,
+    parent: record.parent,
+    category: record.category,
+    baseUnits: record.baseUnits,
+    openingBalance: record.openings.length > 0 ? quantity : undefined,
+    openingRate: record.openings.length > 0 && quantity > 0 ? round(value / quantity, 4) : undefined,
+    openingValue: record.openings.length > 0 ? value : undefined,
+    extra: [
+      optionalEl('ADDITIONALUNITS', record.alternateUnits),
+      // Tally stores "1 Box = 10 Nos" as CONVERSION 1 and DENOMINATOR 10
+      record.conversion && el('CONVERSION', null, record.conversion.alternate),
+      record.conversion && el('DENOMINATOR', null, record.conversion.base),
+      record.standardRate !== undefined && el('RATEOFPURCHASE', null, formatAmount(record.standardRate)),
+      record.standardRate !== undefined && el('RATEOFSALE', null, formatAmount(record.standardRate)),
+      el('GSTAPPLICABLE', null, tallySystemName(record.gstApplicable ? 'Applicable' : 'Not Applicable')),
+      el('ISBATCHWISEON', null, hasBatches ? 'Yes' : 'No'),
+      el('HASMFGDATE', null, record.openings.some(opening => opening.mfgDate) ? 'Yes' : 'No'),
+      el('ISPERISHABLEON', null, record.openings.some(opening => opening.expiryDate) ? 'Yes' : 'No'),
+      record.gstApplicable && gstDetails(record),
+      languageNameList(record.alias ? [record.name, record.alias] : [record.name]),
+      ...record.openings.map(opening => openingAllocation(opening, record.baseUnits))
+    ]
+  };
+};
+
+// ===== TEMPLATE =====
+
+const TEMPLATE_NOTES: Record<string, string> = {
+  name: 'Item name. Repeat it on further rows to add opening stock in other godowns or batches',
+  alias: 'Optional second name, e.g. a part number',
+  group: `Stock group; defaults to ${DEFAULT_STOCK_GROUP}`,
+  category: 'Optional stock category',
+  unit: 'Base unit as defined in Tally, e.g. Nos, Kg, Strip',
+  alternate_unit: 'Optional second unit, e.g. Box',
+  conversion: 'Base units in one alternate unit (10), or "1 Box = 10 Nos"',
+  rate: 'Standard selling rate',
+  hsn: 'HSN or SAC code with 4, 6 or 8 digits',
+  gst_applicable: 'Yes or No. Defaults to Yes when a GST rate or HSN is given',
+  taxability: GST_TAXABILITY_TYPES.join(', '),
+  gst_rate: 'Integrated GST rate in %; central and state tax take half each',
+  cess_rate: 'Cess rate in %, if any',
+  godown: `Godown of the opening stock; defaults to ${DEFAULT_GODOWN}`,
+  batch: 'Batch of the opening stock, for items kept in batches',
+  mfg_date: 'Manufacturing date of the batch',
+  expiry_date: 'Expiry date of the batch',
+  opening_quantity: 'Opening quantity in the base unit',
+  opening_rate: 'Opening rate per base unit; worked out from the value when empty',
+  opening_value: 'Opening value; worked out from quantity × rate when empty'
+};
+
+const EXTRA_EXAMPLES: Record<string, string>[] = [
+  { name: 'Paracetamol 500mg', godown: 'Warehouse 2', batch: 'B-2024-02', mfg_date: '01-02-2024', expiry_date: '31-01-2026', opening_quantity: '50', opening_rate: '12.50' },
+  { name: 'Consulting Services', group: 'Services', unit: 'Nos', hsn: '998311', gst_rate: '18' }
+];
+
+/**
+ * Sheets of the downloadable stock item template: the import sheet with
+ * examples and column instructions
+ */
+export const buildStockItemTemplateSheets = (
+  columns: { key: string; name: string; required: boolean; example: string }[]
+): { name: string; rows: Record<string, unknown>[] }[] => [
+  {
+    name: 'Stock Items',
+    rows: [
+      Object.fromEntries(columns.map(column => [column.name, column.example])),
+      ...EXTRA_EXAMPLES.map(example => Object.fromEntries(columns.map(column => [column.name, example[column.key] || ''])))
+    ]
+  },
+  {
+    name: 'Instructions',
+    rows: columns.map(column => ({
+      Column: column.name,
+      Required: column.required ? 'Yes' : 'No',
+      Notes: TEMPLATE_NOTES[column.key] || '',
+      Example: column.example
+    }))
+  }
+];
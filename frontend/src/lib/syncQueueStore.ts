@@ -0,0 +1,104 @@
+/**
+ * Sync Queue Store
+ *
+ * IndexedDB persistence for the background sync queue, so imports queued
+ * while Tally is unreachable survive an app restart.
+ *
+ * @module syncQueueStore
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import type { SubmittedVoucher } from './tallyResponse';
+
+// ===== TYPES =====
+
+export type SyncQueueStatus = 'pending' | 'syncing' | 'failed';
+
+/**
+ * A queued import with the XML generated for it
+ */
+export interface SyncQueueItem {
+  id: string;
+  fileName: string;
+  recordCount: number;
+  xml: string;
+  vouchers: SubmittedVoucher[];
+  status: SyncQueueStatus;
+  attempts: number;
+  lastError?: string;
+  /** Position in the queue; lower values are synced first */
+  position: number;
+  /** Epoch milliseconds before which the item is not retried */
+  nextAttemptAt: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ===== DATABASE =====
+
+const DB_NAME = 'tallysync';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'syncQueue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(QUEUE_STORE)) {
+          request.result.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(QUEUE_STORE, mode).objectStore(QUEUE_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// ===== QUEUE OPERATIONS =====
+
+/**
+ * All queued items in queue order
+ */
+export const loadQueueItems = async (): Promise<SyncQueueItem[]> => {
+  const items = await runRequest<SyncQueueItem[]>('readonly', store => store.getAll());
+  return items.sort((a, b) => a.position - b.position);
+};
+
+/**
+ * Insert or update a queued item
+ */
+export const saveQueueItem = async (item: SyncQueueItem): Promise<void> => {
+  await runRequest('readwrite', store => store.put({ ...item, updatedAt: new Date().toISOString() }));
+};
+
+/**
+ * Remove a queued item
+ */
+export const deleteQueueItem = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
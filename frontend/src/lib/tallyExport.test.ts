@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { parseDayBook, parseGroups, parseLedgers, parseStockItems, parseVoucherTypes } from './tallyExport';
+import { buildVoucherEnvelope, type XmlChild, type XmlElement } from './tallyXml';
+import dayBookXml from './__fixtures__/tally/dayBook.xml?raw';
+import groupsXml from './__fixtures__/tally/groups.xml?raw';
+import ledgersXml from './__fixtures__/tally/ledgers.xml?raw';
+import stockItemsXml from './__fixtures__/tally/stockItems.xml?raw';
+import voucherTypesXml from './__fixtures__/tally/voucherTypes.xml?raw';
+
+const names = (children: XmlChild[] = []): string[] =>
+  children.filter((child): child is XmlElement => typeof child === 'object' && child !== null).map(child => child.name);
+
+describe('parseLedgers', () => {
+  const ledgers = parseLedgers(ledgersXml);
+
+  it('reads names, balances and contact details', () => {
+    expect(ledgers.map(ledger => ledger.name)).toEqual(['Shah & Sons (Pune)', 'Sales @ 18%', 'Profit & Loss A/c']);
+    expect(ledgers[0]).toEqual({
+      name: 'Shah & Sons (Pune)',
+      guid: '7d2c5a1e-94b3-4c0e-8f51-2a6d3e9b7c10-00000031',
+      parent: 'Sundry Debtors',
+      alias: 'SHAH',
+      openingBalance: -25000,
+      closingBalance: -118000,
+      isRevenue: false,
+      isDeemed: true,
+      affectsStock: false,
+      ledgerContact: {
+        address: '12, M.G. Road\nCamp – Pune',
+        pincode: '411001',
+        state: 'Maharashtra',
+        country: 'India',
+        phone: '020-2612 3456',
+        email: 'accounts@shahsons.example',
+        gstin: '27AAPFU0939F1ZV',
+        pan: 'AAPFU0939F'
+      }
+    });
+  });
+
+  it('leaves out empty contacts and the system marker of primary parents', () => {
+    expect(ledgers[1]).toMatchObject({ parent: 'Sales Accounts', openingBalance: 0, closingBalance: 450000, isRevenue: true });
+    expect(ledgers[1].ledgerContact).toBeUndefined();
+    expect(ledgers[2].parent).toBe('Primary');
+  });
+});
+
+describe('parseGroups', () => {
+  it('reads groups with primary groups having no parent', () => {
+    expect(parseGroups(groupsXml)).toEqual([
+      { name: 'Sundry Debtors', parent: 'Current Assets', isRevenue: false, affectsGrossProfit: false, sortPosition: 340 },
+      { name: 'Sales Accounts', parent: undefined, isRevenue: true, affectsGrossProfit: true, sortPosition: 160 },
+      { name: 'Debtors – Export & SEZ', parent: 'Sundry Debtors', isRevenue: false, affectsGrossProfit: false, sortPosition: 1000 }
+    ]);
+  });
+});
+
+describe('parseStockItems', () => {
+  it('reads quantities and values', () => {
+    expect(parseStockItems(stockItemsXml)).toEqual([
+      {
+        name: 'Steel Rod 12" (Grade & Finish A)',
+        guid: '7d2c5a1e-94b3-4c0e-8f51-2a6d3e9b7c10-00000051',
+        alias: 'SR12',
+        parent: 'Raw Material',
+        category: 'Steel & Alloys',
+        baseUnits: 'Nos',
+        openingBalance: 1200,
+        openingValue: -60000,
+        closingBalance: 950,
+        closingValue: -47500
+      },
+      {
+        name: 'Paint – White 1L',
+        guid: '7d2c5a1e-94b3-4c0e-8f51-2a6d3e9b7c10-00000052',
+        alias: undefined,
+        parent: 'Primary',
+        category: 'Paints',
+        baseUnits: 'Ltr',
+        openingBalance: 0,
+        openingValue: 0,
+        closingBalance: 40.5,
+        closingValue: -8100
+      }
+    ]);
+  });
+});
+
+describe('parseVoucherTypes', () => {
+  it('reads voucher type names', () => {
+    expect(parseVoucherTypes(voucherTypesXml)).toEqual(['Sales', 'Sales & Service (GST)', 'Receipt']);
+  });
+});
+
+describe('parseDayBook', () => {
+  const vouchers = parseDayBook(dayBookXml);
+  const [invoice, receipt] = vouchers;
+
+  it('leaves out cancelled vouchers', () => {
+    expect(vouchers.map(voucher => voucher.voucherNumber)).toEqual(['SI/2024/001', '7']);
+  });
+
+  it('reads the voucher header with decoded text', () => {
+    expect(invoice).toMatchObject({
+      voucherType: 'Sales',
+      date: '20240415',
+      voucherNumber: 'SI/2024/001',
+      guid: '7d2c5a1e-94b3-4c0e-8f51-2a6d3e9b7c10-00000101',
+      remoteId: '7d2c5a1e-94b3-4c0e-8f51-2a6d3e9b7c10-00000101',
+      objView: 'Invoice Voucher View',
+      partyLedgerName: 'Shah & Sons (Pune)',
+      reference: 'PO/17',
+      narration: 'Supply of rods – ₹ rates as per PO 17'
+    });
+    expect(receipt.narration).toBe('NEFT UTR HDFC0001234 – part payment');
+  });
+
+  it('reads invoice-view ledger entries and keeps their allocations', () => {
+    expect(invoice.ledgerEntries.map(({ ledgerName, side, amount }) => ({ ledgerName, side, amount }))).toEqual([
+      { ledgerName: 'Shah & Sons (Pune)', side: 'Dr', amount: 11800 },
+      { ledgerName: 'Output CGST 9%', side: 'Cr', amount: 900 },
+      { ledgerName: 'Output SGST 9%', side: 'Cr', amount: 900 }
+    ]);
+    expect(names(invoice.ledgerEntries[0].extra)).toEqual(['BILLALLOCATIONS.LIST']);
+    expect(names(receipt.ledgerEntries[1].extra)).toEqual(['BANKALLOCATIONS.LIST']);
+  });
+
+  it('reads every batch and accounting allocation of an item', () => {
+    const [entry] = invoice.inventoryEntries!;
+
+    expect(entry).toMatchObject({
+      stockItemName: 'Steel Rod 12" (Grade & Finish A)',
+      side: 'Cr',
+      quantity: 200,
+      unit: 'Nos',
+      rate: 50,
+      amount: 10000
+    });
+    expect(entry.batchAllocations?.map(({ godownName, batchName, quantity, amount }) => ({ godownName, batchName, quantity, amount })))
+      .toEqual([
+        { godownName: 'Main Location', batchName: '\u0004 Primary Batch', quantity: 120, amount: 6000 },
+        { godownName: 'Warehouse # 2', batchName: 'B-7', quantity: 80, amount: 4000 }
+      ]);
+    expect(entry.accountingAllocations).toHaveLength(1);
+    expect(entry.accountingAllocations?.[0]).toMatchObject({ ledgerName: 'Sales @ 18%', side: 'Cr', amount: 10000 });
+    expect(names(entry.accountingAllocations?.[0].extra)).toEqual(['CATEGORYALLOCATIONS.LIST']);
+    expect(names(entry.extra)).toEqual(['GSTHSNNAME']);
+  });
+
+  it('keeps unmodelled voucher details and drops empty lists', () => {
+    expect(names(invoice.extra)).toEqual([
+      'OLDAUDITENTRYIDS.LIST', 'STATENAME', 'PARTYGSTIN', 'PLACEOFSUPPLY', 'ISCANCELLED', 'ISINVOICE'
+    ]);
+  });
+
+  it('reads back the same vouchers after re-posting them', () => {
+    const reposted = buildVoucherEnvelope(vouchers.map(voucher => ({ ...voucher, action: 'Alter' })));
+
+    expect(parseDayBook(reposted)).toEqual(vouchers);
+    expect(reposted.match(/<BATCHALLOCATIONS\.LIST>/g)).toHaveLength(2);
+    expect(reposted).toContain('<BATCHNAME>&#4; Primary Batch</BATCHNAME>');
+    expect(reposted).toContain('<INSTRUMENTNUMBER>HDFC0001234</INSTRUMENTNUMBER>');
+  });
+});
@@ -0,0 +1,500 @@
+/**
+ * Tally Export Requests
+ *
+ * Builds the Export Data and Collection requests that read masters and
+ * the day book straight from Tally's XML port, and parses Tally's answers
+ * into the application's typed models:
+ * - Ledgers, groups, stock items, cost centres and voucher types through
+ *   TDL collections with the fields the application uses
+ * - The Day Book report as vouchers, keeping the GUID and every detail
+ *   that is not modelled so a voucher can be altered and sent back
+ *
+ * Tally writes debit amounts and balances as negative values; the parsed
+ * balances keep Tally's sign.
+ *
+ * @module tallyExport
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import {
+  el,
+  renderXml,
+  unescapeXml,
+  voucherTotals,
+  type EntrySide,
+  type TallyAccountingAllocationXml,
+  type TallyBatchAllocationXml,
+  type TallyInventoryEntryXml,
+  type TallyLedgerEntryXml,
+  type TallyVoucherXml,
+  type XmlChild,
+  type XmlElement
+} from './tallyXml';
+import { roundToPaise } from './gst';
+import type {
+  TallyAnalyticsData,
+  TallyCostCentre,
+  TallyGroup,
+  TallyLedger,
+  TallyLedgerContact,
+  TallyStockItem
+} from '@/services/TallyService';
+
+// ===== TYPES =====
+
+/**
+ * Master types the application reads as TDL collections
+ */
+export type TallyCollectionType = 'Ledger' | 'Group' | 'StockItem' | 'CostCentre' | 'VoucherType';
+
+// ===== REQUESTS =====
+
+// Fields fetched for each collection; Tally returns only what is asked for
+const COLLECTION_FIELDS: Record<TallyCollectionType, string[]> = {
+  Ledger: [
+    'Name', 'GUID', 'Parent', 'OnlyAlias', 'OpeningBalance', 'ClosingBalance', 'IsRevenue', 'IsDeemedPositive',
+    'AffectsStock', 'Address', 'PinCode', 'LedStateName', 'CountryName', 'LedgerPhone', 'Email', 'PartyGSTIN',
+    'IncomeTaxNumber'
+  ],
+  Group: ['Name', 'Parent', 'IsRevenue', 'AffectsGrossProfit', 'SortPosition'],
+  StockItem: [
+    'Name', 'GUID', 'Parent', 'OnlyAlias', 'Category', 'BaseUnits', 'OpeningBalance', 'OpeningValue',
+    'ClosingBalance', 'ClosingValue'
+  ],
+  CostCentre: ['Name', 'Parent', 'Category'],
+  VoucherType: ['Name', 'Parent', 'IsDeemedPositive']
+};
+
+const exportStaticVariables = (company?: string, variables: XmlChild[] = []): XmlElement =>
+  el('STATICVARIABLES', null,
+    el('SVEXPORTFORMAT', null, '$$SysName:XML'),
+    company && el('SVCURRENTCOMPANY', null, company),
+    ...variables
+  );
+
+/**
+ * Collection export request for one master type
+ */
+export const buildCollectionRequest = (type: TallyCollectionType, company?: string): string => {
+  const collectionName = `TallySync ${type}`;
+  const envelope = el('ENVELOPE', null,
+    el('HEADER', null,
+      el('VERSION', null, 1),
+      el('TALLYREQUEST', null, 'Export'),
+      el('TYPE', null, 'Collection'),
+      el('ID', null, collectionName)
+    ),
+    el('BODY', null,
+      el('DESC', null,
+        exportStaticVariables(company),
+        el('TDL', null,
+          el('TDLMESSAGE', null,
+            el('COLLECTION', { NAME: collectionName, ISMODIFY: 'No' },
+              el('TYPE', null, type),
+              el('FETCH', null, COLLECTION_FIELDS[type].join(', '))
+            )
+          )
+        )
+      )
+    )
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderXml(envelope)}`;
+};
+
+/**
+ * Day Book export request for a period; dates are YYYYMMDD
+ */
+export const buildDayBookRequest = (fromDate: string, toDate: string, company?: string): string => {
+  const envelope = el('ENVELOPE', null,
+    el('HEADER', null,
+      el('TALLYREQUEST', null, 'Export Data')
+    ),
+    el('BODY', null,
+      el('EXPORTDATA', null,
+        el('REQUESTDESC', null,
+          el('REPORTNAME', null, 'Day Book'),
+          exportStaticVariables(company, [
+            el('SVFROMDATE', { TYPE: 'Date' }, fromDate),
+            el('SVTODATE', { TYPE: 'Date' }, toDate)
+          ])
+        )
+      )
+    )
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderXml(envelope)}`;
+};
+
+// ===== XML READING =====
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Read XML text into the element model of tallyXml. Whitespace between
+ * elements is dropped and unbalanced closing tags are tolerated, as
+ * Tally's exports are not always well-formed.
+ */
+export const parseXml = (xml: string): XmlElement => {
+  const root = el('#document', null);
+  const stack: XmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  let match: RegExpExecArray | null;
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(xml)) !== null) {
+    const [, cdata, closing, opening, attributeText, selfClosing, text] = match;
+    if (cdata !== undefined) {
+      current().children.push(cdata);
+    } else if (closing) {
+      const index = stack.map(node => node.name).lastIndexOf(closing);
+      if (index > 0) stack.length = index;
+    } else if (opening) {
+      const attributes: Record<string, string> = {};
+      let attribute: RegExpExecArray | null;
+      ATTRIBUTE_PATTERN.lastIndex = 0;
+      while ((attribute = ATTRIBUTE_PATTERN.exec(attributeText || '')) !== null) {
+        attributes[attribute[1]] = unescapeXml(attribute[2] ?? attribute[3] ?? '');
+      }
+      const node = el(opening, Object.keys(attributes).length > 0 ? attributes : null);
+      current().children.push(node);
+      if (!selfClosing) stack.push(node);
+    } else if (text !== undefined && text.trim()) {
+      current().children.push(unescapeXml(text));
+    }
+  }
+
+  return root;
+};
+
+const isElement = (child: XmlChild): child is XmlElement => typeof child === 'object' && child !== null;
+
+const childElements = (node: XmlElement, name?: string): XmlElement[] =>
+  node.children.filter(isElement).filter(child => !name || child.name === name);
+
+const textOf = (node: XmlElement | undefined): string =>
+  node
+    ? node.children.map(child => (isElement(child) ? textOf(child) : String(child ?? ''))).join('').trim()
+    : '';
+
+const childText = (node: XmlElement, name: string): string => textOf(childElements(node, name)[0]);
+
+/**
+ * Elements of a name anywhere below a node, without looking inside a match
+ */
+const findElements = (node: XmlElement, name: string): XmlElement[] =>
+  childElements(node).flatMap(child => (child.name === name ? [child] : findElements(child, name)));
+
+// A Tally system name such as "\u0004 Primary" without its marker
+const withoutSystemMarker = (value: string): string => value.replace(/^\u0004\s*/, '');
+
+const isYes = (value: string): boolean => /^yes$/i.test(value.trim());
+
+/**
+ * Leading number of a Tally value such as "-1,000.00", " 2 Nos" or "500.00/Nos"
+ */
+export const tallyNumber = (value: string): number => {
+  const match = value.replace(/,/g, '').match(/-?\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : 0;
+};
+
+const masterName = (node: XmlElement): string =>
+  String(node.attributes?.NAME ?? '').trim() || childText(node, 'NAME');
+
+// Whether an element holds any text, so empty lists in an export can be dropped
+const hasContent = (node: XmlElement): boolean =>
+  node.children.some(child => (isElement(child) ? hasContent(child) : String(child ?? '').trim() !== ''));
+
+/**
+ * LINEERROR text of a failed export, if any
+ */
+export const exportError = (xml: string): string | null => {
+  const errors = findElements(parseXml(xml), 'LINEERROR').map(textOf).filter(Boolean);
+  return errors.length > 0 ? errors.join('; ') : null;
+};
+
+// ===== MASTERS =====
+
+/**
+ * Ledgers of a Ledger collection export
+ */
+export const parseLedgers = (xml: string): TallyLedger[] =>
+  findElements(parseXml(xml), 'LEDGER').map(node => {
+    const contact: TallyLedgerContact = {
+      address: findElements(node, 'ADDRESS').map(textOf).filter(Boolean).join('\n') || undefined,
+      pincode: childText(node, 'PINCODE') || undefined,
+      state: childText(node, 'LEDSTATENAME') || undefined,
+      country: childText(node, 'COUNTRYNAME') || undefined,
+      phone: childText(node, 'LEDGERPHONE') || undefined,
+      email: childText(node, 'EMAIL') || undefined,
+      gstin: childText(node, 'PARTYGSTIN') || undefined,
+      pan: childText(node, 'INCOMETAXNUMBER') || undefined
+    };
+
+    return {
+      name: masterName(node),
+      guid: childText(node, 'GUID'),
+      parent: withoutSystemMarker(childText(node, 'PARENT')),
+      alias: childText(node, 'ONLYALIAS') || undefined,
+      openingBalance: tallyNumber(childText(node, 'OPENINGBALANCE')),
+      closingBalance: tallyNumber(childText(node, 'CLOSINGBALANCE')),
+      isRevenue: isYes(childText(node, 'ISREVENUE')),
+      isDeemed: isYes(childText(node, 'ISDEEMEDPOSITIVE')),
+      affectsStock: isYes(childText(node, 'AFFECTSSTOCK')),
+      ledgerContact: Object.values(contact).some(Boolean) ? contact : undefined
+    };
+  });
+
+/**
+ * Groups of a Group collection export; primary groups have no parent
+ */
+export const parseGroups = (xml: string): TallyGroup[] =>
+  findElements(parseXml(xml), 'GROUP').map(node => {
+    const parent = withoutSystemMarker(childText(node, 'PARENT'));
+    return {
+      name: masterName(node),
+      parent: parent && parent !== 'Primary' ? parent : undefined,
+      isRevenue: isYes(childText(node, 'ISREVENUE')),
+      affectsGrossProfit: isYes(childText(node, 'AFFECTSGROSSPROFIT')),
+      sortPosition: tallyNumber(childText(node, 'SORTPOSITION'))
+    };
+  });
+
+/**
+ * Stock items of a StockItem collection export. Balances are quantities
+ * in the base unit.
+ */
+export const parseStockItems = (xml: string): TallyStockItem[] =>
+  findElements(parseXml(xml), 'STOCKITEM').map(node => ({
+    name: masterName(node),
+    guid: childText(node, 'GUID'),
+    alias: childText(node, 'ONLYALIAS') || undefined,
+    parent: withoutSystemMarker(childText(node, 'PARENT')),
+    category: withoutSystemMarker(childText(node, 'CATEGORY')) || undefined,
+    baseUnits: childText(node, 'BASEUNITS'),
+    openingBalance: tallyNumber(childText(node, 'OPENINGBALANCE')),
+    openingValue: tallyNumber(childText(node, 'OPENINGVALUE')),
+    closingBalance: tallyNumber(childText(node, 'CLOSINGBALANCE')),
+    closingValue: tallyNumber(childText(node, 'CLOSINGVALUE'))
+  }));
+
+/**
+ * Cost centres of a CostCentre collection export
+ */
+export const parseCostCentres = (xml: string): TallyCostCentre[] =>
+  findElements(parseXml(xml), 'COSTCENTRE').map(node => ({
+    name: masterName(node),
+    parent: withoutSystemMarker(childText(node, 'PARENT')) || undefined,
+    category: withoutSystemMarker(childText(node, 'CATEGORY')) || undefined
+  }));
+
+/**
+ * Names of the voucher types of a VoucherType collection export
+ */
+export const parseVoucherTypes = (xml: string): string[] =>
+  findElements(parseXml(xml), 'VOUCHERTYPE').map(masterName).filter(Boolean);
+
+// ===== DAY BOOK =====
+
+const LEDGER_ENTRY_FIELDS = ['LEDGERNAME', 'ISDEEMEDPOSITIVE', 'ISPARTYLEDGER', 'AMOUNT'];
+const BATCH_ALLOCATION_FIELDS = ['GODOWNNAME', 'BATCHNAME', 'AMOUNT', 'ACTUALQTY', 'BILLEDQTY'];
+const INVENTORY_ENTRY_FIELDS = [
+  'STOCKITEMNAME', 'ISDEEMEDPOSITIVE', 'RATE', 'AMOUNT', 'ACTUALQTY', 'BILLEDQTY',
+  'BATCHALLOCATIONS.LIST', 'ACCOUNTINGALLOCATIONS.LIST'
+];
+const VOUCHER_FIELDS = [
+  'GUID', 'DATE', 'EFFECTIVEDATE', 'VOUCHERTYPENAME', 'VOUCHERNUMBER', 'REFERENCE', 'PARTYLEDGERNAME',
+  'NARRATION', 'PERSISTEDVIEW', 'ALLLEDGERENTRIES.LIST', 'LEDGERENTRIES.LIST', 'ALLINVENTORYENTRIES.LIST',
+  'INVENTORYENTRIES.LIST'
+];
+
+// Children not modelled by the typed entry, kept so an altered voucher loses nothing
+const otherChildren = (node: XmlElement, modelled: string[]): XmlElement[] =>
+  childElements(node).filter(child => !modelled.includes(child.name) && hasContent(child));
+
+const entrySide = (node: XmlElement): EntrySide => {
+  const deemedPositive = childText(node, 'ISDEEMEDPOSITIVE');
+  if (deemedPositive) return isYes(deemedPositive) ? 'Dr' : 'Cr';
+  return tallyNumber(childText(node, 'AMOUNT')) < 0 ? 'Dr' : 'Cr';
+};
+
+const ledgerEntryFromXml = (node: XmlElement): TallyLedgerEntryXml => {
+  const extra = otherChildren(node, LEDGER_ENTRY_FIELDS);
+  return {
+    ledgerName: childText(node, 'LEDGERNAME'),
+    side: entrySide(node),
+    amount: Math.abs(tallyNumber(childText(node, 'AMOUNT'))),
+    isPartyLedger: isYes(childText(node, 'ISPARTYLEDGER')) || undefined,
+    extra: extra.length > 0 ? extra : undefined
+  };
+};
+
+const batchAllocationFromXml = (node: XmlElement): TallyBatchAllocationXml => {
+  const extra = otherChildren(node, BATCH_ALLOCATION_FIELDS);
+  return {
+    godownName: childText(node, 'GODOWNNAME') || undefined,
+    batchName: childText(node, 'BATCHNAME') || undefined,
+    quantity: Math.abs(tallyNumber(childText(node, 'BILLEDQTY') || childText(node, 'ACTUALQTY'))),
+    amount: Math.abs(tallyNumber(childText(node, 'AMOUNT'))),
+    extra: extra.length > 0 ? extra : undefined
+  };
+};
+
+const accountingAllocationFromXml = (node: XmlElement): TallyAccountingAllocationXml => {
+  const { ledgerName, side, amount, extra } = ledgerEntryFromXml(node);
+  return { ledgerName, side, amount, extra };
+};
+
+const inventoryEntryFromXml = (node: XmlElement): TallyInventoryEntryXml => {
+  const quantity = childText(node, 'BILLEDQTY') || childText(node, 'ACTUALQTY');
+  const batchAllocations = childElements(node, 'BATCHALLOCATIONS.LIST').filter(hasContent).map(batchAllocationFromXml);
+  const accountingAllocations = childElements(node, 'ACCOUNTINGALLOCATIONS.LIST')
+    .filter(hasContent)
+    .map(accountingAllocationFromXml);
+  const extra = otherChildren(node, INVENTORY_ENTRY_FIELDS);
+
+  return {
+    stockItemName: childText(node, 'STOCKITEMNAME'),
+    side: entrySide(node),
+    quantity: Math.abs(tallyNumber(quantity)),
+    unit: quantity.replace(/^[\s\d.,-]+/, '').trim() || childText(node, 'RATE').split('/')[1]?.trim() || '',
+    rate: tallyNumber(childText(node, 'RATE')),
+    amount: Math.abs(tallyNumber(childText(node, 'AMOUNT'))),
+    batchAllocations: batchAllocations.length > 0 ? batchAllocations : undefined,
+    accountingAllocations: accountingAllocations.length > 0 ? accountingAllocations : undefined,
+    extra: extra.length > 0 ? extra : undefined
+  };
+};
+
+/**
+ * Vouchers of a Day Book export. Cancelled and deleted vouchers are left
+ * out; invoice-view entry lists are read like their ALL... counterparts.
+ */
+export const parseDayBook = (xml: string): TallyVoucherXml[] =>
+  findElements(parseXml(xml), 'VOUCHER')
+    .filter(node => !isYes(childText(node, 'ISCANCELLED')) && !isYes(childText(node, 'ISDELETED')))
+    .map(node => {
+      const attributes = node.attributes || {};
+      const ledgerEntries = [
+        ...childElements(node, 'ALLLEDGERENTRIES.LIST'),
+        ...childElements(node, 'LEDGERENTRIES.LIST')
+      ].map(ledgerEntryFromXml);
+      const inventoryEntries = [
+        ...childElements(node, 'ALLINVENTORYENTRIES.LIST'),
+        ...childElements(node, 'INVENTORYENTRIES.LIST')
+      ].map(inventoryEntryFromXml);
+      const extra = otherChildren(node, VOUCHER_FIELDS);
+
+      return {
+        voucherType: childText(node, 'VOUCHERTYPENAME') || String(attributes.VCHTYPE ?? ''),
+        date: childText(node, 'DATE'),
+        voucherNumber: childText(node, 'VOUCHERNUMBER'),
+        remoteId: attributes.REMOTEID !== undefined ? String(attributes.REMOTEID) : undefined,
+        vchKey: attributes.VCHKEY !== undefined ? String(attributes.VCHKEY) : undefined,
+        guid: childText(node, 'GUID') || undefined,
+        objView: attributes.OBJVIEW !== undefined ? String(attributes.OBJVIEW) : undefined,
+        partyLedgerName: childText(node, 'PARTYLEDGERNAME') || undefined,
+        reference: childText(node, 'REFERENCE') || undefined,
+        narration: childText(node, 'NARRATION') || undefined,
+        ledgerEntries,
+        inventoryEntries: inventoryEntries.length > 0 ? inventoryEntries : undefined,
+        extra: extra.length > 0 ? extra : undefined
+      };
+    });
+
+// ===== ANALYTICS =====
+
+const baseVoucherType = (voucherType: string): 'sales' | 'purchase' | 'receipt' | 'payment' | null => {
+  const name = voucherType.toLowerCase();
+  if (name.includes('sales')) return 'sales';
+  if (name.includes('purchase')) return 'purchase';
+  if (name.includes('receipt')) return 'receipt';
+  if (name.includes('payment')) return 'payment';
+  return null;
+};
+
+/**
+ * Sales, purchase, receipt and payment figures of the day book, by month,
+ * voucher type and party. Figures the day book cannot give, such as
+ * profit, assets and stock movement, are left at zero.
+ */
+export const summariseDayBook = (vouchers: TallyVoucherXml[]): TallyAnalyticsData => {
+  const totals = { sales: 0, purchase: 0, receipt: 0, payment: 0 };
+  const months = new Map<string, { sales: number; purchases: number }>();
+  const types = new Map<string, { count: number; amount: number }>();
+  const customers = new Map<string, number>();
+  const suppliers = new Map<string, { purchases: number; payments: number }>();
+
+  vouchers.forEach(voucher => {
+    const amount = voucherTotals(voucher).debit;
+    const base = baseVoucherType(voucher.voucherType);
+    const type = types.get(voucher.voucherType) || { count: 0, amount: 0 };
+    types.set(voucher.voucherType, { count: type.count + 1, amount: type.amount + amount });
+    if (!base) return;
+
+    totals[base] += amount;
+    const period = `${voucher.date.slice(0, 4)}-${voucher.date.slice(4, 6)}`;
+    const month = months.get(period) || { sales: 0, purchases: 0 };
+    if (base === 'sales') month.sales += amount;
+    if (base === 'purchase') month.purchases += amount;
+    months.set(period, month);
+
+    const party = voucher.partyLedgerName;
+    if (!party) return;
+    if (base === 'sales') customers.set(party, (customers.get(party) || 0) + amount);
+    if (base === 'purchase' || base === 'payment') {
+      const supplier = suppliers.get(party) || { purchases: 0, payments: 0 };
+      if (base === 'purchase') supplier.purchases += amount;
+      else supplier.payments += amount;
+      suppliers.set(party, supplier);
+    }
+  });
+
+  return {
+    metrics: {
+      totalSales: roundToPaise(totals.sales),
+      totalPurchases: roundToPaise(totals.purchase),
+      totalReceipts: roundToPaise(totals.receipt),
+      totalPayments: roundToPaise(totals.payment),
+      netProfit: 0,
+      grossProfit: 0,
+      totalAssets: 0,
+      totalLiabilities: 0,
+      cashFlow: roundToPaise(totals.receipt - totals.payment)
+    },
+    trends: [...months.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([period, month]) => ({
+        period,
+        sales: roundToPaise(month.sales),
+        purchases: roundToPaise(month.purchases),
+        profit: 0,
+        expenses: 0
+      })),
+    categories: [],
+    regions: [],
+    vouchers: [...types.entries()].map(([type, summary]) => ({
+      type,
+      count: summary.count,
+      amount: roundToPaise(summary.amount),
+      trend: 'stable' as const
+    })),
+    customers: [...customers.entries()].map(([name, totalSales]) => ({
+      name,
+      totalSales: roundToPaise(totalSales),
+      totalPurchases: 0,
+      outstandingAmount: 0,
+      creditDays: 0
+    })),
+    suppliers: [...suppliers.entries()].map(([name, supplier]) => ({
+      name,
+      totalPurchases: roundToPaise(supplier.purchases),
+      totalPayments: roundToPaise(supplier.payments),
+      outstandingAmount: 0,
+      paymentDays: 0
+    })),
+    inventory: []
+  };
+};
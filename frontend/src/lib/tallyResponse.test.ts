@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportResult, importedVoucherIdentities, parseTallyResponse, type SubmittedVoucher } from './tallyResponse';
+import { deriveVoucherIdentity } from './voucherIdentity';
+
+const response = (counters: Record<string, number>, lineErrors: string[] = []): string =>
+  `<RESPONSE>${Object.entries(counters).map(([tag, value]) => `<${tag}>${value}</${tag}>`).join('')}` +
+  `${lineErrors.map(message => `<LINEERROR>${message}</LINEERROR>`).join('')}</RESPONSE>`;
+
+const submit = (...numbers: string[]): SubmittedVoucher[] =>
+  numbers.map((voucherNumber, index) => ({
+    voucherNumber,
+    rows: [index + 2],
+    identity: deriveVoucherIdentity({ company: 'Demo', voucherType: 'Sales', voucherNumber, date: '20240415' })
+  }));
+
+const statuses = (xml: string, submitted: SubmittedVoucher[]) =>
+  buildImportResult(xml, submitted).voucherResults?.map(result => result.status);
+
+describe('parseTallyResponse', () => {
+  it('sums counters and decodes line errors', () => {
+    const summary = parseTallyResponse(response({ CREATED: 2, ERRORS: 1 }, ['Ledger &apos;Shah &amp; Co&apos; does not exist!']));
+
+    expect(summary).toMatchObject({ created: 2, errors: 1, altered: 0 });
+    expect(summary.lineErrors).toEqual([`Ledger 'Shah & Co' does not exist!`]);
+  });
+});
+
+describe('buildImportResult', () => {
+  it('marks every voucher imported when Tally reports no errors', () => {
+    expect(statuses(response({ CREATED: 3 }), submit('SI-1', 'SI-2', 'SI-3'))).toEqual(['imported', 'imported', 'imported']);
+  });
+
+  it('attributes an error to the voucher it names', () => {
+    const submitted = submit('SI-1', 'SI-2', 'SI-3');
+    const result = buildImportResult(
+      response({ CREATED: 2, ERRORS: 1 }, [`Voucher Number 'SI-2' already exists!`]),
+      submitted
+    );
+
+    expect(result.voucherResults?.map(item => item.status)).toEqual(['imported', 'failed', 'imported']);
+    expect(result.errors).toEqual([`Row 3: Voucher SI-2: Voucher Number 'SI-2' already exists!`]);
+  });
+
+  it('leaves vouchers unknown when fewer errors are attributed than Tally counted', () => {
+    const submitted = submit('SI-1', 'SI-2', 'SI-3');
+    const result = buildImportResult(
+      response({ CREATED: 1, ERRORS: 2 }, [`Voucher Number 'SI-2' already exists!`]),
+      submitted
+    );
+
+    expect(result.voucherResults?.map(item => item.status)).toEqual(['unknown', 'failed', 'unknown']);
+    expect(result.warnings).toContain('Tally did not identify every failed voucher; check the unresolved vouchers in Tally');
+    expect(importedVoucherIdentities(submitted, result)).toEqual([]);
+  });
+
+  it('does not read voucher numbers out of amounts', () => {
+    const submitted = submit('1', '900', '00');
+    const result = buildImportResult(
+      response({ CREATED: 2, ERRORS: 1 }, ['Voucher totals do not match! Dr: 1,000.00 Cr: 900.00']),
+      submitted
+    );
+
+    expect(result.voucherResults?.map(item => item.status)).toEqual(['unknown', 'unknown', 'unknown']);
+    expect(result.errors).toEqual(['Voucher totals do not match! Dr: 1,000.00 Cr: 900.00']);
+  });
+
+  it('prefers the number after a voucher label', () => {
+    const submitted = submit('12', '7');
+    const result = buildImportResult(
+      response({ CREATED: 1, ERRORS: 1 }, ['Vch No. 7: quantity 12 exceeds the stock of Widget']),
+      submitted
+    );
+
+    expect(result.voucherResults?.map(item => item.status)).toEqual(['imported', 'failed']);
+  });
+
+  it('leaves an error that names more than one voucher unattributed', () => {
+    const submitted = submit('A1', 'B2');
+    const result = buildImportResult(
+      response({ CREATED: 1, ERRORS: 1 }, ['Bill A1 is already adjusted against B2']),
+      submitted
+    );
+
+    expect(result.voucherResults?.map(item => item.status)).toEqual(['unknown', 'unknown']);
+  });
+
+  it('pairs errors with vouchers in order when every voucher failed', () => {
+    const submitted = submit('SI-1', 'SI-2');
+    const result = buildImportResult(
+      response({ ERRORS: 2 }, ['Could not find Ledger Sales', 'Could not find Ledger Output CGST']),
+      submitted
+    );
+
+    expect(result.voucherResults?.map(item => item.message)).toEqual(['Could not find Ledger Sales', 'Could not find Ledger Output CGST']);
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Tally Import Response Parser
+ *
+ * Reads the RESPONSE block Tally returns after an import request
+ * (CREATED, ALTERED, ERRORS, LINEERROR, ...) and turns it into a
+ * structured import result with per-voucher outcomes mapped back to the
+ * spreadsheet rows each voucher was built from.
+ *
+ * @module tallyResponse
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import type { TallyImportResult, TallyVoucherImportStatus } from '@/services/TallyService';
+import { unescapeXml, type TallyVoucherXml } from './tallyXml';
+import type { VoucherIdentity } from './voucherIdentity';
+
+// ===== TYPES =====
+
+/**
+ * Counters and line errors from a Tally import response
+ */
+export interface TallyResponseSummary {
+  created: number;
+  altered: number;
+  deleted: number;
+  combined: number;
+  ignored: number;
+  errors: number;
+  cancelled: number;
+  exceptions: number;
+  lineErrors: string[];
+}
+
+/**
+ * A voucher that was sent to Tally and the rows it came from
+ */
+export interface SubmittedVoucher {
+  voucherNumber: string;
+  rows: number[];
+  /** Stable identifiers, recorded in the pushed-voucher ledger once imported */
+  identity?: VoucherIdentity;
+}
+
+// ===== PARSING =====
+
+const LAST_IMPORT_STORAGE_KEY = 'tallysync_last_import';
+
+const sumTag = (xml: string, tag: string): number => {
+  const pattern = new RegExp(`<${tag}>\\s*(-?\\d+)\\s*</${tag}>`, 'gi');
+  let total = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    total += parseInt(match[1], 10);
+  }
+  return total;
+};
+
+/**
+ * Parse the counters and LINEERROR messages of a Tally import response
+ */
+export const parseTallyResponse = (xml: string): TallyResponseSummary => {
+  const lineErrors: string[] = [];
+  const linePattern = /<LINEERROR>([\s\S]*?)<\/LINEERROR>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = linePattern.exec(xml)) !== null) {
+    const message = unescapeXml(match[1]).trim();
+    if (message) lineErrors.push(message);
+  }
+
+  return {
+    created: sumTag(xml, 'CREATED'),
+    altered: sumTag(xml, 'ALTERED'),
+    deleted: sumTag(xml, 'DELETED'),
+    combined: sumTag(xml, 'COMBINED'),
+    ignored: sumTag(xml, 'IGNORED'),
+    errors: sumTag(xml, 'ERRORS'),
+    cancelled: sumTag(xml, 'CANCELLED'),
+    exceptions: sumTag(xml, 'EXCEPTIONS'),
+    lineErrors
+  };
+};
+
+/**
+ * Vouchers in submission order with the rows they were built from
+ */
+export const describeSubmittedVouchers = (
+  vouchers: TallyVoucherXml[],
+  identities: (VoucherIdentity | undefined)[] = []
+): SubmittedVoucher[] =>
+  vouchers.map((voucher, index) => ({
+    voucherNumber: voucher.voucherNumber,
+    rows: voucher.sourceRows || [],
+    identity: identities[index]
+  }));
+
+// ===== RESULT MAPPING =====
+
+const formatRows = (rows: number[]): string =>
+  rows.length === 0 ? '' : `Row${rows.length > 1 ? 's' : ''} ${rows.join(', ')}: `;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A voucher number is not part of a longer number, reference or amount such as "1,000.00"
+const NUMBER_BEFORE = '(?<![\\w/.,-])';
+const NUMBER_AFTER = '(?![\\w/-]|[.,]\\d)';
+const VOUCHER_LABEL = '\\b(?:voucher(?:\\s+(?:number|no\\.?))?|vch\\.?(?:\\s*no\\.?)?)\\s*[:#]?\\s*[\'"]?';
+
+/**
+ * Indexes of the submitted vouchers a line error names. A number quoted
+ * after a "Voucher" or "Vch No" label wins over one found elsewhere in
+ * the message.
+ */
+const vouchersNamedIn = (message: string, submitted: SubmittedVoucher[]): number[] => {
+  const matching = (prefix: string) =>
+    submitted.flatMap((voucher, index) =>
+      voucher.voucherNumber &&
+      new RegExp(`${prefix}${escapeRegExp(voucher.voucherNumber)}${NUMBER_AFTER}`, 'i').test(message)
+        ? [index]
+        : []
+    );
+
+  const labelled = matching(VOUCHER_LABEL);
+  return labelled.length > 0 ? labelled : matching(NUMBER_BEFORE);
+};
+
+/**
+ * Attribute line errors to submitted vouchers. Tally does not tag a line
+ * error with the voucher it belongs to, so an error is matched to the
+ * voucher whose number it quotes; an error that could belong to more than
+ * one voucher is left unattributed. When every voucher failed, errors are
+ * matched in submission order.
+ */
+const attributeLineErrors = (
+  summary: TallyResponseSummary,
+  submitted: SubmittedVoucher[]
+): Map<number, string[]> => {
+  const byVoucher = new Map<number, string[]>();
+  const addError = (index: number, message: string) => {
+    byVoucher.set(index, [...(byVoucher.get(index) || []), message]);
+  };
+
+  const unmatched: string[] = [];
+  summary.lineErrors.forEach(message => {
+    const named = vouchersNamedIn(message, submitted);
+    if (named.length === 1) {
+      addError(named[0], message);
+    } else {
+      unmatched.push(message);
+    }
+  });
+
+  if (unmatched.length > 0 && summary.errors === submitted.length && summary.lineErrors.length === submitted.length) {
+    byVoucher.clear();
+    summary.lineErrors.forEach((message, index) => addError(index, message));
+    return byVoucher;
+  }
+
+  if (unmatched.length > 0) {
+    byVoucher.set(-1, unmatched);
+  }
+  return byVoucher;
+};
+
+/**
+ * Build a structured import result from a Tally response
+ */
+export const buildImportResult = (xml: string, submitted: SubmittedVoucher[] = []): TallyImportResult => {
+  const summary = parseTallyResponse(xml);
+  const attributed = attributeLineErrors(summary, submitted);
+  const unattributed = attributed.get(-1) || [];
+
+  const imported = summary.created + summary.altered + summary.combined;
+  const attributedCount = [...attributed.keys()].filter(index => index >= 0).length;
+  const failed = Math.max(summary.errors + summary.exceptions, attributedCount);
+  const skipped = summary.ignored + summary.cancelled;
+
+  // Vouchers without an attributed error imported cleanly only if every failure is accounted for
+  const failuresAccounted =
+    unattributed.length === 0 && skipped === 0 && attributedCount >= summary.errors + summary.exceptions;
+  const voucherResults: TallyVoucherImportStatus[] = submitted.map((voucher, index) => {
+    const messages = attributed.get(index);
+    if (messages) {
+      return { voucherNumber: voucher.voucherNumber, rows: voucher.rows, status: 'failed', message: messages.join('; ') };
+    }
+    return {
+      voucherNumber: voucher.voucherNumber,
+      rows: voucher.rows,
+      status: failed === 0 || failuresAccounted ? 'imported' : 'unknown'
+    };
+  });
+
+  const errors = [
+    ...voucherResults
+      .filter(result => result.status === 'failed')
+      .map(result => `${formatRows(result.rows)}Voucher ${result.voucherNumber}: ${result.message}`),
+    ...unattributed
+  ];
+
+  const warnings: string[] = [];
+  if (skipped > 0) warnings.push(`${skipped} voucher(s) were ignored or cancelled by Tally`);
+  if (voucherResults.some(result => result.status === 'unknown')) {
+    warnings.push('Tally did not identify every failed voucher; check the unresolved vouchers in Tally');
+  }
+
+  return {
+    success: failed === 0 && imported + skipped > 0,
+    imported,
+    failed,
+    skipped,
+    errors,
+    warnings,
+    details: [],
+    voucherResults
+  };
+};
+
+/**
+ * Identities of the submitted vouchers that Tally confirmed as imported
+ */
+export const importedVoucherIdentities = (
+  submitted: SubmittedVoucher[],
+  result: TallyImportResult
+): VoucherIdentity[] =>
+  submitted.flatMap((voucher, index) =>
+    voucher.identity && result.voucherResults?.[index]?.status === 'imported' ? [voucher.identity] : []
+  );
+
+// ===== PERSISTENCE =====
+
+/**
+ * Remember the latest import result for the Verification page
+ */
+export const saveLastImportResult = (result: TallyImportResult): void => {
+  try {
+    localStorage.setItem(LAST_IMPORT_STORAGE_KEY, JSON.stringify({ ...result, timestamp: new Date().toISOString() }));
+  } catch (error) {
+    console.error('Failed to save import result:', error);
+  }
+};
+
+/**
+ * The latest import result, if any
+ */
+export const loadLastImportResult = (): (TallyImportResult & { timestamp: string }) | null => {
+  try {
+    const stored = localStorage.getItem(LAST_IMPORT_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to load import result:', error);
+    return null;
+  }
+};
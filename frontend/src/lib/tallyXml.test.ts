@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildVoucherEnvelope,
+  el,
+  escapeXml,
+  renderXml,
+  tallySystemName,
+  unescapeXml,
+  type TallyVoucherXml,
+  type XmlElement
+} from './tallyXml';
+import { parseDayBook, parseXml } from './tallyExport';
+
+const child = (node: XmlElement, name: string): XmlElement =>
+  node.children.find((item): item is XmlElement => typeof item === 'object' && item !== null && item.name === name)!;
+
+describe('escapeXml', () => {
+  it('escapes markup characters', () => {
+    expect(escapeXml(`Ram & Sons <"Main"> 'Unit'`))
+      .toBe('Ram &amp; Sons &lt;&quot;Main&quot;&gt; &apos;Unit&apos;');
+  });
+
+  it('writes the system name marker as Tally does and drops other control characters', () => {
+    expect(escapeXml(tallySystemName('Primary'))).toBe('&#4; Primary');
+    expect(escapeXml('Cash\u0000\u0001\u001F Sales\u000B')).toBe('Cash Sales');
+  });
+
+  it('keeps tabs and line breaks', () => {
+    expect(escapeXml('Line 1\n\tLine 2\r')).toBe('Line 1\n\tLine 2\r');
+  });
+
+  it('renders null and undefined as empty text', () => {
+    expect(escapeXml(null)).toBe('');
+    expect(escapeXml(undefined)).toBe('');
+    expect(escapeXml(0)).toBe('0');
+  });
+});
+
+describe('unescapeXml', () => {
+  it('decodes entities and decimal and hexadecimal references', () => {
+    expect(unescapeXml('Ram &amp; Sons &lt;&quot;Main&quot;&gt; &apos;Unit&apos;')).toBe(`Ram & Sons <"Main"> 'Unit'`);
+    expect(unescapeXml('&#4; Primary')).toBe('\u0004 Primary');
+    expect(unescapeXml('&#x20B9;500 &#X2013; &#x1F4B0;')).toBe('\u20B9500 \u2013 \u{1F4B0}');
+  });
+
+  it('decodes an escaped ampersand only once', () => {
+    expect(unescapeXml('&amp;lt; &amp;#4;')).toBe('&lt; &#4;');
+  });
+
+  it('reverses escapeXml', () => {
+    const value = `A&B <C> "D" 'E' \u0004 F`;
+    expect(unescapeXml(escapeXml(value))).toBe(value);
+  });
+});
+
+describe('renderXml', () => {
+  it('renders empty elements as self-closing and skips falsy children', () => {
+    expect(renderXml(el('NARRATION', null, null, undefined, false))).toBe('<NARRATION/>');
+  });
+
+  it('omits undefined attributes and escapes the rest', () => {
+    expect(renderXml(el('VOUCHER', { VCHTYPE: 'Sales & Returns', REMOTEID: undefined }, 'x')))
+      .toBe('<VOUCHER VCHTYPE="Sales &amp; Returns">x</VOUCHER>');
+  });
+
+  it('indents nested elements', () => {
+    const xml = renderXml(el('LEDGER', null, el('NAME', null, 'A&B'), el('PARENT', null, 'Sundry Debtors')));
+    expect(xml).toBe('<LEDGER>\n  <NAME>A&amp;B</NAME>\n  <PARENT>Sundry Debtors</PARENT>\n</LEDGER>');
+  });
+});
+
+describe('buildVoucherEnvelope', () => {
+  const voucher: TallyVoucherXml = {
+    voucherType: 'Sales',
+    date: '20240415',
+    voucherNumber: 'INV/001',
+    guid: 'a1b2c3',
+    remoteId: 'a1b2c3',
+    partyLedgerName: 'Shah & Co <Mumbai>',
+    narration: `Invoice for "April" supplies`,
+    ledgerEntries: [
+      { ledgerName: 'Shah & Co <Mumbai>', side: 'Dr', amount: 1180, isPartyLedger: true },
+      { ledgerName: 'Output CGST 9%', side: 'Cr', amount: 90 },
+      { ledgerName: 'Output SGST 9%', side: 'Cr', amount: 90 }
+    ],
+    inventoryEntries: [
+      {
+        stockItemName: 'Widget', side: 'Cr', quantity: 10, unit: 'Nos', rate: 100, amount: 1000,
+        batchAllocations: [
+          { godownName: 'Main Location', quantity: 6, amount: 600 },
+          { godownName: 'Warehouse', batchName: 'B-7', quantity: 4, amount: 400 }
+        ],
+        accountingAllocations: [{ ledgerName: 'Sales @ 18%', side: 'Cr', amount: 1000 }]
+      }
+    ]
+  };
+
+  it('wraps the vouchers in an import envelope with the company', () => {
+    const document = parseXml(buildVoucherEnvelope([voucher], 'Demo & Co'));
+    const envelope = child(document, 'ENVELOPE');
+    const importData = child(child(envelope, 'BODY'), 'IMPORTDATA');
+    const description = child(importData, 'REQUESTDESC');
+
+    expect(child(child(envelope, 'HEADER'), 'TALLYREQUEST').children).toEqual(['Import Data']);
+    expect(child(description, 'REPORTNAME').children).toEqual(['Vouchers']);
+    expect(child(child(description, 'STATICVARIABLES'), 'SVCURRENTCOMPANY').children).toEqual(['Demo & Co']);
+    expect(child(child(child(importData, 'REQUESTDATA'), 'TALLYMESSAGE'), 'VOUCHER').attributes)
+      .toMatchObject({ REMOTEID: 'a1b2c3', VCHTYPE: 'Sales', ACTION: 'Create' });
+  });
+
+  it('reads back as the same voucher', () => {
+    const [parsed] = parseDayBook(buildVoucherEnvelope([voucher]));
+
+    expect(parsed).toMatchObject({
+      voucherType: 'Sales',
+      date: '20240415',
+      voucherNumber: 'INV/001',
+      guid: 'a1b2c3',
+      remoteId: 'a1b2c3',
+      partyLedgerName: 'Shah & Co <Mumbai>',
+      narration: `Invoice for "April" supplies`,
+      ledgerEntries: voucher.ledgerEntries
+    });
+    expect(parsed.inventoryEntries).toMatchObject(voucher.inventoryEntries!);
+  });
+
+  it('leaves no control characters other than the system name marker', () => {
+    const xml = buildVoucherEnvelope([{ ...voucher, narration: 'Bad\u0007 bell', reference: tallySystemName('Any') }]);
+
+    expect(xml).toContain('<NARRATION>Bad bell</NARRATION>');
+    expect(xml).toContain('<REFERENCE>&#4; Any</REFERENCE>');
+    expect(xml).not.toMatch(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/);
+  });
+});
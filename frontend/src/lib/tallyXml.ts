@@ -0,0 +1,504 @@
+/**
+ * Tally XML Builder
+ *
+ * Typed construction of Tally ERP 9 / Tally Prime import envelopes.
+ * Every generator in the application describes its output as plain
+ * objects (vouchers, ledger entries, masters) and hands them to this
+ * module, which is the only place that turns them into XML text.
+ *
+ * GUARANTEES:
+ * - All element text and attribute values are escaped, so party names,
+ *   narrations and ledger names containing &, <, >, " or ' never break
+ *   an import
+ * - Tags are always balanced under one root element. The output is
+ *   well-formed XML 1.0 apart from the "&#4;" marker Tally requires on
+ *   system names; every other control character is dropped
+ * - Debit/credit sign handling follows Tally's convention in one place:
+ *   debit entries carry ISDEEMEDPOSITIVE=Yes and a negative AMOUNT
+ *
+ * @module tallyXml
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+// ===== GENERIC XML NODES =====
+
+/**
+ * A child of an XML element. Falsy values are skipped when rendering,
+ * which keeps optional fields terse at the call site.
+ */
+export type XmlChild = XmlElement | string | number | null | undefined | false;
+
+/**
+ * A single XML element
+ */
+export interface XmlElement {
+  name: string;
+  attributes?: Record<string, string | number | undefined>;
+  children: XmlChild[];
+}
+
+/**
+ * Escape a value for use in XML text or attribute content. Control
+ * characters are not allowed in XML and are dropped, except the marker
+ * of Tally system names, which is written as "&#4;" as Tally does.
+ */
+export const escapeXml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/[\u0000-\u0003\u0005-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/\u0004/g, '&#4;');
+
+/**
+ * Reverse of escapeXml for text read from Tally: entities and decimal or
+ * hexadecimal character references are decoded.
+ */
+export const unescapeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+
+/**
+ * Create an element. Attributes whose value is undefined are omitted.
+ */
+export const el = (
+  name: string,
+  attributes?: XmlElement['attributes'] | null,
+  ...children: XmlChild[]
+): XmlElement => ({
+  name,
+  attributes: attributes || undefined,
+  children,
+});
+
+/**
+ * Create an element only when the value is present, e.g. optional
+ * <NARRATION> or <REFERENCE> tags.
+ */
+export const optionalEl = (name: string, value: string | number | null | undefined): XmlElement | null =>
+  value === undefined || value === null || value === '' ? null : el(name, null, value);
+
+const isElement = (child: XmlChild): child is XmlElement =>
+  typeof child === 'object' && child !== null;
+
+const renderAttributes = (attributes?: XmlElement['attributes']): string => {
+  if (!attributes) return '';
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+};
+
+/**
+ * Render an element tree as indented XML text
+ */
+export const renderXml = (node: XmlElement, depth: number = 0): string => {
+  const indent = '  '.repeat(depth);
+  const open = `${node.name}${renderAttributes(node.attributes)}`;
+  const children = node.children.filter(child => child !== null && child !== undefined && child !== false);
+
+  if (children.length === 0) {
+    return `${indent}<${open}/>`;
+  }
+
+  if (!children.some(isElement)) {
+    const text = children.map(escapeXml).join('');
+    return `${indent}<${open}>${text}</${node.name}>`;
+  }
+
+  const body = children
+    .map(child => (isElement(child) ? renderXml(child, depth + 1) : `${indent}  ${escapeXml(child)}`))
+    .join('\n');
+  return `${indent}<${open}>\n${body}\n${indent}</${node.name}>`;
+};
+
+// ===== TALLY VALUE FORMATTING =====
+
+/**
+ * Tally Yes/No flag
+ */
+export const yesNo = (flag: boolean | undefined): 'Yes' | 'No' => (flag ? 'Yes' : 'No');
+
+/**
+ * Format a monetary value with two decimals, as Tally exports it
+ */
+export const formatAmount = (value: number): string => (Math.round(value * 100) / 100).toFixed(2);
+
+/**
+ * A Tally system name such as "Any" or "Applicable", which Tally writes
+ * as "&#4; Any" to tell it apart from a user-created master of that name
+ */
+export const tallySystemName = (name: string): string => `\u0004 ${name}`;
+
+/**
+ * Signed amount for an accounting side. Tally stores debits as negative
+ * values and credits as positive values.
+ */
+export const signedAmount = (side: EntrySide, amount: number): string =>
+  formatAmount(side === 'Dr' ? -Math.abs(amount) : Math.abs(amount));
+
+// ===== TALLY DOCUMENT MODEL =====
+
+/**
+ * Debit or credit side of an entry
+ */
+export type EntrySide = 'Dr' | 'Cr';
+
+/**
+ * Voucher import action
+ */
+export type TallyAction = 'Create' | 'Alter' | 'Delete';
+
+/**
+ * One ALLLEDGERENTRIES.LIST line
+ */
+export interface TallyLedgerEntryXml {
+  ledgerName: string;
+  side: EntrySide;
+  /** Absolute amount; the sign is derived from `side` */
+  amount: number;
+  isPartyLedger?: boolean;
+  /** Extra child elements (bill allocations, cost centres, GST details...) */
+  extra?: XmlChild[];
+}
+
+/**
+ * How a bill allocation settles the party's outstanding bills
+ */
+export type TallyBillType = 'New Ref' | 'Agst Ref' | 'Advance' | 'On Account';
+
+/**
+ * One BILLALLOCATIONS.LIST line of a party ledger entry
+ */
+export interface TallyBillAllocationXml {
+  /** Bill reference; not used for On Account */
+  name?: string;
+  billType: TallyBillType;
+  side: EntrySide;
+  /** Absolute amount; the sign is derived from `side` */
+  amount: number;
+  /** Credit period of a new bill, as "30 Days" or a due date such as "15-May-2024" */
+  creditPeriod?: string;
+}
+
+/**
+ * One BATCHALLOCATIONS.LIST line of an inventory entry: the godown and
+ * batch part of the quantity moves through
+ */
+export interface TallyBatchAllocationXml {
+  godownName?: string;
+  batchName?: string;
+  /** Quantity in the unit of the inventory entry */
+  quantity: number;
+  /** Absolute amount; the sign follows the inventory entry */
+  amount: number;
+  extra?: XmlChild[];
+}
+
+/**
+ * One ACCOUNTINGALLOCATIONS.LIST line of an inventory entry: the
+ * sales/purchase ledger part of the item value is posted to
+ */
+export interface TallyAccountingAllocationXml {
+  ledgerName: string;
+  side: EntrySide;
+  /** Absolute amount; the sign is derived from `side` */
+  amount: number;
+  /** Extra child elements (cost centres...) */
+  extra?: XmlChild[];
+}
+
+/**
+ * One ALLINVENTORYENTRIES.LIST line
+ */
+export interface TallyInventoryEntryXml {
+  stockItemName: string;
+  side: EntrySide;
+  quantity: number;
+  unit: string;
+  rate: number;
+  /** Absolute amount; the sign is derived from `side` */
+  amount: number;
+  batchAllocations?: TallyBatchAllocationXml[];
+  accountingAllocations?: TallyAccountingAllocationXml[];
+  extra?: XmlChild[];
+}
+
+/**
+ * A complete voucher
+ */
+export interface TallyVoucherXml {
+  voucherType: string;
+  /** YYYYMMDD */
+  date: string;
+  /** Empty to let Tally number the voucher */
+  voucherNumber: string;
+  action?: TallyAction;
+  remoteId?: string;
+  /** VCHKEY as exported by Tally; never generated */
+  vchKey?: string;
+  guid?: string;
+  objView?: string;
+  partyLedgerName?: string;
+  reference?: string;
+  narration?: string;
+  ledgerEntries: TallyLedgerEntryXml[];
+  inventoryEntries?: TallyInventoryEntryXml[];
+  /** Spreadsheet rows the voucher was built from; not rendered */
+  sourceRows?: number[];
+  extra?: XmlChild[];
+}
+
+/**
+ * A ledger master
+ */
+export interface TallyLedgerMasterXml {
+  name: string;
+  parent: string;
+  action?: TallyAction;
+  guid?: string;
+  address?: string[];
+  phone?: string;
+  openingBalance?: number;
+  openingSide?: EntrySide;
+  isBillWiseOn?: boolean;
+  isCostCentresOn?: boolean;
+  extra?: XmlChild[];
+}
+
+/**
+ * A stock item master
+ */
+export interface TallyStockItemMasterXml {
+  name: string;
+  parent: string;
+  action?: TallyAction;
+  guid?: string;
+  category?: string;
+  baseUnits: string;
+  openingBalance?: number;
+  openingRate?: number;
+  openingValue?: number;
+  extra?: XmlChild[];
+}
+
+// ===== VOUCHER CHECKS =====
+
+/**
+ * Total debits and credits of a voucher, counting ledger and inventory entries
+ */
+export const voucherTotals = (voucher: TallyVoucherXml): { debit: number; credit: number } => {
+  const entries = [...voucher.ledgerEntries, ...(voucher.inventoryEntries || [])];
+  const total = (side: EntrySide) =>
+    Math.round(entries.filter(entry => entry.side === side).reduce((sum, entry) => sum + entry.amount, 0) * 100) / 100;
+
+  return { debit: total('Dr'), credit: total('Cr') };
+};
+
+/**
+ * Whether debits equal credits within the given tolerance (one paisa by default)
+ */
+export const isVoucherBalanced = (voucher: TallyVoucherXml, tolerance: number = 0.01): boolean => {
+  const { debit, credit } = voucherTotals(voucher);
+  return Math.abs(debit - credit) <= tolerance + Number.EPSILON;
+};
+
+// ===== TALLY ELEMENT BUILDERS =====
+
+/**
+ * Build an ALLLEDGERENTRIES.LIST element
+ */
+export const ledgerEntryElement = (entry: TallyLedgerEntryXml): XmlElement =>
+  el('ALLLEDGERENTRIES.LIST', null,
+    el('LEDGERNAME', null, entry.ledgerName),
+    el('ISDEEMEDPOSITIVE', null, yesNo(entry.side === 'Dr')),
+    el('ISPARTYLEDGER', null, yesNo(entry.isPartyLedger)),
+    el('AMOUNT', null, signedAmount(entry.side, entry.amount)),
+    ...(entry.extra || [])
+  );
+
+/**
+ * Build a BILLALLOCATIONS.LIST element
+ */
+export const billAllocationElement = (bill: TallyBillAllocationXml): XmlElement =>
+  el('BILLALLOCATIONS.LIST', null,
+    bill.billType !== 'On Account' && optionalEl('NAME', bill.name),
+    el('BILLTYPE', null, bill.billType),
+    bill.creditPeriod && el('BILLCREDITPERIOD', { P: bill.creditPeriod }, bill.creditPeriod),
+    el('AMOUNT', null, signedAmount(bill.side, bill.amount))
+  );
+
+/**
+ * Build a BATCHALLOCATIONS.LIST element of an inventory entry
+ */
+export const batchAllocationElement = (entry: TallyInventoryEntryXml, batch: TallyBatchAllocationXml): XmlElement =>
+  el('BATCHALLOCATIONS.LIST', null,
+    optionalEl('GODOWNNAME', batch.godownName),
+    optionalEl('BATCHNAME', batch.batchName),
+    el('AMOUNT', null, signedAmount(entry.side, batch.amount)),
+    el('ACTUALQTY', null, `${batch.quantity} ${entry.unit}`),
+    el('BILLEDQTY', null, `${batch.quantity} ${entry.unit}`),
+    ...(batch.extra || [])
+  );
+
+/**
+ * Build an ACCOUNTINGALLOCATIONS.LIST element
+ */
+export const accountingAllocationElement = (allocation: TallyAccountingAllocationXml): XmlElement =>
+  el('ACCOUNTINGALLOCATIONS.LIST', null,
+    el('LEDGERNAME', null, allocation.ledgerName),
+    el('ISDEEMEDPOSITIVE', null, yesNo(allocation.side === 'Dr')),
+    el('AMOUNT', null, signedAmount(allocation.side, allocation.amount)),
+    ...(allocation.extra || [])
+  );
+
+/**
+ * Build an ALLINVENTORYENTRIES.LIST element
+ */
+export const inventoryEntryElement = (entry: TallyInventoryEntryXml): XmlElement =>
+  el('ALLINVENTORYENTRIES.LIST', null,
+    el('STOCKITEMNAME', null, entry.stockItemName),
+    el('ISDEEMEDPOSITIVE', null, yesNo(entry.side === 'Dr')),
+    el('RATE', null, `${formatAmount(entry.rate)}/${entry.unit}`),
+    el('AMOUNT', null, signedAmount(entry.side, entry.amount)),
+    el('ACTUALQTY', null, `${entry.quantity} ${entry.unit}`),
+    el('BILLEDQTY', null, `${entry.quantity} ${entry.unit}`),
+    ...(entry.extra || []),
+    ...(entry.batchAllocations || []).map(batch => batchAllocationElement(entry, batch)),
+    ...(entry.accountingAllocations || []).map(accountingAllocationElement)
+  );
+
+/**
+ * Build a VOUCHER element
+ */
+export const voucherElement = (voucher: TallyVoucherXml): XmlElement =>
+  el('VOUCHER', {
+    REMOTEID: voucher.remoteId,
+    VCHKEY: voucher.vchKey,
+    VCHTYPE: voucher.voucherType,
+    ACTION: voucher.action || 'Create',
+    OBJVIEW: voucher.objView,
+  },
+    optionalEl('GUID', voucher.guid),
+    el('DATE', null, voucher.date),
+    el('EFFECTIVEDATE', null, voucher.date),
+    el('VOUCHERTYPENAME', null, voucher.voucherType),
+    optionalEl('VOUCHERNUMBER', voucher.voucherNumber),
+    optionalEl('REFERENCE', voucher.reference),
+    optionalEl('PARTYLEDGERNAME', voucher.partyLedgerName),
+    optionalEl('NARRATION', voucher.narration),
+    optionalEl('PERSISTEDVIEW', voucher.objView),
+    ...(voucher.extra || []),
+    ...(voucher.inventoryEntries || []).map(inventoryEntryElement),
+    ...voucher.ledgerEntries.map(ledgerEntryElement)
+  );
+
+/**
+ * Build a LEDGER master element
+ */
+export const ledgerMasterElement = (ledger: TallyLedgerMasterXml): XmlElement =>
+  el('LEDGER', { NAME: ledger.name, RESERVEDNAME: '', ACTION: ledger.action },
+    optionalEl('GUID', ledger.guid),
+    el('NAME', null, ledger.name),
+    el('PARENT', null, ledger.parent),
+    ledger.address && ledger.address.length > 0 && el('ADDRESS.LIST', { TYPE: 'String' },
+      ...ledger.address.map(line => el('ADDRESS', null, line))
+    ),
+    optionalEl('LEDGERPHONE', ledger.phone),
+    el('OPENINGBALANCE', null, signedAmount(ledger.openingSide || 'Dr', ledger.openingBalance || 0)),
+    el('ISBILLWISEON', null, yesNo(ledger.isBillWiseOn)),
+    el('ISCOSTCENTRESON', null, yesNo(ledger.isCostCentresOn)),
+    ...(ledger.extra || [])
+  );
+
+/**
+ * Build a STOCKITEM master element
+ */
+export const stockItemMasterElement = (item: TallyStockItemMasterXml): XmlElement =>
+  el('STOCKITEM', { NAME: item.name, RESERVEDNAME: '', ACTION: item.action },
+    optionalEl('GUID', item.guid),
+    el('NAME', null, item.name),
+    el('PARENT', null, item.parent),
+    optionalEl('CATEGORY', item.category),
+    el('BASEUNITS', null, item.baseUnits),
+    item.openingBalance !== undefined && el('OPENINGBALANCE', null, `${item.openingBalance} ${item.baseUnits}`),
+    item.openingRate !== undefined && el('OPENINGRATE', null, `${formatAmount(item.openingRate)}/${item.baseUnits}`),
+    item.openingValue !== undefined && el('OPENINGVALUE', null, signedAmount('Dr', item.openingValue)),
+    ...(item.extra || [])
+  );
+
+/**
+ * Wrap a voucher or master in a TALLYMESSAGE
+ */
+export const tallyMessage = (child: XmlElement): XmlElement =>
+  el('TALLYMESSAGE', { 'xmlns:UDF': 'TallyUDF' }, child);
+
+// ===== ENVELOPES =====
+
+/**
+ * Import envelope options
+ */
+export interface ImportEnvelopeOptions {
+  reportName: 'Vouchers' | 'All Masters';
+  company?: string;
+  messages: XmlElement[];
+}
+
+/**
+ * Build a complete "Import Data" envelope, including the XML declaration
+ */
+export const buildImportEnvelope = ({ reportName, company, messages }: ImportEnvelopeOptions): string => {
+  const envelope = el('ENVELOPE', null,
+    el('HEADER', null,
+      el('TALLYREQUEST', null, 'Import Data')
+    ),
+    el('BODY', null,
+      el('IMPORTDATA', null,
+        el('REQUESTDESC', null,
+          el('REPORTNAME', null, reportName),
+          company && el('STATICVARIABLES', null,
+            el('SVCURRENTCOMPANY', null, company)
+          )
+        ),
+        el('REQUESTDATA', null, ...messages)
+      )
+    )
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderXml(envelope)}`;
+};
+
+/**
+ * Build an import envelope for vouchers
+ */
+export const buildVoucherEnvelope = (vouchers: TallyVoucherXml[], company?: string): string =>
+  buildImportEnvelope({
+    reportName: 'Vouchers',
+    company,
+    messages: vouchers.map(voucher => tallyMessage(voucherElement(voucher))),
+  });
+
+/**
+ * Build an import envelope for ledger and stock item masters
+ */
+export const buildMastersEnvelope = (
+  masters: { ledgers?: TallyLedgerMasterXml[]; stockItems?: TallyStockItemMasterXml[] },
+  company?: string
+): string =>
+  buildImportEnvelope({
+    reportName: 'All Masters',
+    company,
+    messages: [
+      ...(masters.ledgers || []).map(ledger => tallyMessage(ledgerMasterElement(ledger))),
+      ...(masters.stockItems || []).map(item => tallyMessage(stockItemMasterElement(item))),
+    ],
+  });
@@ -0,0 +1,396 @@
+/**
+ * Template Export
+ *
+ * Lays out vouchers and masters read from Tally in the spreadsheet
+ * templates under templates/, so they can be corrected in Excel and
+ * imported again. Sales and purchase invoices, and journals that carry
+ * GST, use the Sale/Purchase/Journal layout with one column per GST slab;
+ * other journals use the journal columns of the importer; payments,
+ * receipts and contras use the Bank layout with one sheet per cash or
+ * bank ledger. Each voucher type gets a sheet of its own. Vouchers a
+ * layout cannot hold without losing amounts are listed with the reason.
+ *
+ * @module templateExport
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import type { TallyVoucherXml, XmlChild, XmlElement } from './tallyXml';
+import { getActiveSlabs, roundToPaise, slabFieldLabel, type GstDirection, type GstSlab, type GstTaxHead } from './gst';
+import { readGstVoucher, taxHeadOf } from './gstReturns';
+import { formatDateParts } from './dateParsing';
+import { MAPPING_FIELDS } from './columnMapping';
+import { isCashOrBankGroup } from './ledgerMaster';
+import type { ExcelColumn, TallyGroup, TallyLedger, TallyStockItem } from '@/services/TallyService';
+
+// ===== TYPES =====
+
+export type TemplateRow = Record<string, string | number>;
+
+/**
+ * One worksheet of an exported workbook
+ */
+export interface TemplateSheet {
+  name: string;
+  rows: TemplateRow[];
+}
+
+/**
+ * A voucher left out of the export, with the reason
+ */
+export interface SkippedVoucher {
+  voucherType: string;
+  voucherNumber: string;
+  date: string;
+  reason: string;
+}
+
+export interface TemplateExport {
+  sheets: TemplateSheet[];
+  skipped: SkippedVoucher[];
+}
+
+/**
+ * Whether a ledger is a cash or bank ledger, or null while it is not known
+ */
+export type CashBankCheck = (name: string) => boolean | null;
+
+// ===== LAYOUTS =====
+
+// Headings of templates/Sale.xlsx, Purchase.xlsx and Journal.xlsx. The
+// sales heading names the customer, which the importer reads as a sales sheet.
+const INVOICE_NUMBER_HEADER: Record<GstDirection, string> = {
+  sales: 'Customer invoice no',
+  purchase: 'Supplier invoice no'
+};
+const INVOICE_DATE_HEADER = 'Date ';
+const INVOICE_PARTY_HEADER = 'To ( Party Name )';
+const INVOICE_TOTAL_HEADER = 'TOTAL';
+const INVOICE_NARRATION_HEADER = 'Narration';
+const SLAB_PREFIX: Record<GstDirection, string> = { sales: 'Sales', purchase: 'Purchase' };
+
+/**
+ * Slab rates the invoice templates always show
+ */
+const TEMPLATE_SLAB_RATES = [5, 12, 18];
+
+const TAX_HEAD_HEADERS: Record<GstTaxHead, string> = { cgst: 'CGST', sgst: 'SGST', igst: 'IGST', cess: 'Cess' };
+
+// CGST and SGST are always shown, as in the templates
+const ALWAYS_SHOWN_TAX_HEADS: GstTaxHead[] = ['cgst', 'sgst'];
+
+/**
+ * Headings of templates/Bank.xlsx
+ */
+export const BANK_TEMPLATE_HEADERS = [
+  'Date*', 'Vch Type*', 'Narration', 'Cheque No.', 'Ledger*', 'DR/CR', 'Single Amount', 'Withdrawal*', 'Deposit*'
+];
+
+type VoucherLayout = { kind: 'invoice'; direction: GstDirection } | { kind: 'journal' } | { kind: 'bank' };
+
+// Layout for a voucher from the name of its voucher type
+const layoutFor = (voucher: TallyVoucherXml): VoucherLayout | null => {
+  const type = voucher.voucherType.toLowerCase();
+  if (/credit note|debit note|return/.test(type)) return null;
+  if (type.includes('sale')) return { kind: 'invoice', direction: 'sales' };
+  if (type.includes('purchase')) return { kind: 'invoice', direction: 'purchase' };
+  if (type.includes('journal')) {
+    // Journals booking a purchase with GST follow the purchase layout, as templates/Journal.xlsx does
+    const hasTax = voucher.ledgerEntries.some(entry => taxHeadOf(entry.ledgerName));
+    return hasTax ? { kind: 'invoice', direction: 'purchase' } : { kind: 'journal' };
+  }
+  if (/payment|receipt|contra/.test(type)) return { kind: 'bank' };
+  return null;
+};
+
+// ===== CELLS =====
+
+/**
+ * Voucher date as dd-MMM-yyyy, which the importers read whatever the day
+ * and month order chosen
+ */
+const templateDate = (date: string): string =>
+  formatDateParts({ year: Number(date.slice(0, 4)), month: Number(date.slice(4, 6)), day: Number(date.slice(6, 8)) });
+
+const isElement = (child: XmlChild): child is XmlElement => typeof child === 'object' && child !== null;
+
+const childText = (node: XmlElement, name: string): string => {
+  const child = node.children.find(found => isElement(found) && found.name === name);
+  return isElement(child) ? child.children.filter(text => !isElement(text)).join('').trim() : '';
+};
+
+/**
+ * Cost centre split of an entry as typed in the cost centre column, e.g.
+ * "Marketing: 600; Sales: 400", and its category when there is only one
+ */
+const costCentreCells = (extra: XmlChild[] | undefined): { centres: string; category: string } => {
+  const categories = (extra || [])
+    .filter(isElement)
+    .filter(child => child.name === 'CATEGORYENTRY.LIST' || child.name === 'CATEGORYALLOCATIONS.LIST');
+  const allocations = categories.flatMap(category =>
+    category.children
+      .filter(isElement)
+      .filter(child => child.name === 'COSTCENTREALLOCATIONS.LIST')
+      .map(child => ({ name: childText(child, 'NAME'), amount: Math.abs(parseFloat(childText(child, 'AMOUNT')) || 0) }))
+  );
+
+  return {
+    centres: allocations.length === 1
+      ? allocations[0].name
+      : allocations.map(allocation => `${allocation.name}: ${roundToPaise(allocation.amount)}`).join('; '),
+    category: categories.length === 1 ? childText(categories[0], 'CATEGORY') : ''
+  };
+};
+
+// Row with every heading of its sheet, in order, so the columns line up
+const orderedRow = (headers: string[], values: TemplateRow): TemplateRow =>
+  Object.fromEntries(headers.map(header => [header, values[header] ?? '']));
+
+// Row keyed by the column names of an importer template
+const columnRow = (columns: ExcelColumn[], values: Record<string, string | number | undefined>): TemplateRow =>
+  Object.fromEntries(columns.map(column => [column.name, values[column.key] ?? '']));
+
+// ===== VOUCHERS =====
+
+interface InvoiceRow {
+  values: TemplateRow;
+  slabs: GstSlab[];
+  taxHeads: GstTaxHead[];
+}
+
+const invoiceRow = (voucher: TallyVoucherXml, direction: GstDirection, slabs: GstSlab[]): InvoiceRow | string => {
+  const reading = readGstVoucher(voucher, direction, false, slabs);
+  if (typeof reading === 'string') return reading;
+  const { party, lines, taxes } = reading;
+
+  const values: TemplateRow = {};
+  const usedSlabs: GstSlab[] = [];
+  for (const line of lines) {
+    const header = slabFieldLabel(SLAB_PREFIX[direction], line.slab);
+    values[header] = roundToPaise(Number(values[header] || 0) + line.amount);
+    if (!usedSlabs.includes(line.slab)) usedSlabs.push(line.slab);
+  }
+
+  const taxHeads = (Object.keys(taxes) as GstTaxHead[]).filter(head => Math.abs(taxes[head]) >= 0.005);
+  taxHeads.forEach(head => {
+    values[TAX_HEAD_HEADERS[head]] = roundToPaise(taxes[head]);
+  });
+
+  return {
+    values: {
+      ...values,
+      [INVOICE_NUMBER_HEADER[direction]]: voucher.voucherNumber,
+      [INVOICE_DATE_HEADER]: templateDate(voucher.date),
+      [INVOICE_PARTY_HEADER]: party.ledgerName,
+      [INVOICE_TOTAL_HEADER]: roundToPaise(party.amount),
+      [INVOICE_NARRATION_HEADER]: voucher.narration || ''
+    },
+    slabs: usedSlabs,
+    taxHeads
+  };
+};
+
+/**
+ * Headings of an invoice sheet: the template's slabs plus any other slab
+ * used, then the tax heads used
+ */
+const invoiceHeaders = (direction: GstDirection, rows: InvoiceRow[]): string[] => {
+  const templateSlabs = TEMPLATE_SLAB_RATES.map(rate => ({ rate, cessRate: 0 }));
+  const sheetSlabs: Pick<GstSlab, 'rate' | 'cessRate'>[] = [...templateSlabs, ...rows.flatMap(row => row.slabs)]
+    .filter((slab, index, all) => all.findIndex(other => other.rate === slab.rate && other.cessRate === slab.cessRate) === index)
+    .sort((a, b) => a.rate - b.rate || a.cessRate - b.cessRate);
+  const taxHeads = (Object.keys(TAX_HEAD_HEADERS) as GstTaxHead[])
+    .filter(head => ALWAYS_SHOWN_TAX_HEADS.includes(head) || rows.some(row => row.taxHeads.includes(head)));
+
+  return [
+    INVOICE_NUMBER_HEADER[direction],
+    INVOICE_DATE_HEADER,
+    INVOICE_PARTY_HEADER,
+    ...sheetSlabs.map(slab => slabFieldLabel(SLAB_PREFIX[direction], slab)),
+    ...taxHeads.map(head => TAX_HEAD_HEADERS[head]),
+    INVOICE_TOTAL_HEADER,
+    INVOICE_NARRATION_HEADER
+  ];
+};
+
+const journalRow = (voucher: TallyVoucherXml): TemplateRow | string => {
+  const debit = voucher.ledgerEntries.filter(entry => entry.side === 'Dr');
+  const credit = voucher.ledgerEntries.filter(entry => entry.side === 'Cr');
+  if (debit.length !== 1 || credit.length !== 1 || (voucher.inventoryEntries || []).length > 0) {
+    return 'The journal layout holds one Debit and one Credit ledger';
+  }
+
+  const { centres, category } = costCentreCells(debit[0].extra);
+  return columnRow(MAPPING_FIELDS.journal, {
+    date: templateDate(voucher.date),
+    voucher_no: voucher.voucherNumber,
+    dr_ledger: debit[0].ledgerName,
+    cr_ledger: credit[0].ledgerName,
+    amount: roundToPaise(debit[0].amount),
+    cost_centre: centres,
+    cost_category: category,
+    narration: voucher.narration || ''
+  });
+};
+
+const bankRow = (voucher: TallyVoucherXml, isCashOrBank: CashBankCheck): { ledger: string; row: TemplateRow } | string => {
+  const entries = voucher.ledgerEntries;
+  if (entries.length !== 2 || entries[0].side === entries[1].side || (voucher.inventoryEntries || []).length > 0) {
+    return 'The Bank layout holds one cash or bank ledger and one other ledger';
+  }
+
+  // Ledgers Tally does not know about are taken by name
+  const cashOrBank = (name: string): boolean => isCashOrBank(name) ?? /\b(bank|cash)\b/i.test(name);
+  const [first, second] = entries.map(entry => cashOrBank(entry.ledgerName));
+  if (!first && !second) return 'Neither ledger is a cash or bank ledger';
+
+  // Contra vouchers move money between two such ledgers; the sheet is the one it leaves
+  const bankIndex = first && second ? entries.findIndex(entry => entry.side === 'Cr') : first ? 0 : 1;
+  const bank = entries[bankIndex];
+  const other = entries[1 - bankIndex];
+  const amount = roundToPaise(bank.amount);
+
+  return {
+    ledger: bank.ledgerName,
+    row: {
+      'Date*': templateDate(voucher.date),
+      'Vch Type*': voucher.voucherType,
+      'Narration': voucher.narration || '',
+      'Cheque No.': voucher.reference || '',
+      'Ledger*': other.ledgerName,
+      'DR/CR': '',
+      'Single Amount': '',
+      'Withdrawal*': bank.side === 'Cr' ? amount : '',
+      'Deposit*': bank.side === 'Dr' ? amount : ''
+    }
+  };
+};
+
+// Excel sheet names: at most 31 characters, none of []:*?/\ and unique
+const uniqueSheetName = (name: string, taken: Set<string>): string => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let candidate = base;
+  for (let copy = 2; taken.has(candidate.toLowerCase()); copy++) {
+    candidate = `${base.slice(0, 31 - String(copy).length - 1)} ${copy}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Lay out vouchers in the import templates, one sheet per voucher type and,
+ * for the Bank layout, per cash or bank ledger
+ */
+export const vouchersToTemplates = (
+  vouchers: TallyVoucherXml[],
+  isCashOrBank: CashBankCheck = () => null,
+  slabs: GstSlab[] = getActiveSlabs()
+): TemplateExport => {
+  const skipped: SkippedVoucher[] = [];
+  const skip = (voucher: TallyVoucherXml, reason: string) => skipped.push({
+    voucherType: voucher.voucherType,
+    voucherNumber: voucher.voucherNumber,
+    date: templateDate(voucher.date),
+    reason
+  });
+
+  // Sheets in the order their first voucher appears
+  const invoiceSheets = new Map<string, { direction: GstDirection; rows: InvoiceRow[] }>();
+  const otherSheets = new Map<string, { headers: string[]; rows: TemplateRow[] }>();
+  const order: string[] = [];
+  const sheetFor = <T>(sheets: Map<string, T>, key: string, create: () => T): T => {
+    if (!sheets.has(key)) {
+      sheets.set(key, create());
+      order.push(key);
+    }
+    return sheets.get(key) as T;
+  };
+
+  for (const voucher of vouchers) {
+    const layout = layoutFor(voucher);
+    if (!layout) {
+      skip(voucher, `No template holds ${voucher.voucherType} vouchers`);
+      continue;
+    }
+
+    if (layout.kind === 'invoice') {
+      const row = invoiceRow(voucher, layout.direction, slabs);
+      if (typeof row === 'string') skip(voucher, row);
+      else sheetFor(invoiceSheets, voucher.voucherType, () => ({ direction: layout.direction, rows: [] as InvoiceRow[] })).rows.push(row);
+    } else if (layout.kind === 'journal') {
+      const row = journalRow(voucher);
+      const headers = MAPPING_FIELDS.journal.map(column => column.name);
+      if (typeof row === 'string') skip(voucher, row);
+      else sheetFor(otherSheets, `${voucher.voucherType} (Dr-Cr)`, () => ({ headers, rows: [] as TemplateRow[] })).rows.push(row);
+    } else {
+      const result = bankRow(voucher, isCashOrBank);
+      if (typeof result === 'string') skip(voucher, result);
+      else sheetFor(otherSheets, result.ledger, () => ({ headers: BANK_TEMPLATE_HEADERS, rows: [] as TemplateRow[] })).rows.push(result.row);
+    }
+  }
+
+  const taken = new Set<string>();
+  const sheets = order.map(key => {
+    const invoices = invoiceSheets.get(key);
+    if (invoices) {
+      const headers = invoiceHeaders(invoices.direction, invoices.rows);
+      return { name: uniqueSheetName(key, taken), rows: invoices.rows.map(row => orderedRow(headers, row.values)) };
+    }
+    const sheet = otherSheets.get(key) as { headers: string[]; rows: TemplateRow[] };
+    return { name: uniqueSheetName(key, taken), rows: sheet.rows.map(row => orderedRow(sheet.headers, row)) };
+  });
+
+  return { sheets, skipped };
+};
+
+/**
+ * Cash and bank check from the company's ledgers and groups
+ */
+export const cashBankCheck = (ledgers: TallyLedger[], groups: TallyGroup[]): CashBankCheck => {
+  const parents = new Map(ledgers.map(ledger => [ledger.name.toLowerCase(), ledger.parent]));
+  return (name: string) => {
+    const parent = parents.get(name.toLowerCase());
+    return parent === undefined ? null : isCashOrBankGroup(parent, groups);
+  };
+};
+
+// ===== MASTERS =====
+
+/**
+ * Ledgers in the ledger template's columns. Tally exports debit opening
+ * balances as negative amounts.
+ */
+export const ledgerTemplateRows = (ledgers: TallyLedger[]): TemplateRow[] =>
+  ledgers.map(ledger => columnRow(MAPPING_FIELDS.ledger, {
+    name: ledger.name,
+    alias: ledger.alias,
+    group: ledger.parent,
+    gstin: ledger.ledgerContact?.gstin,
+    state: ledger.ledgerContact?.state,
+    pincode: ledger.ledgerContact?.pincode,
+    pan: ledger.ledgerContact?.pan,
+    email: ledger.ledgerContact?.email,
+    address: ledger.ledgerContact?.address?.replace(/\n/g, ', '),
+    phone: ledger.ledgerContact?.phone,
+    opening_balance: ledger.openingBalance ? roundToPaise(Math.abs(ledger.openingBalance)) : '',
+    dr_cr: ledger.openingBalance ? (ledger.openingBalance < 0 ? 'Dr' : 'Cr') : ''
+  }));
+
+/**
+ * Stock items in the stock item template's columns
+ */
+export const stockItemTemplateRows = (items: TallyStockItem[]): TemplateRow[] =>
+  items.map(item => {
+    const quantity = Math.abs(item.openingBalance);
+    const value = Math.abs(item.openingValue);
+    return columnRow(MAPPING_FIELDS.stock, {
+      name: item.name,
+      alias: item.alias,
+      group: item.parent,
+      category: item.category,
+      unit: item.baseUnits,
+      opening_quantity: quantity || '',
+      opening_rate: quantity && value ? roundToPaise(value / quantity) : '',
+      opening_value: value ? roundToPaise(value) : ''
+    });
+  });
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { amendVoucher, voucherToGridRow } from './voucherAmendment';
+import { el, type TallyVoucherXml, type XmlChild } from './tallyXml';
+
+const payment = (bankExtra?: XmlChild[]): TallyVoucherXml => ({
+  voucherType: 'Payment',
+  date: '20240420',
+  voucherNumber: '12',
+  guid: 'guid-12',
+  ledgerEntries: [
+    { ledgerName: 'Office Rent', side: 'Dr', amount: 5000 },
+    { ledgerName: 'HDFC Bank', side: 'Cr', amount: 5000, extra: bankExtra }
+  ]
+});
+
+const editAmount = (voucher: TallyVoucherXml, amount: number) => {
+  const original = voucherToGridRow(voucher);
+  return amendVoucher(voucher, original, { ...original, amount });
+};
+
+describe('amendVoucher', () => {
+  it('changes both amounts of a plain two-ledger voucher', () => {
+    const amendment = editAmount(payment(), 5500);
+
+    expect(amendment.error).toBeUndefined();
+    expect(amendment.voucher?.ledgerEntries.map(entry => entry.amount)).toEqual([5500, 5500]);
+    expect(amendment.voucher).toMatchObject({ action: 'Alter', remoteId: 'guid-12' });
+  });
+
+  it('refuses an amount change when a bank allocation carries the old amount', () => {
+    const bank = el('BANKALLOCATIONS.LIST', null,
+      el('INSTRUMENTNUMBER', null, '004512'),
+      el('AMOUNT', null, '5000.00')
+    );
+
+    expect(editAmount(payment([bank]), 5500)).toMatchObject({ voucher: null, error: expect.stringContaining('bank') });
+  });
+
+  it('refuses an amount change when a nested cost centre allocation carries the old amount', () => {
+    const costCentre = el('CATEGORYALLOCATIONS.LIST', null,
+      el('CATEGORY', null, 'Primary Cost Category'),
+      el('COSTCENTREALLOCATIONS.LIST', null, el('NAME', null, 'Head Office'), el('AMOUNT', null, '5000.00'))
+    );
+
+    expect(editAmount(payment([costCentre]), 5500).voucher).toBeNull();
+  });
+
+  it('allows an amount change next to details without an amount', () => {
+    expect(editAmount(payment([el('GSTCLASS', null, 'Not Applicable')]), 5500).error).toBeUndefined();
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Voucher Amendment
+ *
+ * Turns vouchers read from Tally's day book into editable grid rows, and
+ * edited rows back into vouchers that alter the originals in Tally. An
+ * edit is only applied where it cannot unbalance the voucher or its
+ * bill-wise and cost centre details; other edits are refused with the
+ * reason. Altered vouchers are matched in Tally by REMOTEID and GUID, so a
+ * changed date or voucher number still alters the same voucher.
+ *
+ * @module voucherAmendment
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import type { EntrySide, TallyLedgerEntryXml, TallyVoucherXml, XmlChild } from './tallyXml';
+import { roundToPaise } from './gst';
+
+// ===== TYPES =====
+
+/**
+ * One voucher as a grid row. Ledger columns list every ledger on that
+ * side; the date is YYYY-MM-DD, as a date input edits it.
+ */
+export interface VoucherGridRow {
+  [field: string]: unknown;
+  key: string;
+  date: string;
+  voucherType: string;
+  voucherNumber: string;
+  reference: string;
+  drLedger: string;
+  crLedger: string;
+  amount: number;
+  narration: string;
+}
+
+export type VoucherGridField = 'date' | 'voucherNumber' | 'reference' | 'drLedger' | 'crLedger' | 'amount' | 'narration';
+
+/**
+ * A field of a voucher changed in the grid
+ */
+export interface VoucherFieldChange {
+  field: VoucherGridField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * The edits made to one voucher and the voucher that applies them, or the
+ * reason they cannot be applied
+ */
+export interface VoucherAmendment {
+  key: string;
+  voucherType: string;
+  voucherNumber: string;
+  changes: VoucherFieldChange[];
+  voucher: TallyVoucherXml | null;
+  error?: string;
+}
+
+// ===== GRID ROWS =====
+
+/**
+ * Editable fields of a voucher row, in grid order
+ */
+export const VOUCHER_GRID_FIELDS: { field: VoucherGridField; label: string }[] = [
+  { field: 'date', label: 'Date' },
+  { field: 'voucherNumber', label: 'Voucher No' },
+  { field: 'reference', label: 'Reference' },
+  { field: 'drLedger', label: 'Dr Ledger' },
+  { field: 'crLedger', label: 'Cr Ledger' },
+  { field: 'amount', label: 'Amount' },
+  { field: 'narration', label: 'Narration' }
+];
+
+/**
+ * Key a fetched voucher is tracked by: its GUID, else its remote ID
+ */
+export const voucherKey = (voucher: TallyVoucherXml): string =>
+  voucher.guid || voucher.remoteId || `${voucher.voucherType}|${voucher.date}|${voucher.voucherNumber}`;
+
+const sideLedgers = (voucher: TallyVoucherXml, side: EntrySide): TallyLedgerEntryXml[] =>
+  voucher.ledgerEntries.filter(entry => entry.side === side);
+
+/**
+ * Grid row for a voucher
+ */
+export const voucherToGridRow = (voucher: TallyVoucherXml): VoucherGridRow => {
+  const debit = roundToPaise(
+    [...voucher.ledgerEntries, ...(voucher.inventoryEntries || [])]
+      .filter(entry => entry.side === 'Dr')
+      .reduce((sum, entry) => sum + entry.amount, 0)
+  );
+
+  return {
+    key: voucherKey(voucher),
+    date: `${voucher.date.slice(0, 4)}-${voucher.date.slice(4, 6)}-${voucher.date.slice(6, 8)}`,
+    voucherType: voucher.voucherType,
+    voucherNumber: voucher.voucherNumber,
+    reference: voucher.reference || '',
+    drLedger: sideLedgers(voucher, 'Dr').map(entry => entry.ledgerName).join('; '),
+    crLedger: sideLedgers(voucher, 'Cr').map(entry => entry.ledgerName).join('; '),
+    amount: debit,
+    narration: voucher.narration || ''
+  };
+};
+
+const cellText = (value: unknown): string => String(value ?? '').trim();
+
+/**
+ * Fields of a row that differ from the row as fetched
+ */
+export const changedFields = (original: VoucherGridRow, row: VoucherGridRow): VoucherFieldChange[] =>
+  VOUCHER_GRID_FIELDS
+    .filter(({ field }) =>
+      field === 'amount'
+        ? Math.abs(Number(row.amount) - Number(original.amount)) > 0.005 || cellText(row.amount) === ''
+        : cellText(row[field]) !== cellText(original[field])
+    )
+    .map(({ field, label }) => ({ field, label, before: cellText(original[field]), after: cellText(row[field]) }));
+
+// ===== AMENDMENT =====
+
+// Bill-wise, bank, cost centre and any other details with an AMOUNT of their own
+const hasAllocations = (extra: XmlChild[] | undefined): boolean =>
+  (extra || []).some(child =>
+    typeof child === 'object' && child !== null && (child.name === 'AMOUNT' || hasAllocations(child.children))
+  );
+
+const isValidDate = (value: string): boolean => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 && date.getDate() === Number(match[3]);
+};
+
+/**
+ * Apply a row's edits to the voucher it was fetched from, as an Alter of
+ * that voucher
+ */
+export const amendVoucher = (voucher: TallyVoucherXml, original: VoucherGridRow, row: VoucherGridRow): VoucherAmendment => {
+  const changes = changedFields(original, row);
+  const amendment = { key: original.key, voucherType: voucher.voucherType, voucherNumber: voucher.voucherNumber, changes };
+  const refuse = (error: string): VoucherAmendment => ({ ...amendment, voucher: null, error });
+  if (changes.length === 0) return { ...amendment, voucher: null };
+
+  const altered: TallyVoucherXml = {
+    ...voucher,
+    action: 'Alter',
+    remoteId: voucher.remoteId || voucher.guid,
+    ledgerEntries: voucher.ledgerEntries.map(entry => ({ ...entry }))
+  };
+
+  for (const change of changes) {
+    switch (change.field) {
+      case 'date':
+        if (!isValidDate(change.after)) return refuse(`Date "${change.after}" is not a valid date`);
+        altered.date = change.after.replace(/-/g, '');
+        break;
+      case 'voucherNumber':
+        altered.voucherNumber = change.after;
+        break;
+      case 'reference':
+        altered.reference = change.after || undefined;
+        break;
+      case 'narration':
+        altered.narration = change.after || undefined;
+        break;
+      case 'drLedger':
+      case 'crLedger': {
+        const side: EntrySide = change.field === 'drLedger' ? 'Dr' : 'Cr';
+        const entries = sideLedgers(altered, side);
+        const hasItems = (voucher.inventoryEntries || []).some(entry => entry.side === side);
+        if (entries.length !== 1 || hasItems) {
+          return refuse(`${change.label} can only be changed on a voucher with a single ${side} ledger; change it in Tally`);
+        }
+        if (!change.after) return refuse(`${change.label} cannot be empty`);
+        if (voucher.partyLedgerName === entries[0].ledgerName) altered.partyLedgerName = change.after;
+        entries[0].ledgerName = change.after;
+        break;
+      }
+      case 'amount': {
+        const amount = roundToPaise(Number(change.after));
+        if (!change.after || !Number.isFinite(amount) || amount <= 0) {
+          return refuse(`Amount "${change.after}" must be a positive number`);
+        }
+        const simple = altered.ledgerEntries.length === 2
+          && sideLedgers(altered, 'Dr').length === 1
+          && (voucher.inventoryEntries || []).length === 0
+          && !altered.ledgerEntries.some(entry => hasAllocations(entry.extra));
+        if (!simple) {
+          return refuse('Amount can only be changed on a voucher with one Dr and one Cr ledger and no bill-wise, bank or cost centre details; change it in Tally');
+        }
+        altered.ledgerEntries.forEach(entry => {
+          entry.amount = amount;
+        });
+        break;
+      }
+    }
+  }
+
+  return { ...amendment, voucher: altered };
+};
+
+/**
+ * Amendments for every row edited since the vouchers were fetched
+ */
+export const buildAmendments = (
+  vouchers: TallyVoucherXml[],
+  originals: VoucherGridRow[],
+  rows: VoucherGridRow[]
+): VoucherAmendment[] => {
+  const byKey = new Map(vouchers.map(voucher => [voucherKey(voucher), voucher]));
+  const originalByKey = new Map(originals.map(row => [row.key, row]));
+
+  return rows.flatMap(row => {
+    const voucher = byKey.get(row.key);
+    const original = originalByKey.get(row.key);
+    if (!voucher || !original) return [];
+    const amendment = amendVoucher(voucher, original, row);
+    return amendment.changes.length > 0 ? [amendment] : [];
+  });
+};
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { assignVoucherIdentities, deriveVoucherIdentity, findDuplicateVouchers, recordPushedVouchers } from './voucherIdentity';
+import { buildVoucherEnvelope, type TallyVoucherXml } from './tallyXml';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value)
+});
+
+const sale = (voucherNumber: string): TallyVoucherXml => ({
+  voucherType: 'Sales',
+  date: '20240415',
+  voucherNumber,
+  ledgerEntries: [
+    { ledgerName: 'Shah & Sons (Pune)', side: 'Dr', amount: 1180, isPartyLedger: true },
+    { ledgerName: 'Sales @ 18%', side: 'Cr', amount: 1180 }
+  ]
+});
+
+const purchase = (supplier: string, billNumber: string): TallyVoucherXml => ({
+  voucherType: 'Purchase',
+  date: '20240415',
+  voucherNumber: billNumber,
+  partyLedgerName: supplier,
+  ledgerEntries: [
+    { ledgerName: supplier, side: 'Cr', amount: 1180, isPartyLedger: true },
+    { ledgerName: 'Purchase @ 18%', side: 'Dr', amount: 1180 }
+  ]
+});
+
+describe('assignVoucherIdentities', () => {
+  beforeEach(() => storage.clear());
+
+  it('gives a numbered voucher the same GUID and REMOTEID on every import', () => {
+    const expected = deriveVoucherIdentity({ company: 'Demo', voucherType: 'Sales', voucherNumber: 'SI/1', date: '20240415' });
+    const { vouchers, identities } = assignVoucherIdentities([sale('SI/1')], 'Demo');
+
+    expect(identities).toEqual([expected]);
+    expect(vouchers[0]).toMatchObject({ guid: expected.guid, remoteId: expected.guid, action: 'Create' });
+    expect(vouchers[0].vchKey).toBeUndefined();
+  });
+
+  it('alters a voucher that was already pushed', () => {
+    recordPushedVouchers(assignVoucherIdentities([sale('SI/1')], 'Demo').identities.filter(identity => identity !== undefined));
+
+    expect(assignVoucherIdentities([sale('SI/1')], 'Demo').vouchers[0].action).toBe('Alter');
+  });
+
+  it('leaves a voucher without a number to Tally', () => {
+    const { vouchers, identities } = assignVoucherIdentities([sale(''), sale('SI/2')], 'Demo');
+
+    expect(identities[0]).toBeUndefined();
+    expect(identities[1]?.voucherNumber).toBe('SI/2');
+    expect(vouchers[0].action).toBe('Create');
+    expect(vouchers[0].guid).toBeUndefined();
+
+    const xml = buildVoucherEnvelope([vouchers[0]]);
+    expect(xml).not.toContain('<VOUCHERNUMBER>');
+    expect(xml).not.toContain('REMOTEID=');
+  });
+
+  it('tells apart two suppliers sending the same bill number on the same day', () => {
+    const { vouchers, identities, rejected } = assignVoucherIdentities(
+      [purchase('Shah & Sons (Pune)', '1'), purchase('Mehta Traders', '1')],
+      'Demo'
+    );
+
+    expect(rejected).toEqual([]);
+    expect(identities[0]?.guid).not.toBe(identities[1]?.guid);
+    expect(identities.map(identity => identity?.party)).toEqual(['Shah & Sons (Pune)', 'Mehta Traders']);
+    expect(vouchers.map(voucher => voucher.action)).toEqual(['Create', 'Create']);
+  });
+
+  it('does not alter one supplier\'s bill when another supplier\'s bill has the same number', () => {
+    recordPushedVouchers(
+      assignVoucherIdentities([purchase('Shah & Sons (Pune)', '1')], 'Demo').identities.filter(identity => identity !== undefined)
+    );
+
+    expect(assignVoucherIdentities([purchase('Mehta Traders', '1')], 'Demo').vouchers[0].action).toBe('Create');
+    expect(assignVoucherIdentities([purchase('Shah & Sons (Pune)', '1')], 'Demo').vouchers[0].action).toBe('Alter');
+  });
+
+  it('rejects vouchers of one batch that share an identity', () => {
+    const duplicates = [sale('SI/3'), { ...sale('SI/3'), partyLedgerName: 'Mehta Traders' }];
+    const { vouchers, identities, rejected } = assignVoucherIdentities([sale('SI/2'), ...duplicates], 'Demo');
+
+    expect(rejected).toEqual(duplicates);
+    expect(vouchers.map(voucher => voucher.voucherNumber)).toEqual(['SI/2']);
+    expect(identities).toHaveLength(1);
+    expect(findDuplicateVouchers([sale('SI/2'), ...duplicates], 'Demo')).toEqual(duplicates);
+  });
+});
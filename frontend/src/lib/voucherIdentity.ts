@@ -0,0 +1,255 @@
+/**
+ * Voucher Identity
+ *
+ * Deterministic GUIDs and REMOTEIDs for generated vouchers, derived from
+ * company, voucher type, voucher number and date, plus a local ledger of
+ * vouchers already pushed to Tally. Re-importing a corrected sheet then
+ * alters the existing vouchers instead of creating duplicates.
+ *
+ * @module voucherIdentity
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import type { TallyVoucherXml } from './tallyXml';
+
+// ===== TYPES =====
+
+/**
+ * Stable identifiers of one voucher
+ */
+export interface VoucherIdentity {
+  /** Normalised company|type|number|date key */
+  key: string;
+  guid: string;
+  remoteId: string;
+  company: string;
+  voucherType: string;
+  voucherNumber: string;
+  date: string;
+  /** Party ledger, for vouchers numbered by the counterparty */
+  party?: string;
+}
+
+/**
+ * A voucher recorded in the pushed-voucher ledger
+ */
+export interface PushedVoucherRecord extends VoucherIdentity {
+  firstPushedAt: string;
+  lastPushedAt: string;
+  pushCount: number;
+}
+
+// ===== IDENTIFIERS =====
+
+const PUSHED_VOUCHERS_STORAGE_KEY = 'tallysync_pushed_vouchers';
+const TALLY_CONFIG_STORAGE_KEY = 'tallyConfig';
+
+/**
+ * 32-bit FNV-1a hash of a string with a seed, as 8 hex digits
+ */
+const fnv1a = (input: string, seed: number): string => {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+/**
+ * GUID-formatted 128-bit hash of a key; the same key always gives the same GUID
+ */
+export const stableGuid = (key: string): string => {
+  const hex = [fnv1a(key, 1), fnv1a(key, 2), fnv1a(key, 3), fnv1a(key, 4)].join('');
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20, 32)]
+    .join('-')
+    .toUpperCase();
+};
+
+/**
+ * Company selected in the Tally configuration, if any
+ */
+export const currentCompanyName = (): string => {
+  try {
+    const stored = localStorage.getItem(TALLY_CONFIG_STORAGE_KEY);
+    return stored ? JSON.parse(stored).company || '' : '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Normalised identity key of a voucher. The party is part of the key only
+ * when it is given.
+ */
+export const voucherIdentityKey = (params: {
+  company: string;
+  voucherType: string;
+  voucherNumber: string;
+  date: string;
+  party?: string;
+}): string =>
+  [params.company, params.voucherType, params.voucherNumber, params.date, ...(params.party ? [params.party] : [])]
+    .map(part => String(part || '').trim().toLowerCase().replace(/\s+/g, ' '))
+    .join('|');
+
+/**
+ * Deterministic identifiers for a voucher. The same inputs always give
+ * the same GUID and REMOTEID.
+ */
+export const deriveVoucherIdentity = (params: {
+  company: string;
+  voucherType: string;
+  voucherNumber: string;
+  date: string;
+  party?: string;
+}): VoucherIdentity => {
+  const key = voucherIdentityKey(params);
+  const guid = stableGuid(key);
+
+  return {
+    key,
+    guid,
+    remoteId: guid,
+    company: params.company,
+    voucherType: params.voucherType,
+    voucherNumber: params.voucherNumber,
+    date: params.date,
+    ...(params.party ? { party: params.party } : {})
+  };
+};
+
+// Purchases and debit notes carry the supplier's bill number, which two
+// suppliers can share
+const COUNTERPARTY_NUMBERED_TYPES = new Set(['purchase', 'debit note']);
+
+/**
+ * Identity of a generated voucher, or undefined when it has no number
+ */
+const identityOf = (voucher: TallyVoucherXml, company: string): VoucherIdentity | undefined =>
+  voucher.voucherNumber.trim()
+    ? deriveVoucherIdentity({
+        company,
+        voucherType: voucher.voucherType,
+        voucherNumber: voucher.voucherNumber,
+        date: voucher.date,
+        party: COUNTERPARTY_NUMBERED_TYPES.has(voucher.voucherType.trim().toLowerCase())
+          ? voucher.partyLedgerName
+          : undefined
+      })
+    : undefined;
+
+/**
+ * Vouchers that share their identity with another voucher of the batch.
+ * They would get the same GUID, so none of them can be sent.
+ */
+export const findDuplicateVouchers = (
+  vouchers: TallyVoucherXml[],
+  company: string = currentCompanyName()
+): TallyVoucherXml[] => {
+  const keys = vouchers.map(voucher => identityOf(voucher, company)?.key);
+  return vouchers.filter((_voucher, index) =>
+    keys[index] !== undefined && keys.indexOf(keys[index]) !== keys.lastIndexOf(keys[index])
+  );
+};
+
+// ===== PUSHED VOUCHER LEDGER =====
+
+/**
+ * All vouchers pushed to Tally from this machine, keyed by identity key
+ */
+export const loadPushedVouchers = (): Record<string, PushedVoucherRecord> => {
+  try {
+    const stored = localStorage.getItem(PUSHED_VOUCHERS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Failed to load pushed voucher ledger:', error);
+    return {};
+  }
+};
+
+const savePushedVouchers = (ledger: Record<string, PushedVoucherRecord>): void => {
+  try {
+    localStorage.setItem(PUSHED_VOUCHERS_STORAGE_KEY, JSON.stringify(ledger));
+  } catch (error) {
+    console.error('Failed to save pushed voucher ledger:', error);
+  }
+};
+
+/**
+ * Whether a voucher with this identity was already pushed
+ */
+export const isVoucherPushed = (key: string): boolean => key in loadPushedVouchers();
+
+/**
+ * Record vouchers that Tally accepted
+ */
+export const recordPushedVouchers = (identities: VoucherIdentity[]): void => {
+  if (identities.length === 0) return;
+
+  const ledger = loadPushedVouchers();
+  const now = new Date().toISOString();
+
+  identities.forEach(identity => {
+    const existing = ledger[identity.key];
+    ledger[identity.key] = {
+      ...identity,
+      firstPushedAt: existing?.firstPushedAt || now,
+      lastPushedAt: now,
+      pushCount: (existing?.pushCount || 0) + 1
+    };
+  });
+
+  savePushedVouchers(ledger);
+};
+
+/**
+ * Drop a voucher from the ledger, e.g. after it was deleted in Tally
+ */
+export const forgetPushedVoucher = (key: string): void => {
+  const ledger = loadPushedVouchers();
+  delete ledger[key];
+  savePushedVouchers(ledger);
+};
+
+/**
+ * Empty the ledger, e.g. when switching to a fresh company
+ */
+export const clearPushedVouchers = (): void => {
+  savePushedVouchers({});
+};
+
+/**
+ * Stamp vouchers with their stable identifiers. Vouchers already in the
+ * pushed-voucher ledger are sent with ACTION="Alter", new ones with
+ * ACTION="Create". A voucher without a number gets no identity: it is
+ * created under a number Tally assigns and cannot be matched again.
+ * Vouchers sharing an identity are left out and returned as rejected.
+ * Identities are returned in the same order as the vouchers kept.
+ */
+export const assignVoucherIdentities = (
+  vouchers: TallyVoucherXml[],
+  company: string = currentCompanyName()
+): { vouchers: TallyVoucherXml[]; identities: (VoucherIdentity | undefined)[]; rejected: TallyVoucherXml[] } => {
+  const ledger = loadPushedVouchers();
+  const rejected = findDuplicateVouchers(vouchers, company);
+  const kept = vouchers.filter(voucher => !rejected.includes(voucher));
+  const identities = kept.map(voucher => identityOf(voucher, company));
+
+  return {
+    identities,
+    rejected,
+    vouchers: kept.map((voucher, index) => {
+      const identity = identities[index];
+      if (!identity) return { ...voucher, action: 'Create' };
+
+      return {
+        ...voucher,
+        guid: identity.guid,
+        remoteId: identity.remoteId,
+        action: identity.key in ledger ? 'Alter' : 'Create'
+      };
+    })
+  };
+};
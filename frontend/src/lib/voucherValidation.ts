@@ -0,0 +1,92 @@
+/**
+ * Voucher Accounting Validation
+ *
+ * Checks that run on the generated voucher model before any XML is sent
+ * to Tally, so an unbalanced voucher is reported against its Excel row
+ * instead of failing the whole import batch.
+ *
+ * @module voucherValidation
+ * @author Digidenone
+ * @version 1.0.0
+ */
+
+import { voucherTotals, type TallyVoucherXml } from './tallyXml';
+
+// ===== TYPES =====
+
+/**
+ * A problem found on one spreadsheet row
+ */
+export interface VoucherIssue {
+  row: number;
+  field: string;
+  value: string | number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+// ===== CHECKS =====
+
+/**
+ * Differences up to one paisa are treated as rounding noise
+ */
+export const PAISE_TOLERANCE = 0.01;
+
+/**
+ * Differences below one rupee are posted to the round-off ledger
+ */
+export const ROUND_OFF_LIMIT = 1;
+
+/**
+ * Report a voucher whose debit and credit totals differ
+ */
+export const checkVoucherBalance = (
+  voucher: TallyVoucherXml,
+  row: number,
+  tolerance: number = PAISE_TOLERANCE
+): VoucherIssue | null => {
+  const { debit, credit } = voucherTotals(voucher);
+  const difference = Math.round((debit - credit) * 100) / 100;
+
+  if (Math.abs(difference) <= tolerance + Number.EPSILON) return null;
+
+  return {
+    row,
+    field: 'total',
+    value: difference.toFixed(2),
+    message: `Voucher ${voucher.voucherNumber} is not balanced: debit ${debit.toFixed(2)}, credit ${credit.toFixed(2)}`,
+    severity: 'error'
+  };
+};
+
+/**
+ * Report a TOTAL column that does not equal the slab amounts plus tax.
+ * Small differences are accepted with a warning and posted as round off.
+ */
+export const checkInvoiceTotal = (
+  params: { row: number; taxableAmount: number; taxTotal: number; total: number },
+  tolerance: number = PAISE_TOLERANCE
+): VoucherIssue | null => {
+  const expected = Math.round((params.taxableAmount + params.taxTotal) * 100) / 100;
+  const difference = Math.round((params.total - expected) * 100) / 100;
+
+  if (Math.abs(difference) <= tolerance + Number.EPSILON) return null;
+
+  if (Math.abs(difference) < ROUND_OFF_LIMIT) {
+    return {
+      row: params.row,
+      field: 'total',
+      value: params.total,
+      message: `TOTAL differs from slab amounts plus tax (${expected.toFixed(2)}) by ${difference.toFixed(2)}; the difference will be posted to Round Off`,
+      severity: 'warning'
+    };
+  }
+
+  return {
+    row: params.row,
+    field: 'total',
+    value: params.total,
+    message: `TOTAL does not equal slab amounts plus tax (${expected.toFixed(2)})`,
+    severity: 'error'
+  };
+};
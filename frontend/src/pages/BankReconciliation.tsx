@@ -0,0 +1,557 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, FileSpreadsheet, GitMerge, Landmark, Link2, Loader2, RefreshCw, Send, Unlink, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import AppLayout from '@/components/layout/AppLayout';
+import MobileWarning from '@/components/MobileWarning';
+import tallySyncService from '@/services/TallySyncService';
+import { getTallyService } from '@/services/TallyService';
+import tallyExportService from '@/services/TallyExportService';
+import { loadBankLedger, saveBankLedger, type BankTransaction } from '@/lib/bankStatement';
+import {
+  DEFAULT_MATCH_OPTIONS,
+  buildBankDateAlteration,
+  manualMatch,
+  matchStatementToBook,
+  toBookEntries,
+  type BookEntry,
+  type MatchKind,
+  type ReconciliationMatch
+} from '@/lib/bankReconciliation';
+import { DATE_CONVENTIONS, DEFAULT_DATE_CONVENTION, type DateConvention } from '@/lib/dateParsing';
+import { currentCompanyName } from '@/lib/voucherIdentity';
+
+const fadeInUpVariants = {
+  hidden: { opacity: 0, y: 20 },
+  visible: { opacity: 1, y: 0, transition: { duration: 0.3 } }
+};
+
+const MATCH_BADGES: Record<MatchKind, { label: string; className: string }> = {
+  instrument: { label: 'Instrument', className: 'bg-green-600' },
+  amount: { label: 'Amount & date', className: 'bg-green-500' },
+  split: { label: 'One-to-many', className: 'bg-amber-500' }
+};
+
+// YYYYMMDD as dd-mm-yyyy
+const displayDate = (date: string | null | undefined): string =>
+  date ? `${date.slice(6, 8)}-${date.slice(4, 6)}-${date.slice(0, 4)}` : '';
+
+const formatRupees = (amount: number): string =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Date input value (yyyy-mm-dd) <-> YYYYMMDD
+const fromInputDate = (value: string): string => value.replace(/-/g, '');
+const toInputDate = (date: string): string => `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+
+const BankReconciliation = () => {
+  const [bankLedger, setBankLedger] = useState(loadBankLedger);
+  const [dateConvention, setDateConvention] = useState<DateConvention>(DEFAULT_DATE_CONVENTION);
+  const [dateWindowDays, setDateWindowDays] = useState(DEFAULT_MATCH_OPTIONS.dateWindowDays);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const [statementLines, setStatementLines] = useState<BankTransaction[]>([]);
+  const [bookEntries, setBookEntries] = useState<BookEntry[]>([]);
+  const [matches, setMatches] = useState<ReconciliationMatch[]>([]);
+  const [selectedLines, setSelectedLines] = useState<Set<string>>(new Set());
+  const [selectedEntries, setSelectedEntries] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<'statement' | 'book' | 'write' | null>(null);
+
+  const linesById = useMemo(() => new Map(statementLines.map(line => [line.id, line])), [statementLines]);
+  const entriesById = useMemo(() => new Map(bookEntries.map(entry => [entry.id, entry])), [bookEntries]);
+
+  const matchedLineIds = new Set(matches.flatMap(match => match.statementIds));
+  const matchedEntryIds = new Set(matches.flatMap(match => match.bookIds));
+  const openLines = statementLines.filter(line => !matchedLineIds.has(line.id));
+  const openEntries = bookEntries.filter(entry => !entry.reconciled && !matchedEntryIds.has(entry.id));
+  const acceptedMatches = matches.filter(match => match.accepted);
+
+  const runMatching = (lines: BankTransaction[], entries: BookEntry[], windowDays = dateWindowDays) => {
+    setMatches(lines.length > 0 && entries.length > 0 ? matchStatementToBook(lines, entries, { dateWindowDays: windowDays }) : []);
+    setSelectedLines(new Set());
+    setSelectedEntries(new Set());
+  };
+
+  const handleStatementFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setBusy('statement');
+    const result = await tallySyncService.parseBankStatementFile(file, dateConvention);
+    setBusy(null);
+    event.target.value = '';
+
+    if (!result.success || !result.statement) {
+      toast.error(result.message);
+      return;
+    }
+
+    const lines = result.statement.transactions;
+    const dates = lines.map(line => line.date).filter((date): date is string => Boolean(date)).sort();
+    if (dates.length > 0) {
+      setFromDate(toInputDate(dates[0]));
+      setToDate(toInputDate(dates[dates.length - 1]));
+    }
+
+    setStatementLines(lines);
+    runMatching(lines, bookEntries);
+    toast.success(result.message);
+  };
+
+  const handleFetchBankBook = async () => {
+    if (!bankLedger.trim() || !fromDate || !toDate) {
+      toast.error('Enter the bank ledger and the period to reconcile');
+      return;
+    }
+
+    setBusy('book');
+    try {
+      saveBankLedger(bankLedger.trim());
+      const rows = await getTallyService().getBankReconciliation(
+        bankLedger.trim(),
+        fromInputDate(fromDate),
+        fromInputDate(toDate),
+        currentCompanyName() || undefined
+      );
+      const entries = toBookEntries(rows);
+      setBookEntries(entries);
+      runMatching(statementLines, entries);
+      toast.success(`Fetched ${entries.length} bank book entries from Tally`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggle = (set: Set<string>, id: string): Set<string> => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  };
+
+  const handleManualMatch = () => {
+    const match = manualMatch(
+      [...selectedLines].map(id => linesById.get(id) as BankTransaction),
+      [...selectedEntries].map(id => entriesById.get(id) as BookEntry),
+      `manual-${Date.now()}`
+    );
+    if (!match) {
+      toast.error('The selected statement lines and book entries do not add up to the same amount');
+      return;
+    }
+
+    setMatches([...matches, match]);
+    setSelectedLines(new Set());
+    setSelectedEntries(new Set());
+  };
+
+  const setAccepted = (id: string, accepted: boolean) => {
+    setMatches(matches.map(match => (match.id === id ? { ...match, accepted } : match)));
+  };
+
+  const handleWriteBankDates = async (action: 'sync' | 'download') => {
+    if (acceptedMatches.length === 0) {
+      toast.error('No accepted matches to write back');
+      return;
+    }
+
+    const dates = acceptedMatches
+      .flatMap(match => match.bookIds)
+      .map(id => entriesById.get(id)?.tallyDate)
+      .filter((date): date is string => Boolean(date))
+      .sort();
+    if (dates.length === 0) {
+      toast.error('The matched book entries have no readable dates');
+      return;
+    }
+
+    setBusy('write');
+    try {
+      const company = currentCompanyName() || undefined;
+      const dayBook = await tallyExportService.getDayBook(dates[0], dates[dates.length - 1], company);
+      const alteration = buildBankDateAlteration(acceptedMatches, bookEntries, dayBook, bankLedger.trim(), company);
+      if (alteration.issues.length > 0) {
+        console.warn('Vouchers left out of the bank date alteration:', alteration.issues);
+        toast.warning(`${alteration.issues.length} voucher(s) could not be altered`, {
+          description: alteration.issues[0].message
+        });
+      }
+      if (!alteration.xml) return;
+
+      if (action === 'download') {
+        tallySyncService.downloadXMLFile(alteration.xml, `bank-reconciliation-${fromInputDate(toDate) || 'statement'}.xml`);
+        return;
+      }
+
+      const result = await tallySyncService.syncToTally(alteration.xml);
+      if (!result.success) {
+        toast.error(result.message);
+        return;
+      }
+
+      const reconciledIds = new Set(alteration.bookIds);
+      const bankDates = new Map(
+        acceptedMatches.flatMap(match => match.bookIds.map(id => [id, match.bankDate] as [string, string]))
+      );
+      setBookEntries(bookEntries.map(entry =>
+        reconciledIds.has(entry.id) ? { ...entry, reconciled: true, bankDate: bankDates.get(entry.id) } : entry
+      ));
+      setMatches(matches.filter(match => !match.accepted || !match.bookIds.every(id => reconciledIds.has(id))));
+      toast.success(`Bank date written to ${reconciledIds.size} voucher(s)`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the vouchers from Tally');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExportUnreconciled = () => {
+    tallySyncService.downloadExcelFile([
+      {
+        name: 'Not in Tally',
+        rows: openLines.map(line => ({
+          Row: line.rowNumber,
+          Date: displayDate(line.date),
+          Narration: line.narration,
+          Reference: line.reference,
+          Withdrawal: line.direction === 'withdrawal' ? line.amount : '',
+          Deposit: line.direction === 'deposit' ? line.amount : ''
+        }))
+      },
+      {
+        name: 'Not in Bank',
+        rows: openEntries.map(entry => ({
+          Date: displayDate(entry.tallyDate),
+          Particulars: entry.particular,
+          'Voucher Type': entry.voucherType,
+          'Voucher No': entry.voucherNumber,
+          'Instrument No': entry.instrumentNumber || '',
+          Withdrawal: entry.direction === 'withdrawal' ? entry.absoluteAmount : '',
+          Deposit: entry.direction === 'deposit' ? entry.absoluteAmount : ''
+        }))
+      }
+    ], `unreconciled-${bankLedger.trim() || 'bank'}-${fromInputDate(toDate)}.xlsx`);
+  };
+
+  const describeLines = (ids: string[]) => ids.map(id => linesById.get(id)).filter(Boolean) as BankTransaction[];
+  const describeEntries = (ids: string[]) => ids.map(id => entriesById.get(id)).filter(Boolean) as BookEntry[];
+
+  return (
+    <AppLayout>
+      <MobileWarning />
+      <div className="container-desktop-only spacing-desktop-section padding-desktop">
+        <motion.div
+          className="flex justify-between items-center gap-4 bg-gradient-to-r from-purple-light/10 via-teal-light/5 to-purple-light/10 p-5 rounded-xl border border-slate-200 dark:border-slate-700/30 shadow-md"
+          initial="hidden"
+          animate="visible"
+          variants={fadeInUpVariants}
+        >
+          <div className="space-y-1">
+            <h1 className="gradient-heading text-desktop-xl flex items-center gap-2">
+              <GitMerge className="h-6 w-6 text-purple-light" />
+              Bank Reconciliation
+            </h1>
+            <p className="text-slate-600 dark:text-slate-400 text-sm">
+              Match your bank statement with the bank book in Tally and write bank dates back
+            </p>
+          </div>
+        </motion.div>
+
+        <motion.div initial="hidden" animate="visible" variants={fadeInUpVariants}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Landmark className="h-5 w-5" />
+                <span>Statement and Bank Book</span>
+              </CardTitle>
+              <CardDescription>
+                Lines are matched on instrument number, then on amount within the date window. Several book entries settled by one
+                statement line (or the other way round) are suggested for review.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="reconBankLedger">Bank Ledger</Label>
+                  <Input
+                    id="reconBankLedger"
+                    value={bankLedger}
+                    placeholder="e.g. HDFC Bank A/c"
+                    onChange={(e) => setBankLedger(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="reconDateConvention">Statement Date Format</Label>
+                  <Select value={dateConvention} onValueChange={(value) => setDateConvention(value as DateConvention)}>
+                    <SelectTrigger id="reconDateConvention" className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DATE_CONVENTIONS.map(convention => (
+                        <SelectItem key={convention.value} value={convention.value}>{convention.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="reconStatementFile">Bank Statement</Label>
+                  <Input
+                    id="reconStatementFile"
+                    type="file"
+                    accept=".csv,.xlsx,.xls"
+                    disabled={busy !== null}
+                    onChange={handleStatementFile}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="reconFrom">From</Label>
+                  <Input id="reconFrom" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="reconTo">To</Label>
+                  <Input id="reconTo" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="reconWindow">Date Window (days)</Label>
+                  <Input
+                    id="reconWindow"
+                    type="number"
+                    min={0}
+                    value={dateWindowDays}
+                    onChange={(e) => setDateWindowDays(Math.max(0, Number(e.target.value) || 0))}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={handleFetchBankBook} disabled={busy !== null}>
+                  {busy === 'book' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                  Fetch Bank Book from Tally
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => runMatching(statementLines, bookEntries)}
+                  disabled={statementLines.length === 0 || bookEntries.length === 0}
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Match Again
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div className="rounded-lg border p-3">
+                  <p className="text-muted-foreground">Statement lines</p>
+                  <p className="text-xl font-semibold">{statementLines.length}</p>
+                </div>
+                <div className="rounded-lg border p-3">
+                  <p className="text-muted-foreground">Book entries</p>
+                  <p className="text-xl font-semibold">
+                    {bookEntries.length}
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      {bookEntries.filter(entry => entry.reconciled).length} reconciled
+                    </span>
+                  </p>
+                </div>
+                <div className="rounded-lg border p-3">
+                  <p className="text-muted-foreground">Matches</p>
+                  <p className="text-xl font-semibold">
+                    {acceptedMatches.length}
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      {matches.length - acceptedMatches.length} suggested
+                    </span>
+                  </p>
+                </div>
+                <div className="rounded-lg border p-3">
+                  <p className="text-muted-foreground">Unreconciled</p>
+                  <p className="text-xl font-semibold">{openLines.length + openEntries.length}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {matches.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Link2 className="h-5 w-5" />
+                <span>Matches</span>
+              </CardTitle>
+              <CardDescription>Accepted matches get the statement date as their bank date in Tally.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="overflow-x-auto max-h-[28rem] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">Accept</TableHead>
+                      <TableHead>Match</TableHead>
+                      <TableHead>Statement</TableHead>
+                      <TableHead>Tally</TableHead>
+                      <TableHead>Bank Date</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {matches.map(match => (
+                      <TableRow key={match.id}>
+                        <TableCell>
+                          <Checkbox checked={match.accepted} onCheckedChange={(checked) => setAccepted(match.id, checked === true)} />
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={MATCH_BADGES[match.kind].className}>{MATCH_BADGES[match.kind].label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {describeLines(match.statementIds).map(line => (
+                            <div key={line.id} className="max-w-[18rem] truncate" title={line.narration}>
+                              {displayDate(line.date)} · ₹{formatRupees(line.amount)} · {line.narration}
+                            </div>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {describeEntries(match.bookIds).map(entry => (
+                            <div key={entry.id}>
+                              {displayDate(entry.tallyDate)} · {entry.voucherType} {entry.voucherNumber} · ₹{formatRupees(entry.absoluteAmount)}
+                            </div>
+                          ))}
+                        </TableCell>
+                        <TableCell>{displayDate(match.bankDate)}</TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="sm" title="Unmatch" onClick={() => setMatches(matches.filter(item => item.id !== match.id))}>
+                            <Unlink className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={() => handleWriteBankDates('sync')} disabled={busy !== null || acceptedMatches.length === 0}>
+                  {busy === 'write' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                  Write Bank Dates to Tally
+                </Button>
+                <Button variant="outline" onClick={() => handleWriteBankDates('download')} disabled={busy !== null || acceptedMatches.length === 0}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Alter XML
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {(openLines.length > 0 || openEntries.length > 0) && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Unreconciled</span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleManualMatch}
+                    disabled={selectedLines.size === 0 || selectedEntries.size === 0}
+                  >
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Match Selected
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleExportUnreconciled}>
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Export to Excel
+                  </Button>
+                </div>
+              </CardTitle>
+              <CardDescription>Select statement lines and book entries with equal totals to match them by hand.</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+              <div className="overflow-x-auto max-h-[28rem] overflow-y-auto">
+                <h3 className="mb-2 text-sm font-medium">In statement, not in Tally ({openLines.length})</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Date</TableHead>
+                      <TableHead>Narration</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {openLines.map(line => (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedLines.has(line.id)}
+                            disabled={!line.date}
+                            onCheckedChange={() => setSelectedLines(toggle(selectedLines, line.id))}
+                          />
+                        </TableCell>
+                        <TableCell className={line.date ? '' : 'text-red-600'} title={line.dateError}>
+                          {line.date ? displayDate(line.date) : 'Invalid date'}
+                        </TableCell>
+                        <TableCell className="max-w-[16rem] truncate text-xs" title={line.narration}>{line.narration}</TableCell>
+                        <TableCell className={`text-right ${line.direction === 'withdrawal' ? 'text-red-600' : 'text-green-600'}`}>
+                          {line.direction === 'withdrawal' ? '-' : ''}{formatRupees(line.amount)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="overflow-x-auto max-h-[28rem] overflow-y-auto">
+                <h3 className="mb-2 text-sm font-medium">In Tally, not in statement ({openEntries.length})</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Date</TableHead>
+                      <TableHead>Voucher</TableHead>
+                      <TableHead>Particulars</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {openEntries.map(entry => (
+                      <TableRow key={entry.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedEntries.has(entry.id)}
+                            onCheckedChange={() => setSelectedEntries(toggle(selectedEntries, entry.id))}
+                          />
+                        </TableCell>
+                        <TableCell>{displayDate(entry.tallyDate)}</TableCell>
+                        <TableCell className="text-xs">
+                          {entry.voucherType} {entry.voucherNumber}
+                          {entry.instrumentNumber && <div className="text-muted-foreground">Chq {entry.instrumentNumber}</div>}
+                        </TableCell>
+                        <TableCell className="max-w-[12rem] truncate text-xs">{entry.particular}</TableCell>
+                        <TableCell className={`text-right ${entry.direction === 'withdrawal' ? 'text-red-600' : 'text-green-600'}`}>
+                          {entry.direction === 'withdrawal' ? '-' : ''}{formatRupees(entry.absoluteAmount)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default BankReconciliation;
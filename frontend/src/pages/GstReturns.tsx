@@ -0,0 +1,480 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, FileJson, FileSpreadsheet, Loader2, Receipt, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import AppLayout from '@/components/layout/AppLayout';
+import MobileWarning from '@/components/MobileWarning';
+import Gstr2bReconciliation from '@/components/data-entry/Gstr2bReconciliation';
+import tallySyncService from '@/services/TallySyncService';
+import { getTallyService, type TallyGSTDetails } from '@/services/TallyService';
+import {
+  buildGstr1,
+  buildGstr3b,
+  gstr1OfflineJson,
+  gstr3bOfflineJson,
+  gstReturnSheets,
+  returnPeriod,
+  rowPlaceOfSupply,
+  rowRate,
+  type GstAmounts
+} from '@/lib/gstReturns';
+import { loadGstConfig, stateNameForCode } from '@/lib/gst';
+import { currentCompanyName } from '@/lib/voucherIdentity';
+
+const fadeInUpVariants = {
+  hidden: { opacity: 0, y: 20 },
+  visible: { opacity: 1, y: 0, transition: { duration: 0.3 } }
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// YYYYMMDD as dd-mm-yyyy
+const displayDate = (date: string | null | undefined): string =>
+  date ? `${date.slice(6, 8)}-${date.slice(4, 6)}-${date.slice(0, 4)}` : '';
+
+const formatRupees = (amount: number): string =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const placeOfSupply = (code: string): string => (stateNameForCode(code) ? `${code} - ${stateNameForCode(code)}` : code);
+
+// Returns are usually filed for the month just closed
+const previousMonth = (): { month: string; year: string } => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return { month: String(date.getMonth() + 1).padStart(2, '0'), year: String(date.getFullYear()) };
+};
+
+interface SectionColumn<T> {
+  label: string;
+  value: (item: T) => React.ReactNode;
+  numeric?: boolean;
+}
+
+// Tax columns shared by every section
+const amountColumns = <T extends GstAmounts>(): SectionColumn<T>[] => [
+  { label: 'Taxable', value: item => formatRupees(item.taxable), numeric: true },
+  { label: 'IGST', value: item => formatRupees(item.igst), numeric: true },
+  { label: 'CGST', value: item => formatRupees(item.cgst), numeric: true },
+  { label: 'SGST', value: item => formatRupees(item.sgst), numeric: true },
+  { label: 'Cess', value: item => formatRupees(item.cess), numeric: true }
+];
+
+interface DrillDown {
+  title: string;
+  rows: TallyGSTDetails[];
+}
+
+/**
+ * Table of one return section; clicking a line lists the vouchers behind it
+ */
+const SectionTable = <T extends { rows: TallyGSTDetails[] }>({
+  title,
+  items,
+  columns,
+  describe,
+  onDrill
+}: {
+  title: string;
+  items: T[];
+  columns: SectionColumn<T>[];
+  describe: (item: T) => string;
+  onDrill: (drill: DrillDown) => void;
+}) => (
+  <div className="overflow-x-auto max-h-[24rem] overflow-y-auto">
+    <h3 className="mb-2 text-sm font-medium">{title} ({items.length})</h3>
+    {items.length === 0 ? (
+      <p className="text-sm text-muted-foreground">Nothing to report</p>
+    ) : (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {columns.map(column => (
+              <TableHead key={column.label} className={column.numeric ? 'text-right' : ''}>{column.label}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item, index) => (
+            <TableRow
+              key={index}
+              className="cursor-pointer"
+              title="Show vouchers"
+              onClick={() => onDrill({ title: describe(item), rows: item.rows })}
+            >
+              {columns.map(column => (
+                <TableCell key={column.label} className={column.numeric ? 'text-right' : 'text-xs'}>{column.value(item)}</TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    )}
+  </div>
+);
+
+const GstReturns = () => {
+  const [month, setMonth] = useState(() => previousMonth().month);
+  const [year, setYear] = useState(() => previousMonth().year);
+  const [rows, setRows] = useState<TallyGSTDetails[]>([]);
+  const [fetchedPeriod, setFetchedPeriod] = useState('');
+  const [drill, setDrill] = useState<DrillDown | null>(null);
+  const [busy, setBusy] = useState<'fetch' | null>(null);
+
+  const gstr1 = useMemo(() => buildGstr1(rows), [rows]);
+  const gstr3b = useMemo(() => buildGstr3b(rows), [rows]);
+  const companyGstin = loadGstConfig().companyGstin || '';
+
+  const years = useMemo(() => {
+    const current = new Date().getFullYear();
+    return [current, current - 1, current - 2, current - 3].map(String);
+  }, []);
+
+  const handleFetch = async () => {
+    setBusy('fetch');
+    try {
+      // GSTR-3B rows cover both outward and inward supplies
+      const fetched = await getTallyService().getGSTReport('GSTR3B', month, year, currentCompanyName() || undefined);
+      setRows(fetched);
+      setFetchedPeriod(returnPeriod(month, year));
+      toast.success(`Fetched ${fetched.length} GST rows from Tally`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDownloadJson = (report: 'gstr1' | 'gstr3b') => {
+    if (!companyGstin) {
+      toast.error('Set the company GSTIN in Settings before downloading the return');
+      return;
+    }
+    const json = report === 'gstr1'
+      ? gstr1OfflineJson(gstr1, companyGstin, fetchedPeriod)
+      : gstr3bOfflineJson(gstr3b, companyGstin, fetchedPeriod);
+    tallySyncService.downloadJSONFile(json, `${report.toUpperCase()}_${companyGstin}_${fetchedPeriod}.json`);
+  };
+
+  const handleExportExcel = () => {
+    tallySyncService.downloadExcelFile(gstReturnSheets(gstr1, gstr3b, rows), `GST-Returns-${fetchedPeriod}.xlsx`);
+  };
+
+  const documentColumns = <T extends { number: string; date: string; partyName: string; pos: string; rate: number; value: number } & GstAmounts>(
+  ): SectionColumn<T>[] => [
+    { label: 'Party', value: item => item.partyName },
+    { label: 'No', value: item => item.number },
+    { label: 'Date', value: item => displayDate(item.date) },
+    { label: 'Place of Supply', value: item => placeOfSupply(item.pos) },
+    { label: 'Value', value: item => formatRupees(item.value), numeric: true },
+    { label: 'Rate', value: item => `${item.rate}%`, numeric: true },
+    ...amountColumns<T>()
+  ];
+
+  return (
+    <AppLayout>
+      <MobileWarning />
+      <div className="container-desktop-only spacing-desktop-section padding-desktop">
+        <motion.div
+          className="flex justify-between items-center gap-4 bg-gradient-to-r from-purple-light/10 via-teal-light/5 to-purple-light/10 p-5 rounded-xl border border-slate-200 dark:border-slate-700/30 shadow-md"
+          initial="hidden"
+          animate="visible"
+          variants={fadeInUpVariants}
+        >
+          <div className="space-y-1">
+            <h1 className="gradient-heading text-desktop-xl flex items-center gap-2">
+              <Receipt className="h-6 w-6 text-purple-light" />
+              GST Returns
+            </h1>
+            <p className="text-slate-600 dark:text-slate-400 text-sm">
+              Prepare GSTR-1 and GSTR-3B from Tally for the GST offline tool, and reconcile purchases with GSTR-2B
+            </p>
+          </div>
+        </motion.div>
+
+        <motion.div initial="hidden" animate="visible" variants={fadeInUpVariants}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Receipt className="h-5 w-5" />
+                <span>Return Period</span>
+              </CardTitle>
+              <CardDescription>
+                Rows are read per voucher and rate. Click any line of a return to see the vouchers it is made of.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!companyGstin && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    No company GSTIN is set. Set it under Settings → GST Configuration to download the returns as JSON.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="gstMonth">Month</Label>
+                  <Select value={month} onValueChange={setMonth}>
+                    <SelectTrigger id="gstMonth" className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MONTHS.map((name, index) => (
+                        <SelectItem key={name} value={String(index + 1).padStart(2, '0')}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="gstYear">Year</Label>
+                  <Select value={year} onValueChange={setYear}>
+                    <SelectTrigger id="gstYear" className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {years.map(value => (
+                        <SelectItem key={value} value={value}>{value}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-end">
+                  <Button onClick={handleFetch} disabled={busy !== null} className="w-full">
+                    {busy === 'fetch' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                    Fetch from Tally
+                  </Button>
+                </div>
+              </div>
+
+              {fetchedPeriod && (
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" onClick={() => handleDownloadJson('gstr1')} disabled={rows.length === 0}>
+                    <FileJson className="h-4 w-4 mr-2" />
+                    Download GSTR-1 JSON
+                  </Button>
+                  <Button variant="outline" onClick={() => handleDownloadJson('gstr3b')} disabled={rows.length === 0}>
+                    <FileJson className="h-4 w-4 mr-2" />
+                    Download GSTR-3B JSON
+                  </Button>
+                  <Button variant="outline" onClick={handleExportExcel} disabled={rows.length === 0}>
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Export to Excel
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        <Tabs defaultValue="gstr1">
+          <TabsList>
+            <TabsTrigger value="gstr1">GSTR-1</TabsTrigger>
+            <TabsTrigger value="gstr3b">GSTR-3B</TabsTrigger>
+            <TabsTrigger value="gstr2b">GSTR-2B</TabsTrigger>
+          </TabsList>
+
+          {rows.length === 0 && ['gstr1', 'gstr3b'].map(tab => (
+            <TabsContent key={tab} value={tab}>
+              <p className="text-sm text-muted-foreground p-4">Fetch the period from Tally to prepare the return.</p>
+            </TabsContent>
+          ))}
+
+          {rows.length > 0 && (
+            <TabsContent value="gstr1">
+              <Card>
+                <CardHeader>
+                  <CardTitle>GSTR-1 Outward Supplies</CardTitle>
+                  <CardDescription>
+                    Credit and debit notes to unregistered persons are netted off B2CS; nil-rated supplies and exports only appear in
+                    the HSN summary.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {gstr1.issues.length > 0 && (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        <ul className="list-disc pl-4 text-sm">
+                          {gstr1.issues.map(issue => <li key={issue}>{issue}</li>)}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <SectionTable
+                    title="4A B2B Invoices"
+                    items={gstr1.b2b}
+                    columns={[{ label: 'GSTIN', value: item => item.gstin }, ...documentColumns()]}
+                    describe={item => `B2B invoice ${item.number} to ${item.partyName}`}
+                    onDrill={setDrill}
+                  />
+                  <SectionTable
+                    title="5 B2C Large Invoices"
+                    items={gstr1.b2cl}
+                    columns={documentColumns()}
+                    describe={item => `B2CL invoice ${item.number}`}
+                    onDrill={setDrill}
+                  />
+                  <SectionTable
+                    title="7 B2C Others"
+                    items={gstr1.b2cs}
+                    columns={[
+                      { label: 'Supply', value: item => (item.supplyType === 'inter' ? 'Inter-state' : 'Intra-state') },
+                      { label: 'Place of Supply', value: item => placeOfSupply(item.pos) },
+                      { label: 'Rate', value: item => `${item.rate}%`, numeric: true },
+                      ...amountColumns()
+                    ]}
+                    describe={item => `B2CS ${placeOfSupply(item.pos)} at ${item.rate}%`}
+                    onDrill={setDrill}
+                  />
+                  <SectionTable
+                    title="9B Credit/Debit Notes (Registered)"
+                    items={gstr1.cdnr}
+                    columns={[
+                      { label: 'GSTIN', value: item => item.gstin },
+                      { label: 'Type', value: item => (item.noteType === 'C' ? 'Credit' : 'Debit') },
+                      ...documentColumns()
+                    ]}
+                    describe={item => `${item.noteType === 'C' ? 'Credit' : 'Debit'} note ${item.number} to ${item.partyName}`}
+                    onDrill={setDrill}
+                  />
+                  <SectionTable
+                    title="12 HSN Summary"
+                    items={gstr1.hsn}
+                    columns={[
+                      { label: 'HSN/SAC', value: item => item.hsn || <span className="text-red-600">Not given</span> },
+                      { label: 'UQC', value: item => item.uqc },
+                      { label: 'Quantity', value: item => item.quantity, numeric: true },
+                      { label: 'Rate', value: item => `${item.rate}%`, numeric: true },
+                      ...amountColumns()
+                    ]}
+                    describe={item => `HSN ${item.hsn || '(not given)'} at ${item.rate}%`}
+                    onDrill={setDrill}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {rows.length > 0 && (
+            <TabsContent value="gstr3b">
+              <Card>
+                <CardHeader>
+                  <CardTitle>GSTR-3B Summary</CardTitle>
+                  <CardDescription>
+                    Tax payable is shown per head before ITC is set off across heads; the portal works out the final set-off.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <SectionTable
+                    title="3.1 and 4 Supplies and ITC"
+                    items={gstr3b.lines}
+                    columns={[
+                      { label: 'Table', value: item => item.section },
+                      { label: 'Nature of Supplies', value: item => item.label },
+                      ...amountColumns()
+                    ]}
+                    describe={item => `${item.section} ${item.label}`}
+                    onDrill={setDrill}
+                  />
+                  <SectionTable
+                    title="3.2 Inter-state Supplies to Unregistered Persons"
+                    items={gstr3b.interStateUnregistered}
+                    columns={[
+                      { label: 'Place of Supply', value: item => placeOfSupply(item.pos) },
+                      { label: 'Taxable', value: item => formatRupees(item.taxable), numeric: true },
+                      { label: 'IGST', value: item => formatRupees(item.igst), numeric: true }
+                    ]}
+                    describe={item => `3.2 supplies to ${placeOfSupply(item.pos)}`}
+                    onDrill={setDrill}
+                  />
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                    {[
+                      { label: 'Tax liability', amounts: gstr3b.liability },
+                      { label: 'Eligible ITC', amounts: gstr3b.itc },
+                      { label: 'Payable before cross-utilisation', amounts: gstr3b.net }
+                    ].map(({ label, amounts }) => (
+                      <div key={label} className="rounded-lg border p-3 space-y-1">
+                        <p className="text-muted-foreground">{label}</p>
+                        <p>IGST ₹{formatRupees(amounts.igst)}</p>
+                        <p>CGST ₹{formatRupees(amounts.cgst)}</p>
+                        <p>SGST ₹{formatRupees(amounts.sgst)}</p>
+                        <p>Cess ₹{formatRupees(amounts.cess)}</p>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          <TabsContent value="gstr2b">
+            <Gstr2bReconciliation
+              month={month}
+              year={year}
+              onPeriodChange={(periodMonth, periodYear) => {
+                setMonth(periodMonth);
+                setYear(periodYear);
+              }}
+              onDrill={setDrill}
+            />
+          </TabsContent>
+        </Tabs>
+
+        <Dialog open={drill !== null} onOpenChange={(open) => !open && setDrill(null)}>
+          <DialogContent className="max-w-5xl">
+            <DialogHeader>
+              <DialogTitle>{drill?.title}</DialogTitle>
+              <DialogDescription>{drill?.rows.length} voucher line(s)</DialogDescription>
+            </DialogHeader>
+            <div className="overflow-x-auto max-h-[28rem] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Voucher</TableHead>
+                    <TableHead>Party</TableHead>
+                    <TableHead>GSTIN</TableHead>
+                    <TableHead>Place of Supply</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">Taxable</TableHead>
+                    <TableHead className="text-right">Tax</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drill?.rows.map((row, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{displayDate(row.date)}</TableCell>
+                      <TableCell className="text-xs">
+                        {row.voucherType} {row.voucherNumber}
+                        {row.sourceRows && <div className="text-muted-foreground">Import rows {row.sourceRows.join(', ')}</div>}
+                      </TableCell>
+                      <TableCell className="text-xs">{row.partyName}</TableCell>
+                      <TableCell className="text-xs">{row.gstin}</TableCell>
+                      <TableCell className="text-xs">{placeOfSupply(rowPlaceOfSupply(row))}</TableCell>
+                      <TableCell className="text-right">{rowRate(row)}%</TableCell>
+                      <TableCell className="text-right">{formatRupees(row.taxableAmount)}</TableCell>
+                      <TableCell className="text-right">{formatRupees(row.totalTaxAmount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default GstReturns;
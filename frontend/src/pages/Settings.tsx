@@ -14,6 +14,7 @@ import AppLayout from '@/components/layout/AppLayout';
 import MobileWarning from '@/components/MobileWarning';
 import NotificationService from '@/services/NotificationService';
 import TallyConfigurationForm from '../components/forms/TallyConfigurationForm';
+import GstSlabSettingsForm from '../components/forms/GstSlabSettingsForm';
 import automatedTallyService, { AutoSyncConfig } from '../services/AutomatedTallyService';
 import { toast } from 'sonner';
 
@@ -126,6 +127,15 @@ const Settings = () => {
           <TallyConfigurationForm />
         </motion.div>
 
+        {/* GST Configuration */}
+        <motion.div
+          variants={fadeInVariants}
+          initial="hidden"
+          animate="visible"
+        >
+          <GstSlabSettingsForm />
+        </motion.div>
+
         {/* Auto-Sync Configuration */}
         <motion.div
           variants={fadeInVariants}
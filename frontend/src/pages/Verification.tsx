@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { Check, FileCheck, AlertCircle, FileSpreadsheet, CheckCircle2, RefreshCw, Search } from 'lucide-react';
 import { toast } from 'sonner';
@@ -11,6 +11,10 @@ import { Progress } from '@/components/ui/progress';
 import { Input } from '@/components/ui/input';
 import AppLayout from '@/components/layout/AppLayout';
 import MobileWarning from '@/components/MobileWarning';
+import tallySyncService from '@/services/TallySyncService';
+import type { VoucherIssue } from '@/lib/voucherValidation';
+import { loadLastImportResult } from '@/lib/tallyResponse';
+import { clearPushedVouchers, loadPushedVouchers } from '@/lib/voucherIdentity';
 
 // Types
 interface VerificationResult {
@@ -45,78 +49,99 @@ const Verification = () => {
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [activeTab, setActiveTab] = useState<string>('errors');
   
-  // Sample data verification results
-  const generateVerificationData = (): VerificationResult[] => {
-    return [
-      {
-        id: 1,
-        type: 'error',
-        message: 'Invalid GSTIN format for Customer XYZ',
-        data: { row: 3, field: 'gstin', value: 'GSTIN12345XX' }
-      },
-      {
-        id: 2,
-        type: 'warning',
-        message: 'Date format inconsistency detected',
-        data: { row: 5, field: 'date', value: '30-02-2023' }
-      },
-      {
-        id: 3,
-        type: 'error',
-        message: 'Missing mandatory party name',
-        data: { row: 8, field: 'customer', value: '' }
-      },
-      {
-        id: 4,
-        type: 'warning',
-        message: 'Amount seems unusually high',
-        data: { row: 12, field: 'amount', value: '1500000' }
-      },
-      {
-        id: 5,
-        type: 'success',
-        message: 'All voucher data validates successfully',
-        data: { row: 15, field: 'all', value: 'complete' }
-      },
-      {
-        id: 6,
-        type: 'error',
-        message: 'Duplicate invoice number detected',
-        data: { row: 18, field: 'invoice', value: 'INV-2023042' }
-      },
-      {
-        id: 7,
-        type: 'warning',
-        message: 'Cost center not recognized in Tally',
-        data: { row: 20, field: 'costCenter', value: 'Remote Office' }
-      },
-      {
-        id: 8,
+  const [lastImport] = useState(loadLastImportResult);
+  const [pushedCount, setPushedCount] = useState(() => Object.keys(loadPushedVouchers()).length);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [verifiedFile, setVerifiedFile] = useState<File | null>(null);
+
+  // Map the accounting validator's row issues onto verification results
+  const buildVerificationResults = (validation: any, totalRows: number): VerificationResult[] => {
+    const rowIssues: VoucherIssue[] = validation?.rowIssues || [];
+    const reported = new Set(rowIssues.map(issue => `Row ${issue.row}: ${issue.message}`));
+
+    const results: VerificationResult[] = rowIssues.map((issue, index) => ({
+      id: index + 1,
+      type: issue.severity,
+      message: issue.message,
+      data: { row: issue.row, field: issue.field, value: issue.value }
+    }));
+
+    // Structural findings that are not tied to a voucher
+    const general = [
+      ...(validation?.issues || []).map((message: string) => ({ type: 'error' as const, message })),
+      ...(validation?.warnings || []).map((message: string) => ({ type: 'warning' as const, message }))
+    ].filter(item => !reported.has(item.message));
+
+    general.forEach(item => {
+      const match = item.message.match(/^Row (\d+): (.*)$/);
+      results.push({
+        id: results.length + 1,
+        type: item.type,
+        message: match ? match[2] : item.message,
+        data: { row: match ? Number(match[1]) : 'all', field: 'general', value: '' }
+      });
+    });
+
+    if (!results.some(item => item.type === 'error')) {
+      results.push({
+        id: results.length + 1,
         type: 'success',
-        message: 'All ledger entries match with Tally',
-        data: { row: 'all', field: 'ledgerMatch', value: 'verified' }
+        message: 'All vouchers are balanced and totals match',
+        data: { row: 'all', field: 'balance', value: `${totalRows} rows` }
+      });
+    }
+
+    return results;
+  };
+
+  const runVerification = async (file: File) => {
+    setVerifiedFile(file);
+    setVerifyProgress(10);
+    setIsVerifying(true);
+
+    try {
+      setVerifyProgress(40);
+      const processed = await tallySyncService.processExcelFileClientSide(file);
+      if (!processed.success) {
+        throw new Error(processed.message);
+      }
+
+      setVerifyProgress(80);
+      const results = buildVerificationResults(processed.data.validation, processed.data.totalRows);
+      setVerificationResults(results);
+      setVerifyProgress(100);
+
+      const errors = results.filter(item => item.type === 'error').length;
+      if (errors > 0) {
+        toast.error(`Verification found ${errors} errors`);
+      } else {
+        toast.success('Data verification complete');
       }
-    ];
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Verification failed');
+    } finally {
+      setIsVerifying(false);
+    }
   };
-  
+
   const handleStartVerification = () => {
-    setVerifyProgress(0);
-    setIsVerifying(true);
-    
-    // Simulate verification process
-    const interval = setInterval(() => {
-      setVerifyProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(interval);
-          setIsVerifying(false);
-          // Set results after completion
-          setVerificationResults(generateVerificationData());
-          toast.success('Data verification complete');
-          return 100;
-        }
-        return prev + 10;
-      });
-    }, 300);
+    fileInputRef.current?.click();
+  };
+
+  const handleRecheck = () => {
+    if (verifiedFile) {
+      runVerification(verifiedFile);
+    } else {
+      handleStartVerification();
+    }
+  };
+
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      runVerification(file);
+    }
   };
   
   // Filter results based on search term and active tab
@@ -152,6 +177,13 @@ const Verification = () => {
             Verify and validate your data before importing into Tally
           </p>
         </div>        <div className="flex flex-wrap gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.xls"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
           <Button 
             onClick={handleStartVerification}
             disabled={isVerifying}
@@ -191,6 +223,74 @@ const Verification = () => {
         </motion.div>
       )}
       
+      {lastImport && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          <Card className="card-mobile shadow-sm">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-sm sm:text-lg">
+                <FileCheck className="h-4 w-4 sm:h-5 sm:w-5 text-purple" />
+                <span>Last Tally Import</span>
+              </CardTitle>
+              <CardDescription className="text-xs sm:text-sm">
+                {new Date(lastImport.timestamp).toLocaleString()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Badge className="bg-green-500">Imported: {lastImport.imported}</Badge>
+                <Badge variant="destructive">Failed: {lastImport.failed}</Badge>
+                <Badge className="bg-yellow-500">Skipped: {lastImport.skipped}</Badge>
+              </div>
+              {(lastImport.voucherResults || [])
+                .filter(result => result.status !== 'imported')
+                .map(result => (
+                  <div key={result.voucherNumber} className="flex items-start gap-3 text-sm">
+                    <AlertCircle className={`h-4 w-4 mt-0.5 flex-shrink-0 ${result.status === 'failed' ? 'text-red-500' : 'text-yellow-500'}`} />
+                    <div>
+                      <p className="font-medium text-slate-700 dark:text-slate-200">
+                        Voucher {result.voucherNumber}{result.rows.length > 0 && ` (Row ${result.rows.join(', ')})`}
+                      </p>
+                      <p className="text-slate-500 dark:text-slate-400">
+                        {result.message || 'Import status could not be confirmed'}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              {lastImport.errors
+                .filter(message => !(lastImport.voucherResults || []).some(result => message.includes(`Voucher ${result.voucherNumber}:`)))
+                .map((message, index) => (
+                  <div key={index} className="flex items-start gap-3 text-sm">
+                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-red-500" />
+                    <p className="text-slate-500 dark:text-slate-400">{message}</p>
+                  </div>
+                ))}
+              {pushedCount > 0 && (
+                <div className="flex items-center justify-between gap-3 pt-3 border-t text-sm">
+                  <p className="text-slate-500 dark:text-slate-400">
+                    {pushedCount} voucher(s) pushed from this machine; re-importing them alters the existing vouchers in Tally.
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      clearPushedVouchers();
+                      setPushedCount(0);
+                      toast.success('Pushed voucher history cleared');
+                    }}
+                  >
+                    Clear History
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+      
       {verificationResults.length > 0 && !isVerifying && (
         <div className="space-y-4 sm:space-y-6">
           <motion.div 
@@ -403,7 +503,7 @@ const Verification = () => {
                 </span>
                 
                 <div className="flex gap-2">
-                  <Button onClick={handleStartVerification} variant="outline" size="sm">
+                  <Button onClick={handleRecheck} variant="outline" size="sm">
                     <RefreshCw className="h-4 w-4 mr-1" /> Recheck
                   </Button>
                   <Button className="bg-purple text-white hover:bg-purple-dark" size="sm">
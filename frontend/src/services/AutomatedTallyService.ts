@@ -6,9 +6,28 @@
  * - Automatic XML generation and import
  * - Real-time synchronization
  * - Background monitoring and connection management
+ * - Persistent offline sync queue with exponential backoff
  */
 
 import realTimeDataService from './RealTimeDataService';
+import {
+  buildMastersEnvelope,
+  buildVoucherEnvelope,
+  el,
+  type TallyLedgerMasterXml,
+  type TallyStockItemMasterXml,
+  type TallyVoucherXml
+} from '@/lib/tallyXml';
+import {
+  buildImportResult,
+  describeSubmittedVouchers,
+  importedVoucherIdentities,
+  saveLastImportResult,
+  type SubmittedVoucher
+} from '@/lib/tallyResponse';
+import { assignVoucherIdentities, recordPushedVouchers } from '@/lib/voucherIdentity';
+import { deleteQueueItem, loadQueueItems, saveQueueItem, type SyncQueueItem } from '@/lib/syncQueueStore';
+import type { TallyImportResult } from './TallyService';
 
 export interface TallyConnection {
   host: string;
@@ -34,21 +53,34 @@ export interface SyncResult {
   recordsProcessed: number;
   importedToTally: boolean;
   tallyResponse?: any;
+  importResult?: TallyImportResult;
   errors?: string[];
+  /** Set when the import was queued for a later retry */
+  queuedItemId?: string;
 }
 
+// First retry after 30 seconds, doubling up to 30 minutes
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
 class AutomatedTallyService {
   private connections: TallyConnection[] = [];
   private activeConnection: TallyConnection | null = null;
   private syncConfig: AutoSyncConfig;
   private isMonitoring = false;
   private monitoringInterval: NodeJS.Timeout | null = null;
-  private syncQueue: Array<{ file: File; data: any; resolve: Function; reject: Function }> = [];
+  private syncQueue: SyncQueueItem[] = [];
+  private queueSubscribers: Set<(items: SyncQueueItem[]) => void> = new Set();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
   private isSyncing = false;
+  // Settles once the persisted queue is loaded; enqueueing waits for it
+  private queueRestored: Promise<void>;
 
   constructor() {
     this.syncConfig = this.loadSyncConfig();
     this.startMonitoring();
+    this.queueRestored = this.restoreSyncQueue();
+    this.queueRestored.then(() => this.processSyncQueue());
   }
 
   // Configuration Management
@@ -260,11 +292,27 @@ class AutomatedTallyService {
       }
 
       if (!this.activeConnection) {
-        throw new Error('No active Tally connection. Please ensure Tally ERP 9 is running.');
+        const item = await this.enqueueXml(file.name, excelData.data.totalRecords, xmlData.xml, xmlData.vouchers || []);
+        const message = 'No active Tally connection. The import was queued and will sync when Tally ERP 9 is running.';
+        realTimeDataService.completeSyncOperation(operationId, false, 0, message);
+        return { success: false, message, recordsProcessed: 0, importedToTally: false, queuedItemId: item.id };
       }
 
       // Step 4: Import to Tally automatically
-      const importResult = await this.importToTally(xmlData.xml);
+      const importResult = await this.importToTally(xmlData.xml, xmlData.vouchers);
+
+      // Tally could not be reached; keep the import for a later retry
+      if (!importResult.success && !importResult.importResult) {
+        const item = await this.enqueueXml(
+          file.name,
+          excelData.data.totalRecords,
+          xmlData.xml,
+          xmlData.vouchers || [],
+          importResult.message
+        );
+        importResult.queuedItemId = item.id;
+        importResult.message = `${importResult.message}. The import was queued for retry.`;
+      }
       
       realTimeDataService.completeSyncOperation(
         operationId,
@@ -330,19 +378,28 @@ class AutomatedTallyService {
     });
   }
 
-  private async generateTallyXML(data: any): Promise<{ success: boolean; xml?: string; message: string }> {
+  private async generateTallyXML(data: any): Promise<{
+    success: boolean;
+    xml?: string;
+    vouchers?: SubmittedVoucher[];
+    message: string;
+  }> {
     try {
       // Auto-detect data type based on column headers
       const dataType = this.detectDataType(data.records);
       
       let xml = '';
+      let vouchers: SubmittedVoucher[] = [];
       switch (dataType) {
         case 'ledgers':
           xml = this.generateLedgerXML(data.records);
           break;
-        case 'vouchers':
-          xml = this.generateVoucherXML(data.records);
+        case 'vouchers': {
+          const { vouchers: voucherModels, identities } = assignVoucherIdentities(this.buildVoucherModels(data.records));
+          xml = buildVoucherEnvelope(voucherModels, '$$CurrentCompany');
+          vouchers = describeSubmittedVouchers(voucherModels, identities);
           break;
+        }
         case 'items':
           xml = this.generateItemXML(data.records);
           break;
@@ -353,6 +410,7 @@ class AutomatedTallyService {
       return {
         success: true,
         xml,
+        vouchers,
         message: `Generated Tally XML for ${dataType} with ${data.records.length} records`
       };
     } catch (error) {
@@ -388,150 +446,73 @@ class AutomatedTallyService {
   }
 
   private generateLedgerXML(records: any[]): string {
-    const ledgerEntries = records.map(record => `
-      <TALLYMESSAGE xmlns:UDF="TallyUDF">
-        <LEDGER NAME="${this.escapeXML(record.Name || record.LedgerName || record.name)}" RESERVEDNAME="">
-          <OLDAUDITENTRYIDS.LIST TYPE="Number">
-            <OLDAUDITENTRYIDS>-1</OLDAUDITENTRYIDS>
-          </OLDAUDITENTRYIDS.LIST>
-          <GUID></GUID>
-          <PARENT>${this.escapeXML(record.Group || record.Parent || 'Sundry Debtors')}</PARENT>
-          <LANGUAGENAME.LIST>
-            <NAME.LIST TYPE="String">
-              <NAME>${this.escapeXML(record.Name || record.LedgerName || record.name)}</NAME>
-            </NAME.LIST>
-            <LANGUAGEID>1033</LANGUAGEID>
-          </LANGUAGENAME.LIST>
-          <OPENINGBALANCE>${record.OpeningBalance || record.Balance || 0}</OPENINGBALANCE>
-          <ISBILLWISEON>${record.IsBillwise || 'No'}</ISBILLWISEON>
-          <ISCOSTCENTRESON>No</ISCOSTCENTRESON>
-        </LEDGER>
-      </TALLYMESSAGE>
-    `).join('');
-
-    return `<?xml version="1.0" encoding="UTF-8"?>
-    <ENVELOPE>
-      <HEADER>
-        <TALLYREQUEST>Import Data</TALLYREQUEST>
-      </HEADER>
-      <BODY>
-        <IMPORTDATA>
-          <REQUESTDESC>
-            <REPORTNAME>All Masters</REPORTNAME>
-            <STATICVARIABLES>
-              <SVCURRENTCOMPANY>$$CurrentCompany</SVCURRENTCOMPANY>
-            </STATICVARIABLES>
-          </REQUESTDESC>
-          <REQUESTDATA>
-            ${ledgerEntries}
-          </REQUESTDATA>
-        </IMPORTDATA>
-      </BODY>
-    </ENVELOPE>`;
-  }
-
-  private generateVoucherXML(records: any[]): string {
-    const voucherEntries = records.map(record => `
-      <TALLYMESSAGE xmlns:UDF="TallyUDF">
-        <VOUCHER REMOTEID="" VCHKEY="" VCHTYPE="${record.VoucherType || 'Sales'}" ACTION="Create" OBJVIEW="Invoice Voucher View">
-          <OLDAUDITENTRYIDS.LIST TYPE="Number">
-            <OLDAUDITENTRYIDS>-1</OLDAUDITENTRYIDS>
-          </OLDAUDITENTRYIDS.LIST>
-          <DATE>${this.formatDate(record.Date || new Date())}</DATE>
-          <VOUCHERTYPENAME>${record.VoucherType || 'Sales'}</VOUCHERTYPENAME>
-          <VOUCHERNUMBER>${record.VoucherNumber || record.InvoiceNo || ''}</VOUCHERNUMBER>
-          <PARTYLEDGERNAME>${this.escapeXML(record.PartyName || record.Customer || '')}</PARTYLEDGERNAME>
-          <BASICBASEPARTYNAME>${this.escapeXML(record.PartyName || record.Customer || '')}</BASICBASEPARTYNAME>
-          <CSTFORMISSUETYPE/>
-          <CSTFORMRECVTYPE/>
-          <FBTPAYMENTTYPE>Default</FBTPAYMENTTYPE>
-          <PERSISTEDVIEW>Invoice Voucher View</PERSISTEDVIEW>
-          <ALLLEDGERENTRIES.LIST>
-            <OLDAUDITENTRYIDS.LIST TYPE="Number">
-              <OLDAUDITENTRYIDS>-1</OLDAUDITENTRYIDS>
-            </OLDAUDITENTRYIDS.LIST>
-            <LEDGERNAME>${this.escapeXML(record.PartyName || record.Customer || '')}</LEDGERNAME>
-            <ISDEEMEDPOSITIVE>Yes</ISDEEMEDPOSITIVE>
-            <AMOUNT>${record.Amount || 0}</AMOUNT>
-          </ALLLEDGERENTRIES.LIST>
-          <ALLLEDGERENTRIES.LIST>
-            <OLDAUDITENTRYIDS.LIST TYPE="Number">
-              <OLDAUDITENTRYIDS>-1</OLDAUDITENTRYIDS>
-            </OLDAUDITENTRYIDS.LIST>
-            <LEDGERNAME>Sales</LEDGERNAME>
-            <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>
-            <AMOUNT>-${record.Amount || 0}</AMOUNT>
-          </ALLLEDGERENTRIES.LIST>
-        </VOUCHER>
-      </TALLYMESSAGE>
-    `).join('');
-
-    return `<?xml version="1.0" encoding="UTF-8"?>
-    <ENVELOPE>
-      <HEADER>
-        <TALLYREQUEST>Import Data</TALLYREQUEST>
-      </HEADER>
-      <BODY>
-        <IMPORTDATA>
-          <REQUESTDESC>
-            <REPORTNAME>Vouchers</REPORTNAME>
-            <STATICVARIABLES>
-              <SVCURRENTCOMPANY>$$CurrentCompany</SVCURRENTCOMPANY>
-            </STATICVARIABLES>
-          </REQUESTDESC>
-          <REQUESTDATA>
-            ${voucherEntries}
-          </REQUESTDATA>
-        </IMPORTDATA>
-      </BODY>
-    </ENVELOPE>`;
+    const ledgers: TallyLedgerMasterXml[] = records.map(record => {
+      const name = record.Name || record.LedgerName || record.name;
+      return {
+        name,
+        parent: record.Group || record.Parent || 'Sundry Debtors',
+        openingBalance: Number(record.OpeningBalance || record.Balance || 0),
+        isBillWiseOn: record.IsBillwise === 'Yes',
+        extra: [
+          el('LANGUAGENAME.LIST', null,
+            el('NAME.LIST', { TYPE: 'String' }, el('NAME', null, name)),
+            el('LANGUAGEID', null, 1033)
+          )
+        ]
+      };
+    });
+
+    return buildMastersEnvelope({ ledgers }, '$$CurrentCompany');
+  }
+
+  private buildVoucherModels(records: any[]): TallyVoucherXml[] {
+    // sheet_to_json skips the header, so record 0 is spreadsheet row 2
+    return records.map((record, index) => {
+      const voucherType = record.VoucherType || 'Sales';
+      const partyName = record.PartyName || record.Customer || '';
+      const amount = Number(record.Amount || 0);
+
+      return {
+        voucherType,
+        date: this.formatDate(record.Date || new Date()),
+        voucherNumber: String(record.VoucherNumber || record.InvoiceNo || ''),
+        objView: 'Invoice Voucher View',
+        sourceRows: [index + 2],
+        partyLedgerName: partyName,
+        extra: [
+          el('BASICBASEPARTYNAME', null, partyName),
+          el('FBTPAYMENTTYPE', null, 'Default')
+        ],
+        ledgerEntries: [
+          { ledgerName: partyName, side: 'Dr', amount, isPartyLedger: true },
+          { ledgerName: 'Sales', side: 'Cr', amount }
+        ]
+      };
+    });
   }
 
   private generateItemXML(records: any[]): string {
-    const itemEntries = records.map(record => `
-      <TALLYMESSAGE xmlns:UDF="TallyUDF">
-        <STOCKITEM NAME="${this.escapeXML(record.Name || record.ItemName || record.name)}" RESERVEDNAME="">
-          <OLDAUDITENTRYIDS.LIST TYPE="Number">
-            <OLDAUDITENTRYIDS>-1</OLDAUDITENTRYIDS>
-          </OLDAUDITENTRYIDS.LIST>
-          <GUID></GUID>
-          <PARENT>${this.escapeXML(record.Category || record.Group || 'Primary')}</PARENT>
-          <CATEGORY>${this.escapeXML(record.Category || 'Primary')}</CATEGORY>
-          <TAXCLASSIFICATIONNAME/>
-          <TAXTYPE>Others</TAXTYPE>
-          <LANGUAGENAME.LIST>
-            <NAME.LIST TYPE="String">
-              <NAME>${this.escapeXML(record.Name || record.ItemName || record.name)}</NAME>
-            </NAME.LIST>
-            <LANGUAGEID>1033</LANGUAGEID>
-          </LANGUAGENAME.LIST>
-          <BASEUNITS>${record.Unit || 'Nos'}</BASEUNITS>
-          <OPENINGBALANCE>${record.OpeningStock || 0}</OPENINGBALANCE>
-          <OPENINGVALUE>${record.OpeningValue || 0}</OPENINGVALUE>
-          <OPENINGRATE>${record.Rate || 0}</OPENINGRATE>
-        </STOCKITEM>
-      </TALLYMESSAGE>
-    `).join('');
-
-    return `<?xml version="1.0" encoding="UTF-8"?>
-    <ENVELOPE>
-      <HEADER>
-        <TALLYREQUEST>Import Data</TALLYREQUEST>
-      </HEADER>
-      <BODY>
-        <IMPORTDATA>
-          <REQUESTDESC>
-            <REPORTNAME>All Masters</REPORTNAME>
-            <STATICVARIABLES>
-              <SVCURRENTCOMPANY>$$CurrentCompany</SVCURRENTCOMPANY>
-            </STATICVARIABLES>
-          </REQUESTDESC>
-          <REQUESTDATA>
-            ${itemEntries}
-          </REQUESTDATA>
-        </IMPORTDATA>
-      </BODY>
-    </ENVELOPE>`;
+    const stockItems: TallyStockItemMasterXml[] = records.map(record => {
+      const name = record.Name || record.ItemName || record.name;
+      return {
+        name,
+        parent: record.Category || record.Group || 'Primary',
+        category: record.Category || 'Primary',
+        baseUnits: record.Unit || 'Nos',
+        openingBalance: Number(record.OpeningStock || 0),
+        openingRate: Number(record.Rate || 0),
+        openingValue: Number(record.OpeningValue || 0),
+        extra: [
+          el('TAXTYPE', null, 'Others'),
+          el('LANGUAGENAME.LIST', null,
+            el('NAME.LIST', { TYPE: 'String' }, el('NAME', null, name)),
+            el('LANGUAGEID', null, 1033)
+          )
+        ]
+      };
+    });
+
+    return buildMastersEnvelope({ stockItems }, '$$CurrentCompany');
   }
 
   private generateGenericXML(records: any[]): string {
@@ -539,7 +520,7 @@ class AutomatedTallyService {
     return this.generateLedgerXML(records);
   }
 
-  private async importToTally(xml: string): Promise<SyncResult> {
+  private async importToTally(xml: string, submitted: SubmittedVoucher[] = []): Promise<SyncResult> {
     if (!this.activeConnection) {
       return {
         success: false,
@@ -561,14 +542,20 @@ class AutomatedTallyService {
 
       if (response.ok) {
         const responseText = await response.text();
-        const recordsProcessed = this.extractRecordCount(xml);
+        const importResult = buildImportResult(responseText, submitted);
+        saveLastImportResult(importResult);
+        recordPushedVouchers(importedVoucherIdentities(submitted, importResult));
         
         return {
-          success: true,
-          message: 'Data successfully imported to Tally ERP 9',
-          recordsProcessed,
-          importedToTally: true,
-          tallyResponse: responseText
+          success: importResult.success,
+          message: importResult.failed > 0
+            ? `Imported ${importResult.imported} record(s); ${importResult.failed} failed`
+            : `Imported ${importResult.imported} record(s) to Tally ERP 9`,
+          recordsProcessed: importResult.imported,
+          importedToTally: importResult.imported > 0,
+          tallyResponse: responseText,
+          importResult,
+          errors: importResult.errors.length > 0 ? importResult.errors : undefined
         };
       } else {
         return {
@@ -590,15 +577,6 @@ class AutomatedTallyService {
   }
 
   // Utility Methods
-  private escapeXML(str: string): string {
-    return str
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#39;');
-  }
-
   private formatDate(date: Date | string): string {
     const d = typeof date === 'string' ? new Date(date) : date;
     return d.toISOString().split('T')[0].replace(/-/g, '');
@@ -616,28 +594,128 @@ class AutomatedTallyService {
     return match ? match[1] : 'Unknown Company';
   }
 
-  private extractRecordCount(xml: string): number {
-    // Count TALLYMESSAGE elements in XML
-    const matches = xml.match(/<TALLYMESSAGE/g);
-    return matches ? matches.length : 0;
+  // Persistent Sync Queue
+  private async restoreSyncQueue(): Promise<void> {
+    try {
+      const items = await loadQueueItems();
+      // An item left mid-sync by a closed app is retried
+      for (const item of items.filter(item => item.status === 'syncing')) {
+        item.status = 'pending';
+        await saveQueueItem(item);
+      }
+      this.syncQueue = items;
+      this.notifyQueueSubscribers();
+    } catch (error) {
+      console.error('Failed to restore sync queue:', error);
+    }
+  }
+
+  private async enqueueXml(
+    fileName: string,
+    recordCount: number,
+    xml: string,
+    vouchers: SubmittedVoucher[],
+    lastError?: string
+  ): Promise<SyncQueueItem> {
+    // Items queued before the stored queue is read would be overwritten by it
+    await this.queueRestored;
+
+    const now = new Date();
+    const attempts = lastError ? 1 : 0;
+    const item: SyncQueueItem = {
+      id: `queue_${now.getTime()}_${Math.random().toString(36).substr(2, 9)}`,
+      fileName,
+      recordCount,
+      xml,
+      vouchers,
+      status: 'pending',
+      attempts,
+      lastError,
+      position: Math.max(0, ...this.syncQueue.map(queued => queued.position + 1)),
+      nextAttemptAt: now.getTime() + (attempts > 0 ? this.retryDelay(attempts) : 0),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+
+    this.syncQueue.push(item);
+    await this.persistQueueItem(item);
+    this.notifyQueueSubscribers();
+    this.scheduleQueueRetry();
+    return item;
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+  }
+
+  private async persistQueueItem(item: SyncQueueItem): Promise<void> {
+    try {
+      await saveQueueItem(item);
+    } catch (error) {
+      console.error('Failed to persist sync queue item:', error);
+    }
+  }
+
+  private notifyQueueSubscribers(): void {
+    const items = this.getSyncQueue();
+    this.queueSubscribers.forEach(callback => callback(items));
+  }
+
+  private scheduleQueueRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const pending = this.syncQueue.filter(item => item.status === 'pending');
+    if (pending.length === 0) return;
+
+    const nextAttemptAt = Math.min(...pending.map(item => item.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processSyncQueue();
+    }, Math.max(0, nextAttemptAt - Date.now()));
   }
 
   private async processSyncQueue(): Promise<void> {
-    if (this.isSyncing || this.syncQueue.length === 0) return;
+    if (this.isSyncing) return;
+
+    const item = this.syncQueue.find(queued => queued.status === 'pending' && queued.nextAttemptAt <= Date.now());
+    if (!item) {
+      this.scheduleQueueRetry();
+      return;
+    }
+
+    if (!this.activeConnection && this.syncConfig.autoDetectTally) {
+      await this.detectTallyInstances();
+    }
+    // Waiting for Tally does not use up retry attempts; monitoring retries on its next tick
+    if (!this.activeConnection) return;
 
     this.isSyncing = true;
-    const item = this.syncQueue.shift();
-    
-    if (item) {
-      try {
-        const result = await this.autoSyncExcelFile(item.file);
-        item.resolve(result);
-      } catch (error) {
-        item.reject(error);
-      }
+    item.status = 'syncing';
+    this.notifyQueueSubscribers();
+
+    const operationId = realTimeDataService.startSyncOperation('sync', item.fileName);
+    const result = await this.importToTally(item.xml, item.vouchers);
+    realTimeDataService.completeSyncOperation(operationId, result.success, result.recordsProcessed, result.message);
+
+    if (result.success) {
+      this.syncQueue = this.syncQueue.filter(queued => queued.id !== item.id);
+      await deleteQueueItem(item.id).catch(error => console.error('Failed to remove synced queue item:', error));
+    } else {
+      item.attempts += 1;
+      item.lastError = result.errors?.join('; ') || result.message;
+      // Tally rejected the data itself; retrying the same XML would fail again
+      const exhausted = !!result.importResult || item.attempts >= this.syncConfig.retryAttempts;
+      item.status = exhausted ? 'failed' : 'pending';
+      item.nextAttemptAt = Date.now() + this.retryDelay(item.attempts);
+      await this.persistQueueItem(item);
     }
 
     this.isSyncing = false;
+    this.notifyQueueSubscribers();
+    await this.processSyncQueue();
   }
 
   // Public API
@@ -668,10 +746,68 @@ class AutomatedTallyService {
   }
 
   // Queue management for background sync
-  queueFileForSync(file: File, data: any): Promise<SyncResult> {
-    return new Promise((resolve, reject) => {
-      this.syncQueue.push({ file, data, resolve, reject });
-    });
+  async queueFileForSync(file: File): Promise<SyncQueueItem> {
+    const excelData = await this.processExcelFile(file);
+    if (!excelData.success) {
+      throw new Error(excelData.message);
+    }
+
+    const xmlData = await this.generateTallyXML(excelData.data);
+    if (!xmlData.success || !xmlData.xml) {
+      throw new Error(xmlData.message || 'Failed to generate XML data');
+    }
+
+    const item = await this.enqueueXml(file.name, excelData.data.totalRecords, xmlData.xml, xmlData.vouchers || []);
+    this.processSyncQueue();
+    return item;
+  }
+
+  getSyncQueue(): SyncQueueItem[] {
+    return this.syncQueue.map(item => ({ ...item }));
+  }
+
+  subscribeToSyncQueue(callback: (items: SyncQueueItem[]) => void): () => void {
+    this.queueSubscribers.add(callback);
+    callback(this.getSyncQueue()); // Send current state immediately
+    return () => this.queueSubscribers.delete(callback);
+  }
+
+  async retryQueueItem(id: string): Promise<void> {
+    const item = this.syncQueue.find(queued => queued.id === id);
+    if (!item || item.status === 'syncing') return;
+
+    item.status = 'pending';
+    item.attempts = 0;
+    item.nextAttemptAt = Date.now();
+    await this.persistQueueItem(item);
+    this.notifyQueueSubscribers();
+    await this.processSyncQueue();
+  }
+
+  async dropQueueItem(id: string): Promise<void> {
+    const item = this.syncQueue.find(queued => queued.id === id);
+    if (!item || item.status === 'syncing') return;
+
+    this.syncQueue = this.syncQueue.filter(queued => queued.id !== id);
+    await deleteQueueItem(id).catch(error => console.error('Failed to remove queue item:', error));
+    this.notifyQueueSubscribers();
+    this.scheduleQueueRetry();
+  }
+
+  /**
+   * Move a queued item one place earlier (-1) or later (1) in the queue
+   */
+  async moveQueueItem(id: string, offset: -1 | 1): Promise<void> {
+    const index = this.syncQueue.findIndex(queued => queued.id === id);
+    const target = this.syncQueue[index + offset];
+    if (index < 0 || !target) return;
+
+    const item = this.syncQueue[index];
+    [item.position, target.position] = [target.position, item.position];
+    this.syncQueue[index] = target;
+    this.syncQueue[index + offset] = item;
+    await Promise.all([this.persistQueueItem(item), this.persistQueueItem(target)]);
+    this.notifyQueueSubscribers();
   }
 
   // Cleanup
@@ -679,7 +815,13 @@ class AutomatedTallyService {
     this.stopMonitoring();
     this.connections = [];
     this.activeConnection = null;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    // The persisted queue is kept and resumed on the next start
     this.syncQueue = [];
+    this.queueSubscribers.clear();
   }
 }
 
@@ -0,0 +1,256 @@
+/**
+ * Ledger Resolver Service for TallySyncPro
+ *
+ * Keeps a cached copy of the company's ledgers from Tally and resolves
+ * party and ledger names typed in sheets against it:
+ * - Ledgers are fetched with getAllLedgersDetailed and cached per company
+ * - Names that match a ledger with certainty are posted as that ledger
+ * - Similar ledgers are offered as suggestions until the user confirms one
+ * - Confirmed choices are remembered as aliases for the company
+ * - Stock items and groups are cached alongside, to spot missing items,
+ *   validate ledger parents and check contra ledgers
+ * - Cost centres are cached to validate cost centre allocations
+ */
+
+import { getTallyService, type TallyCostCentre, type TallyGroup, type TallyLedger, type TallyStockItem } from './TallyService';
+import {
+  buildLedgerIndex,
+  loadLedgerAliases,
+  resolveLedgerName,
+  saveLedgerAlias,
+  type LedgerIndex,
+  type LedgerResolution
+} from '@/lib/ledgerResolver';
+import { isCashOrBankGroup } from '@/lib/ledgerMaster';
+import { currentCompanyName } from '@/lib/voucherIdentity';
+
+export interface LedgerCacheState {
+  company: string;
+  ledgerCount: number;
+  fetchedAt: string | null;
+  loading: boolean;
+}
+
+interface StoredLedgerCache {
+  company: string;
+  fetchedAt: string;
+  ledgers: TallyLedger[];
+  stockItems?: TallyStockItem[];
+  groups?: TallyGroup[];
+  costCentres?: TallyCostCentre[];
+}
+
+const LEDGER_CACHE_STORAGE_KEY = 'tallysync_ledger_cache';
+const CACHE_MAX_AGE_MS = 30 * 60 * 1000; // Refetch after 30 minutes
+
+class LedgerResolverService {
+  private company = '';
+  private fetchedAt: string | null = null;
+  private index: LedgerIndex = buildLedgerIndex([]);
+  private aliases: Record<string, string> = {};
+  private stockItems: TallyStockItem[] = [];
+  private stockItemNames: Set<string> = new Set();
+  private groups: TallyGroup[] = [];
+  private costCentres: TallyCostCentre[] = [];
+  private loading: Promise<TallyLedger[]> | null = null;
+  private subscribers: Set<(state: LedgerCacheState) => void> = new Set();
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  // Subscription management
+  subscribe(callback: (state: LedgerCacheState) => void): () => void {
+    this.subscribers.add(callback);
+    callback(this.getState()); // Send current state immediately
+    return () => this.subscribers.delete(callback);
+  }
+
+  getState(): LedgerCacheState {
+    return {
+      company: this.company,
+      ledgerCount: this.index.ledgers.length,
+      fetchedAt: this.fetchedAt,
+      loading: this.loading !== null
+    };
+  }
+
+  getLedgers(): TallyLedger[] {
+    return this.index.ledgers;
+  }
+
+  /**
+   * Fetch the company's ledgers from Tally unless a recent copy is cached
+   */
+  async refreshLedgers(force: boolean = false): Promise<TallyLedger[]> {
+    const company = currentCompanyName();
+    const fresh = this.fetchedAt && Date.now() - new Date(this.fetchedAt).getTime() < CACHE_MAX_AGE_MS;
+    if (!force && company === this.company && fresh && this.index.ledgers.length > 0) {
+      return this.index.ledgers;
+    }
+    if (this.loading) return this.loading;
+
+    this.loading = this.fetchMasters(company);
+    this.notifySubscribers();
+
+    try {
+      await this.loading;
+      return this.index.ledgers;
+    } finally {
+      this.loading = null;
+      this.notifySubscribers();
+    }
+  }
+
+  private async fetchMasters(company: string): Promise<TallyLedger[]> {
+    const tallyService = getTallyService();
+    const [ledgers, stockItems, groups, costCentres] = await Promise.all([
+      tallyService.getAllLedgersDetailed(company || undefined),
+      tallyService.getStockItems(company || undefined),
+      tallyService.getGroups(company || undefined),
+      tallyService.getCostCentres(company || undefined)
+    ]);
+
+    // An empty answer usually means Tally was unreachable; keep the old copy
+    if (ledgers.length > 0 || company !== this.company) {
+      this.setLedgers(company, ledgers, new Date().toISOString(), stockItems, groups, costCentres);
+      this.saveToStorage();
+    }
+    return ledgers;
+  }
+
+  /**
+   * Resolve a typed party or ledger name, or null while no ledgers are known
+   */
+  resolve(name: string, gstin?: string): LedgerResolution | null {
+    if (this.index.ledgers.length === 0 || !String(name || '').trim()) return null;
+    this.syncCompany();
+    return resolveLedgerName(name, this.index, { gstin, aliases: this.aliases });
+  }
+
+  /**
+   * Ledger to post a typed name to: the resolved ledger when certain,
+   * otherwise the name as typed
+   */
+  ledgerNameFor(name: string, gstin?: string): string {
+    const resolution = this.resolve(name, gstin);
+    return resolution?.ledger ? resolution.ledger.name : name;
+  }
+
+  /**
+   * Whether Tally has a stock item of this name, or null while the
+   * company's stock items are not known
+   */
+  hasStockItem(name: string): boolean | null {
+    this.syncCompany();
+    if (this.stockItems.length === 0) return null;
+    return this.stockItemNames.has(String(name || '').trim().toUpperCase());
+  }
+
+  getStockItems(): TallyStockItem[] {
+    return this.stockItems;
+  }
+
+  /**
+   * Names of the company's account groups, empty while not fetched
+   */
+  getGroupNames(): string[] {
+    this.syncCompany();
+    return this.groups.map(group => group.name);
+  }
+
+  /**
+   * Whether a ledger sits under a cash or bank group, or null while the
+   * ledger is not known
+   */
+  isCashOrBankLedger(name: string): boolean | null {
+    const ledger = this.resolve(name)?.ledger;
+    return ledger ? isCashOrBankGroup(ledger.parent, this.groups) : null;
+  }
+
+  /**
+   * A cost centre of the company by name, null when it does not exist and
+   * undefined while the company's cost centres are not known
+   */
+  findCostCentre(name: string): TallyCostCentre | null | undefined {
+    this.syncCompany();
+    if (this.costCentres.length === 0) return undefined;
+    const wanted = String(name || '').trim().toUpperCase();
+    return this.costCentres.find(centre => centre.name.trim().toUpperCase() === wanted) || null;
+  }
+
+  /**
+   * Remember that a typed name means the given ledger in the current company
+   */
+  confirmAlias(typedName: string, ledgerName: string): void {
+    this.syncCompany();
+    saveLedgerAlias(this.company, typedName, ledgerName);
+    this.aliases = loadLedgerAliases(this.company);
+    this.notifySubscribers();
+  }
+
+  // Drop cached ledgers when the configured company changes
+  private syncCompany(): void {
+    const company = currentCompanyName();
+    if (company !== this.company) {
+      this.setLedgers(company, [], null);
+    }
+  }
+
+  private setLedgers(
+    company: string,
+    ledgers: TallyLedger[],
+    fetchedAt: string | null,
+    stockItems: TallyStockItem[] = [],
+    groups: TallyGroup[] = [],
+    costCentres: TallyCostCentre[] = []
+  ): void {
+    this.company = company;
+    this.fetchedAt = fetchedAt;
+    this.index = buildLedgerIndex(ledgers);
+    this.aliases = loadLedgerAliases(company);
+    this.stockItems = stockItems;
+    this.stockItemNames = new Set(stockItems.map(item => item.name.trim().toUpperCase()));
+    this.groups = groups;
+    this.costCentres = costCentres;
+  }
+
+  private notifySubscribers(): void {
+    const state = this.getState();
+    this.subscribers.forEach(callback => callback(state));
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(LEDGER_CACHE_STORAGE_KEY);
+      const cache: StoredLedgerCache | null = stored ? JSON.parse(stored) : null;
+      if (cache && cache.company === currentCompanyName()) {
+        this.setLedgers(cache.company, cache.ledgers, cache.fetchedAt, cache.stockItems || [], cache.groups || [], cache.costCentres || []);
+      } else {
+        this.setLedgers(currentCompanyName(), [], null);
+      }
+    } catch (error) {
+      console.warn('Failed to load ledger cache:', error);
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      const cache: StoredLedgerCache = {
+        company: this.company,
+        fetchedAt: this.fetchedAt || new Date().toISOString(),
+        ledgers: this.index.ledgers,
+        stockItems: this.stockItems,
+        groups: this.groups,
+        costCentres: this.costCentres
+      };
+      localStorage.setItem(LEDGER_CACHE_STORAGE_KEY, JSON.stringify(cache));
+    } catch (error) {
+      console.warn('Failed to save ledger cache:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const ledgerResolverService = new LedgerResolverService();
+export default ledgerResolverService;
@@ -0,0 +1,115 @@
+/**
+ * Tally Export Service for TallySyncPro
+ *
+ * Reads masters and the day book straight from Tally's XML port, for
+ * builds without the /tally backend:
+ * - Posts the Export Data and Collection requests built by lib/tallyExport
+ * - Talks to the Tally instance AutomatedTallyService connected to, or
+ *   else the configured server and port
+ * - Decodes UTF-16 answers, which Tally sends for some exports
+ * - Raises Tally's LINEERROR text, e.g. for a company that is not open
+ */
+
+import automatedTallyService from './AutomatedTallyService';
+import {
+  buildCollectionRequest,
+  buildDayBookRequest,
+  exportError,
+  parseCostCentres,
+  parseDayBook,
+  parseGroups,
+  parseLedgers,
+  parseStockItems,
+  parseVoucherTypes,
+  type TallyCollectionType
+} from '@/lib/tallyExport';
+import type { TallyVoucherXml } from '@/lib/tallyXml';
+import type { TallyCostCentre, TallyGroup, TallyLedger, TallyStockItem } from './TallyService';
+
+const EXPORT_TIMEOUT_MS = 60 * 1000; // Day books of a full year take a while
+
+class TallyExportService {
+  // Tally instance to export from
+  private endpoint(): { host: string; port: number } {
+    const connection = automatedTallyService.getActiveConnection();
+    if (connection) return { host: connection.host, port: connection.port };
+
+    try {
+      const config = JSON.parse(localStorage.getItem('tallyConfig') || '{}');
+      return { host: config.server || 'localhost', port: Number(config.port) || 9000 };
+    } catch {
+      return { host: 'localhost', port: 9000 };
+    }
+  }
+
+  private decode(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+    // UTF-16 without a byte order mark has a zero byte after each ASCII character
+    if (bytes.length > 1 && bytes[0] === 0x3c && bytes[1] === 0x00) return new TextDecoder('utf-16le').decode(bytes);
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+
+  /**
+   * Post an export request to Tally and return its answer
+   */
+  async request(xml: string): Promise<string> {
+    const { host, port } = this.endpoint();
+    const response = await fetch(`http://${host}:${port}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/xml',
+        'Accept': 'application/xml'
+      },
+      body: xml,
+      signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Tally export failed: ${response.statusText}`);
+    }
+
+    const text = this.decode(await response.arrayBuffer());
+    const error = exportError(text);
+    if (error) {
+      throw new Error(`Tally export failed: ${error}`);
+    }
+    return text;
+  }
+
+  private exportCollection(type: TallyCollectionType, company?: string): Promise<string> {
+    return this.request(buildCollectionRequest(type, company));
+  }
+
+  async getLedgers(company?: string): Promise<TallyLedger[]> {
+    return parseLedgers(await this.exportCollection('Ledger', company));
+  }
+
+  async getGroups(company?: string): Promise<TallyGroup[]> {
+    return parseGroups(await this.exportCollection('Group', company));
+  }
+
+  async getStockItems(company?: string): Promise<TallyStockItem[]> {
+    return parseStockItems(await this.exportCollection('StockItem', company));
+  }
+
+  async getCostCentres(company?: string): Promise<TallyCostCentre[]> {
+    return parseCostCentres(await this.exportCollection('CostCentre', company));
+  }
+
+  async getVoucherTypes(company?: string): Promise<string[]> {
+    return parseVoucherTypes(await this.exportCollection('VoucherType', company));
+  }
+
+  /**
+   * Vouchers entered between two dates, YYYYMMDD
+   */
+  async getDayBook(fromDate: string, toDate: string, company?: string): Promise<TallyVoucherXml[]> {
+    return parseDayBook(await this.request(buildDayBookRequest(fromDate, toDate, company)));
+  }
+}
+
+// Export singleton instance
+export const tallyExportService = new TallyExportService();
+export default tallyExportService;
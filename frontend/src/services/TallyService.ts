@@ -47,6 +47,16 @@
  */
 import { toast } from 'sonner';
 import NotificationService from './NotificationService';
+import { formatDateForTally } from '@/lib/utils';
+import { buildVoucherEnvelope, el, type TallyVoucherXml } from '@/lib/tallyXml';
+import { determineSupplyType } from '@/lib/gst';
+import { costCategoryElements, DEFAULT_COST_CATEGORY } from '@/lib/costCentre';
+import { assignVoucherIdentities } from '@/lib/voucherIdentity';
+import { summariseDayBook } from '@/lib/tallyExport';
+import { configuredFinancialYear, toTallyDate } from '@/lib/dateParsing';
+import { cashBankCheck, ledgerTemplateRows, stockItemTemplateRows, vouchersToTemplates } from '@/lib/templateExport';
+import { gstRowsFromVouchers, rowFlow, type GstDocumentType, type GstFlow } from '@/lib/gstReturns';
+import tallyExportService from './TallyExportService';
 
 // Enhanced interfaces for comprehensive Tally Prime integration
 export interface TallyVoucherData {
@@ -59,6 +69,7 @@ export interface TallyVoucherData {
   costCenter?: string;
   category?: string;
   gstin?: string;
+  placeOfSupply?: string;
   status?: string;  // Enhanced Tally Prime specific fields
   narration?: string;
   reference?: string;
@@ -161,6 +172,13 @@ export interface TallyGroup {
   sortPosition: number;
 }
 
+export interface TallyCostCentre {
+  name: string;
+  parent?: string;
+  /** Cost category the centre belongs to */
+  category?: string;
+}
+
 export interface TallyStockItem {
   name: string;
   guid: string;
@@ -219,6 +237,20 @@ export interface TallyGSTDetails {
   placeOfSupply: string;
   hsnCode?: string;
   sacCode?: string;
+  // One row per voucher and rate; these trace the row to its voucher
+  voucherType?: string;
+  voucherNumber?: string;
+  reference?: string; // Supplier's invoice number on purchases
+  date?: string; // YYYYMMDD
+  partyName?: string;
+  invoiceValue?: number;
+  rate?: number;
+  cessRate?: number;
+  quantity?: number;
+  unit?: string;
+  documentType?: GstDocumentType;
+  flow?: GstFlow;
+  sourceRows?: number[]; // Rows of an import file, for vouchers not yet in Tally
 }
 
 interface TallyConfig {
@@ -332,6 +364,15 @@ export interface TallyImportResult {
   errors: string[];
   warnings: string[];
   details: TallyVoucherData[];
+  voucherResults?: TallyVoucherImportStatus[];
+}
+
+// Outcome of one voucher in an import, mapped back to its spreadsheet rows
+export interface TallyVoucherImportStatus {
+  voucherNumber: string;
+  rows: number[];
+  status: 'imported' | 'failed' | 'unknown';
+  message?: string;
 }
 
 // System status types
@@ -618,6 +659,8 @@ class TallyService {
         throw new Error(result.message);
       }
     } catch (error) {
+      const voucherTypes = await this.exportFromTally(() => tallyExportService.getVoucherTypes(company));
+      if (voucherTypes) return voucherTypes;
       console.error('Failed to get voucher types:', error);
       toast.error('Failed to get voucher types from Tally');
       return [];
@@ -729,6 +772,61 @@ class TallyService {
     }
   }
 
+  /**
+   * Read straight from Tally's XML port when the backend cannot answer;
+   * null when Tally cannot be reached either
+   */
+  private async exportFromTally<T>(request: () => Promise<T>): Promise<T | null> {
+    try {
+      return await request();
+    } catch (error) {
+      console.warn('Direct Tally export failed:', error);
+      return null;
+    }
+  }
+
+  private tallyDate(value: string): string {
+    return /^\d{8}$/.test(value) ? value : formatDateForTally(value);
+  }
+
+  // Workbook in the import templates, read straight from Tally. Vouchers
+  // default to the financial year so far.
+  private async exportTemplateWorkbook(
+    dataType: 'vouchers' | 'ledgers' | 'stock',
+    options: { fromDate?: string; toDate?: string; company?: string }
+  ): Promise<Blob> {
+    const { company } = options;
+    let sheets: { name: string; rows: Record<string, unknown>[] }[];
+
+    if (dataType === 'ledgers') {
+      sheets = [{ name: 'Ledgers', rows: ledgerTemplateRows(await tallyExportService.getLedgers(company)) }];
+    } else if (dataType === 'stock') {
+      sheets = [{ name: 'Stock Items', rows: stockItemTemplateRows(await tallyExportService.getStockItems(company)) }];
+    } else {
+      const today = new Date();
+      // Indian financial years start on 1 April
+      const yearStart = configuredFinancialYear()?.from
+        || { year: today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1, month: 4, day: 1 };
+      const fromDate = options.fromDate ? this.tallyDate(options.fromDate) : toTallyDate(yearStart);
+      const toDate = options.toDate ? this.tallyDate(options.toDate) : toTallyDate(today);
+      const [vouchers, ledgers, groups] = await Promise.all([
+        tallyExportService.getDayBook(fromDate, toDate, company),
+        tallyExportService.getLedgers(company),
+        tallyExportService.getGroups(company)
+      ]);
+      sheets = vouchersToTemplates(vouchers, cashBankCheck(ledgers, groups)).sheets;
+    }
+
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.utils.book_new();
+    sheets.forEach(sheet => XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheet.rows), sheet.name));
+    if (sheets.length === 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([]), 'Vouchers');
+    }
+    const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+    return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  }
+
   // Configuration management
   private loadConfig(): void {
     try {
@@ -760,25 +858,13 @@ class TallyService {
 
   getConnectionError(): string | null {
     return this.connectionError;
-  }  // This function generates valid Tally XML format (keeping the existing implementation)
+  }  // This function generates valid Tally XML format using the shared XML builder
   async saveAsXmlFile(data: TallyVoucherData[], voucherType: string = '', defaultLedgerName: string = ''): Promise<string> {
-    let xml = `<ENVELOPE>
-    <HEADER>
-        <TALLYREQUEST>Import Data</TALLYREQUEST>
-    </HEADER>
-    <BODY>
-        <IMPORTDATA>
-            <REQUESTDESC>
-                <REPORTNAME>Vouchers</REPORTNAME>
-                <STATICVARIABLES>
-                    <SVCURRENTCOMPANY>${this.config.company}</SVCURRENTCOMPANY>
-                </STATICVARIABLES>
-            </REQUESTDESC>
-            <REQUESTDATA>`;    // Process each data row to create voucher entries
-    data.forEach((row, index) => {
-      const voucherDate = row.date ? new Date(row.date) : new Date();
-      const formattedDate = voucherDate.toISOString().split('T')[0];
-        const actualVoucherType = voucherType || 'Journal';
+    const actualVoucherType = voucherType || 'Journal';
+
+    // Process each data row to create voucher entries
+    const vouchers: TallyVoucherXml[] = data.map((row, index) => {
+      const formattedDate = formatDateForTally(row.date);
       const ledgerName = row.customer || defaultLedgerName || 'Cash';
       const amount = row.amount || 0;
       
@@ -786,70 +872,53 @@ class TallyService {
         console.warn(`Row ${index+1} has zero or invalid amount`);
       }
 
-      const gstin = row.gstin || '';
-      
       const narrationParts = [];
       if (row.invoice) narrationParts.push(`Invoice: ${row.invoice}`);
       if (row.description) narrationParts.push(row.description);
       if (row.particulars) narrationParts.push(row.particulars);
       if (row.costCenter) narrationParts.push(`Cost Center: ${row.costCenter}`);
-      const narration = narrationParts.length > 0 ? narrationParts.join(' | ') : '';
-
-      xml += `
-                <TALLYMESSAGE xmlns:UDF="TallyUDF">
-                    <VOUCHER REMOTEID="" VCHTYPE="${actualVoucherType}" ACTION="Create">
-                        <DATE>${formattedDate}</DATE>
-                        <GUID></GUID>
-                        <NARRATION>${narration}</NARRATION>
-                        <VOUCHERTYPENAME>${actualVoucherType}</VOUCHERTYPENAME>
-                        <REFERENCE>${row.invoice || ''}</REFERENCE>
-                        <VOUCHERNUMBER>${row.invoice || index + 1}</VOUCHERNUMBER>
-                        <PARTYLEDGERNAME>${ledgerName}</PARTYLEDGERNAME>
-                        <CSTFORMISSUETYPE/>
-                        <CSTFORMRECVTYPE/>
-                        <FBTPAYMENTTYPE>Default</FBTPAYMENTTYPE>
-                        <PERSISTEDVIEW>Accounting Voucher View</PERSISTEDVIEW>
-                        <EFFECTIVEDATE>${formattedDate}</EFFECTIVEDATE>
-                        <ALLLEDGERENTRIES.LIST>
-                            <LEDGERNAME>${ledgerName}</LEDGERNAME>
-                            <GSTCLASS/>
-                            <ISDEEMEDPOSITIVE>Yes</ISDEEMEDPOSITIVE>
-                            <LEDGERFROMITEM>No</LEDGERFROMITEM>
-                            <REMOVEZEROENTRIES>No</REMOVEZEROENTRIES>
-                            <ISPARTYLEDGER>Yes</ISPARTYLEDGER>
-                            <ISLASTDEEMEDPOSITIVE>Yes</ISLASTDEEMEDPOSITIVE>
-                            <AMOUNT>-${amount.toFixed(2)}</AMOUNT>
-                            ${gstin ? `<VATEXPAMOUNT>${amount.toFixed(2)}</VATEXPAMOUNT>
-                            <GSTDETAILS.LIST>
-                                <APPLICABLEFROM>${formattedDate}</APPLICABLEFROM>
-                                <GSTNATUREOFTRANSACTION>Interstate</GSTNATUREOFTRANSACTION>
-                                <GSTPARTYTYPE>Regular</GSTPARTYTYPE>
-                                <GSTPARTYGSTIN>${gstin}</GSTPARTYGSTIN>
-                            </GSTDETAILS.LIST>` : ''}
-                        </ALLLEDGERENTRIES.LIST>
-                        <ALLLEDGERENTRIES.LIST>
-                            <LEDGERNAME>${row.category || 'Sales'}</LEDGERNAME>
-                            <GSTCLASS/>
-                            <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>
-                            <LEDGERFROMITEM>No</LEDGERFROMITEM>
-                            <REMOVEZEROENTRIES>No</REMOVEZEROENTRIES>
-                            <ISPARTYLEDGER>No</ISPARTYLEDGER>
-                            <ISLASTDEEMEDPOSITIVE>No</ISLASTDEEMEDPOSITIVE>
-                            <AMOUNT>${amount.toFixed(2)}</AMOUNT>
-                            ${row.costCenter ? `<COSTCENTREALLOCATIONS.LIST>
-                                <NAME>${row.costCenter}</NAME>
-                                <AMOUNT>${amount.toFixed(2)}</AMOUNT>
-                            </COSTCENTREALLOCATIONS.LIST>` : ''}
-                        </ALLLEDGERENTRIES.LIST>
-                    </VOUCHER>
-                </TALLYMESSAGE>`;
-    });    xml += `
-            </REQUESTDATA>
-        </IMPORTDATA>
-    </BODY>
-</ENVELOPE>`;
-
-    return xml;
+
+      return {
+        voucherType: actualVoucherType,
+        date: formattedDate,
+        voucherNumber: String(row.invoice || ''),
+        reference: row.invoice,
+        narration: narrationParts.join(' | '),
+        partyLedgerName: ledgerName,
+        objView: 'Accounting Voucher View',
+        ledgerEntries: [
+          {
+            ledgerName,
+            side: 'Dr',
+            amount,
+            isPartyLedger: true,
+            extra: row.gstin ? [
+              el('GSTDETAILS.LIST', null,
+                el('APPLICABLEFROM', null, formattedDate),
+                el('GSTNATUREOFTRANSACTION', null,
+                  determineSupplyType({ partyGstin: row.gstin, placeOfSupply: row.placeOfSupply }) === 'inter'
+                    ? 'Interstate'
+                    : 'Intrastate'
+                ),
+                el('GSTPARTYTYPE', null, 'Regular'),
+                el('GSTPARTYGSTIN', null, row.gstin)
+              )
+            ] : undefined
+          },
+          {
+            ledgerName: row.category || 'Sales',
+            side: 'Cr',
+            amount,
+            extra: row.costCenter
+              ? costCategoryElements([{ category: DEFAULT_COST_CATEGORY, name: row.costCenter, amount }], 'Cr')
+              : undefined
+          }
+        ]
+      };
+    });
+
+    const { vouchers: identifiedVouchers } = assignVoucherIdentities(vouchers, this.config.company || '');
+    return buildVoucherEnvelope(identifiedVouchers, this.config.company || undefined);
   }
 
   // ==========================================================================
@@ -896,6 +965,8 @@ class TallyService {
         throw new Error(result.message);
       }
     } catch (error) {
+      const ledgers = await this.exportFromTally(() => tallyExportService.getLedgers(company));
+      if (ledgers) return ledgers;
       console.error('Failed to get detailed ledgers:', error);
       toast.error('Failed to get detailed ledgers from Tally Prime');
       return [];
@@ -919,12 +990,39 @@ class TallyService {
         throw new Error(result.message);
       }
     } catch (error) {
+      const groups = await this.exportFromTally(() => tallyExportService.getGroups(company));
+      if (groups) return groups;
       console.error('Failed to get groups:', error);
       toast.error('Failed to get groups from Tally Prime');
       return [];
     }
   }
 
+  /**
+   * Get all cost centres with their cost category
+   */
+  async getCostCentres(company?: string): Promise<TallyCostCentre[]> {
+    try {
+      const url = company
+        ? `${this.baseURL}/tally/cost-centres?company=${encodeURIComponent(company)}`
+        : `${this.baseURL}/tally/cost-centres`;
+      const response = await fetch(url);
+      const result: APIResponse<{ costCentres: TallyCostCentre[] }> = await response.json();
+
+      if (result.success) {
+        return result.data?.costCentres || [];
+      } else {
+        throw new Error(result.message);
+      }
+    } catch (error) {
+      const costCentres = await this.exportFromTally(() => tallyExportService.getCostCentres(company));
+      if (costCentres) return costCentres;
+      console.error('Failed to get cost centres:', error);
+      toast.error('Failed to get cost centres from Tally Prime');
+      return [];
+    }
+  }
+
   /**
    * Get all stock items with detailed information
    */
@@ -942,6 +1040,8 @@ class TallyService {
         throw new Error(result.message);
       }
     } catch (error) {
+      const stockItems = await this.exportFromTally(() => tallyExportService.getStockItems(company));
+      if (stockItems) return stockItems;
       console.error('Failed to get stock items:', error);
       toast.error('Failed to get stock items from Tally Prime');
       return [];
@@ -1004,12 +1104,34 @@ class TallyService {
         throw new Error(result.message);
       }
     } catch (error) {
+      const rows = await this.exportFromTally(() => this.gstRowsFromDayBook(month, year, company));
+      if (rows) {
+        const flow = reportType === 'GSTR1' ? 'outward' : reportType === 'GSTR2' ? 'inward' : null;
+        return flow ? rows.filter(row => rowFlow(row) === flow) : rows;
+      }
       console.error('Failed to get GST report:', error);
       toast.error('Failed to get GST report from Tally Prime');
       return [];
     }
   }
 
+  // GST rows of a month read from the day book; vouchers that cannot be
+  // read are reported rather than dropped silently
+  private async gstRowsFromDayBook(month: string, year: string, company?: string): Promise<TallyGSTDetails[]> {
+    const period = `${year}${month.padStart(2, '0')}`;
+    const lastDay = new Date(Number(year), Number(month), 0).getDate();
+    const [vouchers, ledgers] = await Promise.all([
+      tallyExportService.getDayBook(`${period}01`, `${period}${lastDay}`, company),
+      tallyExportService.getLedgers(company)
+    ]);
+    const { rows, issues } = gstRowsFromVouchers(vouchers, ledgers);
+    if (issues.length > 0) {
+      console.warn('Vouchers left out of the GST report:', issues);
+      toast.warning(`${issues.length} voucher(s) left out of the GST report`, { description: issues[0] });
+    }
+    return rows;
+  }
+
   /**
    * Generate Excel import templates with Tally Prime structure
    */
@@ -1164,6 +1286,10 @@ class TallyService {
         throw new Error(result.message);
       }
     } catch (error) {
+      const vouchers = await this.exportFromTally(() =>
+        tallyExportService.getDayBook(this.tallyDate(fromDate), this.tallyDate(toDate), company)
+      );
+      if (vouchers) return summariseDayBook(vouchers);
       console.error('Failed to get analytics data:', error);
       toast.error('Failed to get analytics data from Tally Prime');
       return {
@@ -1218,7 +1344,9 @@ class TallyService {
   }
 
   /**
-   * Export data from Tally Prime in various formats
+   * Export data from Tally Prime in various formats. Without the backend,
+   * vouchers, ledgers and stock items are exported to Excel in the import
+   * templates, read straight from Tally.
    */  async exportData(
     exportType: 'excel' | 'csv' | 'pdf' | 'json',
     dataType: 'vouchers' | 'ledgers' | 'stock' | 'reports',
@@ -1249,6 +1377,10 @@ class TallyService {
         throw new Error(`Failed to export ${dataType} as ${exportType}`);
       }
     } catch (error) {
+      if (exportType === 'excel' && dataType !== 'reports') {
+        const blob = await this.exportFromTally(() => this.exportTemplateWorkbook(dataType, options));
+        if (blob) return blob;
+      }
       console.error(`Failed to export ${dataType}:`, error);
       toast.error(`Failed to export ${dataType} as ${exportType}`);
       throw error;
@@ -1285,4 +1417,15 @@ class TallyService {
   }
 }
 
+// Shared instance, created on first use so that importing this module
+// does not start a connection attempt
+let sharedTallyService: TallyService | null = null;
+
+export const getTallyService = (): TallyService => {
+  if (!sharedTallyService) {
+    sharedTallyService = new TallyService();
+  }
+  return sharedTallyService;
+};
+
 export default TallyService;
@@ -29,6 +29,119 @@
  */
 
 import { toast } from 'sonner';
+import {
+  billAllocationElement,
+  buildMastersEnvelope,
+  buildVoucherEnvelope,
+  el,
+  optionalEl,
+  type EntrySide,
+  type TallyBatchAllocationXml,
+  type TallyBillType,
+  type TallyLedgerEntryXml,
+  type TallyLedgerMasterXml,
+  type TallyStockItemMasterXml,
+  type TallyVoucherXml,
+  type XmlChild
+} from '@/lib/tallyXml';
+import {
+  GST_TAX_HEADS,
+  ROUND_OFF_LEDGER,
+  calculateGst,
+  determineSupplyType,
+  dutyLedgerName,
+  getActiveSlabs,
+  rateLedgerName,
+  resolveStateCode,
+  roundToPaise,
+  slabFieldKey,
+  slabFieldLabel,
+  slabForHeader,
+  stateCodeFromGstin,
+  stateNameForCode,
+  type GstDirection,
+  type GstLineInput,
+  type GstTaxHead,
+  type SupplyType
+} from '@/lib/gst';
+import { checkInvoiceTotal, checkVoucherBalance, type VoucherIssue } from '@/lib/voucherValidation';
+import {
+  buildImportResult,
+  describeSubmittedVouchers,
+  importedVoucherIdentities,
+  parseTallyResponse,
+  saveLastImportResult,
+  type SubmittedVoucher
+} from '@/lib/tallyResponse';
+import {
+  assignVoucherIdentities,
+  currentCompanyName,
+  findDuplicateVouchers,
+  recordPushedVouchers,
+  stableGuid
+} from '@/lib/voucherIdentity';
+import {
+  applyMappings,
+  confidentMappings,
+  MAPPING_FIELDS,
+  fieldAliases,
+  findMappingProfile,
+  suggestMappings
+} from '@/lib/columnMapping';
+import {
+  DEFAULT_DATE_CONVENTION,
+  configuredFinancialYear,
+  companyFinancialYear,
+  describeFinancialYear,
+  formatDateParts,
+  isWithinFinancialYear,
+  normalizeDate,
+  toTallyDate,
+  type DateConvention,
+  type FinancialYearBounds
+} from '@/lib/dateParsing';
+import { gstRowsFromVouchers } from '@/lib/gstReturns';
+import { isBlankCell, parseAmount } from '@/lib/amountParsing';
+import { parseGstr2bJson, parseGstr2bSheet, type Gstr2bStatement } from '@/lib/gstr2b';
+import {
+  buildBankVouchers,
+  parseBankStatementRows,
+  type BankStatementLine,
+  type ParsedBankStatement
+} from '@/lib/bankStatement';
+import {
+  findMissingMasters,
+  ledgerMasterFromDraft,
+  stockItemMasterFromDraft,
+  type LedgerMasterDraft,
+  type MasterDraft,
+  type StockItemMasterDraft
+} from '@/lib/masterCreation';
+import {
+  PREDEFINED_LEDGER_GROUPS,
+  buildLedgerTemplateSheets,
+  duplicateLedgerIssues,
+  ledgerMasterFromRecord,
+  readLedgerMasterRow,
+  type LedgerMasterRecord
+} from '@/lib/ledgerMaster';
+import { buildBillAllocations } from '@/lib/billAllocation';
+import { allocateCostCentres, costCategoryElements, parseCostCentreSplits } from '@/lib/costCentre';
+import {
+  buildStockItemTemplateSheets,
+  readStockItemRows,
+  stockItemMasterFromRecord
+} from '@/lib/stockItemMaster';
+import ledgerResolverService from './LedgerResolverService';
+import type {
+  FieldMapping,
+  TallyBatchDetails,
+  TallyCompany,
+  TallyGSTDetails,
+  TallyImportResult,
+  TallyLedgerContact,
+  TallyStockItem
+} from './TallyService';
 
 /**
  * Connection Status Interface
@@ -56,6 +169,31 @@ export interface ConnectionStatus {
   };
 }
 
+/**
+ * An Excel row that belongs to an invoice, with its grouping keys resolved
+ */
+interface InvoiceRow {
+  row: any;
+  index: number;
+  rowNumber: number;
+  /** Tally date, YYYYMMDD */
+  date: string;
+  party: string;
+  invoiceNo: string | null;
+}
+
+/**
+ * Stock item details read from one invoice line
+ */
+interface InvoiceItemLine {
+  stockItemName: string;
+  quantity: number;
+  unit: string;
+  rate: number | null;
+  godownName?: string;
+  batchName?: string;
+}
+
 /**
  * TallySync Pro Service Class
  * 
@@ -75,6 +213,9 @@ class TallySyncService {
   private isLocalMode: boolean = false;       // Local vs cloud operation mode
   private localBackendPort: number = 3001;    // TallySync Pro backend port
   private userId: string;                      // Unique user session identifier
+  private stockItemUnits = new Map<string, string>(); // Stock item name → base unit
+  private dateConvention: DateConvention = DEFAULT_DATE_CONVENTION; // Day/month order of the sheet being built
+  private financialYear: FinancialYearBounds | null = null; // Company financial year, when known
 
   /**
    * Constructor - Initialize TallySync Service
@@ -614,8 +755,23 @@ class TallySyncService {
     return this.baseUrl;
   }
 
-  // Client-side Excel Processing (No server required)
-  async processExcelFileClientSide(file: File): Promise<{
+  /**
+   * Names of the worksheets in an Excel file, in workbook order
+   */
+  async listSheetNames(file: File): Promise<string[]> {
+    try {
+      const XLSX = await import('xlsx');
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', bookSheets: true });
+      return workbook.SheetNames;
+    } catch (error) {
+      console.error('Excel sheet listing error:', error);
+      return [];
+    }
+  }
+
+  // Client-side Excel Processing (No server required). Reads the named
+  // sheet, or else the first one.
+  async processExcelFileClientSide(file: File, sheet?: string): Promise<{
     success: boolean;
     message: string;
     data?: any;
@@ -627,11 +783,11 @@ class TallySyncService {
       // Read file as array buffer
       const arrayBuffer = await file.arrayBuffer();
       
-      // Parse Excel file
-      const workbook = XLSX.read(arrayBuffer, { type: 'array' });
+      // Parse Excel file; raw keeps CSV dates as text so they are read in
+      // the chosen order instead of as US-ordered serials
+      const workbook = XLSX.read(arrayBuffer, { type: 'array', raw: true });
       
-      // Get the first worksheet
-      const sheetName = workbook.SheetNames[0];
+      const sheetName = sheet && workbook.SheetNames.includes(sheet) ? sheet : workbook.SheetNames[0];
       const worksheet = workbook.Sheets[sheetName];
       
       // Convert to JSON
@@ -660,23 +816,24 @@ class TallySyncService {
         return rowData;
       });
 
-      // Detect template type based on headers
-      const templateType = this.detectTemplateType(headers);
+      // Map columns with the client's saved profile, or the confident suggestions
+      const profile = findMappingProfile(headers);
+      const templateType = profile?.templateType || this.detectTemplateType(headers);
+      const suggestions = suggestMappings(headers, templateType, structuredData);
+      const mappings = profile ? profile.mappings : confidentMappings(suggestions);
 
-      // Validate data structure
-      const validation = this.validateExcelData(templateType, structuredData);
+      const data = this.remapExcelData({
+        headers,
+        rawRows: structuredData,
+        sheetName,
+        suggestions,
+        mappingProfile: profile?.name
+      }, mappings, templateType, profile?.dateConvention);
 
       return {
         success: true,
         message: `Successfully parsed Excel file with ${structuredData.length} rows`,
-        data: {
-          templateType: templateType,
-          headers: headers,
-          rows: structuredData,
-          totalRows: structuredData.length,
-          sheetName: sheetName,
-          validation: validation
-        }
+        data
       };
 
     } catch (error: any) {
@@ -688,25 +845,136 @@ class TallySyncService {
     }
   }
 
+  /**
+   * Re-map parsed Excel data with the given column mappings and validate
+   * the mapped rows. Used again after the user edits the mapping.
+   * Numeric dates are read in the given day/month order.
+   */
+  remapExcelData(
+    data: any,
+    mappings: FieldMapping[],
+    templateType: string,
+    dateConvention: DateConvention = data.dateConvention || DEFAULT_DATE_CONVENTION
+  ): any {
+    this.dateConvention = dateConvention;
+    const rows = applyMappings(data.rawRows, mappings, dateConvention);
+
+    return {
+      ...data,
+      templateType,
+      dateConvention,
+      mappings,
+      rows,
+      totalRows: rows.length,
+      validation: this.validateExcelData(templateType, rows)
+    };
+  }
+
+  /**
+   * GST rows of the vouchers an import batch would create, so purchases
+   * can be reconciled before they are pushed to Tally. Suppliers without
+   * a GSTIN column take it from the cached ledger masters.
+   */
+  gstRowsFromImport(data: any): { rows: TallyGSTDetails[]; issues: string[] } {
+    this.dateConvention = data.dateConvention || DEFAULT_DATE_CONVENTION;
+    const vouchers = this.buildVouchers(data.rows, data.templateType);
+    return gstRowsFromVouchers(vouchers, ledgerResolverService.getLedgers());
+  }
+
+  /**
+   * Provide the company's stock items so invoice lines without a unit
+   * column are posted in each item's base unit
+   */
+  setStockItems(items: TallyStockItem[]): void {
+    this.stockItemUnits = new Map(
+      items.filter(item => item.baseUnits).map(item => [item.name.trim().toLowerCase(), item.baseUnits])
+    );
+  }
+
+  /**
+   * Provide the company's financial year so voucher dates outside it are
+   * flagged. Without it the financial year from the Tally configuration
+   * is used.
+   */
+  setFinancialYear(company: Pick<TallyCompany, 'financialYearFrom' | 'financialYearTo'> | null): void {
+    this.financialYear = company ? companyFinancialYear(company) : null;
+  }
+
+  /**
+   * Download the ledger master template, listing the company's groups
+   * when they have been fetched from Tally
+   */
+  async downloadLedgerMasterTemplate(): Promise<void> {
+    const groups = ledgerResolverService.getGroupNames();
+    await this.downloadExcelFile(
+      buildLedgerTemplateSheets(MAPPING_FIELDS.ledger, groups.length > 0 ? groups : PREDEFINED_LEDGER_GROUPS),
+      'LedgerMasters.xlsx'
+    );
+  }
+
+  /**
+   * Download the stock item template with units, GST details and opening
+   * stock by godown and batch
+   */
+  async downloadStockItemTemplate(): Promise<void> {
+    await this.downloadExcelFile(buildStockItemTemplateSheets(MAPPING_FIELDS.stock), 'StockItems.xlsx');
+  }
+
+  /**
+   * Download the credit or debit note template, with one taxable value
+   * column per configured GST slab
+   */
+  async downloadNoteTemplate(templateType: 'creditNote' | 'debitNote'): Promise<void> {
+    const prefix = templateType === 'creditNote' ? 'Sales' : 'Purchase';
+    const columns = MAPPING_FIELDS[templateType];
+    const amountIndex = columns.findIndex(column => column.key === 'amount');
+    const slabColumns = getActiveSlabs().map(slab => [
+      slabFieldLabel(prefix, slab),
+      [5, 12, 18].includes(slab.rate) && slab.cessRate === 0 ? '100' : ''
+    ]);
+    const example = Object.fromEntries([
+      ...columns.slice(0, amountIndex).map(column => [column.name, column.example]),
+      ...slabColumns,
+      ...columns.slice(amountIndex).map(column => [column.name, column.example])
+    ]);
+
+    await this.downloadExcelFile(
+      [
+        { name: templateType === 'creditNote' ? 'Credit Notes' : 'Debit Notes', rows: [example] },
+        {
+          name: 'Instructions',
+          rows: columns.map(column => ({ Column: column.name, Required: column.required ? 'Yes' : 'No', Example: column.example }))
+        }
+      ],
+      templateType === 'creditNote' ? 'CreditNotes.xlsx' : 'DebitNotes.xlsx'
+    );
+  }
+
   // Client-side XML Generation (No server required)
   async generateTallyXMLClientSide(data: any, templateType: string): Promise<{
     success: boolean;
     message: string;
     xmlContent?: string;
     fileName?: string;
+    vouchers?: SubmittedVoucher[];
+    /** Ledgers and stock items the vouchers need that Tally does not have */
+    missingMasters?: MasterDraft[];
   }> {
     try {
       const { headers, rows } = data;
+      this.dateConvention = data.dateConvention || DEFAULT_DATE_CONVENTION;
       
       // Generate Tally XML content
-      const xmlContent = this.generateTallyXMLContent(rows, templateType);
+      const { xml: xmlContent, vouchers, missingMasters } = this.generateTallyXMLContent(rows, templateType);
       const fileName = this.generateXMLFileName(templateType);
 
       return {
         success: true,
         message: `Successfully converted ${rows.length} records to Tally XML`,
         xmlContent: xmlContent,
-        fileName: fileName
+        fileName: fileName,
+        vouchers,
+        missingMasters
       };
 
     } catch (error: any) {
@@ -738,14 +1006,177 @@ class TallySyncService {
     }
   }
 
+  // Download JSON file to user's device, e.g. for the GST offline tool
+  downloadJSONFile(data: unknown, fileName: string): void {
+    try {
+      const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      toast.success(`JSON file downloaded: ${fileName}`);
+    } catch (error: any) {
+      console.error('Download error:', error);
+      toast.error('Failed to download JSON file');
+    }
+  }
+
+  /**
+   * Read a GSTR-2B statement downloaded from the GST portal, as the JSON
+   * file or the Excel workbook with its B2B and B2B-CDNR sheets
+   */
+  async parseGstr2bFile(file: File): Promise<{
+    success: boolean;
+    message: string;
+    statement?: Gstr2bStatement;
+  }> {
+    try {
+      let statement: Gstr2bStatement | null;
+      if (/\.json$/i.test(file.name)) {
+        statement = parseGstr2bJson(JSON.parse(await file.text()));
+      } else {
+        const XLSX = await import('xlsx');
+        const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+        const sheetRows = (pattern: RegExp) => {
+          const name = workbook.SheetNames.find(sheetName => pattern.test(sheetName.trim()));
+          return name ? XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, defval: '' }) : [];
+        };
+        const invoices = parseGstr2bSheet(sheetRows(/^b2b$/i), 'invoice');
+        const notes = parseGstr2bSheet(sheetRows(/^b2b-?cdnr$/i), 'note');
+        statement = invoices.length + notes.length > 0
+          ? { gstin: '', period: '', documents: [...invoices, ...notes], issues: [] }
+          : null;
+      }
+
+      if (!statement) {
+        return {
+          success: false,
+          message: 'Not a GSTR-2B statement. Download the JSON or Excel file of GSTR-2B from the GST portal.'
+        };
+      }
+
+      return {
+        success: true,
+        message: `Read ${statement.documents.length} documents from ${file.name}`,
+        statement
+      };
+    } catch (error: any) {
+      console.error('GSTR-2B parsing error:', error);
+      return {
+        success: false,
+        message: `Failed to read GSTR-2B: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Read a bank statement downloaded as CSV or Excel, from the named sheet
+   * or else the first one. Numeric dates are read in the given day/month
+   * order.
+   */
+  async parseBankStatementFile(
+    file: File,
+    dateConvention: DateConvention = DEFAULT_DATE_CONVENTION,
+    sheet?: string
+  ): Promise<{
+    success: boolean;
+    message: string;
+    statement?: ParsedBankStatement;
+  }> {
+    try {
+      const XLSX = await import('xlsx');
+      const arrayBuffer = await file.arrayBuffer();
+
+      // raw keeps CSV dates as text so they are read in the chosen order
+      const workbook = XLSX.read(arrayBuffer, { type: 'array', raw: true });
+      const worksheet = workbook.Sheets[sheet && workbook.SheetNames.includes(sheet) ? sheet : workbook.SheetNames[0]];
+      const sheetRows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '' });
+
+      const statement = parseBankStatementRows(sheetRows, dateConvention);
+      if (!statement) {
+        return {
+          success: false,
+          message: 'Could not find the transaction table. Expected date, narration and withdrawal/deposit columns.'
+        };
+      }
+
+      const invalid = statement.invalidAmountRows;
+      return {
+        success: true,
+        message: `Read ${statement.transactions.length} transactions from ${file.name}` +
+          (invalid.length > 0 ? `; skipped row${invalid.length > 1 ? 's' : ''} ${invalid.join(', ')} with an unreadable amount` : ''),
+        statement
+      };
+    } catch (error: any) {
+      console.error('Bank statement parsing error:', error);
+      return {
+        success: false,
+        message: `Failed to read bank statement: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Generate Receipt, Payment and Contra vouchers for categorised bank
+   * statement lines, posted against the given bank ledger
+   */
+  generateBankStatementXML(lines: BankStatementLine[], bankLedger: string): {
+    xmlContent: string;
+    fileName: string;
+    vouchers: SubmittedVoucher[];
+  } {
+    const resolved = lines.map(line => ({ ...line, ledger: ledgerResolverService.ledgerNameFor(line.ledger) }));
+    const { vouchers, identities } = assignVoucherIdentities(
+      buildBankVouchers(resolved, ledgerResolverService.ledgerNameFor(bankLedger))
+    );
+
+    return {
+      xmlContent: buildVoucherEnvelope(vouchers),
+      fileName: this.generateXMLFileName('bank'),
+      vouchers: describeSubmittedVouchers(vouchers, identities)
+    };
+  }
+
+  /**
+   * Download rows as an Excel workbook with one sheet per entry
+   */
+  async downloadExcelFile(sheets: { name: string; rows: Record<string, unknown>[] }[], fileName: string): Promise<void> {
+    try {
+      const XLSX = await import('xlsx');
+      const workbook = XLSX.utils.book_new();
+      sheets.forEach(sheet => {
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheet.rows), sheet.name.slice(0, 31));
+      });
+      XLSX.writeFile(workbook, fileName);
+
+      toast.success(`Excel file downloaded: ${fileName}`);
+    } catch (error: any) {
+      console.error('Excel download error:', error);
+      toast.error('Failed to download Excel file');
+    }
+  }
+
   // Template type detection based on headers
   private detectTemplateType(headers: string[]): string {
     const headerStr = headers.join(' ').toLowerCase();
     
-    if (headerStr.includes('invoice') && headerStr.includes('customer')) {
+    if (headerStr.includes('credit note')) {
+      return 'creditNote';
+    } else if (headerStr.includes('debit note')) {
+      return 'debitNote';
+    } else if (headerStr.includes('contra')) {
+      return 'contra';
+    } else if (headerStr.includes('invoice') && headerStr.includes('customer')) {
       return 'sales';
     } else if (headerStr.includes('invoice') && headerStr.includes('supplier')) {
       return 'purchase';
+    } else if (headerStr.includes('debit ledger') && headerStr.includes('credit ledger')) {
+      return 'journal';
     } else if (headerStr.includes('payment') || headerStr.includes('voucher')) {
       return 'payment';
     } else if (headerStr.includes('receipt')) {
@@ -786,25 +1217,58 @@ class TallySyncService {
     switch (templateType) {
       case 'sales':
       case 'purchase':
+      case 'creditNote':
+      case 'debitNote':
         this.validateInvoiceData(data, issues, warnings);
         break;
       case 'payment':
       case 'receipt':
         this.validateVoucherData(data, issues, warnings);
         break;
+      case 'contra':
+        // Both ledgers are checked when the vouchers are built
+        break;
       default:
         warnings.push('Template type not recognized, using general validation');
     }
 
+    // Accounting validation: build the vouchers and check totals and balance per row
+    const rowIssues: VoucherIssue[] = [];
+    if (templateType === 'ledger') {
+      this.buildLedgerMasters(data, rowIssues);
+    } else if (templateType === 'stock') {
+      this.buildStockItemMasters(data, rowIssues);
+    } else {
+      this.reportDuplicateVouchers(this.buildVouchers(data, templateType, rowIssues), rowIssues);
+    }
+    rowIssues.forEach(issue => {
+      (issue.severity === 'error' ? issues : warnings).push(`Row ${issue.row}: ${issue.message}`);
+    });
+
     return {
       valid: issues.length === 0,
       issues,
       warnings,
+      rowIssues,
       totalRows: data.length,
       validRows: data.length - emptyRows.length
     };
   }
 
+  // Vouchers that would share a GUID are not sent; flag every row of them
+  private reportDuplicateVouchers(vouchers: TallyVoucherXml[], rowIssues: VoucherIssue[]): void {
+    findDuplicateVouchers(vouchers).forEach(voucher => {
+      const party = voucher.partyLedgerName ? ` from ${voucher.partyLedgerName}` : '';
+      (voucher.sourceRows || []).forEach(row => rowIssues.push({
+        row,
+        field: 'voucher_no',
+        value: voucher.voucherNumber,
+        message: `${voucher.voucherType} ${voucher.voucherNumber}${party} appears more than once on the same date; it will not be imported`,
+        severity: 'error'
+      }));
+    });
+  }
+
   private validateInvoiceData(data: any[], issues: string[], warnings: string[]): void {
     data.forEach((row) => {
       const rowData = Object.keys(row).map(key => key.toLowerCase());
@@ -849,62 +1313,115 @@ class TallySyncService {
     return `tally-${templateType}-${timestamp}.xml`;
   }
 
-  // Generate Tally XML content
-  private generateTallyXMLContent(rows: any[], templateType: string): string {
-    // XML Header
-    let xml = `<?xml version="1.0" encoding="UTF-8"?>\n`;
-    xml += `<ENVELOPE>\n`;
-    xml += `  <HEADER>\n`;
-    xml += `    <TALLYREQUEST>Import Data</TALLYREQUEST>\n`;
-    xml += `  </HEADER>\n`;
-    xml += `  <BODY>\n`;
-    xml += `    <IMPORTDATA>\n`;
-    xml += `      <REQUESTDESC>\n`;
-    xml += `        <REPORTNAME>All Masters</REPORTNAME>\n`;
-    xml += `      </REQUESTDESC>\n`;
-    xml += `      <REQUESTDATA>\n`;
-
-    // Generate vouchers based on template type
+  // Generate Tally XML content, with the vouchers it contains in submission
+  // order and the masters they need that are missing from Tally
+  private generateTallyXMLContent(rows: any[], templateType: string): {
+    xml: string;
+    vouchers: SubmittedVoucher[];
+    missingMasters: MasterDraft[];
+  } {
+    switch (templateType) {
+      case 'ledger':
+        return { xml: buildMastersEnvelope({ ledgers: this.buildLedgerMasters(rows) }), vouchers: [], missingMasters: [] };
+      case 'stock':
+        return { xml: buildMastersEnvelope({ stockItems: this.buildStockItemMasters(rows) }), vouchers: [], missingMasters: [] };
+      default: {
+        const { vouchers, identities } = assignVoucherIdentities(this.buildVouchers(rows, templateType));
+        return {
+          xml: buildVoucherEnvelope(vouchers),
+          vouchers: describeSubmittedVouchers(vouchers, identities),
+          missingMasters: this.findMissingMasters(vouchers, rows)
+        };
+      }
+    }
+  }
+
+  // Ledgers and stock items the vouchers post to that are not in the
+  // cached Tally masters. New party ledgers take their contact details
+  // from the first row of the voucher that introduced them.
+  private findMissingMasters(vouchers: TallyVoucherXml[], rows: any[]): MasterDraft[] {
+    const rowsByNumber = new Map<number, any>(rows.map((row, index) => [row._rowNumber || index + 1, row]));
+
+    return findMissingMasters(vouchers, {
+      resolveLedger: name => ledgerResolverService.resolve(name),
+      hasStockItem: name => ledgerResolverService.hasStockItem(name),
+      contactFor: (_ledgerName, voucher) => {
+        const row = rowsByNumber.get((voucher.sourceRows || [])[0]);
+        return row ? this.readLedgerContact(row) : undefined;
+      }
+    });
+  }
+
+  // Party contact details typed on a row
+  private readLedgerContact(row: any): TallyLedgerContact {
+    const gst = this.resolveGstContext(row);
+    return {
+      gstin: gst.partyGstin?.trim().toUpperCase() || undefined,
+      state: gst.stateName,
+      pan: this.findFieldValue(row, ['pan']) || undefined,
+      address: this.findFieldValue(row, ['address', 'party_address']) || undefined,
+      pincode: this.findFieldValue(row, ['pincode']) || undefined,
+      phone: this.findFieldValue(row, ['phone']) || undefined,
+      email: this.findFieldValue(row, ['email']) || undefined
+    };
+  }
+
+  /**
+   * Masters envelope creating the approved ledgers
+   */
+  generateLedgerMastersXML(drafts: LedgerMasterDraft[]): string {
+    return buildMastersEnvelope({
+      ledgers: drafts.map(draft => ({ ...ledgerMasterFromDraft(draft), guid: this.generateGUID('ledger', draft.name) }))
+    });
+  }
+
+  /**
+   * Masters envelope creating the approved stock items
+   */
+  generateStockItemsXML(drafts: StockItemMasterDraft[]): string {
+    return buildMastersEnvelope({
+      stockItems: drafts.map(draft => ({ ...stockItemMasterFromDraft(draft), guid: this.generateGUID('stockitem', draft.name) }))
+    });
+  }
+
+  // Build voucher objects based on template type
+  private buildVouchers(rows: any[], templateType: string, rowIssues: VoucherIssue[] = []): TallyVoucherXml[] {
     switch (templateType) {
       case 'sales':
-        xml += this.generateSalesVouchersXML(rows);
-        break;
+        return this.buildInvoiceVouchers(rows, 'sales', rowIssues);
       case 'purchase':
-        xml += this.generatePurchaseVouchersXML(rows);
-        break;
+        return this.buildInvoiceVouchers(rows, 'purchase', rowIssues);
+      case 'creditNote':
+        return this.buildInvoiceVouchers(rows, 'sales', rowIssues, true);
+      case 'debitNote':
+        return this.buildInvoiceVouchers(rows, 'purchase', rowIssues, true);
       case 'payment':
-        xml += this.generatePaymentVouchersXML(rows);
-        break;
+        return this.buildPaymentVouchers(rows, rowIssues);
       case 'receipt':
-        xml += this.generateReceiptVouchersXML(rows);
-        break;
+        return this.buildReceiptVouchers(rows, rowIssues);
       case 'journal':
-        xml += this.generateJournalVouchersXML(rows);
-        break;
-      case 'ledger':
-        xml += this.generateLedgerMastersXML(rows);
-        break;
-      case 'stock':
-        xml += this.generateStockItemsXML(rows);
-        break;
+        return this.buildJournalVouchers(rows, rowIssues);
+      case 'contra':
+        return this.buildContraVouchers(rows, rowIssues);
       default:
-        xml += this.generateGeneralVouchersXML(rows, templateType);
+        return this.buildGeneralVouchers(rows, templateType);
     }
+  }
 
-    // XML Footer
-    xml += `      </REQUESTDATA>\n`;
-    xml += `    </IMPORTDATA>\n`;
-    xml += `  </BODY>\n`;
-    xml += `</ENVELOPE>`;
-
-    return xml;
+  // Helper method to find a field whose header equals one of the names,
+  // ignoring case, spaces and punctuation. Earlier names win, whatever
+  // the column order.
+  private findExactFieldValue(row: any, fieldNames: string[]): string | null {
+    const cell = this.findExactFieldCell(row, fieldNames);
+    return cell === null ? null : String(cell);
   }
 
-  // Helper method to find field value by multiple possible names
-  private findFieldValue(row: any, fieldNames: string[]): string | null {
-    for (const fieldName of fieldNames) {
+  private findExactFieldCell(row: any, fieldNames: string[]): unknown {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+    for (const name of fieldNames.map(normalize)) {
       for (const key in row) {
-        if (key.toLowerCase().includes(fieldName.toLowerCase()) && row[key]) {
+        if (normalize(key) === name && row[key]) {
           return row[key];
         }
       }
@@ -912,260 +1429,663 @@ class TallySyncService {
     return null;
   }
 
-  // Format date for Tally XML
-  private formatTallyDate(dateValue: any): string {
-    try {
-      const date = new Date(dateValue);
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}${month}${day}`;
-    } catch {
-      // Default to today's date if parsing fails
-      const today = new Date();
-      const year = today.getFullYear();
-      const month = String(today.getMonth() + 1).padStart(2, '0');
-      const day = String(today.getDate()).padStart(2, '0');
-      return `${year}${month}${day}`;
-    }
+  // Helper method to find a field by its mapped field key or a known header
+  // spelling. Each name is tried with its own aliases before the next name,
+  // and headers are compared whole, so "Amount in words" is never read as
+  // the amount.
+  private findFieldValue(row: any, fieldNames: string[]): string | null {
+    const cell = this.findFieldCell(row, fieldNames);
+    return cell === null ? null : String(cell);
   }
 
-  // Generate voucher key
-  private generateVoucherKey(): string {
-    return Math.random().toString(36).substr(2, 12).toUpperCase();
+  // The cell itself rather than its text, so a numeric date cell is still
+  // read as an Excel serial
+  private findFieldCell(row: any, fieldNames: string[]): unknown {
+    for (const name of fieldNames) {
+      const cell = this.findExactFieldCell(row, [name, ...fieldAliases(name)]);
+      if (cell !== null) return cell;
+    }
+    return null;
   }
 
-  // Generate GUID
-  private generateGUID(): string {
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-      const r = Math.random() * 16 | 0;
-      const v = c == 'x' ? r : (r & 0x3 | 0x8);
-      return v.toString(16).toUpperCase();
+  // Tally ledger for a typed party or ledger name. Names that match one
+  // ledger with certainty are posted as that ledger; names not found in
+  // the cached Tally ledgers are reported with the closest ledgers.
+  private postingLedger(
+    name: string,
+    rowNumber: number,
+    rowIssues: VoucherIssue[],
+    field: string = 'party',
+    gstin?: string | null
+  ): string {
+    const resolution = ledgerResolverService.resolve(name, gstin || undefined);
+    if (!resolution) return name;
+    if (resolution.ledger) return resolution.ledger.name;
+
+    const suggestions = resolution.suggestions.map(match => `"${match.name}"`).join(', ');
+    rowIssues.push({
+      row: rowNumber,
+      field,
+      value: name,
+      message: suggestions
+        ? `Ledger "${name}" is not in Tally; did you mean ${suggestions}?`
+        : `Ledger "${name}" is not in Tally`,
+      severity: 'warning'
     });
+    return name;
   }
 
-  // XML Generation Methods for different voucher types
-  private generateSalesVouchersXML(rows: any[]): string {
-    let xml = '';
-    
+  // Tally date for a row's date cell. Unreadable dates are reported as
+  // errors and dates outside the company's financial year as warnings.
+  private readTallyDate(value: any, rowNumber: number, rowIssues: VoucherIssue[]): string | null {
+    const result = normalizeDate(value, this.dateConvention);
+    if (!result.date) {
+      rowIssues.push({ row: rowNumber, field: 'date', value: String(value ?? ''), message: `${result.error}; row skipped`, severity: 'error' });
+      return null;
+    }
+
+    const financialYear = this.financialYear || configuredFinancialYear();
+    if (financialYear && !isWithinFinancialYear(result.date, financialYear)) {
+      rowIssues.push({
+        row: rowNumber,
+        field: 'date',
+        value: String(value),
+        message: `Date ${formatDateParts(result.date)} is outside the financial year ${describeFinancialYear(financialYear)}`,
+        severity: 'warning'
+      });
+    }
+
+    return toTallyDate(result.date);
+  }
+
+  // Amount in a cell, or null when it is empty; text that is not an amount
+  // is reported against the row
+  private readAmount(value: unknown, rowNumber: number, field: string, rowIssues: VoucherIssue[]): number | null {
+    if (isBlankCell(value)) return null;
+    const amount = parseAmount(value);
+    if (amount === null) {
+      rowIssues.push({ row: rowNumber, field, value: String(value), message: `"${value}" is not an amount`, severity: 'error' });
+    }
+    return amount;
+  }
+
+  // Voucher number from the sheet, or '' to let Tally number the voucher.
+  // Such a voucher has no stable identity, so importing the row again
+  // creates it again; the row is flagged rather than numbered by position
+  private readVoucherNumber(value: unknown, rowNumber: number, field: string, rowIssues: VoucherIssue[]): string {
+    const voucherNumber = isBlankCell(value) ? '' : String(value).trim();
+    if (!voucherNumber) {
+      rowIssues.push({
+        row: rowNumber,
+        field,
+        value: '',
+        message: 'No voucher number; Tally will number the voucher and importing this row again will create it again',
+        severity: 'warning'
+      });
+    }
+    return voucherNumber;
+  }
+
+  // Slab-wise taxable values from columns such as "Sales 18%" or slab field keys
+  private readRowSlabs(row: any, rowNumber: number, rowIssues: VoucherIssue[]): GstLineInput[] {
+    const slabs = getActiveSlabs();
+    const lines: GstLineInput[] = [];
+
+    for (const key in row) {
+      const slab = slabForHeader(key, slabs) || slabs.find(s => slabFieldKey(s) === key);
+      const value = slab ? this.readAmount(row[key], rowNumber, key, rowIssues) : null;
+      if (slab && value) {
+        lines.push({ rate: slab.rate, cessRate: slab.cessRate, taxableAmount: value });
+      }
+    }
+
+    return lines;
+  }
+
+  // Tax amounts typed into CGST/SGST/IGST/Cess columns, or null when none were entered
+  private readEnteredTaxes(row: any, rowNumber: number, rowIssues: VoucherIssue[]): Record<GstTaxHead, number> | null {
+    const taxes: Record<GstTaxHead, number> = { cgst: 0, sgst: 0, igst: 0, cess: 0 };
+    let entered = false;
+
+    for (const key in row) {
+      const match = key.trim().toLowerCase().match(/^(cgst|sgst|igst|cess)(\s*amount)?$/);
+      const value = match ? this.readAmount(row[key], rowNumber, key, rowIssues) : null;
+      if (match && value) {
+        taxes[match[1] as GstTaxHead] = roundToPaise(value);
+        entered = true;
+      }
+    }
+
+    return entered ? taxes : null;
+  }
+
+  // Resolve party GSTIN, place of supply and supply type for an invoice row
+  private resolveGstContext(row: any): {
+    partyGstin: string | null;
+    stateName?: string;
+    supplyType: SupplyType;
+  } {
+    const partyGstin = this.findFieldValue(row, ['gstin', 'gst_no', 'gst no']);
+    const placeOfSupply = this.findFieldValue(row, ['place_of_supply', 'place of supply']);
+
+    return {
+      partyGstin,
+      stateName: stateNameForCode(resolveStateCode(placeOfSupply) || stateCodeFromGstin(partyGstin)),
+      supplyType: determineSupplyType({ partyGstin, placeOfSupply })
+    };
+  }
+
+  // Item, quantity, unit, rate, godown and batch of an invoice line
+  private readInventoryLine(row: any): InvoiceItemLine | null {
+    const stockItemName = this.findFieldValue(row, ['item', 'item_name', 'product']);
+    if (!stockItemName) return null;
+
+    const batch: Partial<TallyBatchDetails> = {
+      batchName: this.findExactFieldValue(row, ['batch', 'batch_no', 'batch_name']) || undefined,
+      godownName: this.findExactFieldValue(row, ['godown', 'godown_name', 'location']) || undefined
+    };
+
+    return {
+      stockItemName,
+      quantity: parseAmount(this.findFieldValue(row, ['quantity', 'qty'])) || 1,
+      unit: this.findExactFieldValue(row, ['unit', 'units', 'uom', 'unit_of_measure'])
+        || this.stockItemUnits.get(stockItemName.trim().toLowerCase())
+        || 'Nos',
+      rate: parseAmount(this.findFieldValue(row, ['rate', 'unit_price', 'price'])) || null,
+      godownName: batch.godownName,
+      batchName: batch.batchName
+    };
+  }
+
+  // Godown and batch allocation of an invoice line, when the line names either
+  private batchAllocationsFor(item: InvoiceItemLine | null | undefined, amount: number): TallyBatchAllocationXml[] | undefined {
+    if (!item || (!item.godownName && !item.batchName)) return undefined;
+    return [{ godownName: item.godownName, batchName: item.batchName, quantity: item.quantity, amount }];
+  }
+
+  // Voucher-level GST fields for an invoice
+  private gstVoucherFields(gst: { partyGstin: string | null; stateName?: string }): XmlChild[] {
+    return [
+      optionalEl('PARTYGSTIN', gst.partyGstin),
+      optionalEl('STATENAME', gst.stateName),
+      optionalEl('PLACEOFSUPPLY', gst.stateName)
+    ];
+  }
+
+  // Stable GUID for a master, so re-importing the same sheet alters it
+  private generateGUID(masterType: string, name: string): string {
+    return stableGuid([currentCompanyName(), masterType, name].join('|').trim().toLowerCase());
+  }
+
+  // Voucher builders for different voucher types
+
+  // Sales and purchase invoices share one shape with the Dr/Cr sides mirrored.
+  // Credit and debit notes (isReturn) mirror the sides again. Rows sharing
+  // invoice number, party and date are grouped into one voucher; rows
+  // without an invoice number stay single-line vouchers.
+  private buildInvoiceVouchers(
+    rows: any[],
+    direction: GstDirection,
+    rowIssues: VoucherIssue[] = [],
+    isReturn: boolean = false
+  ): TallyVoucherXml[] {
+    const isSales = direction === 'sales';
+    const groups = new Map<string, InvoiceRow[]>();
+
     rows.forEach((row, index) => {
-      // Map common field variations
-      const date = this.findFieldValue(row, ['date', 'invoice_date', 'bill_date']);
-      const invoiceNo = this.findFieldValue(row, ['invoice_no', 'bill_no', 'voucher_no']);
-      const customer = this.findFieldValue(row, ['customer', 'party', 'customer_name']);
-      const amount = this.findFieldValue(row, ['amount', 'total_amount', 'total']);
-      const itemName = this.findFieldValue(row, ['item', 'item_name', 'product', 'description']);
-      const quantity = this.findFieldValue(row, ['quantity', 'qty']) || '1';
-      const rate = this.findFieldValue(row, ['rate', 'unit_price', 'price']);
-
-      if (!date || !customer || !amount) {
-        console.warn(`Skipping row ${index + 1}: Missing required fields`);
+      const rowNumber: number = row._rowNumber || index + 1;
+      const date = this.findFieldCell(row, ['date', 'invoice_date', 'bill_date']);
+      const invoiceNo = this.findFieldValue(row, isReturn ? ['voucher_no', 'invoice_no'] : ['invoice_no', 'bill_no', 'voucher_no']);
+      const party = this.findFieldValue(row, isSales
+        ? ['customer', 'party', 'customer_name']
+        : ['supplier', 'party', 'supplier_name', 'vendor']);
+
+      if (!date || !party) {
+        rowIssues.push({
+          row: rowNumber,
+          field: !date ? 'date' : 'party',
+          value: '',
+          message: `Missing ${!date ? 'date' : 'party name'}; row skipped`,
+          severity: 'error'
+        });
         return;
       }
 
-      xml += `        <TALLYMESSAGE xmlns:UDF="TallyUDF">\n`;
-      xml += `          <VOUCHER REMOTEID="${invoiceNo || `SI${index + 1}`}" VCHKEY="${this.generateVoucherKey()}" VCHTYPE="Sales" ACTION="Create" OBJVIEW="Invoice Voucher View">\n`;
-      xml += `            <DATE>${this.formatTallyDate(date)}</DATE>\n`;
-      xml += `            <VOUCHERTYPENAME>Sales</VOUCHERTYPENAME>\n`;
-      xml += `            <VOUCHERNUMBER>${invoiceNo || `SI${index + 1}`}</VOUCHERNUMBER>\n`;
-      xml += `            <PARTYLEDGERNAME>${customer}</PARTYLEDGERNAME>\n`;
-      xml += `            <EFFECTIVEDATE>${this.formatTallyDate(date)}</EFFECTIVEDATE>\n`;
-      
-      // All ledger entries
-      xml += `            <ALLINVENTORYENTRIES.LIST>\n`;
-      xml += `              <STOCKITEMNAME>${itemName || 'Sales Item'}</STOCKITEMNAME>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <ISLASTDEEMEDPOSITIVE>No</ISLASTDEEMEDPOSITIVE>\n`;
-      xml += `              <ISAUTONEGATE>No</ISAUTONEGATE>\n`;
-      xml += `              <ISCUSTOMSCLEARANCE>No</ISCUSTOMSCLEARANCE>\n`;
-      xml += `              <ISTRACKCOMPONENT>No</ISTRACKCOMPONENT>\n`;
-      xml += `              <ISTRACKPRODUCTION>No</ISTRACKPRODUCTION>\n`;
-      xml += `              <ISPRIMARYITEM>No</ISPRIMARYITEM>\n`;
-      xml += `              <ISSCRAP>No</ISSCRAP>\n`;
-      xml += `              <RATE>${rate || (Number(amount) / Number(quantity)).toFixed(2)}/Nos</RATE>\n`;
-      xml += `              <AMOUNT>-${amount}</AMOUNT>\n`;
-      xml += `              <ACTUALQTY>-${quantity} Nos</ACTUALQTY>\n`;
-      xml += `              <BILLEDQTY>-${quantity} Nos</BILLEDQTY>\n`;
-      xml += `            </ALLINVENTORYENTRIES.LIST>\n`;
-      
-      // Ledger entries
-      xml += `            <ALLLEDGERENTRIES.LIST>\n`;
-      xml += `              <LEDGERNAME>${customer}</LEDGERNAME>\n`;
-      xml += `              <GSTCLASS/>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>Yes</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <LEDGERFROMITEM>No</LEDGERFROMITEM>\n`;
-      xml += `              <REMOVEZEROENTRIES>No</REMOVEZEROENTRIES>\n`;
-      xml += `              <ISPARTYLEDGER>Yes</ISPARTYLEDGER>\n`;
-      xml += `              <AMOUNT>${amount}</AMOUNT>\n`;
-      xml += `            </ALLLEDGERENTRIES.LIST>\n`;
-      
-      xml += `            <ALLLEDGERENTRIES.LIST>\n`;
-      xml += `              <LEDGERNAME>Sales</LEDGERNAME>\n`;
-      xml += `              <GSTCLASS/>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <LEDGERFROMITEM>No</LEDGERFROMITEM>\n`;
-      xml += `              <REMOVEZEROENTRIES>No</REMOVEZEROENTRIES>\n`;
-      xml += `              <ISPARTYLEDGER>No</ISPARTYLEDGER>\n`;
-      xml += `              <AMOUNT>-${amount}</AMOUNT>\n`;
-      xml += `            </ALLLEDGERENTRIES.LIST>\n`;
-      
-      xml += `          </VOUCHER>\n`;
-      xml += `        </TALLYMESSAGE>\n`;
+      const tallyDate = this.readTallyDate(date, rowNumber, rowIssues);
+      if (!tallyDate) return;
+
+      const partyLedger = this.postingLedger(
+        party,
+        rowNumber,
+        rowIssues,
+        'party',
+        this.findFieldValue(row, ['gstin', 'gst_no', 'gst no'])
+      );
+
+      const key = invoiceNo
+        ? [String(invoiceNo).trim(), partyLedger.trim(), tallyDate].join('|').toLowerCase()
+        : `row:${rowNumber}`;
+      const group = groups.get(key) || [];
+      group.push({ row, index, rowNumber, date: tallyDate, party: partyLedger, invoiceNo });
+      groups.set(key, group);
+    });
+
+    const vouchers: TallyVoucherXml[] = [];
+    groups.forEach(lines => {
+      const voucher = this.buildInvoiceVoucher(lines, direction, rowIssues, isReturn);
+      if (voucher) vouchers.push(voucher);
     });
 
-    return xml;
+    return vouchers;
   }
 
-  private generatePurchaseVouchersXML(rows: any[]): string {
-    let xml = '';
-    
-    rows.forEach((row, index) => {
-      const date = this.findFieldValue(row, ['date', 'invoice_date', 'bill_date']);
-      const invoiceNo = this.findFieldValue(row, ['invoice_no', 'bill_no', 'voucher_no']);
-      const supplier = this.findFieldValue(row, ['supplier', 'party', 'supplier_name', 'vendor']);
-      const amount = this.findFieldValue(row, ['amount', 'total_amount', 'total']);
-      const itemName = this.findFieldValue(row, ['item', 'item_name', 'product', 'description']);
-      const quantity = this.findFieldValue(row, ['quantity', 'qty']) || '1';
-      const rate = this.findFieldValue(row, ['rate', 'unit_price', 'price']);
-
-      if (!date || !supplier || !amount) {
-        console.warn(`Skipping row ${index + 1}: Missing required fields`);
-        return;
+  // One invoice voucher from its lines. Lines with GST slab columns post
+  // rate-wise ledgers, duty ledgers and round off. Invoices that cannot form
+  // a balanced voucher are skipped and reported in rowIssues.
+  private buildInvoiceVoucher(
+    lines: InvoiceRow[],
+    direction: GstDirection,
+    rowIssues: VoucherIssue[],
+    isReturn: boolean = false
+  ): TallyVoucherXml | null {
+    const isSales = direction === 'sales';
+    const partySide: EntrySide = isSales !== isReturn ? 'Dr' : 'Cr';
+    const lineSide: EntrySide = partySide === 'Dr' ? 'Cr' : 'Dr';
+    const head = lines[0];
+    const gst = this.resolveGstContext(head.row);
+
+    const voucherNumber = this.readVoucherNumber(head.invoiceNo, head.rowNumber, isReturn ? 'voucher_no' : 'invoice_no', rowIssues);
+    const voucher: TallyVoucherXml = {
+      voucherType: isReturn ? (isSales ? 'Credit Note' : 'Debit Note') : (isSales ? 'Sales' : 'Purchase'),
+      date: head.date,
+      voucherNumber,
+      objView: 'Invoice Voucher View',
+      partyLedgerName: head.party,
+      narration: this.findFieldValue(head.row, ['narration']) || undefined,
+      extra: this.gstVoucherFields(gst),
+      sourceRows: lines.map(line => line.rowNumber),
+      ledgerEntries: [],
+      inventoryEntries: []
+    };
+    const inventoryEntries = voucher.inventoryEntries!;
+
+    const lineData = lines.map(line => {
+      const amountCell = this.findFieldValue(line.row, ['amount', 'total_amount', 'total']);
+      return {
+        ...line,
+        slabs: this.readRowSlabs(line.row, line.rowNumber, rowIssues),
+        amountCell,
+        amount: this.readAmount(amountCell, line.rowNumber, 'total', rowIssues),
+        item: this.readInventoryLine(line.row)
+      };
+    });
+    const slabLines = lineData.flatMap(line => line.slabs);
+
+    if (slabLines.length === 0) {
+      // No slab columns: post each line's amount to the Sales/Purchase ledger
+      let invoiceTotal = 0;
+
+      lineData.forEach(line => {
+        const value = line.amount;
+        if (!value) {
+          // An amount that could not be read was reported already
+          if (value !== null || isBlankCell(line.amountCell)) {
+            rowIssues.push({ row: line.rowNumber, field: 'total', value: '', message: 'Missing amount; line skipped', severity: 'error' });
+          }
+          return;
+        }
+
+        const item = line.item;
+        invoiceTotal = roundToPaise(invoiceTotal + value);
+        inventoryEntries.push({
+          stockItemName: item?.stockItemName || (isSales ? 'Sales Item' : 'Purchase Item'),
+          side: lineSide,
+          quantity: item?.quantity || 1,
+          unit: item?.unit || 'Nos',
+          rate: item?.rate || value / (item?.quantity || 1),
+          amount: value,
+          batchAllocations: this.batchAllocationsFor(item, value),
+          accountingAllocations: [{ ledgerName: isSales ? 'Sales' : 'Purchase', side: lineSide, amount: value }]
+        });
+      });
+
+      if (inventoryEntries.length === 0) return null;
+
+      voucher.ledgerEntries.push({ ledgerName: head.party, side: partySide, amount: invoiceTotal, isPartyLedger: true });
+    } else {
+      const calculation = calculateGst(slabLines, gst.supplyType);
+      const enteredTaxes = lineData
+        .map(line => this.readEnteredTaxes(line.row, line.rowNumber, rowIssues))
+        .filter((taxes): taxes is Record<GstTaxHead, number> => taxes !== null);
+      const taxes: Record<GstTaxHead, number> = enteredTaxes.length === 0 ? calculation : {
+        cgst: roundToPaise(enteredTaxes.reduce((sum, entry) => sum + entry.cgst, 0)),
+        sgst: roundToPaise(enteredTaxes.reduce((sum, entry) => sum + entry.sgst, 0)),
+        igst: roundToPaise(enteredTaxes.reduce((sum, entry) => sum + entry.igst, 0)),
+        cess: roundToPaise(enteredTaxes.reduce((sum, entry) => sum + entry.cess, 0))
+      };
+      const taxTotal = roundToPaise(GST_TAX_HEADS.reduce((sum, taxHead) => sum + taxes[taxHead], 0));
+
+      // TOTAL is per line; it is used only when every line carries one
+      const invoiceTotal = lineData.every(line => line.amount)
+        ? roundToPaise(lineData.reduce((sum, line) => sum + (line.amount || 0), 0))
+        : roundToPaise(calculation.taxableAmount + taxTotal);
+      const roundOff = roundToPaise(invoiceTotal - calculation.taxableAmount - taxTotal);
+
+      const totalIssue = checkInvoiceTotal({
+        row: head.rowNumber,
+        taxableAmount: calculation.taxableAmount,
+        taxTotal,
+        total: invoiceTotal
+      });
+      if (totalIssue) {
+        rowIssues.push(totalIssue);
+        if (totalIssue.severity === 'error') return null;
       }
 
-      xml += `        <TALLYMESSAGE xmlns:UDF="TallyUDF">\n`;
-      xml += `          <VOUCHER REMOTEID="${invoiceNo || `PI${index + 1}`}" VCHKEY="${this.generateVoucherKey()}" VCHTYPE="Purchase" ACTION="Create" OBJVIEW="Invoice Voucher View">\n`;
-      xml += `            <DATE>${this.formatTallyDate(date)}</DATE>\n`;
-      xml += `            <VOUCHERTYPENAME>Purchase</VOUCHERTYPENAME>\n`;
-      xml += `            <VOUCHERNUMBER>${invoiceNo || `PI${index + 1}`}</VOUCHERNUMBER>\n`;
-      xml += `            <PARTYLEDGERNAME>${supplier}</PARTYLEDGERNAME>\n`;
-      xml += `            <EFFECTIVEDATE>${this.formatTallyDate(date)}</EFFECTIVEDATE>\n`;
-      
-      // Inventory entries
-      xml += `            <ALLINVENTORYENTRIES.LIST>\n`;
-      xml += `              <STOCKITEMNAME>${itemName || 'Purchase Item'}</STOCKITEMNAME>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>Yes</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <ISLASTDEEMEDPOSITIVE>Yes</ISLASTDEEMEDPOSITIVE>\n`;
-      xml += `              <RATE>${rate || (Number(amount) / Number(quantity)).toFixed(2)}/Nos</RATE>\n`;
-      xml += `              <AMOUNT>${amount}</AMOUNT>\n`;
-      xml += `              <ACTUALQTY>${quantity} Nos</ACTUALQTY>\n`;
-      xml += `              <BILLEDQTY>${quantity} Nos</BILLEDQTY>\n`;
-      xml += `            </ALLINVENTORYENTRIES.LIST>\n`;
-      
-      // Ledger entries
-      xml += `            <ALLLEDGERENTRIES.LIST>\n`;
-      xml += `              <LEDGERNAME>${supplier}</LEDGERNAME>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <ISPARTYLEDGER>Yes</ISPARTYLEDGER>\n`;
-      xml += `              <AMOUNT>-${amount}</AMOUNT>\n`;
-      xml += `            </ALLLEDGERENTRIES.LIST>\n`;
-      
-      xml += `            <ALLLEDGERENTRIES.LIST>\n`;
-      xml += `              <LEDGERNAME>Purchase</LEDGERNAME>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>Yes</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <ISPARTYLEDGER>No</ISPARTYLEDGER>\n`;
-      xml += `              <AMOUNT>${amount}</AMOUNT>\n`;
-      xml += `            </ALLLEDGERENTRIES.LIST>\n`;
-      
-      xml += `          </VOUCHER>\n`;
-      xml += `        </TALLYMESSAGE>\n`;
+      voucher.ledgerEntries.push({ ledgerName: head.party, side: partySide, amount: invoiceTotal, isPartyLedger: true });
+
+      // Item lines at a single rate become inventory entries; everything else
+      // is posted to the rate-wise ledgers. Slabs that differ only in cess
+      // share a rate-wise ledger.
+      const taxableByRate = new Map<number, number>();
+      lineData.forEach(line => {
+        const rates = new Set(line.slabs.map(slab => slab.rate));
+        const taxable = roundToPaise(line.slabs.reduce((sum, slab) => sum + slab.taxableAmount, 0));
+
+        if (line.item && rates.size === 1) {
+          inventoryEntries.push({
+            stockItemName: line.item.stockItemName,
+            side: lineSide,
+            quantity: line.item.quantity,
+            unit: line.item.unit,
+            rate: line.item.rate || taxable / line.item.quantity,
+            amount: taxable,
+            batchAllocations: this.batchAllocationsFor(line.item, taxable),
+            accountingAllocations: [{ ledgerName: rateLedgerName(direction, line.slabs[0].rate), side: lineSide, amount: taxable }]
+          });
+          return;
+        }
+
+        line.slabs.forEach(slab => {
+          taxableByRate.set(slab.rate, roundToPaise((taxableByRate.get(slab.rate) || 0) + slab.taxableAmount));
+        });
+      });
+
+      taxableByRate.forEach((taxable, slabRate) => {
+        voucher.ledgerEntries.push({ ledgerName: rateLedgerName(direction, slabRate), side: lineSide, amount: taxable });
+      });
+
+      GST_TAX_HEADS.filter(taxHead => taxes[taxHead]).forEach(taxHead => {
+        voucher.ledgerEntries.push({ ledgerName: dutyLedgerName(direction, taxHead), side: lineSide, amount: taxes[taxHead] });
+      });
+
+      if (roundOff) {
+        voucher.ledgerEntries.push({
+          ledgerName: ROUND_OFF_LEDGER,
+          side: roundOff > 0 ? lineSide : partySide,
+          amount: Math.abs(roundOff)
+        });
+      }
+
+      if (inventoryEntries.length === 0) {
+        voucher.objView = 'Accounting Voucher View';
+      }
+    }
+
+    if (isReturn) {
+      this.applyOriginalInvoice(voucher, head, rowIssues);
+    } else {
+      this.applyBillAllocations(voucher, head.row, head.rowNumber, 'New Ref', rowIssues);
+    }
+
+    const dutyLedgers = GST_TAX_HEADS.map(taxHead => dutyLedgerName(direction, taxHead));
+    this.applyCostCentres(
+      voucher,
+      head.row,
+      head.rowNumber,
+      entry => entry.side === lineSide && entry.ledgerName !== ROUND_OFF_LEDGER && !dutyLedgers.includes(entry.ledgerName),
+      rowIssues
+    );
+
+    const balanceIssue = checkVoucherBalance(voucher, head.rowNumber);
+    if (balanceIssue) {
+      rowIssues.push(balanceIssue);
+      return null;
+    }
+
+    return voucher;
+  }
+
+  // Bill-wise details of the party ledger entry from the row's bill columns.
+  // Rows without bill columns are posted without allocations.
+  private applyBillAllocations(
+    voucher: TallyVoucherXml,
+    row: any,
+    rowNumber: number,
+    defaultBillType: TallyBillType,
+    rowIssues: VoucherIssue[]
+  ): void {
+    const partyEntry = voucher.ledgerEntries.find(entry => entry.isPartyLedger);
+    if (!partyEntry) return;
+
+    const { allocations, issues } = buildBillAllocations(
+      {
+        reference: this.findFieldValue(row, ['bill_ref']),
+        billType: this.findFieldValue(row, ['bill_type']),
+        creditPeriod: this.findFieldValue(row, ['credit_period']),
+        dueDate: this.findFieldValue(row, ['due_date'])
+      },
+      {
+        rowNumber,
+        date: voucher.date,
+        voucherNumber: voucher.voucherNumber,
+        side: partyEntry.side,
+        amount: partyEntry.amount,
+        defaultBillType
+      },
+      this.dateConvention
+    );
+    rowIssues.push(...issues);
+    if (allocations.length > 0) {
+      partyEntry.extra = [...(partyEntry.extra || []), ...allocations.map(billAllocationElement)];
+    }
+  }
+
+  // Cost centre allocations from the row's cost centre columns, on the ledger
+  // entries the predicate selects and on the item lines of the same side.
+  // A split by amount needs a single entry to split.
+  private applyCostCentres(
+    voucher: TallyVoucherXml,
+    row: any,
+    rowNumber: number,
+    isTarget: (entry: TallyLedgerEntryXml) => boolean,
+    rowIssues: VoucherIssue[]
+  ): void {
+    const centres = this.findFieldValue(row, ['cost_centre']);
+    if (!centres) return;
+
+    const ledgerTargets = voucher.ledgerEntries.filter(isTarget);
+    const inventoryTargets = (voucher.inventoryEntries || [])
+      .flatMap(entry => entry.accountingAllocations || [])
+      .filter(allocation => isTarget(allocation));
+    const targets = ledgerTargets.length + inventoryTargets.length;
+    if (targets === 0) return;
+
+    if (targets > 1 && parseCostCentreSplits(centres).some(split => split.amount !== null)) {
+      rowIssues.push({
+        row: rowNumber,
+        field: 'cost_centre',
+        value: centres,
+        message: 'Split by percentage when the voucher has several ledgers to allocate',
+        severity: 'error'
+      });
+      return;
+    }
+
+    const category = this.findFieldValue(row, ['cost_category']);
+    const lookup = (name: string) => ledgerResolverService.findCostCentre(name);
+    let reported = false;
+    const allocate = (amount: number) => {
+      const { allocations, issues } = allocateCostCentres({ centres, category }, { rowNumber, amount }, lookup);
+      if (!reported) rowIssues.push(...issues);
+      reported = true;
+      return allocations;
+    };
+
+    ledgerTargets.forEach(entry => {
+      entry.extra = [...(entry.extra || []), ...costCategoryElements(allocate(entry.amount), entry.side)];
+    });
+    inventoryTargets.forEach(allocation => {
+      allocation.extra = [...(allocation.extra || []), ...costCategoryElements(allocate(allocation.amount), allocation.side)];
     });
+  }
+
+  // Quote the original invoice on a credit or debit note and settle the
+  // note against that bill of the party
+  private applyOriginalInvoice(voucher: TallyVoucherXml, head: InvoiceRow, rowIssues: VoucherIssue[]): void {
+    const originalInvoice = this.findFieldValue(head.row, ['against_invoice']);
+    const originalDate = this.findFieldValue(head.row, ['against_date']);
+    const noteType = voucher.voucherType.toLowerCase();
+
+    if (!originalInvoice) {
+      rowIssues.push({
+        row: head.rowNumber,
+        field: 'against_invoice',
+        value: '',
+        message: `No original invoice number; the ${noteType} will not be adjusted against a bill`,
+        severity: 'warning'
+      });
+      return;
+    }
+
+    voucher.reference = originalInvoice;
+    const partyEntry = voucher.ledgerEntries.find(entry => entry.isPartyLedger);
+    if (partyEntry) {
+      partyEntry.extra = [
+        ...(partyEntry.extra || []),
+        billAllocationElement({ name: originalInvoice, billType: 'Agst Ref', side: partyEntry.side, amount: partyEntry.amount })
+      ];
+    }
+
+    if (!originalDate) return;
+    const result = normalizeDate(originalDate, this.dateConvention);
+    if (!result.date) {
+      rowIssues.push({ row: head.rowNumber, field: 'against_date', value: originalDate, message: `Original invoice date: ${result.error}`, severity: 'warning' });
+      return;
+    }
+
+    const referenceDate = toTallyDate(result.date);
+    if (referenceDate > voucher.date) {
+      rowIssues.push({
+        row: head.rowNumber,
+        field: 'against_date',
+        value: originalDate,
+        message: `Original invoice date ${formatDateParts(result.date)} is after the ${noteType} date`,
+        severity: 'warning'
+      });
+    }
+    voucher.extra = [...(voucher.extra || []), el('REFERENCEDATE', null, referenceDate)];
+  }
 
-    return xml;
+  // Report the required cells a row leaves empty, as the row is skipped
+  private reportMissingFields(rowNumber: number, fields: [string, unknown, string][], rowIssues: VoucherIssue[]): void {
+    const missing = fields.filter(([, value]) => !value);
+    rowIssues.push({
+      row: rowNumber,
+      field: missing[0][0],
+      value: '',
+      message: `Missing ${missing.map(([, , label]) => label).join(', ')}; row skipped`,
+      severity: 'error'
+    });
   }
 
-  private generatePaymentVouchersXML(rows: any[]): string {
-    let xml = '';
-    
+  private buildPaymentVouchers(rows: any[], rowIssues: VoucherIssue[] = []): TallyVoucherXml[] {
+    const vouchers: TallyVoucherXml[] = [];
+
     rows.forEach((row, index) => {
-      const date = this.findFieldValue(row, ['date', 'payment_date']);
+      const rowNumber: number = row._rowNumber || index + 1;
+      const date = this.findFieldCell(row, ['date', 'payment_date']);
       const voucherNo = this.findFieldValue(row, ['voucher_no', 'payment_no', 'reference']);
       const party = this.findFieldValue(row, ['party', 'customer', 'supplier', 'party_name']);
       const amount = this.findFieldValue(row, ['amount', 'payment_amount']);
       const mode = this.findFieldValue(row, ['payment_mode', 'mode']) || 'Cash';
 
       if (!date || !party || !amount) {
-        console.warn(`Skipping row ${index + 1}: Missing required fields`);
+        this.reportMissingFields(rowNumber, [['date', date, 'date'], ['party', party, 'party name'], ['amount', amount, 'amount']], rowIssues);
         return;
       }
 
-      xml += `        <TALLYMESSAGE xmlns:UDF="TallyUDF">\n`;
-      xml += `          <VOUCHER REMOTEID="${voucherNo || `PV${index + 1}`}" VCHKEY="${this.generateVoucherKey()}" VCHTYPE="Payment" ACTION="Create">\n`;
-      xml += `            <DATE>${this.formatTallyDate(date)}</DATE>\n`;
-      xml += `            <VOUCHERTYPENAME>Payment</VOUCHERTYPENAME>\n`;
-      xml += `            <VOUCHERNUMBER>${voucherNo || `PV${index + 1}`}</VOUCHERNUMBER>\n`;
-      xml += `            <EFFECTIVEDATE>${this.formatTallyDate(date)}</EFFECTIVEDATE>\n`;
-      
-      // Ledger entries
-      xml += `            <ALLLEDGERENTRIES.LIST>\n`;
-      xml += `              <LEDGERNAME>${party}</LEDGERNAME>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>Yes</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <ISPARTYLEDGER>Yes</ISPARTYLEDGER>\n`;
-      xml += `              <AMOUNT>${amount}</AMOUNT>\n`;
-      xml += `            </ALLLEDGERENTRIES.LIST>\n`;
-      
-      xml += `            <ALLLEDGERENTRIES.LIST>\n`;
-      xml += `              <LEDGERNAME>${mode === 'Cash' ? 'Cash' : 'Bank'}</LEDGERNAME>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <ISPARTYLEDGER>No</ISPARTYLEDGER>\n`;
-      xml += `              <AMOUNT>-${amount}</AMOUNT>\n`;
-      xml += `            </ALLLEDGERENTRIES.LIST>\n`;
-      
-      xml += `          </VOUCHER>\n`;
-      xml += `        </TALLYMESSAGE>\n`;
+      const tallyDate = this.readTallyDate(date, rowNumber, rowIssues);
+      if (!tallyDate) return;
+
+      const value = this.readAmount(amount, rowNumber, 'amount', rowIssues);
+      if (value === null) return;
+      const voucherNumber = this.readVoucherNumber(voucherNo, rowNumber, 'voucher_no', rowIssues);
+
+      const voucher: TallyVoucherXml = {
+        voucherType: 'Payment',
+        date: tallyDate,
+        voucherNumber,
+        sourceRows: [rowNumber],
+        ledgerEntries: [
+          { ledgerName: this.postingLedger(party, rowNumber, rowIssues), side: 'Dr', amount: value, isPartyLedger: true },
+          { ledgerName: mode === 'Cash' ? 'Cash' : 'Bank', side: 'Cr', amount: value }
+        ]
+      };
+      this.applyBillAllocations(voucher, row, rowNumber, 'Agst Ref', rowIssues);
+      this.applyCostCentres(voucher, row, rowNumber, entry => entry.side === 'Dr', rowIssues);
+      vouchers.push(voucher);
     });
 
-    return xml;
+    return vouchers;
   }
 
-  private generateReceiptVouchersXML(rows: any[]): string {
-    let xml = '';
-    
+  private buildReceiptVouchers(rows: any[], rowIssues: VoucherIssue[] = []): TallyVoucherXml[] {
+    const vouchers: TallyVoucherXml[] = [];
+
     rows.forEach((row, index) => {
-      const date = this.findFieldValue(row, ['date', 'receipt_date']);
+      const rowNumber: number = row._rowNumber || index + 1;
+      const date = this.findFieldCell(row, ['date', 'receipt_date']);
       const voucherNo = this.findFieldValue(row, ['voucher_no', 'receipt_no', 'reference']);
       const party = this.findFieldValue(row, ['party', 'customer', 'party_name']);
       const amount = this.findFieldValue(row, ['amount', 'receipt_amount']);
       const mode = this.findFieldValue(row, ['receipt_mode', 'mode']) || 'Cash';
 
       if (!date || !party || !amount) {
-        console.warn(`Skipping row ${index + 1}: Missing required fields`);
+        this.reportMissingFields(rowNumber, [['date', date, 'date'], ['party', party, 'party name'], ['amount', amount, 'amount']], rowIssues);
         return;
       }
 
-      xml += `        <TALLYMESSAGE xmlns:UDF="TallyUDF">\n`;
-      xml += `          <VOUCHER REMOTEID="${voucherNo || `RV${index + 1}`}" VCHKEY="${this.generateVoucherKey()}" VCHTYPE="Receipt" ACTION="Create">\n`;
-      xml += `            <DATE>${this.formatTallyDate(date)}</DATE>\n`;
-      xml += `            <VOUCHERTYPENAME>Receipt</VOUCHERTYPENAME>\n`;
-      xml += `            <VOUCHERNUMBER>${voucherNo || `RV${index + 1}`}</VOUCHERNUMBER>\n`;
-      xml += `            <EFFECTIVEDATE>${this.formatTallyDate(date)}</EFFECTIVEDATE>\n`;
-      
-      xml += `            <ALLLEDGERENTRIES.LIST>\n`;
-      xml += `              <LEDGERNAME>${mode === 'Cash' ? 'Cash' : 'Bank'}</LEDGERNAME>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>Yes</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <ISPARTYLEDGER>No</ISPARTYLEDGER>\n`;
-      xml += `              <AMOUNT>${amount}</AMOUNT>\n`;
-      xml += `            </ALLLEDGERENTRIES.LIST>\n`;
-      
-      xml += `            <ALLLEDGERENTRIES.LIST>\n`;
-      xml += `              <LEDGERNAME>${party}</LEDGERNAME>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <ISPARTYLEDGER>Yes</ISPARTYLEDGER>\n`;
-      xml += `              <AMOUNT>-${amount}</AMOUNT>\n`;
-      xml += `            </ALLLEDGERENTRIES.LIST>\n`;
-      
-      xml += `          </VOUCHER>\n`;
-      xml += `        </TALLYMESSAGE>\n`;
+      const tallyDate = this.readTallyDate(date, rowNumber, rowIssues);
+      if (!tallyDate) return;
+
+      const value = this.readAmount(amount, rowNumber, 'amount', rowIssues);
+      if (value === null) return;
+      const voucherNumber = this.readVoucherNumber(voucherNo, rowNumber, 'voucher_no', rowIssues);
+
+      const voucher: TallyVoucherXml = {
+        voucherType: 'Receipt',
+        date: tallyDate,
+        voucherNumber,
+        sourceRows: [rowNumber],
+        ledgerEntries: [
+          { ledgerName: mode === 'Cash' ? 'Cash' : 'Bank', side: 'Dr', amount: value },
+          { ledgerName: this.postingLedger(party, rowNumber, rowIssues), side: 'Cr', amount: value, isPartyLedger: true }
+        ]
+      };
+      this.applyBillAllocations(voucher, row, rowNumber, 'Agst Ref', rowIssues);
+      vouchers.push(voucher);
     });
 
-    return xml;
+    return vouchers;
   }
 
-  private generateJournalVouchersXML(rows: any[]): string {
-    let xml = '';
-    
+  private buildJournalVouchers(rows: any[], rowIssues: VoucherIssue[] = []): TallyVoucherXml[] {
+    const vouchers: TallyVoucherXml[] = [];
+
     rows.forEach((row, index) => {
-      const date = this.findFieldValue(row, ['date', 'journal_date']);
+      const rowNumber: number = row._rowNumber || index + 1;
+      const date = this.findFieldCell(row, ['date', 'journal_date']);
       const voucherNo = this.findFieldValue(row, ['voucher_no', 'journal_no']);
       const drLedger = this.findFieldValue(row, ['dr_ledger', 'debit_account', 'debit_ledger']);
       const crLedger = this.findFieldValue(row, ['cr_ledger', 'credit_account', 'credit_ledger']);
@@ -1173,139 +2093,174 @@ class TallySyncService {
       const narration = this.findFieldValue(row, ['narration', 'description', 'particulars']);
 
       if (!date || !drLedger || !crLedger || !amount) {
-        console.warn(`Skipping row ${index + 1}: Missing required fields`);
+        this.reportMissingFields(rowNumber, [
+          ['date', date, 'date'], ['dr_ledger', drLedger, 'debit ledger'], ['cr_ledger', crLedger, 'credit ledger'], ['amount', amount, 'amount']
+        ], rowIssues);
         return;
       }
 
-      xml += `        <TALLYMESSAGE xmlns:UDF="TallyUDF">\n`;
-      xml += `          <VOUCHER REMOTEID="${voucherNo || `JV${index + 1}`}" VCHKEY="${this.generateVoucherKey()}" VCHTYPE="Journal" ACTION="Create">\n`;
-      xml += `            <DATE>${this.formatTallyDate(date)}</DATE>\n`;
-      xml += `            <VOUCHERTYPENAME>Journal</VOUCHERTYPENAME>\n`;
-      xml += `            <VOUCHERNUMBER>${voucherNo || `JV${index + 1}`}</VOUCHERNUMBER>\n`;
-      xml += `            <EFFECTIVEDATE>${this.formatTallyDate(date)}</EFFECTIVEDATE>\n`;
-      if (narration) {
-        xml += `            <NARRATION>${narration}</NARRATION>\n`;
-      }
-      
-      xml += `            <ALLLEDGERENTRIES.LIST>\n`;
-      xml += `              <LEDGERNAME>${drLedger}</LEDGERNAME>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>Yes</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <AMOUNT>${amount}</AMOUNT>\n`;
-      xml += `            </ALLLEDGERENTRIES.LIST>\n`;
-      
-      xml += `            <ALLLEDGERENTRIES.LIST>\n`;
-      xml += `              <LEDGERNAME>${crLedger}</LEDGERNAME>\n`;
-      xml += `              <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>\n`;
-      xml += `              <AMOUNT>-${amount}</AMOUNT>\n`;
-      xml += `            </ALLLEDGERENTRIES.LIST>\n`;
-      
-      xml += `          </VOUCHER>\n`;
-      xml += `        </TALLYMESSAGE>\n`;
+      const tallyDate = this.readTallyDate(date, rowNumber, rowIssues);
+      if (!tallyDate) return;
+
+      const value = this.readAmount(amount, rowNumber, 'amount', rowIssues);
+      if (value === null) return;
+      const voucherNumber = this.readVoucherNumber(voucherNo, rowNumber, 'voucher_no', rowIssues);
+
+      const voucher: TallyVoucherXml = {
+        voucherType: 'Journal',
+        date: tallyDate,
+        voucherNumber,
+        sourceRows: [rowNumber],
+        narration: narration || undefined,
+        ledgerEntries: [
+          { ledgerName: this.postingLedger(drLedger, rowNumber, rowIssues, 'dr_ledger'), side: 'Dr', amount: value },
+          { ledgerName: this.postingLedger(crLedger, rowNumber, rowIssues, 'cr_ledger'), side: 'Cr', amount: value }
+        ]
+      };
+      this.applyCostCentres(voucher, row, rowNumber, entry => entry.side === 'Dr', rowIssues);
+      vouchers.push(voucher);
     });
 
-    return xml;
+    return vouchers;
   }
 
-  private generateLedgerMastersXML(rows: any[]): string {
-    let xml = '';
-    
+  // Contra vouchers move money between cash and bank ledgers: cash deposits,
+  // withdrawals and transfers between the company's bank accounts. Ledgers
+  // Tally lists under another group are reported and the row is skipped.
+  private buildContraVouchers(rows: any[], rowIssues: VoucherIssue[] = []): TallyVoucherXml[] {
+    const vouchers: TallyVoucherXml[] = [];
+
     rows.forEach((row, index) => {
-      const name = this.findFieldValue(row, ['name', 'ledger_name', 'account_name']);
-      const group = this.findFieldValue(row, ['group', 'ledger_group', 'parent_group']) || 'Sundry Debtors';
-      const openingBalance = this.findFieldValue(row, ['opening_balance', 'opening']) || '0';
-      const address = this.findFieldValue(row, ['address', 'ledger_address']);
-      const phone = this.findFieldValue(row, ['phone', 'mobile', 'contact']);
-
-      if (!name) {
-        console.warn(`Skipping row ${index + 1}: Missing ledger name`);
+      const rowNumber: number = row._rowNumber || index + 1;
+      const date = this.findFieldCell(row, ['date']);
+      const voucherNo = this.findFieldValue(row, ['voucher_no']);
+      const drLedger = this.findFieldValue(row, ['dr_ledger']);
+      const crLedger = this.findFieldValue(row, ['cr_ledger']);
+      const amount = this.findFieldValue(row, ['amount']);
+      const parsed = parseAmount(amount);
+      const value = parsed === null ? NaN : roundToPaise(parsed);
+
+      const missing = ([['date', date, 'date'], ['dr_ledger', drLedger, 'debit ledger'], ['cr_ledger', crLedger, 'credit ledger'], ['amount', amount, 'amount']] as const)
+        .filter(([, value]) => !value);
+      if (missing.length > 0) {
+        rowIssues.push({
+          row: rowNumber,
+          field: missing[0][0],
+          value: '',
+          message: `Missing ${missing.map(([, , label]) => label).join(', ')}; row skipped`,
+          severity: 'error'
+        });
         return;
       }
-
-      xml += `        <TALLYMESSAGE xmlns:UDF="TallyUDF">\n`;
-      xml += `          <LEDGER NAME="${name}" RESERVEDNAME="">\n`;
-      xml += `            <OLDAUDITENTRYIDS.LIST TYPE="Number">\n`;
-      xml += `              <OLDAUDITENTRYIDS>-1</OLDAUDITENTRYIDS>\n`;
-      xml += `            </OLDAUDITENTRYIDS.LIST>\n`;
-      xml += `            <GUID>${this.generateGUID()}</GUID>\n`;
-      xml += `            <PARENT>${group}</PARENT>\n`;
-      xml += `            <NAME>${name}</NAME>\n`;
-      if (address) {
-        xml += `            <ADDRESS.LIST>\n`;
-        xml += `              <ADDRESS>${address}</ADDRESS>\n`;
-        xml += `            </ADDRESS.LIST>\n`;
-      }
-      if (phone) {
-        xml += `            <PHONE>${phone}</PHONE>\n`;
+      if (!(value > 0)) {
+        rowIssues.push({ row: rowNumber, field: 'amount', value: String(amount), message: 'Amount must be a positive number; row skipped', severity: 'error' });
+        return;
       }
-      xml += `            <OPENINGBALANCE>${openingBalance}</OPENINGBALANCE>\n`;
-      xml += `            <ISBILLWISEON>No</ISBILLWISEON>\n`;
-      xml += `            <ISCOSTCENTRESON>No</ISCOSTCENTRESON>\n`;
-      xml += `          </LEDGER>\n`;
-      xml += `        </TALLYMESSAGE>\n`;
-    });
 
-    return xml;
-  }
-
-  private generateStockItemsXML(rows: any[]): string {
-    let xml = '';
-    
-    rows.forEach((row, index) => {
-      const name = this.findFieldValue(row, ['name', 'item_name', 'stock_name']);
-      const unit = this.findFieldValue(row, ['unit', 'uom', 'unit_of_measure']) || 'Nos';
-      const rate = this.findFieldValue(row, ['rate', 'unit_price', 'price']) || '0';
-      const group = this.findFieldValue(row, ['group', 'stock_group']) || 'Primary';
+      const tallyDate = this.readTallyDate(date, rowNumber, rowIssues);
+      if (!tallyDate) return;
 
-      if (!name) {
-        console.warn(`Skipping row ${index + 1}: Missing stock item name`);
+      const debit = this.postingLedger(drLedger!, rowNumber, rowIssues, 'dr_ledger');
+      const credit = this.postingLedger(crLedger!, rowNumber, rowIssues, 'cr_ledger');
+      if (debit.trim().toLowerCase() === credit.trim().toLowerCase()) {
+        rowIssues.push({ row: rowNumber, field: 'cr_ledger', value: credit, message: 'Debit and credit ledger are the same; row skipped', severity: 'error' });
         return;
       }
 
-      xml += `        <TALLYMESSAGE xmlns:UDF="TallyUDF">\n`;
-      xml += `          <STOCKITEM NAME="${name}" RESERVEDNAME="">\n`;
-      xml += `            <OLDAUDITENTRYIDS.LIST TYPE="Number">\n`;
-      xml += `              <OLDAUDITENTRYIDS>-1</OLDAUDITENTRYIDS>\n`;
-      xml += `            </OLDAUDITENTRYIDS.LIST>\n`;
-      xml += `            <GUID>${this.generateGUID()}</GUID>\n`;
-      xml += `            <PARENT>${group}</PARENT>\n`;
-      xml += `            <NAME>${name}</NAME>\n`;
-      xml += `            <BASEUNITS>${unit}</BASEUNITS>\n`;
-      xml += `            <RATEOFPURCHASE>${rate}</RATEOFPURCHASE>\n`;
-      xml += `            <RATEOFSALE>${rate}</RATEOFSALE>\n`;
-      xml += `            <GSTDETAILS.LIST>\n`;
-      xml += `              <APPLICABLEFROM>20170701</APPLICABLEFROM>\n`;
-      xml += `              <CALCULATIONTYPE>On Value</CALCULATIONTYPE>\n`;
-      xml += `            </GSTDETAILS.LIST>\n`;
-      xml += `          </STOCKITEM>\n`;
-      xml += `        </TALLYMESSAGE>\n`;
+      const invalid = [{ field: 'dr_ledger', name: debit }, { field: 'cr_ledger', name: credit }]
+        .filter(side => ledgerResolverService.isCashOrBankLedger(side.name) === false);
+      invalid.forEach(side => rowIssues.push({
+        row: rowNumber,
+        field: side.field,
+        value: side.name,
+        message: `${side.name} is not a cash or bank ledger; use a payment, receipt or journal voucher instead`,
+        severity: 'error'
+      }));
+      if (invalid.length > 0) return;
+
+      vouchers.push({
+        voucherType: 'Contra',
+        date: tallyDate,
+        voucherNumber: this.readVoucherNumber(voucherNo, rowNumber, 'voucher_no', rowIssues),
+        sourceRows: [rowNumber],
+        narration: this.findFieldValue(row, ['narration']) || undefined,
+        ledgerEntries: [
+          { ledgerName: debit, side: 'Dr', amount: value },
+          { ledgerName: credit, side: 'Cr', amount: value }
+        ]
+      });
     });
 
-    return xml;
+    return vouchers;
   }
 
-  private generateGeneralVouchersXML(rows: any[], templateType: string): string {
-    // Generic voucher generation for unknown types
-    let xml = '';
-    
+  // Ledger masters from the ledger template. Rows are validated against the
+  // company's groups (or Tally's predefined groups until they are fetched);
+  // rows with errors are skipped and reported in rowIssues.
+  private buildLedgerMasters(rows: any[], rowIssues: VoucherIssue[] = []): TallyLedgerMasterXml[] {
+    const groups = ledgerResolverService.getGroupNames();
+    const records: LedgerMasterRecord[] = [];
+
     rows.forEach((row, index) => {
-      xml += `        <TALLYMESSAGE xmlns:UDF="TallyUDF">\n`;
-      xml += `          <!-- Row ${index + 1}: ${JSON.stringify(row).substring(0, 100)}... -->\n`;
-      xml += `          <VOUCHER REMOTEID="GV${index + 1}" VCHKEY="${this.generateVoucherKey()}" VCHTYPE="Journal" ACTION="Create">\n`;
-      xml += `            <DATE>${this.formatTallyDate(new Date())}</DATE>\n`;
-      xml += `            <VOUCHERTYPENAME>Journal</VOUCHERTYPENAME>\n`;
-      xml += `            <VOUCHERNUMBER>GV${index + 1}</VOUCHERNUMBER>\n`;
-      xml += `            <NARRATION>Imported from ${templateType} template</NARRATION>\n`;
-      xml += `          </VOUCHER>\n`;
-      xml += `        </TALLYMESSAGE>\n`;
+      const values = Object.values(row).filter(value => value !== '' && value !== null && value !== undefined);
+      if (values.length <= 1) return; // Only _rowNumber
+
+      const { record, issues } = readLedgerMasterRow(
+        key => this.findFieldValue(row, [key]),
+        row._rowNumber || index + 1,
+        groups.length > 0 ? groups : PREDEFINED_LEDGER_GROUPS
+      );
+      rowIssues.push(...issues);
+      if (record) records.push(record);
     });
 
-    return xml;
+    const duplicates = duplicateLedgerIssues(records);
+    rowIssues.push(...duplicates);
+
+    return records
+      .filter(record => !duplicates.some(issue => issue.row === record.rowNumber))
+      .map(record => ({ ...ledgerMasterFromRecord(record), guid: this.generateGUID('ledger', record.name) }));
+  }
+
+  // Stock item masters from the stock item template. Rows naming an item
+  // again add opening stock in another godown or batch; rows with errors
+  // are skipped and reported in rowIssues.
+  private buildStockItemMasters(rows: any[], rowIssues: VoucherIssue[] = []): TallyStockItemMasterXml[] {
+    const { records, issues } = readStockItemRows(
+      rows
+        .map((row, index) => ({ row, rowNumber: row._rowNumber || index + 1 }))
+        .filter(({ row }) => Object.values(row).filter(value => value !== '' && value !== null && value !== undefined).length > 1)
+        .map(({ row, rowNumber }) => ({ read: (key: string) => this.findFieldValue(row, [key]), rowNumber })),
+      this.dateConvention
+    );
+    rowIssues.push(...issues);
+
+    return records.map(record => ({ ...stockItemMasterFromRecord(record), guid: this.generateGUID('stockitem', record.name) }));
+  }
+
+  private buildGeneralVouchers(rows: any[], templateType: string): TallyVoucherXml[] {
+    // Generic voucher generation for unknown types
+    return rows.map((row, index) => ({
+      voucherType: 'Journal',
+      date: toTallyDate(new Date()),
+      voucherNumber: '',
+      sourceRows: [row._rowNumber || index + 1],
+      narration: `Imported from ${templateType} template`,
+      ledgerEntries: []
+    }));
   }
 
   /**
-   * Sync XML data directly to Tally ERP via desktop app
+   * Sync XML data directly to Tally ERP via desktop app. When the desktop
+   * app relays Tally's response, it is parsed into per-voucher results.
+   * Masters envelopes are imported first, in order, and the vouchers are
+   * only sent once every master was accepted.
    */
-  async syncToTally(xmlContent: string): Promise<{ success: boolean; message: string }> {
+  async syncToTally(xmlContent: string, submitted: SubmittedVoucher[] = [], mastersXml: string[] = []): Promise<{
+    success: boolean;
+    message: string;
+    importResult?: TallyImportResult;
+  }> {
     try {
       // Check if local backend (desktop app) is available
       const relayStatus = await this.checkRelayConnection();
@@ -1317,40 +2272,49 @@ class TallySyncService {
         };
       }
 
-      // Send XML to local Tally backend
-      const response = await fetch(`${this.baseUrl}/tally/sync`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          xmlData: xmlContent,
-          userId: this.userId,
-          timestamp: new Date().toISOString()
-        })
-      });
+      let mastersCreated = 0;
+      for (const masters of mastersXml) {
+        const mastersResult = await this.postToDesktopApp(masters);
+        if (!mastersResult.success) {
+          return { success: false, message: `Could not create masters: ${mastersResult.message}` };
+        }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        return {
-          success: false,
-          message: errorData.message || `Sync failed with status ${response.status}`
-        };
+        if (typeof mastersResult.tallyResponse === 'string') {
+          const summary = parseTallyResponse(mastersResult.tallyResponse);
+          if (summary.errors + summary.exceptions > 0) {
+            const reason = summary.lineErrors.join('; ') || `${summary.errors + summary.exceptions} master(s) were rejected`;
+            return { success: false, message: `Could not create masters: ${reason}. No vouchers were sent.` };
+          }
+          mastersCreated += summary.created + summary.altered;
+        }
       }
+      const mastersNote = mastersCreated > 0 ? ` after creating ${mastersCreated} master(s)` : '';
+
+      // Send XML to local Tally backend
+      const result = await this.postToDesktopApp(xmlContent);
+      if (!result.success) {
+        return { success: false, message: result.message };
+      }
+
+      const tallyResponse = result.tallyResponse;
+      if (typeof tallyResponse === 'string') {
+        const importResult = buildImportResult(tallyResponse, submitted);
+        saveLastImportResult(importResult);
+        recordPushedVouchers(importedVoucherIdentities(submitted, importResult));
 
-      const result = await response.json();
-      
-      if (result.success) {
-        return {
-          success: true,
-          message: 'Data successfully synced to Tally ERP'
-        };
-      } else {
         return {
-          success: false,
-          message: result.message || 'Failed to sync data to Tally'
+          success: importResult.success,
+          message: importResult.failed > 0
+            ? `Imported ${importResult.imported} voucher(s)${mastersNote}; ${importResult.failed} failed`
+            : `Imported ${importResult.imported} voucher(s) to Tally ERP${mastersNote}`,
+          importResult
         };
       }
+      
+      return {
+        success: true,
+        message: `Data successfully synced to Tally ERP${mastersNote}`
+      };
 
     } catch (error) {
       console.error('Tally sync error:', error);
@@ -1360,6 +2324,44 @@ class TallySyncService {
       };
     }
   }
+
+  // Post one XML envelope to Tally through the desktop app
+  private async postToDesktopApp(xmlContent: string): Promise<{
+    success: boolean;
+    message: string;
+    tallyResponse?: string;
+  }> {
+    const response = await fetch(`${this.baseUrl}/tally/sync`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        xmlData: xmlContent,
+        userId: this.userId,
+        timestamp: new Date().toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return {
+        success: false,
+        message: errorData.message || `Sync failed with status ${response.status}`
+      };
+    }
+
+    const result = await response.json();
+    if (!result.success) {
+      return { success: false, message: result.message || 'Failed to sync data to Tally' };
+    }
+
+    return {
+      success: true,
+      message: result.message || '',
+      tallyResponse: result.tallyResponse ?? result.data?.tallyResponse
+    };
+  }
 }
 
 // Create and export a singleton instance
@@ -30,6 +30,7 @@ class RealTimeDataService extends EventEmitter {
     this.dataStreams = new Map();
     this.syncQueue = [];
     this.conflictResolver = null;
+    this.knownLedgers = null; // Normalised ledger names from Tally, null until loaded
     
     this.config = {
       wsPort: 3001,
@@ -459,6 +460,10 @@ class RealTimeDataService extends EventEmitter {
           }));
           break;
 
+        case 'ledgers':
+          this.setKnownLedgers(data.payload);
+          break;
+
         case 'ping':
           connection.ws.send(JSON.stringify({
             type: 'pong',
@@ -489,9 +494,21 @@ class RealTimeDataService extends EventEmitter {
     return null;
   }
 
+  normalizeLedgerName(name) {
+    return String(name || '')
+      .toUpperCase()
+      .replace(/^\s*(M\s*\/\s*S|MESSRS)\b\.?/, '')
+      .replace(/[^A-Z0-9&]+/g, '');
+  }
+
+  setKnownLedgers(ledgerNames) {
+    this.knownLedgers = new Set((ledgerNames || []).map(name => this.normalizeLedgerName(name)));
+  }
+
   async checkLedgerExists(ledgerName) {
-    // Implementation would check Tally for existing ledger
-    return true;
+    // Without a ledger list from Tally nothing can be flagged as missing
+    if (!this.knownLedgers || this.knownLedgers.size === 0) return true;
+    return this.knownLedgers.has(this.normalizeLedgerName(ledgerName));
   }
 
   async checkDateRangeConflict(date) {
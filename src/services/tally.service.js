@@ -786,6 +786,18 @@ class TallyService extends EventEmitter {
           if (!master.Parent) {
             masterErrors.push('Parent group is required');
           }
+          if (master.GSTIN && !this.isValidGstin(master.GSTIN)) {
+            masterErrors.push(`GSTIN ${master.GSTIN} is invalid`);
+          }
+          if (master.PAN && !/^[A-Z]{5}\d{4}[A-Z]$/.test(String(master.PAN).trim().toUpperCase())) {
+            masterErrors.push(`PAN ${master.PAN} is invalid`);
+          }
+          if (master.OpeningBalance !== undefined && master.OpeningBalance !== '' && isNaN(Number(master.OpeningBalance))) {
+            masterErrors.push('Opening balance must be a number');
+          }
+          if (master.CreditPeriod !== undefined && master.CreditPeriod !== '' && !/^\d+$/.test(String(master.CreditPeriod).trim())) {
+            masterErrors.push('Credit period must be a number of days');
+          }
           break;
           
         case 'stockItems':
@@ -819,6 +831,26 @@ class TallyService extends EventEmitter {
     };
   }
   
+  /**
+   * Validate GSTIN format and check character. Keep in sync with
+   * gstinCheckCharacter in frontend/src/lib/ledgerMaster.ts, which the
+   * renderer uses to validate the same sheets before they reach here.
+   */
+  isValidGstin(gstin) {
+    const charset = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+    const value = String(gstin).trim().toUpperCase();
+    if (!/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(value)) {
+      return false;
+    }
+    
+    let sum = 0;
+    for (let i = 0; i < 14; i++) {
+      const product = charset.indexOf(value[i]) * (i % 2 === 0 ? 1 : 2);
+      sum += Math.floor(product / 36) + (product % 36);
+    }
+    return charset[(36 - (sum % 36)) % 36] === value[14];
+  }
+  
   // ================================================================
   // QUERY BUILDERS
   // ================================================================
@@ -1239,6 +1271,14 @@ class TallyService extends EventEmitter {
           warnings.push(`Row ${voucherIndex}: Negative amount for ${voucher.voucherType}`);
         }
 
+        // Balance validation: signed ledger amounts (Dr negative, Cr positive) must net to zero
+        if (Array.isArray(voucher.ledgerEntries) && voucher.ledgerEntries.length > 0) {
+          const net = voucher.ledgerEntries.reduce((sum, entry) => sum + (parseFloat(entry.amount) || 0), 0);
+          if (Math.abs(net) > 0.01) {
+            errors.push(`Row ${voucherIndex}: Debit and credit totals differ by ${Math.abs(net).toFixed(2)}`);
+          }
+        }
+
         // Business logic validations
         if (voucher.voucherType === 'Sales' && amount < 0) {
           errors.push(`Row ${voucherIndex}: Sales voucher cannot have negative amount`);